@@ -16,13 +16,17 @@ function LoginForm() {
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
   const [error, setError] = useState('')
+  const [notice, setNotice] = useState('')
   const [loading, setLoading] = useState(false)
 
   useEffect(() => {
     const errorParam = searchParams.get('error')
-    if (errorParam === 'invalid_token') {
+    if (errorParam === 'invalid_token' || errorParam === 'session_expired') {
       setError('Your session has expired. Please login again.')
     }
+    if (searchParams.get('reset') === 'success') {
+      setNotice('Your password has been reset. Please login with your new password.')
+    }
   }, [searchParams])
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -146,6 +150,11 @@ function LoginForm() {
                 {error}
               </div>
             )}
+            {notice && !error && (
+              <div className="p-3 text-sm text-white/90 bg-white/10 border border-white/20 rounded-sm">
+                {notice}
+              </div>
+            )}
             
             <div className="space-y-2">
                 <label htmlFor="email" className="text-sm font-medium text-white/90">
@@ -163,9 +172,17 @@ function LoginForm() {
             </div>
 
             <div className="space-y-2">
+              <div className="flex items-center justify-between">
                 <label htmlFor="password" className="text-sm font-medium text-white/90">
-                Password
-              </label>
+                  Password
+                </label>
+                <Link
+                  href={email ? `/reset-password?email=${encodeURIComponent(email)}` : '/reset-password'}
+                  className="text-xs text-white/70 hover:text-white hover:underline"
+                >
+                  Forgot password?
+                </Link>
+              </div>
               <Input
                 id="password"
                 type="password"
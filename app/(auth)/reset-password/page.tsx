@@ -0,0 +1,275 @@
+'use client'
+
+import { useState, Suspense } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  InputOTP,
+  InputOTPGroup,
+  InputOTPSeparator,
+  InputOTPSlot,
+} from '@/components/ui/input-otp'
+
+// Force dynamic rendering to prevent prerendering errors with useSearchParams
+export const dynamic = 'force-dynamic'
+
+function ResetPasswordForm() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const [step, setStep] = useState<'request' | 'reset'>('request')
+  const [email, setEmail] = useState(searchParams.get('email') || '')
+  const [otp, setOtp] = useState('')
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [error, setError] = useState('')
+  const [notice, setNotice] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  const requestCode = async () => {
+    setError('')
+    setLoading(true)
+
+    try {
+      const response = await fetch('/api/auth/request-reset', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to send reset code. Please try again.')
+        return
+      }
+
+      setNotice(`If an account exists for ${email}, we've sent it a 6-digit code. It expires in ${data.expiresIn || 10} minutes.`)
+      setStep('reset')
+    } catch (err) {
+      console.error('Request reset error:', err)
+      setError('An error occurred. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault()
+    await requestCode()
+  }
+
+  const handleReset = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    if (otp.length !== 6) {
+      setError('Please enter the 6-digit code')
+      return
+    }
+    if (password.length < 6) {
+      setError('Password must be at least 6 characters')
+      return
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match')
+      return
+    }
+
+    setLoading(true)
+    try {
+      const response = await fetch('/api/auth/confirm-reset', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email, otp, password }),
+        credentials: 'include',
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to reset password. Please try again.')
+        setLoading(false)
+        return
+      }
+
+      router.push('/login?reset=success')
+    } catch (err) {
+      console.error('Confirm reset error:', err)
+      setError('An error occurred. Please try again.')
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-lg font-semibold text-center">
+            Reset Your Password
+          </CardTitle>
+          <CardDescription className="text-center">
+            {step === 'request'
+              ? "Enter your account email and we'll send you a reset code"
+              : notice}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {step === 'request' ? (
+            <form onSubmit={handleRequest} className="space-y-4">
+              {error && (
+                <div className="p-3 text-sm text-destructive-foreground bg-destructive/20 border border-destructive rounded-sm">
+                  {error}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <label htmlFor="email" className="text-sm font-medium">
+                  Email
+                </label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="name@iiitg.ac.in"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                />
+              </div>
+
+              <Button type="submit" disabled={loading} className="w-full">
+                {loading ? 'Sending...' : 'Send Reset Code'}
+              </Button>
+
+              <div className="text-center text-sm text-muted-foreground">
+                Remembered it?{' '}
+                <Link href="/login" className="text-primary hover:underline font-medium">
+                  Back to login
+                </Link>
+              </div>
+            </form>
+          ) : (
+            <form onSubmit={handleReset} className="space-y-4">
+              {error && (
+                <div className="p-3 text-sm text-destructive-foreground bg-destructive/20 border border-destructive rounded-sm">
+                  {error}
+                </div>
+              )}
+
+              <div className="flex justify-center">
+                <InputOTP
+                  maxLength={6}
+                  value={otp}
+                  onChange={(value) => {
+                    setOtp(value)
+                    setError('')
+                  }}
+                >
+                  <InputOTPGroup>
+                    <InputOTPSlot index={0} />
+                    <InputOTPSlot index={1} />
+                    <InputOTPSlot index={2} />
+                  </InputOTPGroup>
+                  <InputOTPSeparator />
+                  <InputOTPGroup>
+                    <InputOTPSlot index={3} />
+                    <InputOTPSlot index={4} />
+                    <InputOTPSlot index={5} />
+                  </InputOTPGroup>
+                </InputOTP>
+              </div>
+
+              <div className="space-y-2">
+                <label htmlFor="password" className="text-sm font-medium">
+                  New Password
+                </label>
+                <Input
+                  id="password"
+                  type="password"
+                  placeholder="At least 6 characters"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label htmlFor="confirmPassword" className="text-sm font-medium">
+                  Confirm New Password
+                </label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  placeholder="Repeat your new password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                />
+              </div>
+
+              <Button
+                type="submit"
+                disabled={loading || otp.length !== 6}
+                className="w-full"
+              >
+                {loading ? 'Resetting...' : 'Reset Password'}
+              </Button>
+
+              <p className="text-center text-xs text-muted-foreground">
+                Resetting your password signs you out on all devices.
+              </p>
+
+              <div className="text-center space-y-2">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={requestCode}
+                  disabled={loading}
+                  className="text-sm"
+                >
+                  Didn't receive code? Resend
+                </Button>
+                <div>
+                  <Button
+                    type="button"
+                    variant="link"
+                    onClick={() => {
+                      setStep('request')
+                      setOtp('')
+                      setError('')
+                    }}
+                    className="text-sm"
+                  >
+                    ← Use a different email
+                  </Button>
+                </div>
+              </div>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen flex items-center justify-center px-4">
+        <Card className="w-full max-w-md">
+          <CardContent className="pt-6">
+            <div className="text-center text-muted-foreground">Loading...</div>
+          </CardContent>
+        </Card>
+      </div>
+    }>
+      <ResetPasswordForm />
+    </Suspense>
+  )
+}
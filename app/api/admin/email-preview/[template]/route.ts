@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server'
+import { getCurrentUser, isAdmin } from '@/lib/auth'
+import {
+  EMAIL_LOCALES,
+  emailTemplates,
+  EmailFooterLinks,
+  EmailTemplateData,
+  getTemplateLocales,
+  isEmailTemplateName,
+  renderEmail,
+  resolveEmailLocale,
+} from '@/lib/email-templates'
+
+// Force dynamic rendering since this route uses cookies for authentication
+export const dynamic = 'force-dynamic'
+
+// Footer links are per-recipient, so previews show placeholders
+const PREVIEW_LINKS: EmailFooterLinks = {
+  oneClickUnsubscribeUrl: 'https://example.com/api/email/unsubscribe?token=preview',
+  unsubscribeUrl: 'https://example.com/email-preferences?token=preview&action=unsubscribe',
+  pauseUrl: 'https://example.com/email-preferences?token=preview&action=pause',
+  preferencesUrl: 'https://example.com/email-preferences?token=preview',
+}
+
+/**
+ * GET /api/admin/email-preview/{template}
+ * Render an email template with its fixture data (admins only - see ADMIN_EMAILS)
+ *
+ * Query Parameters:
+ * - locale (optional): Locale to render (default: en; unsupported locales fall back to en)
+ * - format (optional): html (default) returns the page itself, text the plain-text body,
+ *   json the subject, both bodies and the template's locales
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ template: string }> }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+    }
+
+    const { template } = await params
+    if (!isEmailTemplateName(template)) {
+      return NextResponse.json(
+        { error: `Unknown email template: ${template}`, templates: Object.keys(emailTemplates) },
+        { status: 404 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const format = searchParams.get('format') || 'html'
+    if (!['html', 'text', 'json'].includes(format)) {
+      return NextResponse.json({ error: 'format must be html, text or json' }, { status: 400 })
+    }
+    const locale = resolveEmailLocale(searchParams.get('locale'))
+
+    const data = { ...emailTemplates[template].fixture, links: PREVIEW_LINKS } as EmailTemplateData<typeof template>
+    const email = renderEmail(template, data, locale)
+
+    if (format === 'html') {
+      return new NextResponse(email.html, { headers: { 'Content-Type': 'text/html; charset=utf-8' } })
+    }
+    if (format === 'text') {
+      return new NextResponse(`Subject: ${email.subject}\n\n${email.text}`, {
+        headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+      })
+    }
+
+    return NextResponse.json({
+      template,
+      description: emailTemplates[template].description,
+      locale,
+      availableLocales: getTemplateLocales(template),
+      supportedLocales: EMAIL_LOCALES,
+      ...email,
+    })
+  } catch (error: any) {
+    console.error('Error rendering email preview:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to render email preview' },
+      { status: 500 }
+    )
+  }
+}
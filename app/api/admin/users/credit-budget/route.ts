@@ -0,0 +1,120 @@
+import { NextResponse } from 'next/server'
+import { getCurrentUser, isAdmin } from '@/lib/auth'
+import connectDB from '@/lib/db'
+import User from '@/models/User'
+import { getCreditBudgetStatus } from '@/lib/services/credit-budgets'
+import { userCreditBudgetSchema } from '@/lib/validators'
+
+// Force dynamic rendering since this route uses cookies for authentication
+export const dynamic = 'force-dynamic'
+
+async function requireAdmin(): Promise<NextResponse | null> {
+  const user = await getCurrentUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!isAdmin(user)) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+  return null
+}
+
+/**
+ * GET /api/admin/users/credit-budget
+ * A user's credit budget and how much of it is used today and this month (admins only)
+ *
+ * Query Parameters:
+ * - email: The user's email
+ */
+export async function GET(request: Request) {
+  try {
+    const denied = await requireAdmin()
+    if (denied) return denied
+
+    const { searchParams } = new URL(request.url)
+    const email = searchParams.get('email')?.trim().toLowerCase()
+    if (!email) {
+      return NextResponse.json({ error: 'email is required' }, { status: 400 })
+    }
+
+    await connectDB()
+    const user = await User.findOne({ email }).select('email creditBudget').lean()
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    const status = await getCreditBudgetStatus(user._id.toString())
+
+    return NextResponse.json({
+      email: user.email,
+      creditBudget: {
+        daily: user.creditBudget?.daily ?? null,
+        monthly: user.creditBudget?.monthly ?? null,
+      },
+      usage: status.user,
+    })
+  } catch (error: any) {
+    console.error('Error fetching user credit budget:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch credit budget' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/admin/users/credit-budget
+ * Set a user's credit budget across all their projects (admins only)
+ *
+ * Body:
+ * - email: The user's email
+ * - daily (optional): Credits per UTC day, or null for no daily limit
+ * - monthly (optional): Credits per UTC month, or null for no monthly limit
+ */
+export async function PUT(request: Request) {
+  try {
+    const denied = await requireAdmin()
+    if (denied) return denied
+
+    const body = await request.json()
+    const validation = userCreditBudgetSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error.errors[0].message },
+        { status: 400 }
+      )
+    }
+
+    const { email, ...budget } = validation.data
+    const update: Record<string, number | null> = {}
+    for (const [period, limit] of Object.entries(budget)) {
+      if (limit !== undefined) {
+        update[`creditBudget.${period}`] = limit
+      }
+    }
+
+    await connectDB()
+    const user = await User.findOneAndUpdate(
+      { email: email.toLowerCase() },
+      { $set: update },
+      { new: true }
+    ).select('email creditBudget')
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      email: user.email,
+      creditBudget: {
+        daily: user.creditBudget?.daily ?? null,
+        monthly: user.creditBudget?.monthly ?? null,
+      },
+    })
+  } catch (error: any) {
+    console.error('Error updating user credit budget:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to update credit budget' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server'
+import connectDB from '@/lib/db'
+import User from '@/models/User'
+import { confirmResetSchema } from '@/lib/validators'
+import { consumeOTP } from '@/lib/services/otp'
+import { revokeAllSessions } from '@/lib/services/sessions'
+import { clearSessionCookies } from '@/lib/auth'
+
+/**
+ * POST /api/auth/confirm-reset
+ * Set a new password with a code from /api/auth/request-reset
+ * Signs the user out everywhere: every existing session is revoked
+ *
+ * Body:
+ * - email: Account email
+ * - otp: 6-digit reset code
+ * - password: New password (at least 6 characters)
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json()
+
+    // Validate input
+    const validationResult = confirmResetSchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: validationResult.error.errors[0].message },
+        { status: 400 }
+      )
+    }
+
+    const { email, otp, password } = validationResult.data
+    const normalizedEmail = email.toLowerCase().trim()
+    const invalidCodeResponse = NextResponse.json(
+      { error: 'Invalid or expired code. Please request a new one.' },
+      { status: 400 }
+    )
+
+    await connectDB()
+
+    const user = await User.findOne({ email: normalizedEmail })
+    if (!user) {
+      return invalidCodeResponse
+    }
+
+    // Only reset codes are accepted - a signup code for the same email is not
+    const isOTPValid = await consumeOTP(normalizedEmail, 'password-reset', otp)
+    if (!isOTPValid) {
+      return invalidCodeResponse
+    }
+
+    // Hashed by the User pre-save hook
+    user.password = password
+    await user.save()
+
+    const revoked = await revokeAllSessions(user._id.toString(), 'password-reset')
+    console.log(`Password reset for ${normalizedEmail}; ${revoked} sessions revoked`)
+
+    const response = NextResponse.json(
+      { message: 'Password reset successfully. Please log in with your new password.' },
+      { status: 200 }
+    )
+    // This browser's session was revoked too
+    clearSessionCookies(response.cookies)
+
+    return response
+  } catch (error: any) {
+    console.error('Confirm reset error:', error)
+
+    if (error.name === 'ValidationError' && error.errors) {
+      const errorValues = Object.values(error.errors) as Array<{ message?: string }>
+      const firstError = errorValues[0]
+      return NextResponse.json(
+        { error: firstError?.message || 'Validation error' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: error.message || 'Internal server error. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,7 +2,7 @@ import { NextResponse } from 'next/server'
 import connectDB from '@/lib/db'
 import User from '@/models/User'
 import { loginSchema } from '@/lib/validators'
-import { generateToken } from '@/lib/auth'
+import { setSessionCookies, startSession } from '@/lib/auth'
 
 // Force dynamic rendering since this route uses cookies for authentication
 export const dynamic = 'force-dynamic'
@@ -42,13 +42,16 @@ export async function POST(request: Request) {
       )
     }
 
-    // Generate token - ensure academic users get 7 days
+    // Start a session for this device
     // Since only academic users can sign up, isAcademic should always be true
-    const token = generateToken({
-      userId: user._id.toString(),
-      email: user.email,
-      isAcademic: user.isAcademic ?? true, // Default to true if not set (shouldn't happen for academic users)
-    })
+    const tokens = await startSession(
+      {
+        userId: user._id.toString(),
+        email: user.email,
+        isAcademic: user.isAcademic ?? true, // Default to true if not set (shouldn't happen for academic users)
+      },
+      request
+    )
 
     // Create response
     const response = NextResponse.json(
@@ -65,18 +68,8 @@ export async function POST(request: Request) {
       { status: 200 }
     )
 
-    // Set cookie on response - 7 days for academic users
-    const cookieMaxAge = 60 * 60 * 24 * 7 // 7 days in seconds
-    response.cookies.set('token', token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: cookieMaxAge,
-      path: '/',
-      // Don't set domain - let browser use default
-    })
-    
-    console.log(`Cookie set with maxAge: ${cookieMaxAge} seconds (7 days), token length: ${token.length}`)
+    // Short-lived access token plus a refresh token that keeps the session alive while it's used
+    setSessionCookies(response.cookies, tokens)
 
     return response
   } catch (error: any) {
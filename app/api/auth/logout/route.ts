@@ -1,8 +1,19 @@
 import { NextResponse } from 'next/server'
-import { clearAuthCookie } from '@/lib/auth'
+import { endCurrentSession } from '@/lib/auth'
 
+/**
+ * POST /api/auth/logout
+ * Log out this device: its session is revoked, so a copied token stops working too
+ */
 export async function POST() {
-  await clearAuthCookie()
-  return NextResponse.json({ message: 'Logged out successfully' }, { status: 200 })
+  try {
+    await endCurrentSession()
+    return NextResponse.json({ message: 'Logged out successfully' }, { status: 200 })
+  } catch (error: any) {
+    console.error('Logout error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
 }
-
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { clearSessionCookies, refreshSession, REFRESH_TOKEN_COOKIE, setSessionCookies } from '@/lib/auth'
+
+// Force dynamic rendering since this route uses cookies for authentication
+export const dynamic = 'force-dynamic'
+
+/**
+ * Only same-origin paths, so this can't be used as an open redirect
+ */
+function safeNextPath(next: string | null): string {
+  return next && next.startsWith('/') && !next.startsWith('//') && !next.startsWith('/\\') ? next : '/dashboard'
+}
+
+/**
+ * GET /api/auth/refresh
+ * Renew an expired access token from the refresh token cookie and redirect back
+ * The middleware sends page navigations here; API routes renew through getCurrentUser instead
+ *
+ * Query Parameters:
+ * - next: Path to return to (default: /dashboard)
+ */
+export async function GET(request: NextRequest) {
+  const nextPath = safeNextPath(request.nextUrl.searchParams.get('next'))
+  const refreshToken = request.cookies.get(REFRESH_TOKEN_COOKIE)?.value
+
+  try {
+    const refreshed = refreshToken ? await refreshSession(refreshToken, request) : null
+    if (refreshed) {
+      const response = NextResponse.redirect(new URL(nextPath, request.url))
+      setSessionCookies(response.cookies, refreshed.tokens)
+      return response
+    }
+  } catch (error: any) {
+    console.error('Session refresh error:', error)
+  }
+
+  const loginUrl = new URL('/login', request.url)
+  loginUrl.searchParams.set('error', 'session_expired')
+  const response = NextResponse.redirect(loginUrl)
+  clearSessionCookies(response.cookies)
+  return response
+}
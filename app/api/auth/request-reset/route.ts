@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server'
+import connectDB from '@/lib/db'
+import User from '@/models/User'
+import { requestResetSchema } from '@/lib/validators'
+import { issueOTP, OTP_EXPIRY_MINUTES, reserveOTPSend } from '@/lib/services/otp'
+import { queuePasswordResetEmail } from '@/lib/utils/email-service'
+import { deliverQueuedEmail } from '@/lib/services/email-outbox'
+import { getClientIp } from '@/lib/utils/client-ip'
+
+/**
+ * Issue a reset code and queue its email in the outbox, if the email has an account
+ * @returns The queued message id, or null when there is nothing to deliver
+ */
+async function queueResetCode(email: string, locale: string | null): Promise<string | null> {
+  const user = await User.findOne({ email })
+  if (!user) {
+    return null
+  }
+
+  // Replaces any unused reset code; signup codes are unaffected
+  const { otp } = await issueOTP(email, 'password-reset')
+  return queuePasswordResetEmail(email, otp, { userId: user._id.toString(), locale })
+}
+
+/**
+ * POST /api/auth/request-reset
+ * Email a password reset code
+ * Responds the same whether or not the email has an account, so it can't be used to find accounts:
+ * after the rate limit check every request gets the same 200, and errors are only logged
+ * The email is queued in the outbox before responding and delivered after it; if the function is
+ * frozen first, the outbox worker delivers it
+ * Rate limited per email and per IP (429 with Retry-After)
+ *
+ * Body:
+ * - email: Account email
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json()
+
+    // Validate input
+    const validationResult = requestResetSchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: validationResult.error.errors[0].message },
+        { status: 400 }
+      )
+    }
+
+    const normalizedEmail = validationResult.data.email.toLowerCase().trim()
+    const sentResponse = NextResponse.json(
+      {
+        message: 'If an account exists for this email, a reset code has been sent',
+        expiresIn: OTP_EXPIRY_MINUTES, // minutes
+      },
+      { status: 200 }
+    )
+
+    await connectDB()
+
+    // Counted before the account lookup, so quotas behave the same for unknown emails
+    const quota = await reserveOTPSend(normalizedEmail, getClientIp(request), 'password-reset')
+    if (!quota.allowed) {
+      return NextResponse.json(
+        { error: `Too many code requests. Please try again in ${quota.retryAfterSeconds} seconds.` },
+        { status: 429, headers: { 'Retry-After': String(quota.retryAfterSeconds) } }
+      )
+    }
+
+    let messageId: string | null = null
+    try {
+      messageId = await queueResetCode(normalizedEmail, request.headers.get('accept-language'))
+    } catch (error) {
+      console.error('Failed to queue password reset email:', error)
+    }
+
+    if (messageId) {
+      deliverQueuedEmail(messageId).catch((error) => console.error('Failed to send password reset email:', error))
+    }
+
+    return sentResponse
+  } catch (error: any) {
+    console.error('Request reset error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Internal server error. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
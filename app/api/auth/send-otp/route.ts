@@ -1,24 +1,22 @@
 import { NextResponse } from 'next/server'
 import connectDB from '@/lib/db'
 import OTP from '@/models/OTP'
+import { issueOTP, OTP_EXPIRY_MINUTES, reserveOTPSend } from '@/lib/services/otp'
 import User from '@/models/User'
-import { sendOTPEmail } from '@/lib/utils/email-service'
+import { sendAccountExistsEmail, sendOTPEmail } from '@/lib/utils/email-service'
+import { getClientIp } from '@/lib/utils/client-ip'
 import { z } from 'zod'
 
 const sendOTPSchema = z.object({
   email: z.string().email('Invalid email address'),
 })
 
-/**
- * Generate a 6-digit OTP
- */
-function generateOTP(): string {
-  return Math.floor(100000 + Math.random() * 900000).toString()
-}
-
 /**
  * POST /api/auth/send-otp
  * Send OTP to user's email for signup verification
+ * If the email already has an account, its owner is emailed a notice instead of a code, and the
+ * response is the same - so this can't be used to find out which emails have accounts
+ * Rate limited per email and per IP (429 with Retry-After)
  */
 export async function POST(request: Request) {
   try {
@@ -39,38 +37,42 @@ export async function POST(request: Request) {
     // Connect to database
     await connectDB()
 
-    // Check if user already exists
-    const existingUser = await User.findOne({ email: normalizedEmail })
-    if (existingUser) {
+    const quota = await reserveOTPSend(normalizedEmail, getClientIp(request), 'signup')
+    if (!quota.allowed) {
       return NextResponse.json(
-        { error: 'User with this email already exists' },
-        { status: 400 }
+        { error: `Too many code requests. Please try again in ${quota.retryAfterSeconds} seconds.` },
+        { status: 429, headers: { 'Retry-After': String(quota.retryAfterSeconds) } }
       )
     }
 
-    // Generate OTP
-    const otp = generateOTP()
-    const expiresAt = new Date(Date.now() + 10 * 60 * 1000) // 10 minutes from now
-
-    // Invalidate any existing unverified OTPs for this email
-    await OTP.updateMany(
-      { email: normalizedEmail, verified: false },
-      { verified: true } // Mark as verified (effectively invalidating them)
+    const sentResponse = NextResponse.json(
+      {
+        message: 'OTP sent successfully',
+        expiresIn: OTP_EXPIRY_MINUTES, // minutes
+      },
+      { status: 200 }
     )
 
-    // Create new OTP record
-    const otpRecord = new OTP({
-      email: normalizedEmail,
-      otp,
-      expiresAt,
-      verified: false,
-    })
+    // Existing account: tell its owner instead of sending a code
+    const existingUser = await User.findOne({ email: normalizedEmail })
+    if (existingUser) {
+      try {
+        await sendAccountExistsEmail(normalizedEmail, {
+          userId: existingUser._id.toString(),
+          locale: request.headers.get('accept-language'),
+        })
+      } catch (emailError) {
+        console.error('Failed to send account-exists email:', emailError)
+      }
+      return sentResponse
+    }
 
-    await otpRecord.save()
+    // Generate OTP (replaces any unused signup code for this email)
+    const { otp, record: otpRecord } = await issueOTP(normalizedEmail, 'signup')
 
     // Send OTP email
     try {
-      await sendOTPEmail(normalizedEmail, otp)
+      await sendOTPEmail(normalizedEmail, otp, request.headers.get('accept-language'))
     } catch (emailError: any) {
       console.error('Failed to send OTP email:', emailError)
       
@@ -92,13 +94,7 @@ export async function POST(request: Request) {
       }
     }
 
-    return NextResponse.json(
-      {
-        message: 'OTP sent successfully',
-        expiresIn: 10, // minutes
-      },
-      { status: 200 }
-    )
+    return sentResponse
   } catch (error: any) {
     console.error('Send OTP error:', error)
     return NextResponse.json(
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server'
+import { endCurrentSession, getCurrentUser } from '@/lib/auth'
+import { revokeUserSession } from '@/lib/services/sessions'
+
+/**
+ * DELETE /api/auth/sessions/[id]
+ * Sign one device out. Revoking the current session also clears this browser's cookies.
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const revoked = await revokeUserSession(user.userId, id)
+    if (!revoked) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+    }
+
+    const current = id === user.jti
+    if (current) {
+      await endCurrentSession()
+    }
+
+    return NextResponse.json({ message: 'Session revoked', current })
+  } catch (error: any) {
+    console.error('Error revoking session:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to revoke session' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server'
+import { endCurrentSession, getCurrentUser } from '@/lib/auth'
+import { listActiveSessions, revokeAllSessions } from '@/lib/services/sessions'
+
+// Force dynamic rendering since this route uses cookies for authentication
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/auth/sessions
+ * List the devices the user is signed in on, most recently used first
+ * The session making the request is marked `current`
+ */
+export async function GET() {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const sessions = await listActiveSessions(user.userId)
+
+    return NextResponse.json({
+      sessions: sessions.map((session) => ({
+        ...session,
+        current: session.id === user.jti,
+      })),
+    })
+  } catch (error: any) {
+    console.error('Error listing sessions:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to list sessions' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/auth/sessions
+ * Log out everywhere: revoke every session, including this one
+ */
+export async function DELETE() {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const revoked = await revokeAllSessions(user.userId, 'logout-all')
+    await endCurrentSession()
+
+    return NextResponse.json({ message: 'Logged out of all devices', revoked })
+  } catch (error: any) {
+    console.error('Error revoking sessions:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to log out of all devices' },
+      { status: 500 }
+    )
+  }
+}
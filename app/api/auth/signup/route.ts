@@ -2,7 +2,7 @@ import { NextResponse } from 'next/server'
 import connectDB from '@/lib/db'
 import User from '@/models/User'
 import { signupSchema } from '@/lib/validators'
-import { generateToken, setAuthCookie } from '@/lib/auth'
+import { setSessionCookies, startSession } from '@/lib/auth'
 import { classifyAcademicEmail } from '@/lib/academic-domains'
 
 export async function POST(request: Request) {
@@ -54,12 +54,15 @@ export async function POST(request: Request) {
 
     await user.save()
 
-    // Generate token - keep 7-day session; caller can inspect isAcademic if needed
-    const token = generateToken({
-      userId: user._id.toString(),
-      email: user.email,
-      isAcademic: classification.isAcademic,
-    })
+    // Start a session for this device - academic users get the 7-day idle window
+    const tokens = await startSession(
+      {
+        userId: user._id.toString(),
+        email: user.email,
+        isAcademic: classification.isAcademic,
+      },
+      request
+    )
 
     // Create response
     const response = NextResponse.json(
@@ -78,18 +81,7 @@ export async function POST(request: Request) {
       { status: 201 }
     )
 
-    // Set cookie on response - 7 days for academic users
-    const cookieMaxAge = 60 * 60 * 24 * 7 // 7 days in seconds
-    response.cookies.set('token', token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: cookieMaxAge,
-      path: '/',
-      // Don't set domain - let browser use default
-    })
-    
-    console.log(`Cookie set with maxAge: ${cookieMaxAge} seconds (7 days), token length: ${token.length}`)
+    setSessionCookies(response.cookies, tokens)
 
     return response
   } catch (error: any) {
@@ -1,9 +1,9 @@
 import { NextResponse } from 'next/server'
 import connectDB from '@/lib/db'
-import OTP from '@/models/OTP'
+import { consumeOTP } from '@/lib/services/otp'
 import User from '@/models/User'
 import { signupSchema } from '@/lib/validators'
-import { generateToken } from '@/lib/auth'
+import { setSessionCookies, startSession } from '@/lib/auth'
 import { classifyAcademicEmail } from '@/lib/academic-domains'
 import { z } from 'zod'
 
@@ -38,34 +38,25 @@ export async function POST(request: Request) {
     // Connect to database
     await connectDB()
 
-    // Check if user already exists
-    const existingUser = await User.findOne({ email: normalizedEmail })
-    if (existingUser) {
+    // Check the signup code and mark it used
+    // (emails with an account are never sent one, so they fail here like any wrong code)
+    const isOTPValid = await consumeOTP(normalizedEmail, 'signup', otp)
+    if (!isOTPValid) {
       return NextResponse.json(
-        { error: 'User with this email already exists' },
+        { error: 'Invalid or expired OTP. Please request a new one.' },
         { status: 400 }
       )
     }
 
-    // Find valid OTP
-    const otpRecord = await OTP.findOne({
-      email: normalizedEmail,
-      otp,
-      verified: false,
-      expiresAt: { $gt: new Date() }, // Not expired
-    })
-
-    if (!otpRecord) {
+    // Check if user already exists (signed up since the code was sent)
+    const existingUser = await User.findOne({ email: normalizedEmail })
+    if (existingUser) {
       return NextResponse.json(
-        { error: 'Invalid or expired OTP. Please request a new one.' },
+        { error: 'User with this email already exists' },
         { status: 400 }
       )
     }
 
-    // Mark OTP as verified
-    otpRecord.verified = true
-    await otpRecord.save()
-
     // Classify email (fuzzy academic/research scoring)
     const classification = classifyAcademicEmail(normalizedEmail)
 
@@ -80,12 +71,15 @@ export async function POST(request: Request) {
 
     await user.save()
 
-    // Generate token
-    const token = generateToken({
-      userId: user._id.toString(),
-      email: user.email,
-      isAcademic: classification.isAcademic,
-    })
+    // Start a session for this device
+    const tokens = await startSession(
+      {
+        userId: user._id.toString(),
+        email: user.email,
+        isAcademic: classification.isAcademic,
+      },
+      request
+    )
 
     // Create response
     const response = NextResponse.json(
@@ -104,16 +98,8 @@ export async function POST(request: Request) {
       { status: 201 }
     )
 
-    // Set cookie on response - 7 days
-    const cookieMaxAge = 60 * 60 * 24 * 7 // 7 days in seconds
-    response.cookies.set('token', token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: cookieMaxAge,
-      path: '/',
-    })
-    
+    setSessionCookies(response.cookies, tokens)
+
     console.log(`User ${normalizedEmail} signed up successfully with OTP verification`)
 
     return response
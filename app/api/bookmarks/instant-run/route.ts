@@ -2,11 +2,13 @@ import { NextResponse } from 'next/server'
 import { getCurrentUser } from '@/lib/auth'
 import connectDB from '@/lib/db'
 import User from '@/models/User'
-import { getVeritusApiKey } from '@/lib/veritus-auth'
-import { createJob, getJobStatus } from '@/lib/veritus-api'
+import { getVeritusApiKeyForUser } from '@/lib/veritus-auth'
+import { JobStillRunningError, runJob } from '@/lib/services/job-runner'
 import { sendDailyPaperEmail } from '@/lib/utils/email-service'
 import { VeritusPaper } from '@/types/veritus'
 import { z } from 'zod'
+import { veritusErrorResponse } from '@/lib/veritus-errors'
+import { CreditBudgetExceededError, creditBudgetErrorResponse } from '@/lib/services/credit-budgets'
 
 const instantRunSchema = z.object({
   paperId: z.string().min(1, 'Paper ID is required'),
@@ -27,7 +29,8 @@ function getTopKeywords(keywords: string[]): string[] {
  */
 async function performCombinedSearch(
   keywords: string[],
-  apiKey: string
+  apiKey: string,
+  userId: string
 ): Promise<VeritusPaper | null> {
   if (keywords.length === 0) {
     return null
@@ -86,9 +89,9 @@ async function performCombinedSearch(
       query = query.substring(0, 5000)
     }
 
-    // Create combined search job
+    // Run combined search job (tracked to completion by the job runner)
     // CRITICAL: Must send exactly 3 phrases for combinedSearch
-    const jobResponse = await createJob(
+    const papers = await runJob(
       {
         jobType: 'combinedSearch',
         limit: 100,
@@ -97,40 +100,25 @@ async function performCombinedSearch(
         phrases: searchPhrases, // Guaranteed to have exactly 3 elements
         query: query,
       },
-      { apiKey }
+      { userId, apiKey }
     )
 
-    const jobId = jobResponse.jobId
-    if (!jobId) {
+    if (papers.length === 0) {
       return null
     }
 
-    // Poll for job completion
-    let attempts = 0
-    const maxAttempts = 30
-    const pollInterval = 2000
-
-    while (attempts < maxAttempts) {
-      await new Promise((resolve) => setTimeout(resolve, pollInterval))
-      
-      const jobStatus = await getJobStatus(jobId, { apiKey })
-      
-      if (jobStatus.status === 'success' && jobStatus.results && jobStatus.results.length > 0) {
-        // Find the first paper with a valid TL;DR
-        const papers = jobStatus.results
-        const paperWithTLDR = papers.find((paper: VeritusPaper) => 
-          paper.tldr && paper.tldr.trim().length > 0
-        )
-        return paperWithTLDR || papers[0] || null
-      } else if (jobStatus.status === 'error') {
-        return null
-      }
-
-      attempts++
-    }
+    // Find the first paper with a valid TL;DR
+    const paperWithTLDR = papers.find((paper: VeritusPaper) => 
+      paper.tldr && paper.tldr.trim().length > 0
+    )
 
-    return null
+    // If no paper with TLDR, return the first paper
+    return paperWithTLDR || papers[0] || null
   } catch (error) {
+    // A slow or over-budget search is reported to the caller rather than as "no paper found"
+    if (error instanceof JobStillRunningError || error instanceof CreditBudgetExceededError) {
+      throw error
+    }
     console.error('Error performing combined search:', error)
     return null
   }
@@ -142,7 +130,7 @@ async function performCombinedSearch(
  */
 export async function POST(request: Request) {
   try {
-    const user = await getCurrentUser()
+    const user = await getCurrentUser('bookmarks:write')
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
@@ -210,10 +198,10 @@ export async function POST(request: Request) {
     }
 
     // Get API key
-    const apiKey = await getVeritusApiKey()
+    const apiKey = await getVeritusApiKeyForUser(user.userId)
 
     // Perform combined search
-    const recommendedPaper = await performCombinedSearch(keywords, apiKey)
+    const recommendedPaper = await performCombinedSearch(keywords, apiKey, user.userId)
     
     if (!recommendedPaper || !recommendedPaper.tldr) {
       return NextResponse.json(
@@ -241,7 +229,8 @@ export async function POST(request: Request) {
           tldr: recommendedPaper.tldr,
           paperId: recommendedPaper.id ? String(recommendedPaper.id) : undefined,
           pdfLink: recommendedPaper.pdfLink ? String(recommendedPaper.pdfLink) : undefined,
-        }
+        },
+        { userId: user.userId }
       )
       emailSent = true
       console.log(`✅ Email sent successfully to: ${dbUser.email}`)
@@ -281,6 +270,28 @@ export async function POST(request: Request) {
     })
   } catch (error: any) {
     console.error('Instant run error:', error)
+
+    if (error instanceof JobStillRunningError) {
+      return NextResponse.json(
+        {
+          message: 'The search is taking longer than usual and no email was sent. Please try again in a few minutes.',
+          jobId: error.jobId,
+          status: 'processing',
+        },
+        { status: 202 }
+      )
+    }
+
+    const budgetResponse = creditBudgetErrorResponse(error)
+    if (budgetResponse) {
+      return budgetResponse
+    }
+
+    const veritusResponse = veritusErrorResponse(error)
+    if (veritusResponse) {
+      return veritusResponse
+    }
+
     return NextResponse.json(
       { error: error.message || 'Internal server error. Please try again.' },
       { status: 500 }
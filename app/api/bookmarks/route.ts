@@ -11,7 +11,7 @@ import { VeritusPaper } from '@/types/veritus'
  */
 export async function GET() {
   try {
-    const user = await getCurrentUser()
+    const user = await getCurrentUser('bookmarks:read')
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
@@ -41,7 +41,7 @@ export async function GET() {
  */
 export async function POST(request: Request) {
   try {
-    const user = await getCurrentUser()
+    const user = await getCurrentUser('bookmarks:write')
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
@@ -110,7 +110,7 @@ export async function POST(request: Request) {
  */
 export async function DELETE(request: Request) {
   try {
-    const user = await getCurrentUser()
+    const user = await getCurrentUser('bookmarks:write')
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
@@ -4,14 +4,27 @@ import connectDB from '@/lib/db'
 import Chat from '@/models/Chat'
 import Project from '@/models/Project'
 import { saveCitationNetwork } from '@/lib/file-system'
+import { buildCitationNetworkFromProviders, relationshipsFromChatPapers } from '@/lib/citation-network'
+import { createFixtureCitationProvider } from '@/lib/mock-data/fixture-citation-provider'
+import { getChatPapers } from '@/lib/services/chat-paper-library'
+import { isDebugMode } from '@/lib/config/mock-config'
+import { VeritusPaper } from '@/types/veritus'
 import mongoose from 'mongoose'
 
+/**
+ * POST /api/chats/{id}/citation-network
+ * Save a citation network for the chat
+ *
+ * Edges sent by the client are ignored: they are rebuilt from the parent/child relationships
+ * stored by store-children in the chat's paper library (plus the local fixtures in debug mode), so a saved network only
+ * contains links we have evidence for.
+ */
 export async function POST(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = await getCurrentUser()
+    const user = await getCurrentUser('chats:write')
     if (!user) {
       return NextResponse.json(
         { error: 'Unauthorized' },
@@ -57,6 +70,17 @@ export async function POST(
       )
     }
 
+    const papers: VeritusPaper[] = (citationNetwork.nodes || [])
+      .map((node: any) => node.paper)
+      .filter((paper: VeritusPaper | undefined) => paper && paper.id)
+
+    const children = await getChatPapers(id, user.userId, { source: 'child' })
+    const network = await buildCitationNetworkFromProviders(
+      papers,
+      isDebugMode() ? [createFixtureCitationProvider()] : [],
+      relationshipsFromChatPapers(children)
+    )
+
     const username = user.email.split('@')[0]
     const project = chat.projectId as any
 
@@ -65,11 +89,12 @@ export async function POST(
       project.name,
       chat._id.toString(),
       networkId,
-      citationNetwork
+      network
     )
 
     return NextResponse.json({
       message: 'Citation network saved successfully',
+      edges: network.edges.length,
     })
   } catch (error: any) {
     console.error('Error saving citation network:', error)
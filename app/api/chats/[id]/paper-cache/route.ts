@@ -3,17 +3,17 @@ import { getCurrentUser } from '@/lib/auth'
 import connectDB from '@/lib/db'
 import Chat from '@/models/Chat'
 import mongoose from 'mongoose'
-import { VeritusPaper } from '@/types/veritus'
+import { addPapersToChat, getChatPaperMap } from '@/lib/services/chat-paper-library'
 
 /**
- * Save paper details to chat cache (stored in chat messages)
+ * Save paper details to chat cache (stored in the chat's paper library)
  */
 export async function POST(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = await getCurrentUser()
+    const user = await getCurrentUser('chats:write')
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
@@ -44,49 +44,8 @@ export async function POST(
       return NextResponse.json({ error: 'Chat not found' }, { status: 404 })
     }
 
-    // Check if paper already exists in any message
-    let paperExists = false
-    for (const message of chat.messages) {
-      if (message.papers && Array.isArray(message.papers)) {
-        const existingPaper = message.papers.find((p: any) => p.id === paperId)
-        if (existingPaper) {
-          // Update existing paper with full details
-          Object.assign(existingPaper, paper)
-          paperExists = true
-          break
-        }
-      }
-    }
-
-    // If paper doesn't exist, add it to the most recent message with papers, or create a new cache message
-    if (!paperExists) {
-      // Find the most recent message with papers
-      let lastMessageWithPapers = null
-      for (let i = chat.messages.length - 1; i >= 0; i--) {
-        if (chat.messages[i].papers && Array.isArray(chat.messages[i].papers)) {
-          lastMessageWithPapers = chat.messages[i]
-          break
-        }
-      }
-
-      if (lastMessageWithPapers) {
-        // Add to existing message
-        if (!lastMessageWithPapers.papers) {
-          lastMessageWithPapers.papers = []
-        }
-        lastMessageWithPapers.papers.push(paper)
-      } else {
-        // Create a new cache message
-        chat.messages.push({
-          role: 'assistant',
-          content: `Cached paper details: ${paper.title || paperId}`,
-          timestamp: new Date(),
-          papers: [paper],
-        })
-      }
-    }
-
-    await chat.save()
+    // Paper details live in the chat's paper library; re-caching an existing paper is a no-op
+    await addPapersToChat(chat, [{ ...paper, id: paper.id || paperId }], { source: 'cache' })
 
     return NextResponse.json({ success: true })
   } catch (error: any) {
@@ -99,14 +58,14 @@ export async function POST(
 }
 
 /**
- * Get all cached papers from chat
+ * Get all papers in the chat's paper library, keyed by paper id
  */
 export async function GET(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = await getCurrentUser()
+    const user = await getCurrentUser('chats:read')
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
@@ -118,7 +77,7 @@ export async function GET(
       return NextResponse.json({ error: 'Invalid chat ID' }, { status: 400 })
     }
 
-    const chat = await Chat.findOne({
+    const chat = await Chat.exists({
       _id: id,
       userId: user.userId,
     })
@@ -127,20 +86,10 @@ export async function GET(
       return NextResponse.json({ error: 'Chat not found' }, { status: 404 })
     }
 
-    // Extract all papers from all messages
-    const papersMap = new Map<string, VeritusPaper>()
-    for (const message of chat.messages) {
-      if (message.papers && Array.isArray(message.papers)) {
-        for (const paper of message.papers) {
-          if (paper.id) {
-            papersMap.set(paper.id, paper)
-          }
-        }
-      }
-    }
+    const papers = await getChatPaperMap(id, user.userId)
 
     return NextResponse.json({
-      papers: Object.fromEntries(papersMap),
+      papers,
     })
   } catch (error: any) {
     console.error('Error getting paper cache from chat:', error)
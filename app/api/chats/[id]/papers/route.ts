@@ -0,0 +1,143 @@
+import { NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth'
+import connectDB from '@/lib/db'
+import Chat from '@/models/Chat'
+import { CHAT_PAPER_SOURCES, ChatPaperSource } from '@/models/ChatPaper'
+import { addPapersToChat, getChatPapers } from '@/lib/services/chat-paper-library'
+import { normalizeCorpusId } from '@/lib/services/paper-cache'
+import mongoose from 'mongoose'
+
+// Force dynamic rendering since this route uses cookies for authentication
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/chats/{id}/papers
+ * List the chat's paper library, with the source each paper was added from
+ *
+ * Query Parameters:
+ * - source (optional): Comma-separated sources to include (e.g. "similar,child")
+ * - parentId (optional): Only children of this paper
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser('chats:read')
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: 'Invalid chat ID' }, { status: 400 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const sourceParam = searchParams.get('source')
+    const sources = sourceParam ? sourceParam.split(',').map((s) => s.trim()) : undefined
+
+    const invalidSources = (sources || []).filter((s) => !CHAT_PAPER_SOURCES.includes(s as ChatPaperSource))
+    if (invalidSources.length > 0) {
+      return NextResponse.json(
+        { error: `Invalid source: ${invalidSources.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    await connectDB()
+
+    const chat = await Chat.exists({ _id: id, userId: user.userId })
+    if (!chat) {
+      return NextResponse.json({ error: 'Chat not found' }, { status: 404 })
+    }
+
+    const papers = await getChatPapers(id, user.userId, {
+      source: sources as ChatPaperSource[] | undefined,
+      parentCorpusId: searchParams.get('parentId') || undefined,
+    })
+
+    return NextResponse.json({
+      papers,
+      total: papers.length,
+    })
+  } catch (error: any) {
+    console.error('Error listing chat papers:', error)
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/chats/{id}/papers
+ * Add papers to the chat's paper library
+ *
+ * Body:
+ * - papers: VeritusPaper[]
+ * - source (optional): Why the papers were added (default "cache")
+ * - parentId (optional): Parent paper for "child" papers
+ *
+ * Returns the library entries for the posted papers, so the client can update without re-listing
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser('chats:write')
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: 'Invalid chat ID' }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const { papers, source = 'cache', parentId } = body
+
+    if (!Array.isArray(papers) || papers.length === 0) {
+      return NextResponse.json(
+        { error: 'papers array is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!CHAT_PAPER_SOURCES.includes(source)) {
+      return NextResponse.json(
+        { error: `Invalid source: ${source}` },
+        { status: 400 }
+      )
+    }
+
+    await connectDB()
+
+    const chat = await Chat.findOne({ _id: id, userId: user.userId })
+    if (!chat) {
+      return NextResponse.json({ error: 'Chat not found' }, { status: 404 })
+    }
+
+    const added = await addPapersToChat(chat, papers, {
+      source,
+      parentCorpusId: parentId,
+    })
+
+    const postedIds = new Set(papers.map((paper: any) => normalizeCorpusId(String(paper?.id ?? ''))))
+    const stored = await getChatPapers(id, user.userId, { source, parentCorpusId: parentId })
+
+    return NextResponse.json({
+      success: true,
+      added,
+      papers: stored.filter((entry) => postedIds.has(entry.corpusId)),
+    })
+  } catch (error: any) {
+    console.error('Error adding chat papers:', error)
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
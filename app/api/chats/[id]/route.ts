@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import connectDB from '@/lib/db'
 import Chat from '@/models/Chat'
+import ChatPaper from '@/models/ChatPaper'
 import Project from '@/models/Project'
 import { getCurrentUser } from '@/lib/auth'
 import { saveChatData } from '@/lib/file-system'
@@ -11,7 +12,7 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = await getCurrentUser()
+    const user = await getCurrentUser('chats:read')
     if (!user) {
       return NextResponse.json(
         { error: 'Unauthorized' },
@@ -74,7 +75,7 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = await getCurrentUser()
+    const user = await getCurrentUser('chats:write')
     if (!user) {
       return NextResponse.json(
         { error: 'Unauthorized' },
@@ -201,7 +202,7 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = await getCurrentUser()
+    const user = await getCurrentUser('chats:write')
     if (!user) {
       return NextResponse.json(
         { error: 'Unauthorized' },
@@ -232,6 +233,8 @@ export async function DELETE(
       )
     }
 
+    await ChatPaper.deleteMany({ chatId: chat._id })
+
     return NextResponse.json({
       message: 'Chat deleted successfully',
     })
@@ -4,11 +4,13 @@ import Chat from '@/models/Chat'
 import Project from '@/models/Project'
 import { getCurrentUser } from '@/lib/auth'
 import { createAnalyticsDirectory, saveChatData } from '@/lib/file-system'
+import { migrateChatPapers } from '@/lib/services/chat-paper-library'
+import { initialChatMetadata, initialPaperMessage } from '@/lib/utils/chat-metadata'
 import mongoose from 'mongoose'
 
 export async function GET(request: Request) {
   try {
-    const user = await getCurrentUser()
+    const user = await getCurrentUser('chats:read')
     if (!user) {
       return NextResponse.json(
         { error: 'Unauthorized' },
@@ -60,7 +62,7 @@ export async function GET(request: Request) {
 
 export async function POST(request: Request) {
   try {
-    const user = await getCurrentUser()
+    const user = await getCurrentUser('chats:write')
     if (!user) {
       return NextResponse.json(
         { error: 'Unauthorized' },
@@ -108,78 +110,15 @@ export async function POST(request: Request) {
       )
     }
 
-    // Initialize chat metadata
     // IMPORTANT: Each chat has its own isolated chatMetadata field
     // This ensures metadata from one chat session doesn't interfere with another
-    const chatMetadata: any = {
-      authors: [],
-      keywords: [],
-      abstracts: [],
-      tldrs: [],
-      publicationTypes: [],
-      publishedDates: [],
-      quartileRankings: [],
-      journalNames: [],
-      citationCounts: [],
-    }
-
-    // If paperData is provided, store it in chatMetadata and extract metadata
-    // This paperData is scoped to THIS specific chat instance only
-    // Also initialize chat store entry with heading as key
-    if (paperData) {
-      chatMetadata.paperData = paperData
-      
-      // Initialize chat store entry
-      // Key: abstract or title (heading)
-      // Value: Full API response with paper data
-      const heading = paperData.abstract || paperData.title || ''
-      if (heading) {
-        chatMetadata.chatStore = {
-          [heading]: {
-            heading,
-            paper: paperData,
-            similarPapers: [], // Empty initially, will be populated after similar search
-            apiResponse: { paper: paperData }, // Full API response
-          }
-        }
-      }
-      
-      if (paperData.authors) {
-        chatMetadata.authors = Array.isArray(paperData.authors) 
-          ? paperData.authors 
-          : paperData.authors.split(',').map((a: string) => a.trim())
-      }
-      if (paperData.abstract) {
-        chatMetadata.abstracts = [paperData.abstract]
-      }
-      if (paperData.tldr) {
-        chatMetadata.tldrs = [paperData.tldr]
-      }
-      if (paperData.journalName) {
-        chatMetadata.journalNames = [paperData.journalName]
-      }
-      if (paperData.citationCount) {
-        chatMetadata.citationCounts = [paperData.citationCount]
-      }
-      if (paperData.year) {
-        chatMetadata.publishedDates = [new Date(paperData.year, 0, 1)]
-      }
-      if (paperData.publicationType) {
-        chatMetadata.publicationTypes = [paperData.publicationType]
-      }
-    }
+    const chatMetadata = initialChatMetadata(paperData)
 
     // Create initial message with paper data if paperData is provided
     let messagesToStore = initialMessages && Array.isArray(initialMessages) ? initialMessages : []
-    
+
     if (paperData && messagesToStore.length === 0) {
-      // Create initial message with paper data stored in chat store format
-      messagesToStore = [{
-        role: 'assistant',
-        content: `Paper: ${paperData.title || 'Untitled'}\n\nAuthors: ${paperData.authors || 'N/A'}\nYear: ${paperData.year || 'N/A'}\nJournal: ${paperData.journalName || 'N/A'}\n\n${paperData.abstract ? `Abstract: ${paperData.abstract}` : ''}\n\n${paperData.tldr ? `TLDR: ${paperData.tldr}` : ''}`,
-        timestamp: new Date(),
-        papers: [paperData], // Store paper in message.papers array
-      }]
+      messagesToStore = [initialPaperMessage(paperData)]
     }
 
     // Create chat with initialized metadata
@@ -194,6 +133,9 @@ export async function POST(request: Request) {
 
     await chat.save()
 
+    // Record the root paper and any papers in the initial messages in the paper library
+    await migrateChatPapers(chat)
+
     // Create analytics directory and save initial data
     try {
       const username = user.email.split('@')[0]
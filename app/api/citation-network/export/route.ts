@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth'
+import { CitationNetwork } from '@/types/paper-api'
+import { exportCitationNetwork, NetworkExportFormat, NETWORK_EXPORT_FORMATS } from '@/lib/utils/network-export'
+
+/**
+ * POST /api/citation-network/export?format=graphml
+ * Download a citation network for use in Gephi, Cytoscape or Python
+ *
+ * Query Parameters:
+ * - format (required): graphml | gexf | cytoscape | csv-nodes | csv-edges
+ *   csv-nodes and csv-edges are the two halves of an edge list and share node ids
+ *
+ * Body:
+ * - citationNetwork: CitationNetwork (nodes and edges as returned by /api/citation-network)
+ * - filename (optional): File name without extension (default: citation-network)
+ */
+export async function POST(request: Request) {
+  try {
+    const user = await getCurrentUser('export')
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const format = searchParams.get('format') as NetworkExportFormat | null
+
+    if (!format || !NETWORK_EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `format must be one of: ${NETWORK_EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+    const citationNetwork = body.citationNetwork as CitationNetwork | undefined
+
+    if (!citationNetwork || !Array.isArray(citationNetwork.nodes) || !Array.isArray(citationNetwork.edges)) {
+      return NextResponse.json(
+        { error: 'citationNetwork with nodes and edges is required' },
+        { status: 400 }
+      )
+    }
+
+    const file = exportCitationNetwork(citationNetwork, format)
+    const filename = String(body.filename || 'citation-network').replace(/[^a-z0-9_-]/gi, '-').slice(0, 80)
+
+    return new NextResponse(file.content, {
+      headers: {
+        'Content-Type': `${file.contentType}; charset=utf-8`,
+        'Content-Disposition': `attachment; filename="${filename}.${file.extension}"`,
+      },
+    })
+  } catch (error: any) {
+    console.error('Error exporting citation network:', error)
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
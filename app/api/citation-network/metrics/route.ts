@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth'
+import { CitationNetwork } from '@/types/paper-api'
+import { CentralityMetric } from '@/types/graph-visualization'
+import { CENTRALITY_METRICS, computeCentralityMetrics, rankNodesBy } from '@/lib/utils/graph-metrics'
+
+// Betweenness and closeness run a BFS from every node
+const MAX_METRICS_NODES = 2000
+
+/**
+ * POST /api/citation-network/metrics
+ * Compute centrality metrics for a citation network
+ *
+ * Body:
+ * - citationNetwork: CitationNetwork (nodes and edges as returned by /api/citation-network)
+ * - rankBy (optional): Metric used for the `top` list (default: pageRank)
+ * - limit (optional): Length of the `top` list (default: 10)
+ *
+ * Response:
+ * - metrics: { [nodeId]: { pageRank, betweenness, closeness, eigenvector, inDegree, outDegree } }
+ * - top: Node ids with the highest `rankBy` value
+ */
+export async function POST(request: Request) {
+  try {
+    const user = await getCurrentUser('papers:read')
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const citationNetwork = body.citationNetwork as CitationNetwork | undefined
+    const rankBy = (body.rankBy || 'pageRank') as CentralityMetric
+    const limit = body.limit !== undefined ? parseInt(String(body.limit), 10) : 10
+
+    if (!citationNetwork || !Array.isArray(citationNetwork.nodes) || !Array.isArray(citationNetwork.edges)) {
+      return NextResponse.json(
+        { error: 'citationNetwork with nodes and edges is required' },
+        { status: 400 }
+      )
+    }
+
+    if (citationNetwork.nodes.length > MAX_METRICS_NODES) {
+      return NextResponse.json(
+        { error: `citationNetwork is too large (max ${MAX_METRICS_NODES} nodes)` },
+        { status: 400 }
+      )
+    }
+
+    if (!CENTRALITY_METRICS.includes(rankBy)) {
+      return NextResponse.json(
+        { error: `rankBy must be one of: ${CENTRALITY_METRICS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(limit) || limit < 1) {
+      return NextResponse.json(
+        { error: 'limit must be a positive number' },
+        { status: 400 }
+      )
+    }
+
+    const metrics = computeCentralityMetrics(citationNetwork)
+
+    return NextResponse.json({
+      metrics,
+      rankBy,
+      top: rankNodesBy(metrics, rankBy, limit),
+      stats: {
+        totalNodes: citationNetwork.nodes.length,
+        totalEdges: citationNetwork.edges.length,
+      },
+    })
+  } catch (error: any) {
+    console.error('Error computing citation network metrics:', error)
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
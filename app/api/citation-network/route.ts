@@ -27,7 +27,7 @@ import { CitationNetworkResponse, GraphOptions, CitationNetwork } from '@/types/
  */
 export async function POST(request: Request) {
   try {
-    const user = await getCurrentUser()
+    const user = await getCurrentUser('papers:read')
     if (!user) {
       return NextResponse.json(
         { error: 'Unauthorized' },
@@ -0,0 +1,182 @@
+import { NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth'
+import connectDB from '@/lib/db'
+import Chat from '@/models/Chat'
+import Project from '@/models/Project'
+import User from '@/models/User'
+import { getChatPapers, getProjectPapers } from '@/lib/services/chat-paper-library'
+import { findCachedPapers, normalizeCorpusId } from '@/lib/services/paper-cache'
+import { CitationExportFormat, CITATION_EXPORT_FORMATS, exportCitations } from '@/lib/utils/citation-export'
+import { VeritusPaper } from '@/types/veritus'
+import mongoose from 'mongoose'
+
+// Force dynamic rendering since this route uses cookies for authentication
+export const dynamic = 'force-dynamic'
+
+function parseFormat(request: Request): CitationExportFormat | null {
+  const format = new URL(request.url).searchParams.get('format') as CitationExportFormat | null
+  return format && CITATION_EXPORT_FORMATS.includes(format) ? format : null
+}
+
+function invalidFormatResponse() {
+  return NextResponse.json(
+    { error: `format must be one of: ${CITATION_EXPORT_FORMATS.join(', ')}` },
+    { status: 400 }
+  )
+}
+
+function fileResponse(papers: VeritusPaper[], format: CitationExportFormat, filename: string) {
+  const file = exportCitations(papers, format)
+  const safeName = filename.replace(/[^a-z0-9_-]/gi, '-').replace(/-+/g, '-').slice(0, 80)
+
+  return new NextResponse(file.content, {
+    headers: {
+      'Content-Type': `${file.contentType}; charset=utf-8`,
+      'Content-Disposition': `attachment; filename="${safeName}.${file.extension}"`,
+    },
+  })
+}
+
+/**
+ * Bookmarks only store id, title, authors and TLDR - fill in the rest from the paper cache
+ */
+async function getBookmarkedPapers(userId: string): Promise<VeritusPaper[] | null> {
+  const dbUser = await User.findById(userId, { bookmarks: 1 })
+  if (!dbUser) return null
+
+  const bookmarks = dbUser.bookmarks || []
+  const cached = await findCachedPapers(bookmarks.map((bookmark) => bookmark.paperId))
+
+  return bookmarks.map((bookmark) =>
+    cached.get(normalizeCorpusId(bookmark.paperId)) || ({
+      id: bookmark.paperId,
+      title: bookmark.title,
+      authors: bookmark.authors || '',
+      tldr: bookmark.tldr || null,
+      abstract: null,
+      doi: null,
+      journalName: null,
+      publicationType: null,
+      publishedAt: null,
+      year: null,
+      fieldsOfStudy: [],
+      downloadable: false,
+      impactFactor: { citationCount: 0, influentialCitationCount: 0, referenceCount: 0 },
+    } as VeritusPaper)
+  )
+}
+
+/**
+ * GET /api/citations/export?format=bibtex
+ * Download the papers of a chat, a project or the user's bookmarks for a reference manager
+ *
+ * Query Parameters:
+ * - format (required): bibtex | ris | csl-json
+ * - chatId: Export the chat's paper library
+ * - projectId: Export the papers of every chat in the project
+ * - bookmarks=true: Export the user's bookmarks
+ * Exactly one of chatId, projectId or bookmarks is required.
+ */
+export async function GET(request: Request) {
+  try {
+    const user = await getCurrentUser('export')
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const format = parseFormat(request)
+    if (!format) {
+      return invalidFormatResponse()
+    }
+
+    const { searchParams } = new URL(request.url)
+    const chatId = searchParams.get('chatId')
+    const projectId = searchParams.get('projectId')
+    const bookmarks = searchParams.get('bookmarks') === 'true'
+
+    if ([chatId, projectId, bookmarks || null].filter(Boolean).length !== 1) {
+      return NextResponse.json(
+        { error: 'Exactly one of chatId, projectId or bookmarks=true is required' },
+        { status: 400 }
+      )
+    }
+
+    await connectDB()
+
+    if (chatId) {
+      if (!mongoose.Types.ObjectId.isValid(chatId)) {
+        return NextResponse.json({ error: 'Invalid chat ID' }, { status: 400 })
+      }
+      const chat = await Chat.findOne({ _id: chatId, userId: user.userId }, { title: 1 })
+      if (!chat) {
+        return NextResponse.json({ error: 'Chat not found' }, { status: 404 })
+      }
+      const entries = await getChatPapers(chatId, user.userId)
+      return fileResponse(entries.map((entry) => entry.paper), format, `chat-${chat.title || chatId}`)
+    }
+
+    if (projectId) {
+      if (!mongoose.Types.ObjectId.isValid(projectId)) {
+        return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 })
+      }
+      const project = await Project.findOne({ _id: projectId, userId: user.userId }, { name: 1 })
+      if (!project) {
+        return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+      }
+      const papers = await getProjectPapers(projectId, user.userId)
+      return fileResponse(papers, format, `project-${project.name}`)
+    }
+
+    const papers = await getBookmarkedPapers(user.userId)
+    if (!papers) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+    return fileResponse(papers, format, 'bookmarks')
+  } catch (error: any) {
+    console.error('Error exporting citations:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to export citations' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/citations/export?format=bibtex
+ * Download an arbitrary set of papers (e.g. the current search results)
+ *
+ * Body:
+ * - papers: VeritusPaper[]
+ * - filename (optional): File name without extension (default: papers)
+ */
+export async function POST(request: Request) {
+  try {
+    const user = await getCurrentUser('export')
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const format = parseFormat(request)
+    if (!format) {
+      return invalidFormatResponse()
+    }
+
+    const body = await request.json()
+    const { papers, filename = 'papers' } = body
+
+    if (!Array.isArray(papers) || papers.length === 0) {
+      return NextResponse.json(
+        { error: 'papers array is required' },
+        { status: 400 }
+      )
+    }
+
+    return fileResponse(papers, format, String(filename))
+  } catch (error: any) {
+    console.error('Error exporting citations:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to export citations' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server'
+import { drainEmailOutbox } from '@/lib/services/email-outbox'
+
+/**
+ * GET|POST /api/cron/email-outbox
+ * Worker for the email outbox: retries emails whose first delivery attempt failed, with
+ * exponential backoff, until they are sent or run out of attempts
+ * Should be called every few minutes
+ *
+ * For Vercel Cron Jobs (vercel.json), which call it with GET:
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/email-outbox",
+ *     "schedule": "*\/5 * * * *"
+ *   }]
+ * }
+ *
+ * Requires CRON_SECRET as a Bearer token. Vercel Cron sends it automatically when the project
+ * has CRON_SECRET set:
+ * curl -X POST -H "Authorization: Bearer YOUR_CRON_SECRET" https://your-domain.com/api/cron/email-outbox
+ *
+ * Query Parameters:
+ * - limit (optional): Maximum messages to attempt in this run (default: 50, max: 200)
+ */
+async function drainOutbox(request: Request) {
+  try {
+    const cronSecret = process.env.CRON_SECRET
+    const authHeader = request.headers.get('authorization')
+
+    // Never allowed without a secret: an x-vercel-signature header alone can be sent by anyone
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), 200)
+
+    const result = await drainEmailOutbox(limit)
+    console.log(`Email outbox drained: ${result.sent} sent, ${result.retrying} retrying, ${result.failed} failed, ${result.recovered} recovered`)
+
+    return NextResponse.json({
+      message: 'Email outbox processed successfully',
+      ...result,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error: any) {
+    console.error('Error in email outbox cron job:', error)
+    return NextResponse.json(
+      {
+        error: error.message || 'Failed to process email outbox',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function GET(request: Request) {
+  return drainOutbox(request)
+}
+
+export async function POST(request: Request) {
+  return drainOutbox(request)
+}
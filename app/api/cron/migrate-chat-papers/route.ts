@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server'
+import { migrateAllChatPapers } from '@/lib/services/chat-paper-library'
+
+/**
+ * POST /api/cron/migrate-chat-papers
+ * One-off migration: copy papers embedded in existing chats (messages[].papers,
+ * chatMetadata.paperData, chatMetadata.paperRelationships) into the Paper / ChatPaper library.
+ *
+ * Chats are also migrated lazily the first time their library is read, so running this is
+ * only needed to backfill everything up front. Safe to run repeatedly.
+ *
+ * Requires CRON_SECRET as a Bearer token:
+ * curl -X POST -H "Authorization: Bearer YOUR_CRON_SECRET" https://your-domain.com/api/cron/migrate-chat-papers
+ */
+export async function POST(request: Request) {
+  try {
+    const cronSecret = process.env.CRON_SECRET
+    const authHeader = request.headers.get('authorization')
+
+    // Unlike the notification cron, a migration is never allowed without a secret
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    console.log('Starting chat paper migration')
+    const result = await migrateAllChatPapers()
+    console.log(`Chat paper migration finished: ${result.chats} chats, ${result.papers} papers, ${result.failed} failed`)
+
+    return NextResponse.json({
+      message: 'Chat papers migrated',
+      ...result,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error: any) {
+    console.error('Error in chat paper migration:', error)
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
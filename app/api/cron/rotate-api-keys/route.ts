@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server'
+import { rotateVeritusApiKeys } from '@/lib/services/veritus-api-keys'
+
+/**
+ * POST /api/cron/rotate-api-keys
+ * Re-encrypt every stored Veritus API key under the newest FIELD_ENCRYPTION_KEYS version,
+ * and encrypt any still stored as plain text.
+ *
+ * Run after adding a new key version; remove the old version only once this reports no failures.
+ * Safe to run repeatedly.
+ *
+ * Requires CRON_SECRET as a Bearer token:
+ * curl -X POST -H "Authorization: Bearer YOUR_CRON_SECRET" https://your-domain.com/api/cron/rotate-api-keys
+ */
+export async function POST(request: Request) {
+  try {
+    const cronSecret = process.env.CRON_SECRET
+    const authHeader = request.headers.get('authorization')
+
+    // Like the chat paper migration, never allowed without a secret
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    console.log('Starting Veritus API key rotation')
+    const result = await rotateVeritusApiKeys()
+    console.log(
+      `Veritus API key rotation finished (key version ${result.keyVersion}): ` +
+        `${result.rotated} rotated, ${result.encrypted} encrypted, ${result.failed} failed`
+    )
+
+    return NextResponse.json({
+      message: 'Veritus API keys rotated',
+      ...result,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error: any) {
+    console.error('Error rotating Veritus API keys:', error)
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
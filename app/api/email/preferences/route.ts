@@ -0,0 +1,94 @@
+import { NextResponse } from 'next/server'
+import connectDB from '@/lib/db'
+import User from '@/models/User'
+import { verifyEmailLinkToken } from '@/lib/services/email-links'
+import { applyEmailPreferencesUpdate, serializeEmailPreferences } from '@/lib/services/email-preferences'
+
+// Force dynamic rendering since the response depends on the token
+export const dynamic = 'force-dynamic'
+
+/**
+ * Show enough of the address for the user to recognise it ("j***@example.com")
+ */
+function maskEmail(email: string): string {
+  const [local, domain] = email.split('@')
+  return `${local.slice(0, 1)}***@${domain}`
+}
+
+async function findUserByToken(request: Request) {
+  const token = new URL(request.url).searchParams.get('token')
+  const userId = verifyEmailLinkToken(token)
+  if (!userId) {
+    return null
+  }
+  await connectDB()
+  return User.findById(userId)
+}
+
+/**
+ * GET /api/email/preferences?token=...
+ * Email settings for the preferences page linked from digest emails - no login required
+ *
+ * Query Parameters:
+ * - token (required): Signed email link token
+ */
+export async function GET(request: Request) {
+  try {
+    const dbUser = await findUserByToken(request)
+    if (!dbUser) {
+      return NextResponse.json(
+        { error: 'Invalid or expired link' },
+        { status: 401 }
+      )
+    }
+
+    return NextResponse.json({
+      email: maskEmail(dbUser.email),
+      ...serializeEmailPreferences(dbUser),
+    })
+  } catch (error: any) {
+    console.error('Error fetching email preferences:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch email preferences' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/email/preferences?token=...
+ * Update email settings from the preferences page
+ *
+ * Body: same as PUT /api/user/email-notifications (enabled, pause, digest)
+ */
+export async function PUT(request: Request) {
+  try {
+    const dbUser = await findUserByToken(request)
+    if (!dbUser) {
+      return NextResponse.json(
+        { error: 'Invalid or expired link' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    const updateError = applyEmailPreferencesUpdate(dbUser, body)
+    if (updateError) {
+      return NextResponse.json({ error: updateError }, { status: 400 })
+    }
+    await dbUser.save()
+
+    return NextResponse.json({
+      message: 'Email preferences updated',
+      email: maskEmail(dbUser.email),
+      ...serializeEmailPreferences(dbUser),
+    })
+  } catch (error: any) {
+    console.error('Error updating email preferences:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to update email preferences' },
+      { status: 500 }
+    )
+  }
+}
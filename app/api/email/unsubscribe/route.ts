@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server'
+import connectDB from '@/lib/db'
+import User from '@/models/User'
+import { verifyEmailLinkToken } from '@/lib/services/email-links'
+
+/**
+ * POST /api/email/unsubscribe?token=...
+ * One-click unsubscribe (RFC 8058) - the target of the List-Unsubscribe header in digest emails
+ * Authenticated by the signed token in the URL, not a login
+ *
+ * Query Parameters:
+ * - token (required): Signed email link token
+ */
+export async function POST(request: Request) {
+  try {
+    const token = new URL(request.url).searchParams.get('token')
+    const userId = verifyEmailLinkToken(token)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Invalid or expired link' },
+        { status: 401 }
+      )
+    }
+
+    await connectDB()
+
+    const result = await User.updateOne({ _id: userId }, { $set: { emailNotificationsEnabled: false } })
+    if (result.matchedCount === 0) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ message: 'Unsubscribed from email notifications' })
+  } catch (error: any) {
+    console.error('Error unsubscribing:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to unsubscribe' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * GET /api/email/unsubscribe?token=...
+ * Mail clients and link scanners fetch links, so GET never unsubscribes - it sends the user to the
+ * preferences page to confirm
+ */
+export async function GET(request: Request) {
+  const url = new URL(request.url)
+  const pageUrl = new URL('/email-preferences', url.origin)
+  pageUrl.searchParams.set('token', url.searchParams.get('token') || '')
+  pageUrl.searchParams.set('action', 'unsubscribe')
+  return NextResponse.redirect(pageUrl)
+}
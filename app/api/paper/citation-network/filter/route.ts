@@ -20,7 +20,7 @@ interface FilterRequest {
 
 export async function POST(request: Request) {
   try {
-    const user = await getCurrentUser()
+    const user = await getCurrentUser('papers:read')
     if (!user) {
       return NextResponse.json(
         { error: 'Unauthorized' },
@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server'
-import { getCurrentUser } from '@/lib/auth'
+import { getCurrentUser, hasAccessScope } from '@/lib/auth'
 import connectDB from '@/lib/db'
 import Chat from '@/models/Chat'
 import mongoose from 'mongoose'
@@ -10,7 +10,7 @@ import { storePaperSearchInChat } from '@/lib/chat-paper-integration'
 
 export async function POST(request: Request) {
   try {
-    const user = await getCurrentUser()
+    const user = await getCurrentUser('papers:read')
     if (!user) {
       return NextResponse.json(
         { error: 'Unauthorized' },
@@ -46,6 +46,14 @@ export async function POST(request: Request) {
       )
     }
 
+    // The network is saved to the chat, which a papers:read token alone may not do
+    if (!hasAccessScope(user, 'chats:write')) {
+      return NextResponse.json(
+        { error: 'This access token needs the chats:write scope to save to a chat' },
+        { status: 403 }
+      )
+    }
+
     // Validate sortBy parameter
     const validSortBy = ['relevance', 'citations', 'year']
     const sortAlgorithm = validSortBy.includes(sortBy) ? sortBy : 'relevance'
@@ -201,7 +209,7 @@ export async function POST(request: Request) {
     // Optionally store in chat if chatId provided
     if (chatId) {
       try {
-        await storePaperSearchInChat(chatId, result, 'citation-network')
+        await storePaperSearchInChat(chatId, user.userId, result, 'citation-network')
       } catch (error: any) {
         // Log error but don't fail the request
         console.error('Error storing citation network in chat:', error)
@@ -1,12 +1,15 @@
 import { NextResponse } from 'next/server'
-import { getCurrentUser } from '@/lib/auth'
+import { getCurrentUser, hasAccessScope } from '@/lib/auth'
 import { resolvePaper } from '@/lib/services/paper-service'
 import { buildPhrases } from '@/lib/services/phrase-builder'
 import { runCombinedSearch } from '@/lib/services/job-service'
+import { JobStillRunningError } from '@/lib/services/job-runner'
+import { creditBudgetErrorResponse } from '@/lib/services/credit-budgets'
 import { CorpusRequest, CorpusResponse } from '@/types/paper-api'
 import { storePaperSearchInChat } from '@/lib/chat-paper-integration'
 import { normalizeMockFlag } from '@/lib/config/mock-config'
 import { getMockCorpusResponse } from '@/lib/mock-data/mock-data-manager'
+import { veritusErrorResponse } from '@/lib/veritus-errors'
 
 /**
  * Load mock data from file (with variation support)
@@ -20,7 +23,7 @@ function loadMockCorpusData(corpusId?: string): CorpusResponse {
 
 export async function POST(request: Request) {
   try {
-    const user = await getCurrentUser()
+    const user = await getCurrentUser('jobs:write')
     if (!user) {
       return NextResponse.json(
         { error: 'Unauthorized' },
@@ -30,6 +33,14 @@ export async function POST(request: Request) {
 
     const body: CorpusRequest = await request.json()
     const { corpusId, depth = 50, chatId } = body
+
+    // Saving to the chat is a chat write, which a jobs:write token alone may not do
+    if (chatId && !hasAccessScope(user, 'chats:write')) {
+      return NextResponse.json(
+        { error: 'This access token needs the chats:write scope to save to a chat' },
+        { status: 403 }
+      )
+    }
     
     // Normalize mock flag (supports both mock and isMocked)
     const useMock = normalizeMockFlag(body)
@@ -60,13 +71,16 @@ export async function POST(request: Request) {
         console.log('Calling corpus services directly:', { corpusId, depth: limit })
         
         // Get the paper first
-        const paper = await resolvePaper(null, corpusId)
+        const paper = await resolvePaper(null, corpusId, { userId: user.userId, chatId })
 
         // Build phrases and query for corpus search
         const { phrases, query } = buildPhrases(paper)
 
         // Run corpus search
-        const similar = await runCombinedSearch(phrases, query, limit)
+        const similar = await runCombinedSearch(phrases, query, limit, {
+          userId: user.userId,
+          chatId,
+        })
 
         result = {
           paper,
@@ -77,6 +91,20 @@ export async function POST(request: Request) {
         console.log('Corpus service response received')
       } catch (error: any) {
         console.error('Error calling corpus services:', error)
+        if (error instanceof JobStillRunningError) {
+          return NextResponse.json(
+            {
+              message: 'Search is still processing. Results will be added to the chat when the job completes.',
+              jobId: error.jobId,
+              status: 'processing',
+            },
+            { status: 202 }
+          )
+        }
+        const budgetResponse = creditBudgetErrorResponse(error)
+        if (budgetResponse) {
+          return budgetResponse
+        }
         if (error.message === 'Paper not found') {
           return NextResponse.json(
             { error: error.message },
@@ -93,7 +121,7 @@ export async function POST(request: Request) {
     // Optionally store in chat if chatId provided
     if (chatId) {
       try {
-        await storePaperSearchInChat(chatId, result, 'corpus')
+        await storePaperSearchInChat(chatId, user.userId, result, 'corpus')
       } catch (error: any) {
         // Log error but don't fail the request
         console.error('Error storing corpus in chat:', error)
@@ -103,6 +131,12 @@ export async function POST(request: Request) {
     return NextResponse.json(result)
   } catch (error: any) {
     console.error('Error in corpus endpoint:', error)
+
+    const veritusResponse = veritusErrorResponse(error)
+    if (veritusResponse) {
+      return veritusResponse
+    }
+
     return NextResponse.json(
       { error: error.message || 'Internal server error' },
       { status: 500 }
@@ -1,13 +1,16 @@
 import { NextResponse } from 'next/server'
-import { getCurrentUser } from '@/lib/auth'
+import { getCurrentUser, hasAccessScope } from '@/lib/auth'
 import { resolvePaper } from '@/lib/services/paper-service'
 import { buildPhrases } from '@/lib/services/phrase-builder'
 import { runCombinedSearch } from '@/lib/services/job-service'
+import { JobStillRunningError } from '@/lib/services/job-runner'
+import { creditBudgetErrorResponse } from '@/lib/services/credit-budgets'
 import { buildGraph } from '@/lib/services/graph-builder'
 import { VisualizationRequest, VisualizationResponse } from '@/types/paper-api'
 import { storePaperSearchInChat } from '@/lib/chat-paper-integration'
 import { normalizeMockFlag } from '@/lib/config/mock-config'
 import visualizationMockData from '@/lib/mock-data/visualization-response.json'
+import { veritusErrorResponse } from '@/lib/veritus-errors'
 
 /**
  * Load mock data from file
@@ -25,7 +28,7 @@ function loadMockVisualizationData(): VisualizationResponse {
  */
 export async function POST(request: Request) {
   try {
-    const user = await getCurrentUser()
+    const user = await getCurrentUser('jobs:write')
     if (!user) {
       return NextResponse.json(
         { error: 'Unauthorized' },
@@ -35,6 +38,14 @@ export async function POST(request: Request) {
 
     const body: VisualizationRequest = await request.json()
     const { corpusId, depth = 50, chatId } = body
+
+    // Saving to the chat is a chat write, which a jobs:write token alone may not do
+    if (chatId && !hasAccessScope(user, 'chats:write')) {
+      return NextResponse.json(
+        { error: 'This access token needs the chats:write scope to save to a chat' },
+        { status: 403 }
+      )
+    }
     
     // Normalize mock flag (supports both mock and isMocked)
     const useMock = normalizeMockFlag(body)
@@ -67,9 +78,12 @@ export async function POST(request: Request) {
           depth: limit,
         })
 
-        const paper = await resolvePaper(null, corpusId)
+        const paper = await resolvePaper(null, corpusId, { userId: user.userId, chatId })
         const { phrases, query } = buildPhrases(paper)
-        const similarPapers = await runCombinedSearch(phrases, query, limit)
+        const similarPapers = await runCombinedSearch(phrases, query, limit, {
+          userId: user.userId,
+          chatId,
+        })
         const graph = buildGraph(paper, similarPapers.slice(0, limit))
 
         result = {
@@ -87,6 +101,20 @@ export async function POST(request: Request) {
         console.log('Visualization service response received')
       } catch (error: any) {
         console.error('Error calling visualization services:', error)
+        if (error instanceof JobStillRunningError) {
+          return NextResponse.json(
+            {
+              message: 'Search is still processing. Results will be added to the chat when the job completes.',
+              jobId: error.jobId,
+              status: 'processing',
+            },
+            { status: 202 }
+          )
+        }
+        const budgetResponse = creditBudgetErrorResponse(error)
+        if (budgetResponse) {
+          return budgetResponse
+        }
         if (error.message === 'Paper not found') {
           return NextResponse.json(
             { error: error.message },
@@ -103,7 +131,7 @@ export async function POST(request: Request) {
     // Optionally store in chat if chatId provided
     if (chatId) {
       try {
-        await storePaperSearchInChat(chatId, result, 'visualization')
+        await storePaperSearchInChat(chatId, user.userId, result, 'visualization')
       } catch (error: any) {
         // Log error but don't fail the request
         console.error('Error storing visualization in chat:', error)
@@ -113,6 +141,12 @@ export async function POST(request: Request) {
     return NextResponse.json(result)
   } catch (error: any) {
     console.error('Error in visualization endpoint:', error)
+
+    const veritusResponse = veritusErrorResponse(error)
+    if (veritusResponse) {
+      return veritusResponse
+    }
+
     return NextResponse.json(
       { error: error.message || 'Internal server error' },
       { status: 500 }
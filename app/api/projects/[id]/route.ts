@@ -1,16 +1,25 @@
 import { NextResponse } from 'next/server'
 import connectDB from '@/lib/db'
-import Project from '@/models/Project'
+import Project, { IProject } from '@/models/Project'
 import Chat from '@/models/Chat'
+import ChatPaper from '@/models/ChatPaper'
 import { getCurrentUser } from '@/lib/auth'
+import { creditBudgetSchema } from '@/lib/validators'
 import mongoose from 'mongoose'
 
+function serializeCreditBudget(project: IProject) {
+  return {
+    daily: project.creditBudget?.daily ?? null,
+    monthly: project.creditBudget?.monthly ?? null,
+  }
+}
+
 export async function GET(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = await getCurrentUser()
+    const user = await getCurrentUser('projects:read')
     if (!user) {
       return NextResponse.json(
         { error: 'Unauthorized' },
@@ -46,6 +55,7 @@ export async function GET(
         id: project._id.toString(),
         name: project.name,
         description: project.description,
+        creditBudget: serializeCreditBudget(project),
         createdAt: project.createdAt,
       },
     })
@@ -63,7 +73,7 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = await getCurrentUser()
+    const user = await getCurrentUser('projects:write')
     if (!user) {
       return NextResponse.json(
         { error: 'Unauthorized' },
@@ -85,6 +95,23 @@ export async function PUT(
     const body = await request.json()
     const { name, description } = body
 
+    // Budget limits are optional: a number sets one, null removes it
+    const creditBudgetUpdate: Record<string, number | null> = {}
+    if (body.creditBudget !== undefined) {
+      const validation = creditBudgetSchema.safeParse(body.creditBudget)
+      if (!validation.success) {
+        return NextResponse.json(
+          { error: validation.error.errors[0].message },
+          { status: 400 }
+        )
+      }
+      for (const [period, limit] of Object.entries(validation.data)) {
+        if (limit !== undefined) {
+          creditBudgetUpdate[`creditBudget.${period}`] = limit
+        }
+      }
+    }
+
     const project = await Project.findOneAndUpdate(
       {
         _id: id,
@@ -93,6 +120,7 @@ export async function PUT(
       {
         ...(name && { name: name.trim() }),
         ...(description !== undefined && { description: description.trim() }),
+        ...creditBudgetUpdate,
       },
       { new: true }
     )
@@ -110,6 +138,7 @@ export async function PUT(
         id: project._id.toString(),
         name: project.name,
         description: project.description,
+        creditBudget: serializeCreditBudget(project),
         createdAt: project.createdAt,
       },
     })
@@ -127,7 +156,7 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = await getCurrentUser()
+    const user = await getCurrentUser('projects:write')
     if (!user) {
       return NextResponse.json(
         { error: 'Unauthorized' },
@@ -146,9 +175,6 @@ export async function DELETE(
       )
     }
 
-    // Delete all chats in this project
-    await Chat.deleteMany({ projectId: id })
-
     // Delete project
     const project = await Project.findOneAndDelete({
       _id: id,
@@ -162,6 +188,11 @@ export async function DELETE(
       )
     }
 
+    // Delete all chats in this project, and the papers recorded for them
+    const chatIds = await Chat.distinct('_id', { projectId: id })
+    await ChatPaper.deleteMany({ chatId: { $in: chatIds } })
+    await Chat.deleteMany({ projectId: id })
+
     return NextResponse.json({
       message: 'Project deleted successfully',
     })
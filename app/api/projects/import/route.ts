@@ -0,0 +1,174 @@
+import { NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth'
+import { getVeritusApiKeyForUser } from '@/lib/veritus-auth'
+import { veritusErrorResponse } from '@/lib/veritus-errors'
+import connectDB from '@/lib/db'
+import Project from '@/models/Project'
+import { createAnalyticsDirectory, saveChatData } from '@/lib/file-system'
+import { CitationImportFormat, CITATION_IMPORT_FORMATS, parseCitationImport } from '@/lib/utils/citation-import'
+import { createImportChats, ImportMode, resolveImportEntries } from '@/lib/services/paper-import'
+import mongoose from 'mongoose'
+
+const MAX_IMPORT_ENTRIES = 200
+const IMPORT_MODES: ImportMode[] = ['per-paper', 'single']
+
+/**
+ * POST /api/projects/import
+ * Seed a project with papers from a BibTeX or RIS file, or a list of DOIs and titles
+ * Entries are matched to Veritus papers; nothing is created if none of them match
+ *
+ * Body:
+ * - content: The file contents or pasted list
+ * - format (optional): bibtex | ris | list (default: detected from content)
+ * - mode (optional): per-paper (one chat per paper, default) | single (one chat with every paper)
+ * - projectId: Import into an existing project, or
+ * - name, description (optional): Create a new project
+ */
+export async function POST(request: Request) {
+  try {
+    const user = await getCurrentUser('projects:write')
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const { content, format, mode = 'per-paper', projectId, name, description } = body
+
+    if (!content || typeof content !== 'string' || content.trim().length === 0) {
+      return NextResponse.json(
+        { error: 'content is required' },
+        { status: 400 }
+      )
+    }
+
+    if (format && !CITATION_IMPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `format must be one of: ${CITATION_IMPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (!IMPORT_MODES.includes(mode)) {
+      return NextResponse.json(
+        { error: `mode must be one of: ${IMPORT_MODES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (projectId ? !mongoose.Types.ObjectId.isValid(projectId) : !name || name.trim().length === 0) {
+      return NextResponse.json(
+        { error: projectId ? 'Invalid project ID' : 'Project name is required' },
+        { status: 400 }
+      )
+    }
+
+    const entries = parseCitationImport(content, format as CitationImportFormat | undefined)
+    if (entries.length === 0) {
+      return NextResponse.json(
+        { error: 'No references found. Upload a BibTeX or RIS file, or paste one DOI or title per line.' },
+        { status: 400 }
+      )
+    }
+    if (entries.length > MAX_IMPORT_ENTRIES) {
+      return NextResponse.json(
+        { error: `Too many references (${entries.length}). Import at most ${MAX_IMPORT_ENTRIES} at a time.` },
+        { status: 400 }
+      )
+    }
+
+    await connectDB()
+
+    let project = projectId
+      ? await Project.findOne({ _id: projectId, userId: user.userId })
+      : null
+    if (projectId && !project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    const apiKey = await getVeritusApiKeyForUser(user.userId)
+    const { matched, unmatched } = await resolveImportEntries(entries, apiKey, {
+      userId: user.userId,
+      projectId: project?._id.toString(),
+    })
+
+    const report = {
+      total: entries.length,
+      unmatched: unmatched.map(({ entry, reason }) => ({ label: entry.label, reason })),
+    }
+
+    if (matched.length === 0) {
+      return NextResponse.json(
+        { error: 'None of the references matched a paper', ...report },
+        { status: 422 }
+      )
+    }
+
+    const username = user.email.split('@')[0]
+    if (!project) {
+      project = new Project({
+        userId: user.userId,
+        name: name.trim(),
+        description: description?.trim() || '',
+      })
+      await project.save()
+    }
+
+    const chats = await createImportChats(project, matched.map((match) => match.paper), mode)
+
+    try {
+      for (const chat of chats) {
+        await createAnalyticsDirectory(username, project.name, chat._id.toString())
+        await saveChatData(username, project.name, chat._id.toString(), {
+          chatId: chat._id.toString(),
+          title: chat.title,
+          projectId: project._id.toString(),
+          createdAt: chat.createdAt,
+          messages: [],
+        })
+      }
+    } catch (error) {
+      console.error('Error creating analytics directory:', error)
+      // Continue even if directory creation fails
+    }
+
+    return NextResponse.json(
+      {
+        message: `Imported ${matched.length} of ${entries.length} references`,
+        project: {
+          id: project._id.toString(),
+          name: project.name,
+          description: project.description,
+          createdAt: project.createdAt,
+        },
+        chats: chats.map((chat) => ({ id: chat._id.toString(), title: chat.title })),
+        matched: matched.map(({ entry, paper, matchedBy, similarity }) => ({
+          label: entry.label,
+          paperId: paper.id,
+          title: paper.title,
+          matchedBy,
+          similarity,
+        })),
+        ...report,
+      },
+      { status: 201 }
+    )
+  } catch (error: any) {
+    console.error('Error importing references:', error)
+
+    const veritusResponse = veritusErrorResponse(error)
+    if (veritusResponse) {
+      return veritusResponse
+    }
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to import references' },
+      { status: 500 }
+    )
+  }
+}
@@ -6,7 +6,7 @@ import { createAnalyticsDirectory } from '@/lib/file-system'
 
 export async function GET() {
   try {
-    const user = await getCurrentUser()
+    const user = await getCurrentUser('projects:read')
     if (!user) {
       return NextResponse.json(
         { error: 'Unauthorized' },
@@ -22,6 +22,10 @@ export async function GET() {
       id: project._id.toString(),
       name: project.name,
       description: project.description,
+      creditBudget: {
+        daily: project.creditBudget?.daily ?? null,
+        monthly: project.creditBudget?.monthly ?? null,
+      },
       createdAt: project.createdAt,
     }))
 
@@ -37,7 +41,7 @@ export async function GET() {
 
 export async function POST(request: Request) {
   try {
-    const user = await getCurrentUser()
+    const user = await getCurrentUser('projects:write')
     if (!user) {
       return NextResponse.json(
         { error: 'Unauthorized' },
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server'
+import mongoose from 'mongoose'
+import { getCurrentUser } from '@/lib/auth'
+import { revokeAccessToken } from '@/lib/services/access-tokens'
+
+/**
+ * DELETE /api/user/access-tokens/[id]
+ * Revoke a personal access token; requests using it fail from now on
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: 'Invalid token ID' }, { status: 400 })
+    }
+
+    const revoked = await revokeAccessToken(user.userId, id)
+    if (!revoked) {
+      return NextResponse.json({ error: 'Access token not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ message: 'Access token revoked' })
+  } catch (error: any) {
+    console.error('Error revoking access token:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to revoke access token' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth'
+import { createAccessTokenSchema } from '@/lib/validators'
+import { AccessTokenLimitError, createAccessToken, listAccessTokens } from '@/lib/services/access-tokens'
+
+// Force dynamic rendering since we use cookies
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/user/access-tokens
+ * List the user's personal access tokens (never the tokens themselves)
+ * Login cookie only - an access token can't manage tokens
+ */
+export async function GET() {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tokens = await listAccessTokens(user.userId)
+
+    return NextResponse.json({ tokens })
+  } catch (error: any) {
+    console.error('Error listing access tokens:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to list access tokens' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/user/access-tokens
+ * Create a personal access token for scripts, sent as `Authorization: Bearer <token>`
+ * The token is only returned in this response
+ *
+ * Body:
+ * - name: Label for the token
+ * - scopes: Scopes to grant (see lib/config/access-token-scopes)
+ * - expiresInDays (optional): Days until it expires, 1-365, or null for never (default: 90)
+ */
+export async function POST(request: Request) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+
+    const validationResult = createAccessTokenSchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: validationResult.error.errors[0].message },
+        { status: 400 }
+      )
+    }
+
+    const { token, accessToken } = await createAccessToken(user.userId, validationResult.data)
+
+    return NextResponse.json({ token, accessToken }, { status: 201 })
+  } catch (error: any) {
+    if (error instanceof AccessTokenLimitError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Error creating access token:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to create access token' },
+      { status: 500 }
+    )
+  }
+}
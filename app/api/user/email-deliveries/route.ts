@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth'
+import { getEmailDeliveryLog } from '@/lib/services/email-outbox'
+
+// Force dynamic rendering since we use cookies
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/user/email-deliveries
+ * Delivery log of the emails sent to the current user - status, attempts and last error
+ *
+ * Query Parameters:
+ * - limit (optional): Number of emails to return (default: 20, max: 100)
+ */
+export async function GET(request: Request) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20', 10) || 20, 1), 100)
+
+    const deliveries = await getEmailDeliveryLog(user.userId, limit)
+
+    return NextResponse.json({ deliveries })
+  } catch (error: any) {
+    console.error('Error fetching email delivery log:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch email delivery log' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,10 +2,11 @@ import { NextResponse } from 'next/server'
 import { getCurrentUser } from '@/lib/auth'
 import connectDB from '@/lib/db'
 import User from '@/models/User'
+import { applyEmailPreferencesUpdate, serializeEmailPreferences } from '@/lib/services/email-preferences'
 
 /**
  * GET /api/user/email-notifications
- * Get email notification status and history
+ * Get email notification status, digest preferences and history
  */
 export async function GET() {
   try {
@@ -29,7 +30,7 @@ export async function GET() {
     const totalSent = history.length
 
     return NextResponse.json({
-      enabled: dbUser.emailNotificationsEnabled !== false,
+      ...serializeEmailPreferences(dbUser),
       lastSent: lastSent ? new Date(lastSent).toISOString() : null,
       totalSent,
       history: history.slice(-10).map((h: any) => ({
@@ -49,6 +50,12 @@ export async function GET() {
 /**
  * PUT /api/user/email-notifications
  * Update email notification settings
+ *
+ * Body (at least one of):
+ * - enabled: boolean
+ * - pause: true pauses digests for 30 days, false resumes them
+ * - digest: Partial digest preferences - frequency (daily | weekly | off), timezone (IANA),
+ *   sendHour (0-23), sendDay (0-6, weekly only), papersPerDigest (1-10)
  */
 export async function PUT(request: Request) {
   try {
@@ -60,26 +67,21 @@ export async function PUT(request: Request) {
     await connectDB()
 
     const body = await request.json()
-    const { enabled } = body
-
-    if (typeof enabled !== 'boolean') {
-      return NextResponse.json(
-        { error: 'enabled must be a boolean' },
-        { status: 400 }
-      )
-    }
 
     const dbUser = await User.findById(user.userId)
     if (!dbUser) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 })
     }
 
-    dbUser.emailNotificationsEnabled = enabled
+    const updateError = applyEmailPreferencesUpdate(dbUser, body)
+    if (updateError) {
+      return NextResponse.json({ error: updateError }, { status: 400 })
+    }
     await dbUser.save()
 
     return NextResponse.json({
       message: 'Email notification settings updated',
-      enabled: dbUser.emailNotificationsEnabled,
+      ...serializeEmailPreferences(dbUser),
     })
   } catch (error: any) {
     console.error('Error updating email notification settings:', error)
@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth'
+import { getVeritusApiKeyForUser } from '@/lib/veritus-auth'
+import { getPaperCached } from '@/lib/services/paper-cache'
+import { veritusErrorResponse } from '@/lib/veritus-errors'
+
+/**
+ * POST /api/v1/papers/{corpusId}/refresh
+ * Refetch a paper from Veritus and replace the cached copy
+ * Use when the cached metadata is known to be out of date (e.g. citation counts)
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ corpusId: string }> }
+) {
+  try {
+    const user = await getCurrentUser('jobs:write')
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { corpusId } = await params
+
+    if (!corpusId || corpusId.trim().length === 0) {
+      return NextResponse.json(
+        { error: 'Corpus ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const apiKey = await getVeritusApiKeyForUser(user.userId)
+    const { value: paper, cacheStatus } = await getPaperCached(corpusId.trim(), apiKey, {
+      forceRefresh: true,
+      usage: { userId: user.userId },
+    })
+
+    return NextResponse.json(
+      {
+        paper,
+        message: 'Paper refreshed successfully',
+      },
+      { headers: { 'X-Cache': cacheStatus } }
+    )
+  } catch (error: any) {
+    console.error('Error refreshing paper:', error)
+
+    const veritusResponse = veritusErrorResponse(error)
+    if (veritusResponse) {
+      return veritusResponse
+    }
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to refresh paper' },
+      { status: error.message?.includes('Unauthorized') ? 401 : 500 }
+    )
+  }
+}
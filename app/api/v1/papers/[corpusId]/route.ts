@@ -1,24 +1,28 @@
 import { NextResponse } from 'next/server'
-import { getCurrentUser } from '@/lib/auth'
-import { getVeritusApiKey } from '@/lib/veritus-auth'
-import { getPaper } from '@/lib/veritus-api'
+import { getCurrentUser, hasAccessScope } from '@/lib/auth'
+import { getVeritusApiKeyForUser } from '@/lib/veritus-auth'
+import { getPaperCached, CacheStatus, PaperNotCachedError } from '@/lib/services/paper-cache'
 import { normalizeMockFlag } from '@/lib/config/mock-config'
 import { getMockSearchResponse } from '@/lib/mock-data/mock-data-manager'
 import { updateChatMetadata } from '@/lib/utils/chat-metadata'
 import connectDB from '@/lib/db'
 import Chat from '@/models/Chat'
 import mongoose from 'mongoose'
+import { veritusErrorResponse } from '@/lib/veritus-errors'
 
 /**
  * GET /api/v1/papers/{corpusId}
  * Get paper by corpus ID using Veritus API
+ * Served from the shared paper cache when possible; the X-Cache header reports hit/stale/miss
+ * A cache miss spends Veritus credits, so access tokens need jobs:write for it (papers:read only
+ * reads the cache), and chats:write to save the paper to a chat
  */
 export async function GET(
   request: Request,
   { params }: { params: Promise<{ corpusId: string }> }
 ) {
   try {
-    const user = await getCurrentUser()
+    const user = await getCurrentUser('papers:read')
     if (!user) {
       return NextResponse.json(
         { error: 'Unauthorized' },
@@ -37,19 +41,33 @@ export async function GET(
       )
     }
 
+    // Saving to the chat is a chat write, which a papers:read token may not do
+    if (chatId && !hasAccessScope(user, 'chats:write')) {
+      return NextResponse.json(
+        { error: 'This access token needs the chats:write scope to save to a chat' },
+        { status: 403 }
+      )
+    }
+
     // Check if mock mode should be used
     const useMock = normalizeMockFlag({ isMocked: searchParams.get('mock') === 'true' })
 
     let paper
+    let cacheStatus: CacheStatus | undefined
 
     if (useMock) {
       // Return mock data (use corpusId to select variant)
       const mockData = getMockSearchResponse()
       paper = { ...mockData.paper, id: corpusId }
     } else {
-      // Call Veritus API directly
-      const apiKey = await getVeritusApiKey()
-      paper = await getPaper(corpusId.trim(), { apiKey })
+      // Veritus is only called on a cache miss, and only for callers that may spend credits
+      const apiKey = await getVeritusApiKeyForUser(user.userId)
+      const cached = await getPaperCached(corpusId.trim(), apiKey, {
+        usage: { userId: user.userId, chatId },
+        cacheOnly: !hasAccessScope(user, 'jobs:write'),
+      })
+      paper = cached.value
+      cacheStatus = cached.cacheStatus
     }
 
     // Store in chat metadata if chatId provided
@@ -79,13 +97,29 @@ export async function GET(
       }
     }
 
-    return NextResponse.json({
-      paper,
-      message: 'Paper retrieved successfully',
-      isMocked: useMock,
-    })
+    return NextResponse.json(
+      {
+        paper,
+        message: 'Paper retrieved successfully',
+        isMocked: useMock,
+      },
+      { headers: cacheStatus ? { 'X-Cache': cacheStatus } : undefined }
+    )
   } catch (error: any) {
     console.error('Error fetching paper:', error)
+
+    if (error instanceof PaperNotCachedError) {
+      return NextResponse.json(
+        { error: `${error.message}. This access token needs the jobs:write scope to fetch it from Veritus` },
+        { status: 403 }
+      )
+    }
+
+    const veritusResponse = veritusErrorResponse(error)
+    if (veritusResponse) {
+      return veritusResponse
+    }
+
     return NextResponse.json(
       { error: error.message || 'Failed to fetch paper' },
       { status: error.message?.includes('Unauthorized') ? 401 : error.message?.includes('not found') ? 404 : 500 }
@@ -1,15 +1,15 @@
 import { NextResponse } from 'next/server'
-import { getCurrentUser } from '@/lib/auth'
-import { getVeritusApiKey } from '@/lib/veritus-auth'
-import { createJob, getJobStatus } from '@/lib/veritus-api'
+import { getCurrentUser, hasAccessScope } from '@/lib/auth'
+import { getVeritusApiKeyForUser } from '@/lib/veritus-auth'
 import { normalizeMockFlag, isDebugMode } from '@/lib/config/mock-config'
 import { getMockCorpusResponse } from '@/lib/mock-data/mock-data-manager'
-import { updateChatMetadata, extractMetadataFromPapers, mergeMetadata } from '@/lib/utils/chat-metadata'
-import { ChatMetadata } from '@/models/Chat'
+import { submitJob, waitForJob, isActiveStatus } from '@/lib/services/job-runner'
+import { storeSimilarPapersInChat } from '@/lib/chat-paper-integration'
 import connectDB from '@/lib/db'
 import Chat from '@/models/Chat'
-import mongoose from 'mongoose'
 import { VeritusPaper } from '@/types/veritus'
+import { veritusErrorResponse } from '@/lib/veritus-errors'
+import { creditBudgetErrorResponse } from '@/lib/services/credit-budgets'
 
 // Valid field values
 const VALID_FIELDS_OF_STUDY = [
@@ -23,6 +23,8 @@ const VALID_FIELDS_OF_STUDY = [
 const VALID_QUARTILE_RANKINGS = ['Q1', 'Q2', 'Q3', 'Q4']
 const VALID_PUBLICATION_TYPES = ['journal', 'book series', 'conference']
 
+const SEARCH_WAIT_TIMEOUT_MS = 60 * 1000
+
 interface SearchPapersRequest {
   fieldsOfStudy?: string | string[]
   minCitationCount?: number
@@ -47,10 +49,12 @@ interface SearchPapersRequest {
  * POST /api/v1/papers/search-papers
  * Advanced paper search with filters using Veritus API job system
  * Mock data is allowed for Stage 4 testing
+ * Starts a job that spends Veritus credits, so access tokens need jobs:write, and chats:write to
+ * save the results to a chat
  */
 export async function POST(request: Request) {
   try {
-    const user = await getCurrentUser()
+    const user = await getCurrentUser('jobs:write')
     if (!user) {
       return NextResponse.json(
         { error: 'Unauthorized' },
@@ -90,6 +94,14 @@ export async function POST(request: Request) {
     const providedPapers = body._papers || undefined
     const limit = body.limit || (searchParams.get('limit') ? parseInt(searchParams.get('limit')!, 10) as 100 | 200 | 300 : 100)
 
+    // Saving to the chat is a chat write, which a jobs:write token alone may not do
+    if (chatId && !hasAccessScope(user, 'chats:write')) {
+      return NextResponse.json(
+        { error: 'This access token needs the chats:write scope to save to a chat' },
+        { status: 403 }
+      )
+    }
+
     // Check if mock mode should be used (Stage 4 - Similar Paper Search)
     const useMock = normalizeMockFlag(body as any)
 
@@ -192,6 +204,7 @@ export async function POST(request: Request) {
     }
 
     let papers: VeritusPaper[] = []
+    let storedByJob = false
 
     // If papers are provided directly (from frontend job polling), use them
     if (skipJobCreation && providedPapers && providedPapers.length > 0) {
@@ -206,7 +219,7 @@ export async function POST(request: Request) {
       papers = [mockData.paper, ...mockData.similarPapers]
     } else {
       // Use Veritus API job system for advanced search
-      const apiKey = await getVeritusApiKey()
+      const apiKey = await getVeritusApiKeyForUser(user.userId)
       
       // Determine job type based on validated input
       let jobType: 'keywordSearch' | 'querySearch' | 'combinedSearch' = 'querySearch'
@@ -279,114 +292,52 @@ export async function POST(request: Request) {
         publicationTypes: publicationTypesArray.length > 0 ? publicationTypesArray : undefined,
       }
 
-      const jobResponse = await createJob(jobParams, jobBody, { apiKey })
-      const jobId = jobResponse.jobId
+      const job = await submitJob(jobParams, jobBody, {
+        userId: user.userId,
+        chatId,
+        apiKey,
+      })
+      const jobId = job._id.toString()
 
-      // Poll for job completion
-      // For mock mode: 3 second timeout, for real API: 60 second timeout (default)
-      const isMock = jobId.startsWith('mock-job-') || process.env.DEBUG === 'true'
-      let attempts = 0
-      const maxAttempts = isMock ? 2 : 30 // Mock: 2 attempts * 1.5s ≈ 3s, Real: 30 attempts * 2s = 60s
-      const pollInterval = isMock ? 1500 : 2000 // Mock: 1.5s, Real: 2s
-      let jobStatus
+      // Wait up to 60 seconds inline; the job runner keeps tracking the job after that
+      const finishedJob = await waitForJob(jobId, { timeoutMs: SEARCH_WAIT_TIMEOUT_MS, apiKey })
 
-      while (attempts < maxAttempts) {
-        await new Promise(resolve => setTimeout(resolve, pollInterval))
-        jobStatus = await getJobStatus(jobId, { apiKey })
-        
-        if (jobStatus.status === 'success') {
-          papers = jobStatus.results || []
-          break
-        } else if (jobStatus.status === 'error') {
-          throw new Error('Job failed')
-        }
-        
-        attempts++
+      if (!finishedJob) {
+        throw new Error('Job not found')
+      }
+      if (finishedJob.status === 'error') {
+        throw new Error(finishedJob.error || 'Job failed')
+      }
+      if (isActiveStatus(finishedJob.status)) {
+        // Not a failure - the job runner keeps tracking the job and stores the results in the chat
+        return NextResponse.json(
+          {
+            message: 'Search is still processing. Results will be added to the chat when the job completes.',
+            jobId,
+            status: finishedJob.status,
+          },
+          { status: 202 }
+        )
       }
 
-      // Check if we timed out or got results
-      if (!papers || papers.length === 0) {
-        if (isMock) {
-          return NextResponse.json(
-            { error: 'Search timed out or returned no results' },
-            { status: 504 }
-          )
-        } else {
-          // For real API, check final status
-          const finalStatus = await getJobStatus(jobId, { apiKey })
-          if (finalStatus.status === 'queued' || finalStatus.status === 'processing') {
-            return NextResponse.json(
-              { error: 'Search timed out after 60 seconds. The job is still processing. Please try again later.' },
-              { status: 504 }
-            )
-          }
-          return NextResponse.json(
-            { error: 'Search timed out after 60 seconds or returned no results' },
-            { status: 504 }
-          )
-        }
+      // A search that found nothing is still a finished search: 200 with an empty list
+      papers = (finishedJob.results || []) as VeritusPaper[]
+
+      if (finishedJob.consumedAt) {
+        storedByJob = true
+      } else {
+        // Results are stored in the chat below, so nothing needs to reattach to this job
+        finishedJob.consumedAt = new Date()
+        await finishedJob.save()
       }
     }
 
     // Store papers in chat messages and update chat store if chatId provided
     // IMPORTANT: This stores papers from similar-search for citation network generation
-    if (chatId && papers.length > 0) {
+    // Jobs that completed through the job runner have already been stored in the chat
+    if (chatId && papers.length > 0 && !storedByJob) {
       try {
-        await connectDB()
-        
-        // Fetch the specific chat by chatId AND userId to ensure:
-        // 1. User can only update their own chats (security)
-        // 2. Metadata is isolated to this specific chat session
-        if (mongoose.Types.ObjectId.isValid(chatId)) {
-          const chat = await Chat.findOne({
-            _id: chatId,
-            userId: user.userId,
-          })
-
-          if (chat) {
-            // Extract metadata from all papers (includes tldr, quartile, publishedAt)
-            const metadata = extractMetadataFromPapers(papers)
-            
-            // Merge with existing metadata using utility function
-            // This merges into THIS specific chat's metadata only
-            const existingMetadata = chat.chatMetadata || {}
-            const updatedMetadata = mergeMetadata(existingMetadata as ChatMetadata, metadata)
-            
-            // Update chat store with similar papers (limit to 5 for graph)
-            // Find the root paper's heading from chatMetadata
-            if (chat.chatMetadata) {
-              const rootPaperHeading = chat.chatMetadata.paperData?.abstract || chat.chatMetadata.paperData?.title
-              if (rootPaperHeading && chat.chatMetadata.chatStore) {
-                const chatStore = chat.chatMetadata.chatStore as any
-                if (chatStore[rootPaperHeading]) {
-                  // Update similar papers (limit to 5)
-                  chatStore[rootPaperHeading].similarPapers = papers.slice(0, 5)
-                  chatStore[rootPaperHeading].apiResponse = {
-                    papers,
-                    total: papers.length,
-                    isMocked: useMock,
-                  }
-                  updatedMetadata.chatStore = chatStore
-                }
-              }
-            }
-            
-            chat.chatMetadata = updatedMetadata
-            
-            // Store papers in chat messages automatically
-            // These papers will be used by citation-network API
-            const searchMessage = {
-              role: 'assistant' as const,
-              content: `Found ${papers.length} similar papers`,
-              timestamp: new Date(),
-              papers: papers, // Store all papers in the message for citation network
-            }
-            
-            chat.messages.push(searchMessage)
-            chat.updatedAt = new Date()
-            await chat.save()
-          }
-        }
+        await storeSimilarPapersInChat(chatId, user.userId, papers, useMock)
       } catch (error) {
         // Log error but don't fail the request
         console.error('Error updating chat metadata and storing papers:', error)
@@ -400,6 +351,17 @@ export async function POST(request: Request) {
     })
   } catch (error: any) {
     console.error('Error searching papers:', error)
+
+    const budgetResponse = creditBudgetErrorResponse(error)
+    if (budgetResponse) {
+      return budgetResponse
+    }
+
+    const veritusResponse = veritusErrorResponse(error)
+    if (veritusResponse) {
+      return veritusResponse
+    }
+
     return NextResponse.json(
       { error: error.message || 'Failed to search papers' },
       { status: error.message?.includes('Unauthorized') ? 401 : 500 }
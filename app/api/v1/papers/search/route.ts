@@ -1,13 +1,14 @@
 import { NextResponse } from 'next/server'
-import { getCurrentUser } from '@/lib/auth'
-import { getVeritusApiKey } from '@/lib/veritus-auth'
-import { searchPapers } from '@/lib/veritus-api'
+import { getCurrentUser, hasAccessScope } from '@/lib/auth'
+import { getVeritusApiKeyForUser } from '@/lib/veritus-auth'
+import { searchPapersCached, CacheStatus, PaperNotCachedError } from '@/lib/services/paper-cache'
 import { normalizeMockFlag, isDebugMode } from '@/lib/config/mock-config'
 import { getMockSearchResponse } from '@/lib/mock-data/mock-data-manager'
 import { updateChatMetadata } from '@/lib/utils/chat-metadata'
 import connectDB from '@/lib/db'
 import Chat from '@/models/Chat'
 import mongoose from 'mongoose'
+import { veritusErrorResponse } from '@/lib/veritus-errors'
 
 // Force dynamic rendering since this route uses cookies for authentication
 export const dynamic = 'force-dynamic'
@@ -15,10 +16,13 @@ export const dynamic = 'force-dynamic'
 /**
  * GET /api/v1/papers/search
  * Search papers by title using Veritus API
+ * Repeat searches are served from the paper cache; the X-Cache header reports hit/stale/miss
+ * Searching Veritus spends credits, so access tokens need jobs:write for a cache miss (papers:read
+ * only reads the cache), and chats:write to save the result to a chat
  */
 export async function GET(request: Request) {
   try {
-    const user = await getCurrentUser()
+    const user = await getCurrentUser('papers:read')
     if (!user) {
       return NextResponse.json(
         { error: 'Unauthorized' },
@@ -37,10 +41,19 @@ export async function GET(request: Request) {
       )
     }
 
+    // Saving to the chat is a chat write, which a papers:read token may not do
+    if (chatId && !hasAccessScope(user, 'chats:write')) {
+      return NextResponse.json(
+        { error: 'This access token needs the chats:write scope to save to a chat' },
+        { status: 403 }
+      )
+    }
+
     // Check if mock mode should be used (DEBUG=true uses mock data)
     const useMock = normalizeMockFlag({ isMocked: searchParams.get('mock') === 'true' })
 
     let paper
+    let cacheStatus: CacheStatus | undefined
 
     if (useMock) {
       // Return mock data with 3 second delay if DEBUG mode is enabled
@@ -50,9 +63,13 @@ export async function GET(request: Request) {
       const mockData = getMockSearchResponse()
       paper = mockData.paper
     } else {
-      // Call Veritus API directly
-      const apiKey = await getVeritusApiKey()
-      const papers = await searchPapers({ title: title.trim() }, { apiKey })
+      // Repeat searches for the same title are served from the paper cache
+      const apiKey = await getVeritusApiKeyForUser(user.userId)
+      const cached = await searchPapersCached(title.trim(), apiKey, {
+        cacheOnly: !hasAccessScope(user, 'jobs:write'),
+      })
+      const papers = cached.value
+      cacheStatus = cached.cacheStatus
       
       if (!papers || papers.length === 0) {
         return NextResponse.json(
@@ -92,13 +109,29 @@ export async function GET(request: Request) {
       }
     }
 
-    return NextResponse.json({
-      paper,
-      message: 'Paper found successfully',
-      isMocked: useMock,
-    })
+    return NextResponse.json(
+      {
+        paper,
+        message: 'Paper found successfully',
+        isMocked: useMock,
+      },
+      { headers: cacheStatus ? { 'X-Cache': cacheStatus } : undefined }
+    )
   } catch (error: any) {
     console.error('Error searching papers:', error)
+
+    if (error instanceof PaperNotCachedError) {
+      return NextResponse.json(
+        { error: `${error.message}. This access token needs the jobs:write scope to fetch it from Veritus` },
+        { status: 403 }
+      )
+    }
+
+    const veritusResponse = veritusErrorResponse(error)
+    if (veritusResponse) {
+      return veritusResponse
+    }
+
     return NextResponse.json(
       { error: error.message || 'Failed to search papers' },
       { status: error.message?.includes('Unauthorized') ? 401 : 500 }
@@ -2,11 +2,30 @@ import { NextResponse } from 'next/server'
 import { getCurrentUser } from '@/lib/auth'
 import connectDB from '@/lib/db'
 import Chat from '@/models/Chat'
+import { addPapersToChat, getChatPapers, ChatPaperEntry } from '@/lib/services/chat-paper-library'
 import mongoose from 'mongoose'
 
+const MAX_CHILDREN_PER_PARENT = 3
+
+function normalizePaperId(paperId: string | number): string {
+  return String(paperId).replace('corpus:', '').replace('paper-', '').replace('root-', '').trim()
+}
+
+/**
+ * Shape a library entry like the childPapers entries this route has always returned
+ */
+function toChildPaper(entry: ChatPaperEntry) {
+  return {
+    id: entry.corpusId,
+    title: entry.paper.title || 'Unknown',
+    sourceParentId: entry.parentCorpusId,
+    paper: entry.paper,
+  }
+}
+
 /**
  * POST /api/v1/papers/store-children
- * Store parent→child relationships in chatstore
+ * Store parent→child relationships in the chat's paper library
  * 
  * Body:
  * - paperId: Parent paper ID
@@ -15,7 +34,7 @@ import mongoose from 'mongoose'
  */
 export async function POST(request: Request) {
   try {
-    const user = await getCurrentUser()
+    const user = await getCurrentUser('chats:write')
     if (!user) {
       return NextResponse.json(
         { error: 'Unauthorized' },
@@ -65,45 +84,24 @@ export async function POST(request: Request) {
       )
     }
 
-    // Initialize chatMetadata if it doesn't exist
-    if (!chat.chatMetadata) {
-      chat.chatMetadata = {}
-    }
-
-    // Initialize paperRelationships if it doesn't exist
-    if (!chat.chatMetadata.paperRelationships) {
-      chat.chatMetadata.paperRelationships = {}
-    }
-
-    // Store parent→child relationship
-    // Format: { paperId: { childPapers: [{id, title, sourceParentId, paper?}] } }
-    // where paper is the full VeritusPaper object for consistent datastore
-    
     // CRITICAL: Normalize paperId to ensure consistent key format
     // Convert to string and remove prefixes to ensure consistent key format
-    let normalizedPaperId = String(paperId).replace('corpus:', '').replace('paper-', '').replace('root-', '').trim()
-    
-    const relationships = chat.chatMetadata.paperRelationships as any
-    
-    // Use normalized paperId as key
-    if (!relationships[normalizedPaperId]) {
-      relationships[normalizedPaperId] = { childPapers: [] }
-    }
+    const normalizedPaperId = normalizePaperId(paperId)
 
-    // Merge new child papers (prevent duplicates)
-    // CRITICAL: Use normalizedPaperId for all lookups
-    const existingChildIds = new Set(
-      (relationships[normalizedPaperId].childPapers || []).map((cp: any) => cp.id)
-    )
+    // Existing children come from the paper library (migrates older chats on first read)
+    const existingChildren = await getChatPapers(chatId, user.userId, {
+      source: 'child',
+      parentCorpusId: normalizedPaperId,
+    })
+    const existingChildIds = new Set(existingChildren.map((entry) => entry.corpusId))
 
     // Add only new children (max 3 total per parent)
-    const existingCount = (relationships[normalizedPaperId].childPapers || []).length
-    const maxToAdd = 3 - existingCount
+    const maxToAdd = MAX_CHILDREN_PER_PARENT - existingChildren.length
     
     // Process child papers - ensure full paper data is preserved
     const processedChildPapers = childPapers.map((cp: any) => {
       // Normalize ID
-      const normalizedId = cp.id?.toString().replace('corpus:', '').replace('paper-', '').replace('root-', '').trim() || cp.id
+      const normalizedId = cp.id ? normalizePaperId(cp.id) : cp.id
       return {
         id: normalizedId,
         title: cp.title || 'Unknown',
@@ -114,17 +112,27 @@ export async function POST(request: Request) {
     })
     
     const newChildren = processedChildPapers
-      .filter((cp: any) => !existingChildIds.has(cp.id))
-      .slice(0, maxToAdd)
+      .filter((cp: any) => cp.id && !existingChildIds.has(cp.id))
+      .slice(0, Math.max(0, maxToAdd))
 
     if (newChildren.length > 0) {
-      // Store children with full paper data
-      // CRITICAL: Use normalizedPaperId for storage
-      relationships[normalizedPaperId].childPapers = [
-        ...(relationships[normalizedPaperId].childPapers || []),
-        ...newChildren,
-      ].slice(0, 3) // Enforce max 3 children
+      await addPapersToChat(
+        chat,
+        newChildren.map((cp: any) => ({ ...(cp.paper || { title: cp.title }), id: cp.id })),
+        { source: 'child', parentCorpusId: normalizedPaperId }
+      )
 
+      // Keep the legacy chatMetadata copy in sync for readers that have not moved to the library
+      if (!chat.chatMetadata) {
+        chat.chatMetadata = {}
+      }
+      const relationships = (chat.chatMetadata.paperRelationships || {}) as any
+      relationships[normalizedPaperId] = {
+        childPapers: [
+          ...(relationships[normalizedPaperId]?.childPapers || []),
+          ...newChildren,
+        ].slice(0, MAX_CHILDREN_PER_PARENT),
+      }
       chat.chatMetadata.paperRelationships = relationships
       chat.updatedAt = new Date()
       
@@ -134,19 +142,17 @@ export async function POST(request: Request) {
       
       await chat.save()
       
-      const totalChildren = relationships[normalizedPaperId].childPapers.length
-      
       return NextResponse.json({
         success: true,
         message: `Stored ${newChildren.length} child papers for parent ${normalizedPaperId}`,
-        totalChildren: totalChildren,
+        totalChildren: existingChildren.length + newChildren.length,
         storedKey: normalizedPaperId, // Return the key used for storage
       })
     } else {
       return NextResponse.json({
         success: true,
         message: 'No new children to store (duplicates or max reached)',
-        totalChildren: relationships[normalizedPaperId].childPapers?.length || 0,
+        totalChildren: existingChildren.length,
         storedKey: normalizedPaperId,
       })
     }
@@ -164,7 +170,7 @@ export async function POST(request: Request) {
 
 /**
  * GET /api/v1/papers/store-children
- * Retrieve parent→child relationships from chatstore
+ * Retrieve parent→child relationships from the chat's paper library
  * 
  * Query Parameters:
  * - chatId: Chat ID (required)
@@ -172,7 +178,7 @@ export async function POST(request: Request) {
  */
 export async function GET(request: Request) {
   try {
-    const user = await getCurrentUser()
+    const user = await getCurrentUser('chats:read')
     if (!user) {
       return NextResponse.json(
         { error: 'Unauthorized' },
@@ -213,56 +219,31 @@ export async function GET(request: Request) {
       )
     }
 
-    const relationships = (chat.chatMetadata?.paperRelationships as any) || {}
-
     if (paperId) {
       // Normalize paperId to match storage format (remove prefixes)
       // CRITICAL: Convert to string to ensure type consistency
-      let normalizedPaperId = String(paperId).replace('corpus:', '').replace('paper-', '').replace('root-', '').trim()
-      
-      // Try both normalized and original formats
-      let paperRelationships = relationships[normalizedPaperId] || relationships[paperId] || null
-      
-      if (!paperRelationships) {
-        // Try all possible formats
-        const allKeys = Object.keys(relationships)
-        for (const key of allKeys) {
-          const normalizedKey = String(key).replace('corpus:', '').replace('paper-', '').replace('root-', '').trim()
-          if (normalizedKey === normalizedPaperId || key === normalizedPaperId || key === paperId) {
-            paperRelationships = relationships[key]
-            break
-          }
-        }
-      }
-      
-      let childPapers = paperRelationships?.childPapers || []
-      
-      // If no children found with normalized key, try original paperId
-      if (childPapers.length === 0 && paperId !== normalizedPaperId) {
-        const originalRelationships = relationships[paperId]
-        if (originalRelationships) {
-          childPapers = originalRelationships.childPapers || []
-        }
-      }
-      
-      // If still no children, try all keys to find a match
-      if (childPapers.length === 0) {
-        const allKeys = Object.keys(relationships)
-        for (const key of allKeys) {
-          const normalizedKey = String(key).replace('corpus:', '').replace('paper-', '').replace('root-', '').trim()
-          if (normalizedKey === normalizedPaperId || key === normalizedPaperId || key === paperId) {
-            childPapers = relationships[key]?.childPapers || []
-            break
-          }
-        }
-      }
+      const normalizedPaperId = normalizePaperId(paperId)
+      const children = await getChatPapers(chatId, user.userId, {
+        source: 'child',
+        parentCorpusId: normalizedPaperId,
+      })
       
       return NextResponse.json({
         paperId: normalizedPaperId,
-        childPapers: childPapers,
+        childPapers: children.map(toChildPaper),
       })
     } else {
-      // Return all relationships
+      // Return all relationships, grouped by parent
+      const children = await getChatPapers(chatId, user.userId, { source: 'child' })
+      const relationships: Record<string, { childPapers: ReturnType<typeof toChildPaper>[] }> = {}
+      for (const child of children) {
+        const parentId = child.parentCorpusId || ''
+        if (!relationships[parentId]) {
+          relationships[parentId] = { childPapers: [] }
+        }
+        relationships[parentId].childPapers.push(toChildPaper(child))
+      }
+
       return NextResponse.json({
         relationships,
       })
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth'
+import { estimateJobCost } from '@/lib/services/credit-ledger'
+import { getVeritusApiKeyForUser } from '@/lib/veritus-auth'
+import { CREDIT_JOB_TYPES, CreditJobType } from '@/lib/utils/credit-cost'
+
+// Force dynamic rendering since this route uses cookies for authentication
+export const dynamic = 'force-dynamic'
+
+const JOB_LIMITS = [100, 200, 300]
+
+/**
+ * GET /api/veritus/credits/estimate
+ * Estimated credit cost of a search job, before running it
+ *
+ * Query Parameters:
+ * - jobType: keywordSearch | querySearch | combinedSearch
+ * - limit: 100 | 200 | 300 (default 100)
+ */
+export async function GET(request: Request) {
+  try {
+    const user = await getCurrentUser('papers:read')
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const jobType = searchParams.get('jobType') as CreditJobType | null
+    const limit = parseInt(searchParams.get('limit') || '100', 10)
+
+    if (!jobType || !CREDIT_JOB_TYPES.includes(jobType)) {
+      return NextResponse.json(
+        { error: `jobType must be one of: ${CREDIT_JOB_TYPES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+    if (!JOB_LIMITS.includes(limit)) {
+      return NextResponse.json({ error: 'limit must be 100, 200 or 300' }, { status: 400 })
+    }
+
+    // Measured costs are per key; without one the estimate uses every key's history
+    const apiKey = await getVeritusApiKeyForUser(user.userId).catch(() => undefined)
+    const estimate = await estimateJobCost(jobType, limit, apiKey)
+
+    return NextResponse.json({ jobType, limit, ...estimate })
+  } catch (error: any) {
+    console.error('Error estimating credit cost:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to estimate credit cost' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,19 +1,31 @@
 import { NextResponse } from 'next/server'
-import { getVeritusApiKey } from '@/lib/veritus-auth'
+import { getCurrentUser } from '@/lib/auth'
+import { getVeritusApiKeyForUser } from '@/lib/veritus-auth'
 import { getCredits } from '@/lib/veritus-api'
+import { veritusErrorResponse } from '@/lib/veritus-errors'
 
 export async function GET() {
   try {
-    const apiKey = await getVeritusApiKey()
+    const user = await getCurrentUser('papers:read')
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const apiKey = await getVeritusApiKeyForUser(user.userId)
     const credits = await getCredits({ apiKey })
 
     return NextResponse.json(credits)
   } catch (error: any) {
     console.error('Error fetching credits:', error)
+
+    const veritusResponse = veritusErrorResponse(error)
+    if (veritusResponse) {
+      return veritusResponse
+    }
+
     return NextResponse.json(
       { error: error.message || 'Failed to fetch credits' },
       { status: error.message?.includes('Unauthorized') ? 401 : 500 }
     )
   }
 }
-
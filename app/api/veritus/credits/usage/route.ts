@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth'
+import { getCreditUsageByProject } from '@/lib/services/credit-ledger'
+import { getCreditBudgetStatus } from '@/lib/services/credit-budgets'
+
+// Force dynamic rendering since this route uses cookies for authentication
+export const dynamic = 'force-dynamic'
+
+const MAX_USAGE_DAYS = 365
+
+/**
+ * GET /api/veritus/credits/usage
+ * Credits spent per project, from the local credit ledger, and how much of each credit budget
+ * (the user's and their projects') is used today and this month
+ *
+ * Query Parameters:
+ * - days: How far back to look (default 30, max 365)
+ */
+export async function GET(request: Request) {
+  try {
+    const user = await getCurrentUser('papers:read')
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const days = parseInt(searchParams.get('days') || '30', 10)
+
+    if (!Number.isInteger(days) || days < 1 || days > MAX_USAGE_DAYS) {
+      return NextResponse.json(
+        { error: `days must be between 1 and ${MAX_USAGE_DAYS}` },
+        { status: 400 }
+      )
+    }
+
+    const projects = await getCreditUsageByProject(user.userId, days)
+    const totalCredits = projects.reduce((sum, project) => sum + project.credits, 0)
+    const budgets = await getCreditBudgetStatus(user.userId)
+
+    return NextResponse.json({ days, totalCredits, projects, budgets })
+  } catch (error: any) {
+    console.error('Error fetching credit usage:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch credit usage' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,16 +1,19 @@
 import { NextResponse } from 'next/server'
 import { getCurrentUser } from '@/lib/auth'
-import { getVeritusApiKey } from '@/lib/veritus-auth'
-import { getJobStatus } from '@/lib/veritus-api'
-import { isDebugMode } from '@/lib/config/mock-config'
-import { getMockCorpusResponse } from '@/lib/mock-data/mock-data-manager'
+import { getJobForUser, resumeJob, serializeJob } from '@/lib/services/job-runner'
+import { veritusErrorResponse } from '@/lib/veritus-errors'
 
+/**
+ * GET /api/veritus/job/{jobId}
+ * Read job status and results from the job store
+ * The server-side job runner keeps the stored state up to date with Veritus
+ */
 export async function GET(
   request: Request,
   { params }: { params: Promise<{ jobId: string }> }
 ) {
   try {
-    const user = await getCurrentUser()
+    const user = await getCurrentUser('papers:read')
     if (!user) {
       return NextResponse.json(
         { error: 'Unauthorized' },
@@ -27,23 +30,25 @@ export async function GET(
       )
     }
 
-    // Check if this is a mock job ID (from DEBUG mode)
-    if (jobId.startsWith('mock-job-') || isDebugMode()) {
-      // Return mock job status with completed results
-      const mockData = getMockCorpusResponse()
-      return NextResponse.json({
-        status: 'success',
-        results: [mockData.paper, ...mockData.similarPapers],
-        isMocked: true,
-      })
+    const job = await getJobForUser(jobId, user.userId)
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      )
     }
 
-    const apiKey = await getVeritusApiKey()
-    const status = await getJobStatus(jobId, { apiKey })
+    const current = await resumeJob(job)
 
-    return NextResponse.json(status)
+    return NextResponse.json(serializeJob(current))
   } catch (error: any) {
     console.error('Error fetching job status:', error)
+
+    const veritusResponse = veritusErrorResponse(error)
+    if (veritusResponse) {
+      return veritusResponse
+    }
+
     return NextResponse.json(
       { error: error.message || 'Failed to fetch job status' },
       { status: error.message?.includes('Unauthorized') ? 401 : 500 }
@@ -51,3 +56,55 @@ export async function GET(
   }
 }
 
+/**
+ * PATCH /api/veritus/job/{jobId}
+ * Mark a finished job's results as consumed so the page does not reattach to it again
+ *
+ * Body:
+ * - consumed: true
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const user = await getCurrentUser('jobs:write')
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { jobId } = await params
+    const body = await request.json()
+
+    if (body.consumed !== true) {
+      return NextResponse.json(
+        { error: 'consumed must be true' },
+        { status: 400 }
+      )
+    }
+
+    const job = await getJobForUser(jobId, user.userId)
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!job.consumedAt) {
+      job.consumedAt = new Date()
+      await job.save()
+    }
+
+    return NextResponse.json(serializeJob(job, false))
+  } catch (error: any) {
+    console.error('Error updating job:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to update job' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server'
+import connectDB from '@/lib/db'
+import Job from '@/models/Job'
+import { verifyJobCallback } from '@/lib/services/job-callback'
+import { completeJobFromCallback } from '@/lib/services/job-runner'
+import mongoose from 'mongoose'
+
+/**
+ * POST /api/veritus/job/callback
+ * Webhook Veritus calls when a job finishes. The URL is registered by the job runner
+ * when the job is created and carries an HMAC signature of our job id.
+ * The body is not signed, so the job's outcome is read back from Veritus rather than taken from it.
+ *
+ * Query Parameters:
+ * - jobId (required): Our job id
+ * - signature (required): HMAC of the job id
+ *
+ * Body: the Veritus job status ({ jobId, status, results }); only jobId is checked
+ */
+export async function POST(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const jobId = searchParams.get('jobId')
+    const signature = searchParams.get('signature')
+
+    if (!jobId || !mongoose.Types.ObjectId.isValid(jobId)) {
+      return NextResponse.json(
+        { error: 'Invalid jobId' },
+        { status: 400 }
+      )
+    }
+
+    if (!verifyJobCallback(jobId, signature)) {
+      return NextResponse.json(
+        { error: 'Invalid signature' },
+        { status: 401 }
+      )
+    }
+
+    const payload = await request.json().catch(() => null)
+
+    await connectDB()
+
+    const job = await Job.findById(jobId)
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      )
+    }
+
+    if (payload?.jobId && job.veritusJobId && payload.jobId !== job.veritusJobId) {
+      return NextResponse.json(
+        { error: 'Callback does not match job' },
+        { status: 400 }
+      )
+    }
+
+    const current = await completeJobFromCallback(job)
+
+    return NextResponse.json({
+      received: true,
+      status: current.status,
+    })
+  } catch (error: any) {
+    console.error('Error handling job callback:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to handle job callback' },
+      { status: 500 }
+    )
+  }
+}
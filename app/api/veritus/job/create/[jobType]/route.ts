@@ -1,17 +1,21 @@
 import { NextResponse } from 'next/server'
 import { getCurrentUser } from '@/lib/auth'
-import { getVeritusApiKey } from '@/lib/veritus-auth'
-import { createJob, getPaper } from '@/lib/veritus-api'
+import { getVeritusApiKeyForUser } from '@/lib/veritus-auth'
+import { getPaper } from '@/lib/veritus-api'
 import { isDebugMode } from '@/lib/config/mock-config'
+import { submitJob } from '@/lib/services/job-runner'
+import { recordCreditUsage } from '@/lib/services/credit-ledger'
+import { creditBudgetErrorResponse } from '@/lib/services/credit-budgets'
 import connectDB from '@/lib/db'
 import Chat from '@/models/Chat'
+import { veritusErrorResponse } from '@/lib/veritus-errors'
 
 export async function POST(
   request: Request,
   { params }: { params: Promise<{ jobType: string }> }
 ) {
   try {
-    const user = await getCurrentUser()
+    const user = await getCurrentUser('jobs:write')
     if (!user) {
       return NextResponse.json(
         { error: 'Unauthorized' },
@@ -28,21 +32,61 @@ export async function POST(
       )
     }
 
-    // Check if DEBUG mode is enabled - return mock data
+    const { searchParams } = new URL(request.url)
+    // context is stored with the job for reattaching after a reload; it is not sent to Veritus
+    const { context, ...body } = await request.json()
+    const jobChatId = searchParams.get('chatId') || body.chatId || null
+
+    const jobParams: any = {}
+    if (searchParams.get('limit')) {
+      const limit = parseInt(searchParams.get('limit')!)
+      if ([100, 200, 300].includes(limit)) {
+        jobParams.limit = limit as 100 | 200 | 300
+      }
+    }
+    if (searchParams.get('fieldsOfStudy')) {
+      jobParams.fieldsOfStudy = searchParams.get('fieldsOfStudy')!.split(',')
+    }
+    if (searchParams.get('minCitationCount')) {
+      jobParams.minCitationCount = parseInt(searchParams.get('minCitationCount')!)
+    }
+    if (searchParams.get('openAccessPdf')) {
+      jobParams.openAccessPdf = searchParams.get('openAccessPdf') === 'true'
+    }
+    if (searchParams.get('downloadable')) {
+      jobParams.downloadable = searchParams.get('downloadable') === 'true'
+    }
+    if (searchParams.get('quartileRanking')) {
+      jobParams.quartileRanking = searchParams.get('quartileRanking')!.split(',')
+    }
+    if (searchParams.get('publicationTypes')) {
+      jobParams.publicationTypes = searchParams.get('publicationTypes')!.split(',')
+    }
+    if (searchParams.get('sort')) {
+      jobParams.sort = searchParams.get('sort')!
+    }
+    if (searchParams.get('year')) {
+      jobParams.year = searchParams.get('year')!
+    }
+
+    // Check if DEBUG mode is enabled - the job runs on the mock Veritus engine, which applies the filters too
     if (isDebugMode()) {
-      // Add 3 second delay for mock data
-      await new Promise(resolve => setTimeout(resolve, 3000))
-      
-      // Return mock job response
+      const job = await submitJob(
+        { jobType: jobType as any, ...jobParams },
+        body,
+        { userId: user.userId, chatId: jobChatId, context }
+      )
+
       return NextResponse.json({
-        jobId: `mock-job-${Date.now()}-${Math.random().toString(36).substring(7)}`,
+        jobId: job._id.toString(),
+        status: job.status,
         isMocked: true,
       })
     }
 
-    const apiKey = await getVeritusApiKey()
-    const { searchParams } = new URL(request.url)
-    const body = await request.json()
+    const apiKey = await getVeritusApiKeyForUser(user.userId)
+
+    const usage = { userId: user.userId, chatId: jobChatId }
 
     // Pad phrases array if needed (Veritus API requires minimum 3 phrases)
     // When user selects only 1-2 keywords, we pad with paper metadata from chatstore or by fetching paper directly
@@ -71,8 +115,12 @@ export async function POST(
         // If chat doesn't have paperData, try to fetch paper directly using corpusId
         if (!paperData && corpusId) {
           try {
-            const apiKey = await getVeritusApiKey()
-            paperData = await getPaper(corpusId.trim(), { apiKey })
+            const apiKey = await getVeritusApiKeyForUser(user.userId)
+            paperData = await recordCreditUsage(
+              { operation: 'getPaper', context: usage, corpusId: corpusId.trim() },
+              apiKey,
+              () => getPaper(corpusId.trim(), { apiKey })
+            )
           } catch (error) {
             // If we can't fetch paper, log but continue
             console.error('Error fetching paper by corpusId:', error)
@@ -119,48 +167,29 @@ export async function POST(
       }
     }
 
-    const jobParams: any = {}
-    if (searchParams.get('limit')) {
-      const limit = parseInt(searchParams.get('limit')!)
-      if ([100, 200, 300].includes(limit)) {
-        jobParams.limit = limit as 100 | 200 | 300
-      }
-    }
-    if (searchParams.get('fieldsOfStudy')) {
-      jobParams.fieldsOfStudy = searchParams.get('fieldsOfStudy')!.split(',')
-    }
-    if (searchParams.get('minCitationCount')) {
-      jobParams.minCitationCount = parseInt(searchParams.get('minCitationCount')!)
-    }
-    if (searchParams.get('openAccessPdf')) {
-      jobParams.openAccessPdf = searchParams.get('openAccessPdf') === 'true'
-    }
-    if (searchParams.get('downloadable')) {
-      jobParams.downloadable = searchParams.get('downloadable') === 'true'
-    }
-    if (searchParams.get('quartileRanking')) {
-      jobParams.quartileRanking = searchParams.get('quartileRanking')!.split(',')
-    }
-    if (searchParams.get('publicationTypes')) {
-      jobParams.publicationTypes = searchParams.get('publicationTypes')!.split(',')
-    }
-    if (searchParams.get('sort')) {
-      jobParams.sort = searchParams.get('sort')!
-    }
-    if (searchParams.get('year')) {
-      jobParams.year = searchParams.get('year')!
-    }
-
-    const result = await createJob(
+    const job = await submitJob(
       { jobType: jobType as any, ...jobParams },
       body,
-      { apiKey }
+      { userId: user.userId, chatId: jobChatId, context, apiKey }
     )
 
-    return NextResponse.json(result)
+    return NextResponse.json({
+      jobId: job._id.toString(),
+      status: job.status,
+    })
   } catch (error: any) {
     console.error('Error in job creation route:', error)
     console.error('Error stack:', error?.stack)
+
+    const budgetResponse = creditBudgetErrorResponse(error)
+    if (budgetResponse) {
+      return budgetResponse
+    }
+
+    const veritusResponse = veritusErrorResponse(error)
+    if (veritusResponse) {
+      return veritusResponse
+    }
     
     // Extract error message properly to avoid "[object Object]"
     let errorMessage = 'Failed to create job'
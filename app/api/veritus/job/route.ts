@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth'
+import connectDB from '@/lib/db'
+import Job from '@/models/Job'
+import { resumeJob, serializeJob } from '@/lib/services/job-runner'
+import mongoose from 'mongoose'
+
+// Force dynamic rendering since this route uses cookies for authentication
+export const dynamic = 'force-dynamic'
+
+const PENDING_JOB_WINDOW_MS = 24 * 60 * 60 * 1000 // Only reattach to jobs from the last day
+
+/**
+ * GET /api/veritus/job
+ * List a chat's jobs that still need attention: running jobs, and finished jobs
+ * whose results have not been consumed yet. Used to reattach after a page reload.
+ *
+ * Query Parameters:
+ * - chatId (required): Chat the jobs were started from
+ */
+export async function GET(request: Request) {
+  try {
+    const user = await getCurrentUser('papers:read')
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const chatId = searchParams.get('chatId')
+
+    if (!chatId) {
+      return NextResponse.json(
+        { error: 'chatId query parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(chatId)) {
+      return NextResponse.json(
+        { error: 'Invalid chatId format' },
+        { status: 400 }
+      )
+    }
+
+    await connectDB()
+
+    const jobs = await Job.find({
+      chatId,
+      userId: user.userId,
+      consumedAt: { $exists: false },
+      status: { $in: ['queued', 'processing', 'success'] },
+      createdAt: { $gt: new Date(Date.now() - PENDING_JOB_WINDOW_MS) },
+    }).sort({ createdAt: -1 })
+
+    const current = await Promise.all(jobs.map((job) => resumeJob(job)))
+
+    return NextResponse.json({
+      jobs: current.map((job) => serializeJob(job, false)),
+    })
+  } catch (error: any) {
+    console.error('Error listing jobs:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to list jobs' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server'
 import { getCurrentUser } from '@/lib/auth'
 import connectDB from '@/lib/db'
 import UserSettings from '@/models/UserSettings'
+import { describeVeritusApiKey, setVeritusApiKey } from '@/lib/services/veritus-api-keys'
 
 export async function GET() {
   try {
@@ -17,12 +18,10 @@ export async function GET() {
     const settings = await UserSettings.findOne({ userId: user.userId })
 
     return NextResponse.json({
-      settings: settings ? {
-        hasApiKey: !!settings.veritusApiKey,
-        searchPreferences: settings.searchPreferences,
-      } : {
-        hasApiKey: false,
-        searchPreferences: null,
+      settings: {
+        // The key itself is never sent back, only its last 4 characters
+        ...describeVeritusApiKey(settings),
+        searchPreferences: settings?.searchPreferences ?? null,
       },
     })
   } catch (error) {
@@ -53,16 +52,14 @@ export async function PUT(request: Request) {
     if (!settings) {
       settings = new UserSettings({
         userId: user.userId,
-        veritusApiKey,
         searchPreferences,
       })
-    } else {
-      if (veritusApiKey !== undefined) {
-        settings.veritusApiKey = veritusApiKey || undefined
-      }
-      if (searchPreferences !== undefined) {
-        settings.searchPreferences = searchPreferences
-      }
+    } else if (searchPreferences !== undefined) {
+      settings.searchPreferences = searchPreferences
+    }
+    if (veritusApiKey !== undefined) {
+      // Stored encrypted; an empty value removes the key
+      setVeritusApiKey(settings, veritusApiKey)
     }
 
     await settings.save()
@@ -70,7 +67,7 @@ export async function PUT(request: Request) {
     return NextResponse.json({
       message: 'Settings updated successfully',
       settings: {
-        hasApiKey: !!settings.veritusApiKey,
+        ...describeVeritusApiKey(settings),
         searchPreferences: settings.searchPreferences,
       },
     })
@@ -11,6 +11,7 @@ import { PaperSearchPage } from '@/components/dashboard/PaperSearchPage'
 import { PaperChatView } from '@/components/dashboard/PaperChatView'
 import { shouldUseMockData } from '@/lib/config/mock-config'
 import { toast } from '@/lib/utils/toast'
+import { CreditBudget } from '@/lib/utils/credit-cost'
 import { VeritusPaper } from '@/types/veritus'
 
 interface User {
@@ -207,7 +208,7 @@ export default function DashboardPage() {
     }
   }
 
-  const handleUpdateProject = async (id: string, name: string, description?: string) => {
+  const handleUpdateProject = async (id: string, name: string, description?: string, creditBudget?: CreditBudget) => {
     try {
       // Validate project ID
       if (!id || id.trim().length === 0) {
@@ -219,7 +220,7 @@ export default function DashboardPage() {
       const response = await fetch(`/api/projects/${id}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ name, description }),
+        body: JSON.stringify({ name, description, creditBudget }),
       })
       
       if (response.ok) {
@@ -771,7 +772,8 @@ export default function DashboardPage() {
                 id: paper.id,
                 paper,
               })),
-              edges: networkData.edges || [],
+              // Edges are rebuilt by the server from the chat's stored relationships
+              edges: [],
               metadata: {
                 createdAt: new Date(),
                 paperIds: papers.map(p => p.id),
@@ -955,6 +957,14 @@ export default function DashboardPage() {
     await handleCreateProject(name, description)
   }
 
+  // The import route creates the project and its chats; just load and select them
+  const handleProjectImported = async (projectId: string) => {
+    await loadProjects()
+    setSelectedProject(projectId)
+    setSelectedChat(null)
+    await loadChats(projectId)
+  }
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
@@ -973,6 +983,7 @@ export default function DashboardPage() {
           projects={projects}
           chats={chats}
           onNewProject={handleNewProject}
+          onProjectImported={handleProjectImported}
           onSelectChat={(chatId) => {
             const chat = chats.find(c => c.id === chatId)
             if (chat) {
@@ -1016,6 +1027,7 @@ export default function DashboardPage() {
                   setSelectedChat(null) // Clear any selected chat when switching projects
                 }}
                 onNewProject={handleNewProject}
+                onProjectImported={handleProjectImported}
                 onUpdateProject={handleUpdateProject}
                 onDeleteProject={handleDeleteProject}
               />
@@ -1034,6 +1046,7 @@ export default function DashboardPage() {
         projects={projects}
         chats={chats}
         onNewProject={handleNewProject}
+        onProjectImported={handleProjectImported}
         onSelectChat={setSelectedChat}
         onSelectProject={async (projectId) => {
           setSelectedProject(projectId)
@@ -0,0 +1,202 @@
+'use client'
+
+import { useState, useEffect, Suspense } from 'react'
+import { useSearchParams } from 'next/navigation'
+import { Loader2, MailCheck, MailX, PauseCircle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { DigestPreferencesControls } from '@/components/dashboard/DigestPreferencesControls'
+import { DigestPreferences } from '@/types'
+
+// Force dynamic rendering to prevent prerendering errors with useSearchParams
+export const dynamic = 'force-dynamic'
+
+interface EmailPreferencesState {
+  email: string
+  enabled: boolean
+  pausedUntil: string | null
+  digest: DigestPreferences
+}
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })
+}
+
+function EmailPreferencesForm() {
+  const searchParams = useSearchParams()
+  const token = searchParams.get('token') || ''
+  const action = searchParams.get('action')
+  const [preferences, setPreferences] = useState<EmailPreferencesState | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+  const [notice, setNotice] = useState('')
+
+  const endpoint = `/api/email/preferences?token=${encodeURIComponent(token)}`
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch(endpoint)
+        const data = await response.json()
+        if (!response.ok) {
+          setError(data.error || 'Failed to load email preferences')
+          return
+        }
+        setPreferences(data)
+      } catch (err) {
+        setError('An error occurred. Please try again.')
+      } finally {
+        setLoading(false)
+      }
+    }
+    load()
+  }, [endpoint])
+
+  const update = async (body: Record<string, unknown>, successNotice: string) => {
+    setSaving(true)
+    setError('')
+    try {
+      const response = await fetch(endpoint, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to update email preferences')
+        return
+      }
+      setPreferences(data)
+      setNotice(successNotice)
+    } catch (err) {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const isPaused = !!preferences?.pausedUntil
+  const showUnsubscribePrompt = action === 'unsubscribe' && preferences?.enabled && !notice
+  const showPausePrompt = action === 'pause' && preferences?.enabled && !isPaused && !notice
+
+  return (
+    <div className="flex min-h-screen w-full items-center justify-center bg-background px-6">
+      <Card className="w-full max-w-lg">
+        <CardHeader>
+          <CardTitle>Email Preferences</CardTitle>
+          <CardDescription>
+            {preferences ? `Paper digest emails for ${preferences.email}` : 'Manage your paper digest emails'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : !preferences ? (
+            <div className="p-3 text-sm text-destructive-foreground bg-destructive/20 border border-destructive rounded-sm">
+              {error || 'This link is invalid or has expired.'} Log in to manage your email preferences.
+            </div>
+          ) : (
+            <>
+              {error && (
+                <div className="p-3 text-sm text-destructive-foreground bg-destructive/20 border border-destructive rounded-sm">
+                  {error}
+                </div>
+              )}
+              {notice && (
+                <div className="p-3 text-sm text-card-foreground bg-muted/50 border border-border rounded-sm">
+                  {notice}
+                </div>
+              )}
+
+              {showUnsubscribePrompt && (
+                <div className="flex items-center justify-between gap-4 p-4 border border-border rounded-lg">
+                  <div className="text-sm text-card-foreground">Stop receiving paper digest emails?</div>
+                  <Button onClick={() => update({ enabled: false }, 'You have been unsubscribed.')} disabled={saving}>
+                    Unsubscribe
+                  </Button>
+                </div>
+              )}
+
+              {showPausePrompt && (
+                <div className="flex items-center justify-between gap-4 p-4 border border-border rounded-lg">
+                  <div className="text-sm text-card-foreground">Pause paper digest emails for 30 days?</div>
+                  <Button onClick={() => update({ pause: true }, 'Digest emails are paused for 30 days.')} disabled={saving}>
+                    Pause
+                  </Button>
+                </div>
+              )}
+
+              <div className="rounded-lg border border-border p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    {!preferences.enabled ? (
+                      <MailX className="h-5 w-5 text-muted-foreground" />
+                    ) : isPaused ? (
+                      <PauseCircle className="h-5 w-5 text-muted-foreground" />
+                    ) : (
+                      <MailCheck className="h-5 w-5 text-primary" />
+                    )}
+                    <div className="text-sm text-card-foreground">
+                      {!preferences.enabled
+                        ? 'Digest emails are off'
+                        : isPaused
+                          ? `Paused until ${formatDate(preferences.pausedUntil!)}`
+                          : 'Digest emails are on'}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    {preferences.enabled && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={saving}
+                        onClick={() => isPaused
+                          ? update({ pause: false }, 'Digest emails resumed.')
+                          : update({ pause: true }, 'Digest emails are paused for 30 days.')}
+                      >
+                        {isPaused ? 'Resume' : 'Pause 30 days'}
+                      </Button>
+                    )}
+                    <Button
+                      variant={preferences.enabled ? 'outline' : 'default'}
+                      size="sm"
+                      disabled={saving}
+                      onClick={() => preferences.enabled
+                        ? update({ enabled: false }, 'You have been unsubscribed.')
+                        : update({ enabled: true }, 'Digest emails are back on.')}
+                    >
+                      {preferences.enabled ? 'Unsubscribe' : 'Subscribe'}
+                    </Button>
+                  </div>
+                </div>
+
+                {preferences.enabled && (
+                  <DigestPreferencesControls
+                    preferences={preferences.digest}
+                    onChange={(digest) => update({ digest }, 'Digest preferences saved.')}
+                    disabled={saving}
+                  />
+                )}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default function EmailPreferencesPage() {
+  return (
+    <Suspense fallback={
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    }>
+      <EmailPreferencesForm />
+    </Suspense>
+  )
+}
@@ -0,0 +1,289 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Copy, KeyRound, Loader2, Plus, Trash2 } from 'lucide-react'
+import { ACCESS_TOKEN_SCOPES, AccessTokenScope } from '@/lib/config/access-token-scopes'
+import { toast } from '@/lib/utils/toast'
+
+interface AccessTokenSummary {
+  id: string
+  name: string
+  tokenPrefix: string
+  scopes: AccessTokenScope[]
+  expiresAt: string | null
+  lastUsedAt: string | null
+  createdAt: string
+}
+
+interface AccessTokensManagementProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const EXPIRY_OPTIONS = [
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: 'never', label: 'Never' },
+]
+
+const scopeNames = Object.keys(ACCESS_TOKEN_SCOPES) as AccessTokenScope[]
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  })
+}
+
+export function AccessTokensManagement({ open, onOpenChange }: AccessTokensManagementProps) {
+  const [tokens, setTokens] = useState<AccessTokenSummary[]>([])
+  const [loading, setLoading] = useState(false)
+  const [creating, setCreating] = useState(false)
+  const [revokingId, setRevokingId] = useState<string | null>(null)
+  const [name, setName] = useState('')
+  const [scopes, setScopes] = useState<AccessTokenScope[]>(['papers:read'])
+  const [expiry, setExpiry] = useState('90')
+  // Shown once, right after creation
+  const [newToken, setNewToken] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (open) {
+      fetchTokens()
+    } else {
+      setNewToken(null)
+    }
+  }, [open])
+
+  const fetchTokens = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch('/api/user/access-tokens')
+      if (response.ok) {
+        const data = await response.json()
+        setTokens(data.tokens || [])
+      }
+    } catch (error) {
+      console.error('Error fetching access tokens:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const toggleScope = (scope: AccessTokenScope, checked: boolean) => {
+    setScopes((prev) => (checked ? [...prev, scope] : prev.filter((s) => s !== scope)))
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setCreating(true)
+    try {
+      const response = await fetch('/api/user/access-tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          scopes,
+          expiresInDays: expiry === 'never' ? null : parseInt(expiry, 10),
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create token')
+      }
+      setNewToken(data.token)
+      setTokens((prev) => [data.accessToken, ...prev])
+      setName('')
+    } catch (error: any) {
+      toast.error('Failed to create token', error?.message || 'An unexpected error occurred')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleRevoke = async (token: AccessTokenSummary) => {
+    if (!confirm(`Revoke "${token.name}"? Scripts using it will stop working.`)) {
+      return
+    }
+
+    setRevokingId(token.id)
+    try {
+      const response = await fetch(`/api/user/access-tokens/${token.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to revoke token')
+      }
+      setTokens((prev) => prev.filter((t) => t.id !== token.id))
+      toast.success('Token revoked')
+    } catch (error: any) {
+      toast.error('Failed to revoke token', error?.message || 'An unexpected error occurred')
+    } finally {
+      setRevokingId(null)
+    }
+  }
+
+  const copyNewToken = async () => {
+    if (!newToken) return
+    try {
+      await navigator.clipboard.writeText(newToken)
+      toast.success('Token copied')
+    } catch {
+      toast.error('Failed to copy token')
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <div className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5 text-muted-foreground" />
+            <DialogTitle className="text-card-foreground">Access Tokens</DialogTitle>
+          </div>
+          <DialogDescription className="text-muted-foreground">
+            Tokens let scripts and notebooks call the API as you. Send one as{' '}
+            <code className="text-xs">Authorization: Bearer &lt;token&gt;</code>.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {newToken && (
+            <div className="rounded-lg border border-primary/50 bg-card p-4 space-y-2">
+              <div className="text-sm font-medium text-card-foreground">
+                Copy your new token now - it won&apos;t be shown again
+              </div>
+              <div className="flex gap-2">
+                <Input readOnly value={newToken} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+                <Button variant="outline" size="sm" onClick={copyNewToken}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <form onSubmit={handleCreate} className="rounded-lg border border-border bg-card p-4 space-y-4">
+            <div className="grid grid-cols-[1fr_auto] gap-4">
+              <div>
+                <Label htmlFor="tokenName" className="text-sm mb-2 block">Name</Label>
+                <Input
+                  id="tokenName"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. Lab notebook"
+                  maxLength={100}
+                />
+              </div>
+              <div>
+                <Label className="text-sm mb-2 block">Expires</Label>
+                <Select value={expiry} onValueChange={setExpiry}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPIRY_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-sm block">Scopes</Label>
+              {scopeNames.map((scope) => (
+                <div key={scope} className="flex items-start gap-2">
+                  <Checkbox
+                    id={`scope-${scope}`}
+                    checked={scopes.includes(scope)}
+                    onChange={(e) => toggleScope(scope, e.target.checked)}
+                    className="mt-0.5"
+                  />
+                  <Label htmlFor={`scope-${scope}`} className="cursor-pointer">
+                    <span className="font-mono text-xs text-card-foreground">{scope}</span>
+                    <span className="block text-xs text-muted-foreground">{ACCESS_TOKEN_SCOPES[scope]}</span>
+                  </Label>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-end">
+              <Button type="submit" disabled={creating || !name.trim() || scopes.length === 0}>
+                {creating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+                Create token
+              </Button>
+            </div>
+          </form>
+
+          <div className="space-y-2">
+            {loading && tokens.length === 0 ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : tokens.length === 0 ? (
+              <div className="py-2 text-sm text-muted-foreground">No access tokens yet</div>
+            ) : (
+              tokens.map((token) => (
+                <div
+                  key={token.id}
+                  className="flex items-start justify-between gap-3 rounded-lg border border-border bg-card px-4 py-3"
+                >
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="truncate text-sm font-medium text-card-foreground">{token.name}</span>
+                      <span className="font-mono text-xs text-muted-foreground">{token.tokenPrefix}…</span>
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {token.scopes.map((scope) => (
+                        <Badge key={scope} variant="outline" className="font-mono text-[10px]">
+                          {scope}
+                        </Badge>
+                      ))}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      Created {formatDate(token.createdAt)}
+                      {' • '}
+                      {token.lastUsedAt ? `Last used ${formatDate(token.lastUsedAt)}` : 'Never used'}
+                      {' • '}
+                      {token.expiresAt ? `Expires ${formatDate(token.expiresAt)}` : 'No expiry'}
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRevoke(token)}
+                    disabled={revokingId === token.id}
+                    className="text-red-400 hover:bg-red-900/20 hover:text-red-400"
+                  >
+                    {revokingId === token.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
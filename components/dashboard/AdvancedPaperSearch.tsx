@@ -11,6 +11,9 @@ import { Label } from '@/components/ui/label'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { VeritusPaper } from '@/types/veritus'
 import { shouldUseMockData } from '@/lib/config/mock-config'
+import { CreditJobType } from '@/lib/utils/credit-cost'
+import { confirmCreditCost, useCreditEstimate } from '@/lib/hooks/use-credit-estimate'
+import { CreditCostNotice } from './CreditCostNotice'
 // Using a simple state-based collapsible instead
 
 interface AdvancedPaperSearchProps {
@@ -113,6 +116,10 @@ export function AdvancedPaperSearch({ chatId, onSearchResults }: AdvancedPaperSe
       return
     }
 
+    if (!confirmCreditCost(creditEstimate, jobType, limit)) {
+      return
+    }
+
     setLoading(true)
     setError(null)
     setResults([])
@@ -198,6 +205,11 @@ export function AdvancedPaperSearch({ chatId, onSearchResults }: AdvancedPaperSe
   }
 
   const jobType = getJobType()
+  const creditEstimate = useCreditEstimate(
+    jobType === 'none' ? null : (jobType as CreditJobType),
+    limit,
+    !useMock
+  )
 
   return (
     <Card className="bg-[#1f1f1f] border-[#2a2a2a]">
@@ -475,6 +487,8 @@ export function AdvancedPaperSearch({ chatId, onSearchResults }: AdvancedPaperSe
           </div>
         )}
 
+        <CreditCostNotice estimate={creditEstimate} />
+
         {/* Search Button */}
         <Button
           onClick={handleSearch}
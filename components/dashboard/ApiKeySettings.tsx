@@ -6,6 +6,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, Di
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { VeritusCredits } from '@/types/veritus'
+import { CreditUsageChart } from './CreditUsageChart'
 
 interface ApiKeySettingsProps {
   open: boolean
@@ -18,6 +19,8 @@ export function ApiKeySettings({ open, onOpenChange }: ApiKeySettingsProps) {
   const [error, setError] = useState('')
   const [credits, setCredits] = useState<VeritusCredits | null>(null)
   const [hasApiKey, setHasApiKey] = useState(false)
+  // The saved key is never sent to the browser, only its last 4 characters
+  const [apiKeyLast4, setApiKeyLast4] = useState<string | null>(null)
   const [testing, setTesting] = useState(false)
 
   useEffect(() => {
@@ -32,6 +35,7 @@ export function ApiKeySettings({ open, onOpenChange }: ApiKeySettingsProps) {
       if (response.ok) {
         const data = await response.json()
         setHasApiKey(data.settings.hasApiKey)
+        setApiKeyLast4(data.settings.apiKeyLast4 ?? null)
         if (data.settings.hasApiKey) {
           await loadCredits()
         }
@@ -74,8 +78,11 @@ export function ApiKeySettings({ open, onOpenChange }: ApiKeySettingsProps) {
       })
 
       if (response.ok) {
+        const data = await response.json()
         await loadCredits()
         setHasApiKey(true)
+        setApiKeyLast4(data.settings.apiKeyLast4 ?? null)
+        setApiKey('')
         setError('')
       } else {
         const errorData = await response.json()
@@ -100,8 +107,11 @@ export function ApiKeySettings({ open, onOpenChange }: ApiKeySettingsProps) {
       })
 
       if (response.ok) {
+        const data = await response.json()
         await loadCredits()
         setHasApiKey(true)
+        setApiKeyLast4(data.settings.apiKeyLast4 ?? null)
+        setApiKey('')
         onOpenChange(false)
       } else {
         const errorData = await response.json()
@@ -130,6 +140,7 @@ export function ApiKeySettings({ open, onOpenChange }: ApiKeySettingsProps) {
       if (response.ok) {
         setApiKey('')
         setHasApiKey(false)
+        setApiKeyLast4(null)
         setCredits(null)
       }
     } catch (err) {
@@ -141,7 +152,7 @@ export function ApiKeySettings({ open, onOpenChange }: ApiKeySettingsProps) {
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-2xl">
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <div className="flex items-center gap-2">
             <Key className="h-5 w-5 text-gray-400" />
@@ -187,15 +198,22 @@ export function ApiKeySettings({ open, onOpenChange }: ApiKeySettingsProps) {
             </div>
           )}
 
+          {hasApiKey && <CreditUsageChart />}
+
           <div className="space-y-2">
             <label htmlFor="api-key" className="text-sm font-medium text-gray-300">
-              Veritus API Key {hasApiKey && '(hidden)'}
+              Veritus API Key
             </label>
+            {hasApiKey && (
+              <p className="text-xs text-gray-400">
+                Saved key: <span className="font-mono">{apiKeyLast4 ? `••••••••${apiKeyLast4}` : '••••••••'}</span>. Enter a new key to replace it.
+              </p>
+            )}
             <div className="flex gap-2">
               <Input
                 id="api-key"
                 type="password"
-                placeholder="Enter your Veritus API key"
+                placeholder={hasApiKey ? 'Enter a new Veritus API key' : 'Enter your Veritus API key'}
                 value={apiKey}
                 onChange={(e) => {
                   setApiKey(e.target.value)
@@ -12,6 +12,12 @@ import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Input } from '@/components/ui/input'
 import { Bookmark, BookmarkCheck, Trash2, Mail, MailCheck, MailX, Loader2, Search, X } from 'lucide-react'
+import { CitationExportMenu } from './CitationExportMenu'
+import { DigestPreferencesControls } from './DigestPreferencesControls'
+import { EmailDeliveryLog } from './EmailDeliveryLog'
+import { DigestPreferences } from '@/types'
+import { DEFAULT_DIGEST_PREFERENCES } from '@/lib/utils/digest-schedule'
+import { toast } from '@/lib/utils/toast'
 // Table component - using simple div-based layout
 // Using simple confirm dialog instead of AlertDialog
 
@@ -28,6 +34,8 @@ interface EmailNotificationStatus {
   lastSent?: string
   totalSent: number
   enabled: boolean
+  pausedUntil?: string | null
+  digest: DigestPreferences
 }
 
 interface BookmarksManagementProps {
@@ -43,6 +51,7 @@ export function BookmarksManagement({ open, onOpenChange }: BookmarksManagementP
   const [emailStatus, setEmailStatus] = useState<EmailNotificationStatus>({
     totalSent: 0,
     enabled: true,
+    digest: DEFAULT_DIGEST_PREFERENCES,
   })
   const [updatingEmailSettings, setUpdatingEmailSettings] = useState(false)
 
@@ -77,6 +86,8 @@ export function BookmarksManagement({ open, onOpenChange }: BookmarksManagementP
           lastSent: data.lastSent,
           totalSent: data.totalSent || 0,
           enabled: data.enabled !== false,
+          pausedUntil: data.pausedUntil,
+          digest: data.digest || DEFAULT_DIGEST_PREFERENCES,
         })
       }
     } catch (error) {
@@ -113,7 +124,8 @@ export function BookmarksManagement({ open, onOpenChange }: BookmarksManagementP
         body: JSON.stringify({ enabled: !emailStatus.enabled }),
       })
       if (response.ok) {
-        setEmailStatus({ ...emailStatus, enabled: !emailStatus.enabled })
+        // Turning emails back on also ends a pause
+        setEmailStatus({ ...emailStatus, enabled: !emailStatus.enabled, pausedUntil: emailStatus.enabled ? emailStatus.pausedUntil : null })
       }
     } catch (error) {
       console.error('Error updating email settings:', error)
@@ -122,6 +134,29 @@ export function BookmarksManagement({ open, onOpenChange }: BookmarksManagementP
     }
   }
 
+  const updateDigestPreferences = async (update: Partial<DigestPreferences>) => {
+    const previous = emailStatus.digest
+    setEmailStatus({ ...emailStatus, digest: { ...previous, ...update } })
+    setUpdatingEmailSettings(true)
+    try {
+      const response = await fetch('/api/user/email-notifications', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ digest: update }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update digest preferences')
+      }
+      setEmailStatus((status) => ({ ...status, digest: data.digest }))
+    } catch (error: any) {
+      setEmailStatus((status) => ({ ...status, digest: previous }))
+      toast.error('Failed to update digest preferences', error?.message || 'An unexpected error occurred')
+    } finally {
+      setUpdatingEmailSettings(false)
+    }
+  }
+
   const filteredBookmarks = bookmarks.filter((bookmark) =>
     bookmark.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
     bookmark.authors?.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -173,6 +208,7 @@ export function BookmarksManagement({ open, onOpenChange }: BookmarksManagementP
                         : 'No emails sent yet'}
                       {' • '}
                       Total sent: {emailStatus.totalSent}
+                      {emailStatus.enabled && emailStatus.pausedUntil && ` • Paused until ${formatDate(emailStatus.pausedUntil)}`}
                     </div>
                   </div>
                 </div>
@@ -193,8 +229,30 @@ export function BookmarksManagement({ open, onOpenChange }: BookmarksManagementP
                   {emailStatus.enabled ? 'Disable' : 'Enable'}
                 </Button>
               </div>
+              {emailStatus.enabled && (
+                <div className="mt-3 pt-3 border-t border-border">
+                  <DigestPreferencesControls
+                    preferences={emailStatus.digest}
+                    onChange={updateDigestPreferences}
+                    disabled={updatingEmailSettings}
+                  />
+                </div>
+              )}
+              <div className="mt-3 pt-3 border-t border-border">
+                <EmailDeliveryLog />
+              </div>
             </div>
 
+            {/* Export */}
+            {bookmarks.length > 0 && (
+              <div className="flex items-center justify-between">
+                <div className="text-sm text-muted-foreground">
+                  Export all {bookmarks.length} bookmarks to your reference manager
+                </div>
+                <CitationExportMenu scope={{ bookmarks: true }} />
+              </div>
+            )}
+
             {/* Search */}
             <div className="relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
@@ -230,7 +288,7 @@ export function BookmarksManagement({ open, onOpenChange }: BookmarksManagementP
                 <p className="text-sm text-muted-foreground mt-2">
                   {searchQuery
                     ? 'Try adjusting your search terms'
-                    : 'Bookmark papers to receive daily email recommendations'}
+                    : 'Bookmark papers to receive email recommendations'}
                 </p>
               </div>
             ) : (
@@ -7,7 +7,7 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { PaperSearchBar } from './PaperSearchBar'
 import { PaperSearchResults } from './PaperSearchResults'
-import { CitationNetworkEnhanced as CitationNetwork } from './CitationNetworkEnhanced'
+import { CitationNetwork } from './CitationNetwork'
 import { CitationTree } from './CitationTree'
 import { KeywordSelectionPanel } from './KeywordSelectionPanel'
 import { CitationTreeVisualization } from './CitationTreeVisualization'
@@ -586,7 +586,7 @@ export function ChatInterface({ chatId, messages, chatDepth = 100, onSendMessage
             {/* Show network if visualizing */}
             {showNetwork && selectedPapersData.length > 0 && (
               <div className="mt-4">
-                <CitationNetwork papers={selectedPapersData} width={800} height={500} />
+                <CitationNetwork papers={selectedPapersData} chatId={chatId} width={800} height={500} />
               </div>
             )}
           </>
@@ -0,0 +1,86 @@
+'use client'
+
+import { useState } from 'react'
+import { Download, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu'
+import { VeritusPaper } from '@/types/veritus'
+import { CitationExportFormat } from '@/lib/utils/citation-export'
+import { toast } from '@/lib/utils/toast'
+
+interface CitationExportMenuProps {
+  /** Papers to export directly (e.g. search results) */
+  papers?: VeritusPaper[]
+  /** Or a stored set to export: chatId, projectId or bookmarks=true */
+  scope?: { chatId?: string; projectId?: string; bookmarks?: boolean }
+  filename?: string
+  className?: string
+}
+
+const formats: Array<{ format: CitationExportFormat; label: string }> = [
+  { format: 'bibtex', label: 'BibTeX (.bib)' },
+  { format: 'ris', label: 'RIS (.ris)' },
+  { format: 'csl-json', label: 'CSL-JSON (.json)' },
+]
+
+export function CitationExportMenu({ papers, scope, filename, className }: CitationExportMenuProps) {
+  const [exporting, setExporting] = useState(false)
+
+  const handleExport = async (format: CitationExportFormat) => {
+    setExporting(true)
+    try {
+      const params = new URLSearchParams({ format })
+      let response: Response
+      if (papers) {
+        response = await fetch(`/api/citations/export?${params.toString()}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ papers, filename }),
+        })
+      } else {
+        if (scope?.chatId) params.set('chatId', scope.chatId)
+        if (scope?.projectId) params.set('projectId', scope.projectId)
+        if (scope?.bookmarks) params.set('bookmarks', 'true')
+        response = await fetch(`/api/citations/export?${params.toString()}`)
+      }
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Export failed')
+      }
+
+      const disposition = response.headers.get('Content-Disposition') || ''
+      const downloadName = disposition.match(/filename="([^"]+)"/)?.[1] || `papers.${format}`
+      const blobUrl = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = blobUrl
+      link.download = downloadName
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      setTimeout(() => URL.revokeObjectURL(blobUrl), 100)
+    } catch (error: any) {
+      toast.error('Failed to export citations', error?.message || 'An unexpected error occurred')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className={className} disabled={exporting} title="Export citations">
+          {exporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {formats.map(({ format, label }) => (
+          <DropdownMenuItem key={format} onClick={() => handleExport(format)}>
+            {label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -4,12 +4,14 @@ import { useEffect, useRef, useState } from 'react'
 import * as d3 from 'd3'
 import { VeritusPaper, CitationNetwork as CitationNetworkType, CitationNetworkNode, CitationNetworkEdge } from '@/types/veritus'
 import { Graph, CitationNetwork as CitationNetworkData, CitationNetworkResponse } from '@/types/paper-api'
-import { buildCitationNetwork } from '@/lib/citation-network'
+import { buildCitationNetwork, CitationRelationship, relationshipsFromChatPapers } from '@/lib/citation-network'
 import { ZoomIn, ZoomOut, RotateCcw } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 
 interface CitationNetworkProps {
   papers?: VeritusPaper[]
+  /** Known links between `papers`; defaults to the relationships stored in the chat's paper library */
+  relationships?: CitationRelationship[]
   citationNetworkResponse?: CitationNetworkResponse
   width?: number
   height?: number
@@ -17,10 +19,30 @@ interface CitationNetworkProps {
   chatId?: string | null
 }
 
-export function CitationNetwork({ papers, citationNetworkResponse, width = 800, height = 600, onNodeClick, chatId }: CitationNetworkProps) {
+export function CitationNetwork({ papers, relationships, citationNetworkResponse, width = 800, height = 600, onNodeClick, chatId }: CitationNetworkProps) {
   const svgRef = useRef<SVGSVGElement>(null)
   const [zoomLevel, setZoomLevel] = useState(1)
   const [selectedNode, setSelectedNode] = useState<string | null>(null)
+  const [storedRelationships, setStoredRelationships] = useState<CitationRelationship[]>([])
+
+  // Papers mode: load the parent/child links stored for the chat unless the caller passed its own
+  useEffect(() => {
+    if (relationships || citationNetworkResponse || !chatId) return
+
+    let cancelled = false
+    fetch(`/api/chats/${chatId}/papers?source=child`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!cancelled && data?.papers) {
+          setStoredRelationships(relationshipsFromChatPapers(data.papers))
+        }
+      })
+      .catch((error) => console.error('Error loading stored citation relationships:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [chatId, relationships, citationNetworkResponse])
 
   useEffect(() => {
     if (!svgRef.current) return
@@ -112,7 +134,7 @@ export function CitationNetwork({ papers, citationNetworkResponse, width = 800,
     } else if (papers && papers.length > 0) {
       // Legacy mode - build from papers
       mode = 'papers'
-      network = buildCitationNetwork(papers)
+      network = buildCitationNetwork(papers, relationships || storedRelationships)
     } else {
       return
     }
@@ -311,6 +333,8 @@ export function CitationNetwork({ papers, citationNetworkResponse, width = 800,
       .attr('stroke', '#4a5568')
       .attr('stroke-width', 2)
       .attr('stroke-opacity', 0.6)
+      // Dashed when we only know the papers are linked, not which one cites the other
+      .attr('stroke-dasharray', (d) => d.direction === 'unknown' ? '4 3' : null)
 
     // Create nodes (circles)
     const node = g.append('g')
@@ -479,7 +503,7 @@ export function CitationNetwork({ papers, citationNetworkResponse, width = 800,
       tooltip.remove()
       simulation.stop()
     }
-  }, [papers, citationNetworkResponse, selectedNode, width, height, onNodeClick, chatId])
+  }, [papers, relationships, storedRelationships, citationNetworkResponse, selectedNode, width, height, onNodeClick, chatId])
 
   const handleZoomIn = () => {
     if (svgRef.current) {
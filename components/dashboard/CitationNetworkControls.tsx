@@ -4,16 +4,24 @@ import { LayoutGrid, Network, Circle, Grid3x3, Layers, ArrowUpDown } from 'lucid
 import { Button } from '@/components/ui/button'
 import { Label } from '@/components/ui/label'
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
-import { LayoutType } from '@/types/graph-visualization'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { LayoutType, NodeSizeMetric } from '@/types/graph-visualization'
 import { CitationNetworkResponse } from '@/types/paper-api'
 
 interface CitationNetworkControlsProps {
   layout: LayoutType
   sortBy: 'relevance' | 'citations' | 'year'
   showLabels: boolean
+  sizeBy: NodeSizeMetric
   onLayoutChange: (layout: LayoutType) => void
   onSortChange: (sortBy: 'relevance' | 'citations' | 'year') => void
   onToggleLabels: () => void
+  /** Outline communities of densely connected papers */
+  showCommunities?: boolean
+  onToggleCommunities?: () => void
+  onSizeByChange: (sizeBy: NodeSizeMetric) => void
+  /** True while centrality metrics for the selected size metric are loading */
+  loadingMetrics?: boolean
   citationNetworkResponse?: CitationNetworkResponse
 }
 
@@ -33,13 +41,28 @@ const layoutLabels = {
   cluster: 'Clustered',
 }
 
+const sizeByLabels: Record<NodeSizeMetric, string> = {
+  default: 'Sort criteria',
+  pageRank: 'PageRank',
+  betweenness: 'Betweenness',
+  closeness: 'Closeness',
+  eigenvector: 'Eigenvector',
+  inDegree: 'In-degree (cited by)',
+  outDegree: 'Out-degree (cites)',
+}
+
 export function CitationNetworkControls({
   layout,
   sortBy,
   showLabels,
+  sizeBy,
   onLayoutChange,
   onSortChange,
   onToggleLabels,
+  showCommunities = false,
+  onToggleCommunities,
+  onSizeByChange,
+  loadingMetrics = false,
   citationNetworkResponse,
 }: CitationNetworkControlsProps) {
   return (
@@ -100,6 +123,24 @@ export function CitationNetworkControls({
         </RadioGroup>
       </div>
 
+      {/* Node Size */}
+      <div className="flex items-center gap-2">
+        <Label className="text-xs text-gray-400">Size nodes by:</Label>
+        <Select value={sizeBy} onValueChange={(value) => onSizeByChange(value as NodeSizeMetric)}>
+          <SelectTrigger className="h-8 w-44 bg-[#1f1f1f] border-[#2a2a2a] text-xs text-gray-300">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(sizeByLabels) as NodeSizeMetric[]).map((metric) => (
+              <SelectItem key={metric} value={metric} className="text-xs">
+                {sizeByLabels[metric]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {loadingMetrics && <span className="text-xs text-gray-500">Computing…</span>}
+      </div>
+
       {/* View Options */}
       <div className="flex items-center gap-2">
         <Button
@@ -114,6 +155,21 @@ export function CitationNetworkControls({
         >
           Labels
         </Button>
+        {onToggleCommunities && (
+          <Button
+            variant={showCommunities ? 'default' : 'outline'}
+            size="sm"
+            onClick={onToggleCommunities}
+            className={`h-8 px-3 ${
+              showCommunities
+                ? 'bg-green-600 hover:bg-green-700 text-white'
+                : 'bg-[#1f1f1f] border-[#2a2a2a] text-gray-300 hover:bg-[#2a2a2a]'
+            }`}
+            title="Outline communities of densely connected papers"
+          >
+            Communities
+          </Button>
+        )}
       </div>
 
       {/* Stats */}
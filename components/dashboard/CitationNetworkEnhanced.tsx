@@ -1,12 +1,14 @@
 'use client'
 
-import { useEffect, useRef, useState, useCallback } from 'react'
+import { useEffect, useRef, useState, useCallback, useMemo } from 'react'
 import * as d3 from 'd3'
 import * as d3Hierarchy from 'd3-hierarchy'
 import { VeritusPaper } from '@/types/veritus'
 import { CitationNetworkResponse, CitationNetworkNode, CitationNetworkEdge } from '@/types/paper-api'
-import { LayoutType, FilterState, ClusterConfig, GraphInteractionState } from '@/types/graph-visualization'
+import { LayoutType, FilterState, ClusterConfig, GraphInteractionState, NodeSizeMetric } from '@/types/graph-visualization'
 import { findShortestPath } from '@/lib/utils/path-finding'
+import { NodeCentrality, normalizeMetric } from '@/lib/utils/graph-metrics'
+import { clusterByCommunity, Cluster } from '@/lib/utils/clustering'
 import { ZoomIn, ZoomOut, RotateCcw } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { CitationNetworkFilters } from './CitationNetworkFilters'
@@ -15,6 +17,25 @@ import { CitationNetworkControls } from './CitationNetworkControls'
 // Clamp helper
 const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value))
 
+// Space between a community's nodes and its hull outline
+const HULL_PADDING = 24
+
+const hullLine = d3.line().curve(d3.curveCatmullRomClosed.alpha(0.5))
+
+/**
+ * Rounded outline around a community's current node positions
+ */
+function communityHullPath(cluster: Cluster): string {
+  const points: Array<[number, number]> = []
+  cluster.nodes.forEach((node: any) => {
+    const x = node.x || 0
+    const y = node.y || 0
+    points.push([x - HULL_PADDING, y], [x + HULL_PADDING, y], [x, y - HULL_PADDING], [x, y + HULL_PADDING])
+  })
+  const hull = d3.polygonHull(points)
+  return hull ? hullLine(hull) || '' : ''
+}
+
 interface CitationNetworkEnhancedProps {
   papers?: VeritusPaper[]
   citationNetworkResponse?: CitationNetworkResponse
@@ -35,6 +56,10 @@ export function CitationNetworkEnhanced({
   const [layout, setLayout] = useState<LayoutType>('force')
   const [sortBy, setSortBy] = useState<'relevance' | 'citations' | 'year'>('relevance')
   const [showLabels, setShowLabels] = useState(true)
+  const [sizeBy, setSizeBy] = useState<NodeSizeMetric>('default')
+  const [showCommunities, setShowCommunities] = useState(false)
+  const [centrality, setCentrality] = useState<Record<string, NodeCentrality> | null>(null)
+  const [loadingMetrics, setLoadingMetrics] = useState(false)
   const [filters, setFilters] = useState<FilterState>({})
   const [filteredNetwork, setFilteredNetwork] = useState<{ nodes: CitationNetworkNode[], edges: CitationNetworkEdge[] } | null>(null)
   const [interactionState, setInteractionState] = useState<GraphInteractionState>({
@@ -138,11 +163,56 @@ export function CitationNetworkEnhanced({
     return { nodes: filteredNodes, edges: filteredEdges }
   }, [])
 
-  // Calculate node size based on sort criteria
+  // Metrics are computed for the whole network, so refetch only when the network changes
+  useEffect(() => {
+    setCentrality(null)
+  }, [citationNetworkResponse])
+
+  useEffect(() => {
+    const network = citationNetworkResponse?.citationNetwork
+    if (sizeBy === 'default' || centrality || !network) return
+
+    let cancelled = false
+    setLoadingMetrics(true)
+    fetch('/api/citation-network/metrics', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        citationNetwork: { nodes: network.nodes.map(({ data, ...node }) => node), edges: network.edges },
+      }),
+    })
+      .then(async (response) => {
+        if (!response.ok) throw new Error(`Failed to compute metrics (${response.status})`)
+        const data = await response.json()
+        if (!cancelled) setCentrality(data.metrics)
+      })
+      .catch((error) => {
+        console.error('Error loading citation network metrics:', error)
+        if (!cancelled) setSizeBy('default')
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingMetrics(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [sizeBy, centrality, citationNetworkResponse])
+
+  const metricSizes = useMemo(
+    () => (sizeBy !== 'default' && centrality ? normalizeMetric(centrality, sizeBy) : null),
+    [sizeBy, centrality]
+  )
+
+  // Calculate node size based on the selected metric, or sort criteria
   const getNodeSize = useCallback((node: CitationNetworkNode, sortCriteria: 'relevance' | 'citations' | 'year') => {
     const baseSize = 8
     const multiplier = interactionState.nodeSizeMultiplier
 
+    if (metricSizes && metricSizes[node.id] !== undefined) {
+      return (6 + metricSizes[node.id] * 22) * multiplier
+    }
+
     // Prefer weight if available
     if (node.weight !== undefined) {
       return clamp(node.weight * 10, 6, 28) * multiplier
@@ -161,7 +231,7 @@ export function CitationNetworkEnhanced({
         const score = node.score || 0
         return Math.max(baseSize, Math.min(25, baseSize + score * 10)) * multiplier
     }
-  }, [interactionState.nodeSizeMultiplier])
+  }, [interactionState.nodeSizeMultiplier, metricSizes])
 
   // Get node color based on type and sort
   const getNodeColor = useCallback((node: CitationNetworkNode, sortCriteria: 'relevance' | 'citations' | 'year') => {
@@ -235,6 +305,41 @@ export function CitationNetworkEnhanced({
       .style('z-index', '1000')
       .style('max-width', '300px')
 
+    // Community hulls go first so edges and nodes are drawn on top of them
+    const communities = showCommunities
+      ? clusterByCommunity(displayData.nodes, displayData.edges).filter(cluster => cluster.id !== 'unclustered')
+      : []
+    const communityColor = d3.scaleOrdinal<string, string>(d3.schemeTableau10)
+    const hullGroup = g.append('g').attr('class', 'community-hulls')
+    const hulls = hullGroup.selectAll<SVGPathElement, Cluster>('path')
+      .data(communities)
+      .enter()
+      .append('path')
+      .attr('fill', (d) => communityColor(d.id))
+      .attr('fill-opacity', 0.12)
+      .attr('stroke', (d) => communityColor(d.id))
+      .attr('stroke-opacity', 0.5)
+      .attr('stroke-width', 1.5)
+      .attr('stroke-linejoin', 'round')
+    hulls.append('title').text((d) => `${d.label} (${d.nodes.length} papers)`)
+    const hullLabels = hullGroup.selectAll<SVGTextElement, Cluster>('text')
+      .data(communities)
+      .enter()
+      .append('text')
+      .attr('text-anchor', 'middle')
+      .attr('font-size', '11px')
+      .attr('font-weight', 600)
+      .attr('fill', (d) => communityColor(d.id))
+      .style('pointer-events', 'none')
+      .text((d) => d.label)
+
+    const updateHulls = () => {
+      hulls.attr('d', (d) => communityHullPath(d))
+      hullLabels
+        .attr('x', (d) => d3.mean(d.nodes, (n: any) => n.x || 0) || 0)
+        .attr('y', (d) => (d3.min(d.nodes, (n: any) => n.y || 0) || 0) - HULL_PADDING - 6)
+    }
+
     // Create edges
     const link = g.append('g')
       .attr('class', 'links')
@@ -690,6 +795,7 @@ export function CitationNetworkEnhanced({
           const y = (d as any).y || 0
           return `translate(${x},${y})`
         })
+        updateHulls()
       })
       
       simulation.on('tick', () => {
@@ -732,6 +838,7 @@ export function CitationNetworkEnhanced({
           const y = (d as any).y || 0
           return `translate(${x},${y})`
         })
+        updateHulls()
       })
     } else {
       // Static layout - update positions immediately using nodesWithSimulationProps
@@ -779,6 +886,7 @@ export function CitationNetworkEnhanced({
         const y = (nodeWithProps as any)?.y || 0
         return `translate(${x},${y})`
       })
+      updateHulls()
     }
 
     // Cleanup
@@ -794,6 +902,7 @@ export function CitationNetworkEnhanced({
     layout,
     sortBy,
     showLabels,
+    showCommunities,
     filters,
     interactionState,
     width,
@@ -878,9 +987,14 @@ export function CitationNetworkEnhanced({
           layout={layout}
           sortBy={sortBy}
           showLabels={showLabels}
+          sizeBy={sizeBy}
           onLayoutChange={setLayout}
           onSortChange={setSortBy}
           onToggleLabels={() => setShowLabels(!showLabels)}
+          showCommunities={showCommunities}
+          onToggleCommunities={() => setShowCommunities(!showCommunities)}
+          onSizeByChange={setSizeBy}
+          loadingMetrics={loadingMetrics}
           citationNetworkResponse={citationNetworkResponse}
         />
       )}
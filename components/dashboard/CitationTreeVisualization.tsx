@@ -16,7 +16,9 @@ import { Label } from '@/components/ui/label'
 import { Input } from '@/components/ui/input'
 import { extractKeywords } from '@/lib/utils/keyword-extractor'
 import { toast } from '@/lib/utils/toast'
-import { isDebugMode } from '@/lib/config/mock-config'
+import { NetworkExportFormat } from '@/lib/utils/network-export'
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu'
+import { waitForJob, fetchPendingJobs, acknowledgeJob } from '@/lib/utils/job-client'
 
 interface CitationTreeVisualizationProps {
   citationNetworkResponse?: CitationNetworkResponse
@@ -739,6 +741,89 @@ export function CitationTreeVisualization({
     }
   }
 
+  /**
+   * Store the top 3 results of a finished search job as children of the parent paper in chatstore
+   */
+  const storeChildPapers = async (jobId: string, parentPaperId: string, papers: VeritusPaper[]) => {
+    if (!chatId || papers.length === 0) return
+    
+    // Sort by score and take top 3
+    const sortedPapers = papers
+      .map(paper => ({
+        paper,
+        score: paper.score || 0,
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 3) // STRICT: Only top 3
+    
+    // Normalize paperId for storage (remove prefixes to ensure consistency)
+    // CRITICAL: Convert to string to ensure type consistency with backend
+    const normalizedParentPaperId = parentPaperId.replace('corpus:', '').replace('paper-', '').replace('root-', '').trim()
+    
+    // Prepare child papers for storage - store FULL paper data for consistency
+    // CRITICAL: Normalize child IDs to ensure consistency
+    const childPapers = sortedPapers.map(({ paper }) => {
+      const normalizedChildId = paper.id ? String(paper.id).replace('corpus:', '').replace('paper-', '').replace('root-', '').trim() : paper.id
+      return {
+        id: normalizedChildId,
+        title: paper.title || 'Unknown',
+        sourceParentId: normalizedParentPaperId,
+        // Store full paper data for consistent datastore
+        paper: paper, // Full VeritusPaper object
+      }
+    })
+    
+    // Store parent→child relationships in chatstore
+    try {
+      if (childPapers.length === 0) {
+        toast.info('No results to store', 'No similar papers found to store.')
+        return
+      }
+      
+      const storeResponse = await fetch(`/api/v1/papers/store-children?chatId=${chatId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          paperId: normalizedParentPaperId,
+          childPapers: childPapers,
+        }),
+      })
+      
+      if (storeResponse.ok) {
+        const storeResult = await storeResponse.json()
+        
+        // Children are now in chatstore - don't reattach to this job after a reload
+        await acknowledgeJob(jobId)
+        
+        if (storeResult.totalChildren === 0) {
+          toast.warning(
+            'Storage issue',
+            'Children were not stored. This might mean duplicates were filtered out or max was reached.'
+          )
+        } else {
+          // Show toast notification - NO popup/modal
+          toast.success(
+            'Search completed',
+            'Click the node to view the new similar papers.'
+          )
+        }
+      } else {
+        const errorData = await storeResponse.json().catch(() => ({ error: storeResponse.statusText }))
+        console.error('Failed to store parent→child relationship:', errorData)
+        toast.error(
+          'Storage failed',
+          errorData.error || 'Could not store children. Please try again.'
+        )
+      }
+    } catch (error) {
+      console.error('Error storing parent→child relationship:', error)
+      toast.error(
+        'Storage error',
+        error instanceof Error ? error.message : 'An unexpected error occurred while storing children.'
+      )
+    }
+  }
+
   // Handle search similar papers
   const handleSearchSimilarPapers = async (params: {
     corpusId?: string
@@ -784,6 +869,12 @@ export function CitationTreeVisualization({
         body.corpusId = corpusId
       }
       
+      // Stored with the job so the children can still be stored after a reload
+      body.context = {
+        source: 'citation-tree',
+        parentPaperId: corpusId,
+      }
+      
       // Determine job type
       const hasKeywords = params.keywords && params.keywords.length > 0
       const hasTldrs = params.tldrs && params.tldrs.length > 0
@@ -856,136 +947,21 @@ export function CitationTreeVisualization({
         throw new Error('No job ID returned')
       }
       
-      // Step 3: Poll for job completion
-      // For mock mode: 3 second timeout, for real API: 60 second timeout (default)
-      const isMock = isDebugMode() || jobId.startsWith('mock-job-')
-      let attempts = 0
-      const maxAttempts = isMock ? 2 : 30 // Mock: 2 attempts * 1.5s ≈ 3s, Real: 30 attempts * 2s = 60s
-      const pollInterval = isMock ? 1500 : 2000 // Mock: 1.5s, Real: 2s
-      let papers: VeritusPaper[] = []
-      let statusData: any = null
+      // Step 3: Wait for job completion
+      // The server tracks the job to completion, so there is no client-side timeout
+      const job = await waitForJob(jobId)
+      const papers: VeritusPaper[] = job.results || []
       
-      while (attempts < maxAttempts) {
-        // Wait before checking status
-        await new Promise(resolve => setTimeout(resolve, pollInterval))
-        
-        const statusResponse = await fetch(`/api/veritus/job/${jobId}`, {
-          method: 'GET',
-          headers: { 'Content-Type': 'application/json' },
-        })
-        
-        if (!statusResponse.ok) {
-          throw new Error('Failed to get job status')
-        }
-        
-        statusData = await statusResponse.json()
-        
-        if (statusData.status === 'success') {
-          papers = statusData.results || []
-          break
-        } else if (statusData.status === 'error') {
-          throw new Error('Job failed')
-        }
-        
-        attempts++
-      }
-      
-      // Check if we timed out or got results
-      if (!papers || papers.length === 0) {
-        if (isMock) {
-          throw new Error('Search timed out or returned no results')
-        } else {
-          // For real API, check final status
-          const finalStatusResponse = await fetch(`/api/veritus/job/${jobId}`)
-          if (finalStatusResponse.ok) {
-            const finalStatus = await finalStatusResponse.json()
-            if (finalStatus.status === 'queued' || finalStatus.status === 'processing') {
-              throw new Error('Search timed out after 60 seconds. The job is still processing. Please try again later.')
-            }
-          }
-          throw new Error('Search timed out after 60 seconds or returned no results')
-        }
+      if (papers.length === 0) {
+        throw new Error('Search returned no results')
       }
       
       // Step 4: Auto-close popup if still open
       setSearchPopupOpen(false)
       
       // CRITICAL: Store search results in chatstore (top 3 by score) - DO NOT auto-add to tree
-      if (papers.length > 0 && selectedNodeForMetadata && selectedNodeForMetadata.paperId && chatId) {
-        // Sort by score and take top 3
-        const sortedPapers = papers
-          .map(paper => ({
-            paper,
-            score: paper.score || 0,
-          }))
-          .sort((a, b) => b.score - a.score)
-          .slice(0, 3) // STRICT: Only top 3
-        
-        // Normalize paperId for storage (remove prefixes to ensure consistency)
-        // CRITICAL: Convert to string to ensure type consistency with backend
-        let normalizedParentPaperId = selectedNodeForMetadata.paperId ? String(selectedNodeForMetadata.paperId).replace('corpus:', '').replace('paper-', '').replace('root-', '').trim() : ''
-        
-        // Prepare child papers for storage - store FULL paper data for consistency
-        // CRITICAL: Normalize child IDs to ensure consistency
-        const childPapers = sortedPapers.map(({ paper }) => {
-          const normalizedChildId = paper.id ? String(paper.id).replace('corpus:', '').replace('paper-', '').replace('root-', '').trim() : paper.id
-          return {
-            id: normalizedChildId,
-            title: paper.title || 'Unknown',
-            sourceParentId: normalizedParentPaperId,
-            // Store full paper data for consistent datastore
-            paper: paper, // Full VeritusPaper object
-          }
-        })
-        
-        // Store parent→child relationships in chatstore
-        try {
-          if (childPapers.length === 0) {
-            toast.info('No results to store', 'No similar papers found to store.')
-            return
-          }
-          
-          const storeResponse = await fetch(`/api/v1/papers/store-children?chatId=${chatId}`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              paperId: normalizedParentPaperId,
-              childPapers: childPapers,
-            }),
-          })
-          
-          if (storeResponse.ok) {
-            const storeResult = await storeResponse.json()
-            
-            if (storeResult.totalChildren === 0) {
-              toast.warning(
-                'Storage issue',
-                'Children were not stored. This might mean duplicates were filtered out or max was reached.'
-              )
-            } else {
-              // Show toast notification - NO popup/modal
-              toast.success(
-                'Search completed',
-                'Click the node to view the new similar papers.'
-              )
-            }
-          } else {
-            const errorData = await storeResponse.json().catch(() => ({ error: storeResponse.statusText }))
-            console.error('Failed to store parent→child relationship:', errorData)
-            toast.error(
-              'Storage failed',
-              errorData.error || 'Could not store children. Please try again.'
-            )
-          }
-        } catch (error) {
-          console.error('Error storing parent→child relationship:', error)
-          toast.error(
-            'Storage error',
-            error instanceof Error ? error.message : 'An unexpected error occurred while storing children.'
-          )
-        }
-      } else if (papers.length === 0) {
-        toast.info('No results found', 'No similar papers found for this node.')
+      if (selectedNodeForMetadata.paperId) {
+        await storeChildPapers(jobId, String(selectedNodeForMetadata.paperId), papers)
       }
       
       // CRITICAL: Do NOT auto-add nodes to tree
@@ -1043,6 +1019,38 @@ export function CitationTreeVisualization({
     }
   }
 
+  // Reattach to a similar-paper search that was still running (or never stored) when the page was left
+  useEffect(() => {
+    if (!chatId) return
+
+    const controller = new AbortController()
+
+    const resumePendingSearch = async () => {
+      try {
+        const jobs = await fetchPendingJobs(chatId)
+        const pendingJob = jobs.find((job) => job.context?.source === 'citation-tree' && job.context?.parentPaperId)
+        if (!pendingJob || controller.signal.aborted) return
+
+        setSearchInProgress(true)
+        const job = await waitForJob(pendingJob.jobId, { signal: controller.signal })
+        if (controller.signal.aborted) return
+
+        await storeChildPapers(job.jobId, String(job.context?.parentPaperId), job.results || [])
+      } catch (error: any) {
+        if (controller.signal.aborted) return
+        console.error('Error resuming pending search:', error)
+        toast.error('Failed to search similar papers', error?.message || 'An unexpected error occurred')
+      } finally {
+        if (!controller.signal.aborted) {
+          setSearchInProgress(false)
+        }
+      }
+    }
+    resumePendingSearch()
+
+    return () => controller.abort()
+  }, [chatId])
+
   // Handler for creating a new chat from a node (single-node root)
   const handleCreateChatFromNode = async (node: GraphNode) => {
     if (!onCreateChatFromNode) {
@@ -2942,6 +2950,52 @@ export function CitationTreeVisualization({
     }
   }
 
+  const exportFormats: Array<{ format: NetworkExportFormat; label: string }> = [
+    { format: 'graphml', label: 'GraphML (Gephi, yEd)' },
+    { format: 'gexf', label: 'GEXF (Gephi)' },
+    { format: 'cytoscape', label: 'Cytoscape JSON' },
+    { format: 'csv-nodes', label: 'CSV - nodes' },
+    { format: 'csv-edges', label: 'CSV - edges' },
+  ]
+
+  const handleExportNetwork = async (format: NetworkExportFormat) => {
+    const citationNetwork = citationNetworkResponse?.citationNetwork
+    if (!citationNetwork) {
+      toast.warning('Nothing to export', 'Load a citation network first')
+      return
+    }
+
+    try {
+      const rootPaperTitle = treeData?.paper?.title || treeData?.label || 'citation-network'
+      const response = await fetch(`/api/citation-network/export?format=${format}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          citationNetwork,
+          filename: `citation-network-${rootPaperTitle.toLowerCase().slice(0, 50)}`,
+        }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Export failed')
+      }
+
+      const disposition = response.headers.get('Content-Disposition') || ''
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `citation-network.${format}`
+      const blobUrl = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = blobUrl
+      link.download = filename
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      setTimeout(() => URL.revokeObjectURL(blobUrl), 100)
+    } catch (error: any) {
+      toast.error('Failed to export network', error?.message || 'An unexpected error occurred')
+    }
+  }
+
   const handleDownloadPNG = async () => {
     if (!svgRef.current) {
       toast.warning('Graph not ready', 'Please wait a moment and try again')
@@ -3147,6 +3201,28 @@ export function CitationTreeVisualization({
           >
             <Download className="h-4 w-4" />
           </Button>
+          {citationNetworkResponse?.citationNetwork && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="bg-[#1f1f1f] border-[#2a2a2a] text-gray-300 h-8 hover:bg-[#2a2a2a]"
+                  title="Export network data"
+                >
+                  <Network className="h-4 w-4" />
+                  <ChevronDown className="h-3 w-3 ml-1" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {exportFormats.map(({ format, label }) => (
+                  <DropdownMenuItem key={format} onClick={() => handleExportNetwork(format)}>
+                    {label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
         </div>
         <div 
           ref={zoomDisplayRef}
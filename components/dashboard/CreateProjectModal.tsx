@@ -1,22 +1,95 @@
 'use client'
 
-import { useState } from 'react'
-import { Folder } from 'lucide-react'
+import { useRef, useState } from 'react'
+import { Folder, Upload, X } from 'lucide-react'
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { toast } from '@/lib/utils/toast'
+
+type ImportMode = 'per-paper' | 'single'
+
+interface ImportReport {
+  projectId: string
+  message: string
+  unmatched: Array<{ label: string; reason: string }>
+}
 
 interface CreateProjectModalProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   onCreateProject: (name: string, description?: string) => void
+  /** Enables seeding the project from a BibTeX/RIS file or DOI list; called once the import is done */
+  onProjectImported?: (projectId: string) => void | Promise<void>
 }
 
-export function CreateProjectModal({ open, onOpenChange, onCreateProject }: CreateProjectModalProps) {
+export function CreateProjectModal({ open, onOpenChange, onCreateProject, onProjectImported }: CreateProjectModalProps) {
   const [name, setName] = useState('')
   const [description, setDescription] = useState('')
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
+  const [importContent, setImportContent] = useState('')
+  const [importFileName, setImportFileName] = useState<string | null>(null)
+  const [importMode, setImportMode] = useState<ImportMode>('per-paper')
+  const [importReport, setImportReport] = useState<ImportReport | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const resetForm = () => {
+    setName('')
+    setDescription('')
+    setError('')
+    setImportContent('')
+    setImportFileName(null)
+    setImportMode('per-paper')
+    setImportReport(null)
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    setImportContent(await file.text())
+    setImportFileName(file.name)
+    setError('')
+  }
+
+  const finishImport = async (projectId: string) => {
+    resetForm()
+    onOpenChange(false)
+    await onProjectImported?.(projectId)
+  }
+
+  const handleImport = async () => {
+    const response = await fetch('/api/projects/import', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        name: name.trim(),
+        description: description.trim(),
+        content: importContent,
+        mode: importMode,
+      }),
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      const unmatched = Array.isArray(data.unmatched) && data.unmatched.length > 0
+        ? ` (${data.unmatched.length} unmatched)`
+        : ''
+      setError(`${data.error || 'Failed to import references'}${unmatched}`)
+      return
+    }
+
+    if (data.unmatched.length === 0) {
+      toast.success('Project created', data.message)
+      await finishImport(data.project.id)
+      return
+    }
+
+    // Keep the dialog open so the user can see what was left out
+    setImportReport({ projectId: data.project.id, message: data.message, unmatched: data.unmatched })
+  }
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -29,25 +102,66 @@ export function CreateProjectModal({ open, onOpenChange, onCreateProject }: Crea
 
     setLoading(true)
     try {
+      if (onProjectImported && importContent.trim()) {
+        await handleImport()
+        return
+      }
       await onCreateProject(name.trim(), description.trim())
-      setName('')
-      setDescription('')
-      setError('')
+      resetForm()
       onOpenChange(false)
     } catch (err) {
-      setError('Failed to create project')
+      setError(importContent.trim() ? 'Failed to import references' : 'Failed to create project')
     } finally {
       setLoading(false)
     }
   }
 
   const handleClose = () => {
-    setName('')
-    setDescription('')
-    setError('')
+    // The project already exists once there is a report - closing should still show it
+    if (importReport) {
+      finishImport(importReport.projectId)
+      return
+    }
+    resetForm()
     onOpenChange(false)
   }
 
+  if (importReport) {
+    return (
+      <Dialog open={open} onOpenChange={(isOpen) => !isOpen && handleClose()}>
+        <DialogContent>
+          <DialogHeader>
+            <div className="flex items-center gap-2">
+              <Folder className="h-5 w-5 text-gray-400" />
+              <DialogTitle>Project Created</DialogTitle>
+            </div>
+            <DialogDescription>{importReport.message}</DialogDescription>
+          </DialogHeader>
+
+          <div className="p-6 pt-0 space-y-2">
+            <p className="text-sm font-medium text-gray-300">
+              Not imported ({importReport.unmatched.length})
+            </p>
+            <ul className="max-h-64 overflow-y-auto space-y-2 text-sm">
+              {importReport.unmatched.map((miss, index) => (
+                <li key={index} className="p-2 bg-[#171717] border border-[#2a2a2a] rounded-md">
+                  <div className="text-gray-200 break-words">{miss.label}</div>
+                  <div className="text-xs text-gray-500">{miss.reason}</div>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <DialogFooter>
+            <Button onClick={handleClose} className="bg-[#2a2a2a] hover:bg-[#3a3a3a] text-white">
+              Done
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    )
+  }
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent>
@@ -101,6 +215,69 @@ export function CreateProjectModal({ open, onOpenChange, onCreateProject }: Crea
                 className="bg-[#171717] border-[#2a2a2a] text-white placeholder:text-gray-500"
               />
             </div>
+
+            {onProjectImported && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <label htmlFor="project-import" className="text-sm font-medium text-gray-300">
+                    Import References (Optional)
+                  </label>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".bib,.bibtex,.ris,.txt"
+                    onChange={handleFileChange}
+                    className="hidden"
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => fileInputRef.current?.click()}
+                    className="border-[#2a2a2a] text-gray-300"
+                  >
+                    <Upload className="h-4 w-4 mr-2" />
+                    Upload .bib / .ris
+                  </Button>
+                </div>
+                {importFileName ? (
+                  <div className="flex items-center justify-between p-2 text-sm bg-[#171717] border border-[#2a2a2a] rounded-md text-gray-300">
+                    <span className="truncate">{importFileName}</span>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setImportContent('')
+                        setImportFileName(null)
+                      }}
+                      className="text-gray-500 hover:text-gray-300"
+                      title="Remove file"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </div>
+                ) : (
+                  <textarea
+                    id="project-import"
+                    value={importContent}
+                    onChange={(e) => setImportContent(e.target.value)}
+                    placeholder="Or paste one DOI or paper title per line"
+                    rows={4}
+                    className="w-full bg-[#171717] border border-[#2a2a2a] rounded-md px-3 py-2 text-sm text-white placeholder:text-gray-500 focus:outline-none focus:ring-2 focus:ring-[#3a3a3a] resize-none"
+                  />
+                )}
+                {importContent.trim() && (
+                  <Select value={importMode} onValueChange={(value) => setImportMode(value as ImportMode)}>
+                    <SelectTrigger className="bg-[#171717] border-[#2a2a2a] text-sm text-gray-300">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="per-paper">One chat per paper</SelectItem>
+                      <SelectItem value="single">One chat with all papers</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            )}
           </div>
 
           <DialogFooter>
@@ -117,7 +294,9 @@ export function CreateProjectModal({ open, onOpenChange, onCreateProject }: Crea
               disabled={loading || !name.trim()}
               className="bg-[#2a2a2a] hover:bg-[#3a3a3a] text-white"
             >
-              {loading ? 'Creating...' : 'Create Project'}
+              {loading
+                ? (importContent.trim() ? 'Importing...' : 'Creating...')
+                : (onProjectImported && importContent.trim() ? 'Create & Import' : 'Create Project')}
             </Button>
           </DialogFooter>
         </form>
@@ -0,0 +1,35 @@
+'use client'
+
+import { Coins } from 'lucide-react'
+import { CreditEstimate, formatCredits } from '@/lib/utils/credit-cost'
+
+interface CreditCostNoticeProps {
+  estimate: CreditEstimate | null
+}
+
+/**
+ * One-line estimated cost of the search about to run, highlighted when it needs confirmation
+ */
+export function CreditCostNotice({ estimate }: CreditCostNoticeProps) {
+  if (!estimate) {
+    return null
+  }
+
+  const expensive = estimate.requiresConfirmation
+  return (
+    <div
+      className={`flex items-center gap-2 rounded-md border p-3 text-xs ${
+        expensive ? 'border-yellow-700 bg-yellow-900/20 text-yellow-400' : 'border-[#2a2a2a] bg-[#171717] text-gray-400'
+      }`}
+    >
+      <Coins className="h-4 w-4 flex-shrink-0" />
+      <span>
+        Estimated cost: ~{formatCredits(estimate.credits)} credits
+        {estimate.basis === 'history'
+          ? ` (median of the last ${estimate.samples} similar searches)`
+          : ' (default estimate)'}
+        {expensive && ' - you will be asked to confirm'}
+      </span>
+    </div>
+  )
+}
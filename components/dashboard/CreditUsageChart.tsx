@@ -0,0 +1,162 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { BarChart3, Loader2 } from 'lucide-react'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { BUDGET_WARNING_RATIO, CREDIT_BUDGET_PERIODS, CreditBudgetPeriod, formatCredits } from '@/lib/utils/credit-cost'
+
+interface ProjectCreditUsage {
+  projectId: string | null
+  name: string
+  credits: number
+  calls: number
+  jobs: number
+  papers: number
+  failedCalls: number
+}
+
+type CreditBudgetStatus = Partial<Record<CreditBudgetPeriod, { limit: number; used: number; resetsAt: string }>>
+
+interface CreditBudgets {
+  user: CreditBudgetStatus
+  projects: Array<{ projectId: string; name: string; usage: CreditBudgetStatus }>
+}
+
+const PERIOD_OPTIONS = [
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+]
+
+function BudgetBars({ label, usage }: { label: string; usage: CreditBudgetStatus }) {
+  return (
+    <div className="space-y-1">
+      <div className="truncate text-xs text-gray-300">{label}</div>
+      {CREDIT_BUDGET_PERIODS.map((period) => {
+        const budget = usage[period]
+        if (!budget) return null
+        const ratio = budget.used / budget.limit
+        const color = ratio >= 1 ? 'bg-red-500' : ratio >= BUDGET_WARNING_RATIO ? 'bg-yellow-500' : 'bg-[#22c55e]'
+        return (
+          <div key={period} className="flex items-center gap-2 text-xs text-gray-400">
+            <span className="w-16 capitalize">{period}</span>
+            <div className="h-1.5 flex-1 rounded-full bg-[#171717]">
+              <div className={`h-1.5 rounded-full ${color}`} style={{ width: `${Math.min(ratio, 1) * 100}%` }} />
+            </div>
+            <span className="w-24 text-right">
+              {formatCredits(budget.used)} / {formatCredits(budget.limit)}
+            </span>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+/**
+ * Credits spent per project, from the local credit ledger, with any budgets they count against
+ */
+export function CreditUsageChart() {
+  const [days, setDays] = useState('30')
+  const [projects, setProjects] = useState<ProjectCreditUsage[]>([])
+  const [totalCredits, setTotalCredits] = useState(0)
+  const [budgets, setBudgets] = useState<CreditBudgets>({ user: {}, projects: [] })
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    fetchUsage()
+  }, [days])
+
+  const fetchUsage = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/veritus/credits/usage?days=${days}`)
+      if (response.ok) {
+        const data = await response.json()
+        setProjects(data.projects || [])
+        setTotalCredits(data.totalCredits || 0)
+        setBudgets(data.budgets || { user: {}, projects: [] })
+      }
+    } catch (error) {
+      console.error('Error fetching credit usage:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const maxCredits = Math.max(...projects.map((project) => project.credits), 1)
+  const hasUserBudget = Object.keys(budgets.user).length > 0
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-medium text-gray-300">
+          <BarChart3 className="h-4 w-4 text-gray-400" />
+          Credit usage by project
+        </div>
+        <Select value={days} onValueChange={setDays}>
+          <SelectTrigger className="w-36 bg-[#171717] border-[#2a2a2a] text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIOD_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading && projects.length === 0 ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : projects.length === 0 ? (
+        <div className="text-sm text-gray-500">No credits used in this period</div>
+      ) : (
+        <div className="space-y-2">
+          {projects.map((project) => (
+            <div key={project.projectId ?? 'none'} className="space-y-1">
+              <div className="flex items-center justify-between gap-2 text-xs">
+                <span className="truncate text-gray-300">{project.name}</span>
+                <span
+                  className="flex-shrink-0 text-gray-400"
+                  title={`${project.jobs} searches, ${project.papers} paper lookups, ${project.failedCalls} failed`}
+                >
+                  {formatCredits(project.credits)} credits
+                </span>
+              </div>
+              <div className="h-2 rounded-full bg-[#171717]">
+                <div
+                  className="h-2 rounded-full bg-[#22c55e]"
+                  style={{ width: `${(project.credits / maxCredits) * 100}%` }}
+                />
+              </div>
+            </div>
+          ))}
+          <div className="flex justify-between pt-1 text-xs text-gray-500">
+            <span>Estimated per call; failed calls are not counted</span>
+            <span className="flex-shrink-0">Total {formatCredits(totalCredits)} credits</span>
+          </div>
+        </div>
+      )}
+
+      {(hasUserBudget || budgets.projects.length > 0) && (
+        <div className="space-y-3 border-t border-[#2a2a2a] pt-3">
+          <div className="text-xs font-medium text-gray-300">Budgets (UTC day and month)</div>
+          {hasUserBudget && <BudgetBars label="Your account" usage={budgets.user} />}
+          {budgets.projects.map((project) => (
+            <BudgetBars key={project.projectId} label={project.name} usage={project.usage} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,134 @@
+'use client'
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { DigestFrequency, DigestPreferences } from '@/types'
+import { MAX_PAPERS_PER_DIGEST } from '@/lib/utils/digest-schedule'
+
+interface DigestPreferencesControlsProps {
+  preferences: DigestPreferences
+  onChange: (update: Partial<DigestPreferences>) => void
+  disabled?: boolean
+}
+
+const frequencyLabels: Record<DigestFrequency, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  off: 'Off',
+}
+
+const weekdays = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+function formatHour(hour: number): string {
+  const suffix = hour < 12 ? 'AM' : 'PM'
+  return `${hour % 12 === 0 ? 12 : hour % 12}:00 ${suffix}`
+}
+
+function getTimeZones(current: string): string[] {
+  const supported: string[] = (Intl as any).supportedValuesOf?.('timeZone') || []
+  const browser = Intl.DateTimeFormat().resolvedOptions().timeZone
+  return Array.from(new Set([current, browser, ...supported])).filter(Boolean)
+}
+
+export function DigestPreferencesControls({ preferences, onChange, disabled = false }: DigestPreferencesControlsProps) {
+  const triggerClassName = 'h-8 bg-card border-border text-sm text-card-foreground'
+  const isOff = preferences.frequency === 'off'
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+      <Select
+        value={preferences.frequency}
+        onValueChange={(value) => onChange({ frequency: value as DigestFrequency })}
+        disabled={disabled}
+      >
+        <SelectTrigger className={`${triggerClassName} w-28`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(frequencyLabels) as DigestFrequency[]).map((frequency) => (
+            <SelectItem key={frequency} value={frequency}>
+              {frequencyLabels[frequency]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {!isOff && (
+        <>
+          <Select
+            value={String(preferences.papersPerDigest)}
+            onValueChange={(value) => onChange({ papersPerDigest: parseInt(value, 10) })}
+            disabled={disabled}
+          >
+            <SelectTrigger className={`${triggerClassName} w-28`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from({ length: MAX_PAPERS_PER_DIGEST }, (_, i) => i + 1).map((count) => (
+                <SelectItem key={count} value={String(count)}>
+                  {count} paper{count === 1 ? '' : 's'}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {preferences.frequency === 'weekly' && (
+            <>
+              <span>on</span>
+              <Select
+                value={String(preferences.sendDay)}
+                onValueChange={(value) => onChange({ sendDay: parseInt(value, 10) })}
+                disabled={disabled}
+              >
+                <SelectTrigger className={`${triggerClassName} w-32`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {weekdays.map((day, index) => (
+                    <SelectItem key={day} value={String(index)}>
+                      {day}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </>
+          )}
+
+          <span>at</span>
+          <Select
+            value={String(preferences.sendHour)}
+            onValueChange={(value) => onChange({ sendHour: parseInt(value, 10) })}
+            disabled={disabled}
+          >
+            <SelectTrigger className={`${triggerClassName} w-28`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from({ length: 24 }, (_, hour) => (
+                <SelectItem key={hour} value={String(hour)}>
+                  {formatHour(hour)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select
+            value={preferences.timezone}
+            onValueChange={(value) => onChange({ timezone: value })}
+            disabled={disabled}
+          >
+            <SelectTrigger className={`${triggerClassName} w-52`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="max-h-72">
+              {getTimeZones(preferences.timezone).map((timezone) => (
+                <SelectItem key={timezone} value={timezone}>
+                  {timezone.replace(/_/g, ' ')}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </>
+      )}
+    </div>
+  )
+}
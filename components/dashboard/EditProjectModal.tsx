@@ -5,17 +5,22 @@ import { Folder } from 'lucide-react'
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
+import { CreditBudget } from '@/lib/utils/credit-cost'
 
 interface EditProjectModalProps {
   open: boolean
   onOpenChange: (open: boolean) => void
-  onUpdateProject: (id: string, name: string, description?: string) => Promise<void>
+  onUpdateProject: (id: string, name: string, description?: string, creditBudget?: CreditBudget) => Promise<void>
   project: { id: string; name: string; description?: string } | null
 }
 
 export function EditProjectModal({ open, onOpenChange, onUpdateProject, project }: EditProjectModalProps) {
   const [name, setName] = useState('')
   const [description, setDescription] = useState('')
+  const [dailyBudget, setDailyBudget] = useState('')
+  const [monthlyBudget, setMonthlyBudget] = useState('')
+  // Budgets are only sent once the current ones have loaded, so a failed load can't clear them
+  const [budgetLoaded, setBudgetLoaded] = useState(false)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
 
@@ -26,6 +31,33 @@ export function EditProjectModal({ open, onOpenChange, onUpdateProject, project
     }
   }, [project])
 
+  useEffect(() => {
+    if (open && project) {
+      loadCreditBudget(project.id)
+    }
+  }, [open, project])
+
+  const loadCreditBudget = async (id: string) => {
+    setBudgetLoaded(false)
+    try {
+      const response = await fetch(`/api/projects/${id}`)
+      if (response.ok) {
+        const data = await response.json()
+        setDailyBudget(data.project.creditBudget?.daily?.toString() ?? '')
+        setMonthlyBudget(data.project.creditBudget?.monthly?.toString() ?? '')
+        setBudgetLoaded(true)
+      }
+    } catch (error) {
+      console.error('Error loading project credit budget:', error)
+    }
+  }
+
+  const parseBudget = (value: string): number | null | undefined => {
+    if (!value.trim()) return null
+    const credits = Number(value)
+    return Number.isFinite(credits) && credits > 0 ? credits : undefined
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError('')
@@ -37,9 +69,20 @@ export function EditProjectModal({ open, onOpenChange, onUpdateProject, project
       return
     }
 
+    let creditBudget: CreditBudget | undefined
+    if (budgetLoaded) {
+      const daily = parseBudget(dailyBudget)
+      const monthly = parseBudget(monthlyBudget)
+      if (daily === undefined || monthly === undefined) {
+        setError('Credit budgets must be positive numbers, or empty for no limit')
+        return
+      }
+      creditBudget = { daily, monthly }
+    }
+
     setLoading(true)
     try {
-      await onUpdateProject(project.id, name.trim(), description.trim())
+      await onUpdateProject(project.id, name.trim(), description.trim(), creditBudget)
       setError('')
       onOpenChange(false)
     } catch (err: any) {
@@ -113,6 +156,37 @@ export function EditProjectModal({ open, onOpenChange, onUpdateProject, project
                 className="bg-[#171717] border-[#2a2a2a] text-white placeholder:text-gray-500"
               />
             </div>
+
+            <div className="space-y-2">
+              <span className="text-sm font-medium text-gray-300">Credit Budget (Optional)</span>
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  aria-label="Daily credit budget"
+                  type="number"
+                  min="0"
+                  step="any"
+                  placeholder="Per day"
+                  value={dailyBudget}
+                  onChange={(e) => setDailyBudget(e.target.value)}
+                  disabled={!budgetLoaded}
+                  className="bg-[#171717] border-[#2a2a2a] text-white placeholder:text-gray-500"
+                />
+                <Input
+                  aria-label="Monthly credit budget"
+                  type="number"
+                  min="0"
+                  step="any"
+                  placeholder="Per month"
+                  value={monthlyBudget}
+                  onChange={(e) => setMonthlyBudget(e.target.value)}
+                  disabled={!budgetLoaded}
+                  className="bg-[#171717] border-[#2a2a2a] text-white placeholder:text-gray-500"
+                />
+              </div>
+              <p className="text-xs text-gray-500">
+                Searches in this project that would go over a budget are blocked. Days and months are UTC; leave empty for no limit.
+              </p>
+            </div>
           </div>
 
           <DialogFooter>
@@ -0,0 +1,120 @@
+'use client'
+
+import { useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { ChevronDown, ChevronRight, Loader2, RefreshCw } from 'lucide-react'
+
+interface EmailDelivery {
+  id: string
+  to: string
+  subject: string
+  template: string
+  status: 'pending' | 'sending' | 'sent' | 'failed'
+  attempts: number
+  lastError: string | null
+  nextAttemptAt: string | null
+  sentAt: string | null
+  createdAt: string
+}
+
+const statusLabels: Record<EmailDelivery['status'], string> = {
+  pending: 'Retrying',
+  sending: 'Sending',
+  sent: 'Sent',
+  failed: 'Failed',
+}
+
+function formatDateTime(dateString: string) {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
+/**
+ * Collapsible list of the user's recent emails and their delivery state
+ * Loads when first expanded
+ */
+export function EmailDeliveryLog() {
+  const [expanded, setExpanded] = useState(false)
+  const [deliveries, setDeliveries] = useState<EmailDelivery[] | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const fetchDeliveries = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch('/api/user/email-deliveries')
+      if (response.ok) {
+        const data = await response.json()
+        setDeliveries(data.deliveries || [])
+      }
+    } catch (error) {
+      console.error('Error fetching email delivery log:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const toggle = () => {
+    if (!expanded && deliveries === null) {
+      fetchDeliveries()
+    }
+    setExpanded(!expanded)
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={toggle}
+          className="flex items-center gap-1 text-sm text-muted-foreground hover:text-card-foreground"
+        >
+          {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          Delivery log
+        </button>
+        {expanded && (
+          <Button variant="ghost" size="sm" onClick={fetchDeliveries} disabled={loading} className="h-7 px-2">
+            <RefreshCw className={`h-3.5 w-3.5 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        )}
+      </div>
+
+      {expanded && (
+        <div className="mt-2 space-y-1">
+          {loading && deliveries === null ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            </div>
+          ) : !deliveries || deliveries.length === 0 ? (
+            <div className="py-2 text-sm text-muted-foreground">No emails sent yet</div>
+          ) : (
+            deliveries.map((delivery) => (
+              <div key={delivery.id} className="flex items-start justify-between gap-3 rounded-sm border border-border px-3 py-2">
+                <div className="min-w-0">
+                  <div className="truncate text-sm text-card-foreground">{delivery.subject}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {formatDateTime(delivery.sentAt || delivery.createdAt)}
+                    {delivery.attempts > 1 && ` • ${delivery.attempts} attempts`}
+                    {delivery.status === 'pending' && delivery.nextAttemptAt && ` • Next try ${formatDateTime(delivery.nextAttemptAt)}`}
+                  </div>
+                  {delivery.lastError && delivery.status !== 'sent' && (
+                    <div className="truncate text-xs text-destructive" title={delivery.lastError}>
+                      {delivery.lastError}
+                    </div>
+                  )}
+                </div>
+                <Badge variant={delivery.status === 'failed' ? 'destructive' : delivery.status === 'sent' ? 'secondary' : 'outline'}>
+                  {statusLabels[delivery.status]}
+                </Badge>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
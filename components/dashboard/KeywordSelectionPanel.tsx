@@ -12,6 +12,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { VeritusPaper } from '@/types/veritus'
 import { useChatPaperStorage } from '@/lib/hooks/use-chat-paper-storage'
 import { toast } from '@/lib/utils/toast'
+import { confirmCreditCost, useCreditEstimate } from '@/lib/hooks/use-credit-estimate'
+import { CreditCostNotice } from './CreditCostNotice'
 
 interface Message {
   role: 'user' | 'assistant'
@@ -253,6 +255,8 @@ export function KeywordSelectionPanel({
     return 300
   }, [depth])
 
+  const creditEstimate = useCreditEstimate(jobType, limit, open)
+
   const handleToggleKeyword = (keyword: string) => {
     if (selectedKeywords.includes(keyword)) {
       setSelectedKeywords(selectedKeywords.filter(k => k !== keyword))
@@ -405,6 +409,10 @@ export function KeywordSelectionPanel({
     }
     filters.limit = limit
 
+    if (!confirmCreditCost(creditEstimate, jobType, limit)) {
+      return
+    }
+
     onSearch({
       corpusId,
       jobType,
@@ -479,6 +487,8 @@ export function KeywordSelectionPanel({
             </div>
           )}
 
+          <CreditCostNotice estimate={creditEstimate} />
+
           {/* Keywords Section */}
           <div>
             <div className="flex items-center justify-between mb-3">
@@ -7,6 +7,7 @@ import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { FileText, Users, Calendar, BookOpen, ExternalLink, Sparkles, Tag, Bookmark, BookmarkCheck, Loader2 } from 'lucide-react'
 import { toast } from '@/lib/utils/toast'
+import { CitationExportMenu } from './CitationExportMenu'
 
 interface PaperAccordionProps {
   papers: VeritusPaper[]
@@ -107,157 +108,162 @@ export function PaperAccordion({ papers, onCreateChatFromHeading }: PaperAccordi
   }
 
   return (
-    <Accordion type="single" collapsible className="w-full space-y-2">
-      {papers.map((paper, index) => (
-        <AccordionItem
-          key={paper.id || index}
-          value={`paper-${index}`}
-          className="border border-border rounded-lg bg-card px-4"
-        >
-          <AccordionTrigger className="hover:no-underline">
-            <div className="flex items-start justify-between w-full pr-4">
-              <div className="flex-1 text-left">
-                <h3 
-                  className="font-semibold text-foreground mb-1 cursor-pointer hover:text-[#22c55e] transition-colors"
-                  onClick={(e) => {
-                    e.stopPropagation()
-                    if (onCreateChatFromHeading && paper.title) {
-                      // Pass the full paper object so chat can be created with paperData
-                      onCreateChatFromHeading(paper)
-                    }
-                  }}
-                  title="Click to create a new chat with this paper"
+    <div className="space-y-2">
+      <div className="flex justify-end">
+        <CitationExportMenu papers={papers} filename="search-results" className="h-8" />
+      </div>
+      <Accordion type="single" collapsible className="w-full space-y-2">
+        {papers.map((paper, index) => (
+          <AccordionItem
+            key={paper.id || index}
+            value={`paper-${index}`}
+            className="border border-border rounded-lg bg-card px-4"
+          >
+            <AccordionTrigger className="hover:no-underline">
+              <div className="flex items-start justify-between w-full pr-4">
+                <div className="flex-1 text-left">
+                  <h3 
+                    className="font-semibold text-foreground mb-1 cursor-pointer hover:text-[#22c55e] transition-colors"
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      if (onCreateChatFromHeading && paper.title) {
+                        // Pass the full paper object so chat can be created with paperData
+                        onCreateChatFromHeading(paper)
+                      }
+                    }}
+                    title="Click to create a new chat with this paper"
+                  >
+                    {paper.title}
+                  </h3>
+                  <div className="flex items-center gap-3 text-sm text-muted-foreground">
+                    {paper.year && (
+                      <span className="flex items-center gap-1">
+                        <Calendar className="h-3 w-3" />
+                        {paper.year}
+                      </span>
+                    )}
+                    {paper.impactFactor?.citationCount !== undefined && (
+                      <span className="flex items-center gap-1">
+                        <FileText className="h-3 w-3" />
+                        {paper.impactFactor.citationCount} citations
+                      </span>
+                    )}
+                    {paper.score !== null && paper.score !== undefined && (
+                      <Badge variant="outline" className="text-xs">
+                        Score: {(paper.score < 1 ? paper.score * 100 : paper.score > 100 ? paper.score / 100 : paper.score).toFixed(2)}%
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+                {/* Bookmark Button */}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="ml-2 h-8 w-8 p-0 hover:bg-accent"
+                  onClick={(e) => handleBookmark(paper, e)}
+                  disabled={bookmarkingIds.has(paper.id || '')}
+                  title={bookmarks.has(paper.id || '') ? 'Remove bookmark' : 'Bookmark for cron email notifications'}
                 >
-                  {paper.title}
-                </h3>
-                <div className="flex items-center gap-3 text-sm text-muted-foreground">
-                  {paper.year && (
-                    <span className="flex items-center gap-1">
-                      <Calendar className="h-3 w-3" />
-                      {paper.year}
-                    </span>
-                  )}
-                  {paper.impactFactor?.citationCount !== undefined && (
-                    <span className="flex items-center gap-1">
-                      <FileText className="h-3 w-3" />
-                      {paper.impactFactor.citationCount} citations
-                    </span>
-                  )}
-                  {paper.score !== null && paper.score !== undefined && (
-                    <Badge variant="outline" className="text-xs">
-                      Score: {(paper.score < 1 ? paper.score * 100 : paper.score > 100 ? paper.score / 100 : paper.score).toFixed(2)}%
-                    </Badge>
+                  {bookmarkingIds.has(paper.id || '') ? (
+                    <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                  ) : bookmarks.has(paper.id || '') ? (
+                    <BookmarkCheck className="h-4 w-4 text-[#22c55e]" />
+                  ) : (
+                    <Bookmark className="h-4 w-4 text-muted-foreground hover:text-[#22c55e]" />
                   )}
-                </div>
+                </Button>
               </div>
-              {/* Bookmark Button */}
-              <Button
-                variant="ghost"
-                size="sm"
-                className="ml-2 h-8 w-8 p-0 hover:bg-accent"
-                onClick={(e) => handleBookmark(paper, e)}
-                disabled={bookmarkingIds.has(paper.id || '')}
-                title={bookmarks.has(paper.id || '') ? 'Remove bookmark' : 'Bookmark for cron email notifications'}
-              >
-                {bookmarkingIds.has(paper.id || '') ? (
-                  <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
-                ) : bookmarks.has(paper.id || '') ? (
-                  <BookmarkCheck className="h-4 w-4 text-[#22c55e]" />
-                ) : (
-                  <Bookmark className="h-4 w-4 text-muted-foreground hover:text-[#22c55e]" />
+            </AccordionTrigger>
+            <AccordionContent>
+              <div className="space-y-4 pt-2 pb-4">
+                {/* Authors */}
+                {paper.authors && (
+                  <div className="flex items-start gap-2">
+                    <Users className="h-4 w-4 text-muted-foreground mt-0.5 flex-shrink-0" />
+                    <div>
+                      <p className="text-xs text-muted-foreground mb-1">Authors</p>
+                      <p className="text-sm text-foreground">{paper.authors}</p>
+                    </div>
+                  </div>
                 )}
-              </Button>
-            </div>
-          </AccordionTrigger>
-          <AccordionContent>
-            <div className="space-y-4 pt-2 pb-4">
-              {/* Authors */}
-              {paper.authors && (
-                <div className="flex items-start gap-2">
-                  <Users className="h-4 w-4 text-muted-foreground mt-0.5 flex-shrink-0" />
-                  <div>
-                    <p className="text-xs text-muted-foreground mb-1">Authors</p>
-                    <p className="text-sm text-foreground">{paper.authors}</p>
+
+                {/* TLDR */}
+                {paper.tldr && (
+                  <div className="flex items-start gap-2">
+                    <Sparkles className="h-4 w-4 text-green-500 mt-0.5 flex-shrink-0" />
+                    <div className="flex-1">
+                      <p className="text-xs text-muted-foreground mb-1">TLDR</p>
+                      <p className="text-sm text-foreground italic bg-muted p-3 rounded-md border-l-2 border-green-500/50">
+                        {paper.tldr}
+                      </p>
+                    </div>
                   </div>
-                </div>
-              )}
+                )}
 
-              {/* TLDR */}
-              {paper.tldr && (
-                <div className="flex items-start gap-2">
-                  <Sparkles className="h-4 w-4 text-green-500 mt-0.5 flex-shrink-0" />
-                  <div className="flex-1">
-                    <p className="text-xs text-muted-foreground mb-1">TLDR</p>
-                    <p className="text-sm text-foreground italic bg-muted p-3 rounded-md border-l-2 border-green-500/50">
-                      {paper.tldr}
-                    </p>
+                {/* Abstract */}
+                {paper.abstract && (
+                  <div>
+                    <p className="text-xs text-muted-foreground mb-1">Abstract</p>
+                    <p className="text-sm text-foreground leading-relaxed">{paper.abstract}</p>
                   </div>
-                </div>
-              )}
+                )}
 
-              {/* Abstract */}
-              {paper.abstract && (
-                <div>
-                  <p className="text-xs text-muted-foreground mb-1">Abstract</p>
-                  <p className="text-sm text-foreground leading-relaxed">{paper.abstract}</p>
-                </div>
-              )}
+                {/* Journal */}
+                {paper.journalName && (
+                  <div className="flex items-start gap-2">
+                    <BookOpen className="h-4 w-4 text-muted-foreground mt-0.5 flex-shrink-0" />
+                    <div>
+                      <p className="text-xs text-muted-foreground mb-1">Journal</p>
+                      <p className="text-sm text-foreground">{paper.journalName}</p>
+                    </div>
+                  </div>
+                )}
 
-              {/* Journal */}
-              {paper.journalName && (
-                <div className="flex items-start gap-2">
-                  <BookOpen className="h-4 w-4 text-muted-foreground mt-0.5 flex-shrink-0" />
+                {/* Publication Type */}
+                {paper.publicationType && (
                   <div>
-                    <p className="text-xs text-muted-foreground mb-1">Journal</p>
-                    <p className="text-sm text-foreground">{paper.journalName}</p>
+                    <p className="text-xs text-muted-foreground mb-1">Publication Type</p>
+                    <Badge variant="outline" className="text-xs">
+                      {paper.publicationType}
+                    </Badge>
                   </div>
-                </div>
-              )}
-
-              {/* Publication Type */}
-              {paper.publicationType && (
-                <div>
-                  <p className="text-xs text-muted-foreground mb-1">Publication Type</p>
-                  <Badge variant="outline" className="text-xs">
-                    {paper.publicationType}
-                  </Badge>
-                </div>
-              )}
+                )}
 
-              {/* Fields of Study */}
-              {paper.fieldsOfStudy && paper.fieldsOfStudy.length > 0 && (
-                <div>
-                  <p className="text-xs text-muted-foreground mb-2">Fields of Study</p>
-                  <div className="flex flex-wrap gap-2">
-                    {paper.fieldsOfStudy.map((field, idx) => (
-                      <Badge key={idx} variant="outline" className="text-xs">
-                        <Tag className="h-3 w-3 mr-1" />
-                        {field}
-                      </Badge>
-                    ))}
+                {/* Fields of Study */}
+                {paper.fieldsOfStudy && paper.fieldsOfStudy.length > 0 && (
+                  <div>
+                    <p className="text-xs text-muted-foreground mb-2">Fields of Study</p>
+                    <div className="flex flex-wrap gap-2">
+                      {paper.fieldsOfStudy.map((field, idx) => (
+                        <Badge key={idx} variant="outline" className="text-xs">
+                          <Tag className="h-3 w-3 mr-1" />
+                          {field}
+                        </Badge>
+                      ))}
+                    </div>
                   </div>
-                </div>
-              )}
+                )}
 
-              {/* PDF Link */}
-              {paper.pdfLink && (
-                <div className="pt-2">
-                  <Button
-                    asChild
-                    className="bg-[#22c55e] hover:bg-[#16a34a] text-black px-4 py-2"
-                  >
-                    <a href={paper.pdfLink} target="_blank" rel="noopener noreferrer" className="flex items-center">
-                      <ExternalLink className="mr-2 h-4 w-4" />
-                      View PDF
-                    </a>
-                  </Button>
-                </div>
-              )}
-            </div>
-          </AccordionContent>
-        </AccordionItem>
-      ))}
-    </Accordion>
+                {/* PDF Link */}
+                {paper.pdfLink && (
+                  <div className="pt-2">
+                    <Button
+                      asChild
+                      className="bg-[#22c55e] hover:bg-[#16a34a] text-black px-4 py-2"
+                    >
+                      <a href={paper.pdfLink} target="_blank" rel="noopener noreferrer" className="flex items-center">
+                        <ExternalLink className="mr-2 h-4 w-4" />
+                        View PDF
+                      </a>
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </AccordionContent>
+          </AccordionItem>
+        ))}
+      </Accordion>
+    </div>
   )
 }
 
@@ -12,7 +12,7 @@ import { SearchLoadingSkeleton } from './SearchLoadingSkeleton'
 import { VeritusPaper } from '@/types/veritus'
 import { CitationNetworkResponse } from '@/types/paper-api'
 import { NodeTransferPayload } from '@/types/graph-node'
-import { isDebugMode } from '@/lib/config/mock-config'
+import { waitForJob, fetchPendingJobs, acknowledgeJob, TrackedJob } from '@/lib/utils/job-client'
 import { toast } from '@/lib/utils/toast'
 
 interface PaperChatViewProps {
@@ -27,6 +27,26 @@ interface PaperChatViewProps {
   onCreateChatFromHeading?: (titleOrPaper: string | VeritusPaper) => Promise<string | null>
 }
 
+interface SimilarPaperSearchParams {
+  corpusId: string
+  jobType: 'keywordSearch' | 'querySearch' | 'combinedSearch'
+  keywords?: string[]
+  tldrs?: string[]
+  authors?: string[]
+  references?: string[]
+  filters?: {
+    fieldsOfStudy?: string[]
+    minCitationCount?: number
+    openAccessPdf?: boolean
+    downloadable?: boolean
+    quartileRanking?: string[]
+    publicationTypes?: string[]
+    sort?: string
+    year?: string
+    limit?: 100 | 200 | 300
+  }
+}
+
 const formatDate = (value?: string | null) => {
   if (!value) return 'Not available'
   const d = new Date(value)
@@ -359,25 +379,145 @@ export function PaperChatView({
     loadChatData()
   }, [chatId]) // Only depend on chatId - this ensures complete reset on chat change
 
-  const handleSearchSimilarPapers = async (params: {
-    corpusId: string
-    jobType: 'keywordSearch' | 'querySearch' | 'combinedSearch'
-    keywords?: string[]
-    tldrs?: string[]
-    authors?: string[]
-    references?: string[]
-    filters?: {
-      fieldsOfStudy?: string[]
-      minCitationCount?: number
-      openAccessPdf?: boolean
-      downloadable?: boolean
-      quartileRanking?: string[]
-      publicationTypes?: string[]
-      sort?: string
-      year?: string
-      limit?: 100 | 200 | 300
+  // Reattach to a similar-paper search that was still running (or never stored) when the page was left
+  useEffect(() => {
+    if (!chatId) return
+
+    const controller = new AbortController()
+
+    const resumePendingSearch = async () => {
+      try {
+        const jobs = await fetchPendingJobs(chatId)
+        const pendingJob = jobs.find((job) => job.context?.source === 'paper-chat')
+        if (!pendingJob || controller.signal.aborted) return
+
+        setLoadingSearch(true)
+        const job = await waitForJob(pendingJob.jobId, { signal: controller.signal })
+        if (controller.signal.aborted) return
+
+        await storeSearchResults(job, {
+          jobType: job.jobType,
+          keywords: job.context?.keywords,
+          tldrs: job.context?.tldrs,
+          filters: job.context?.filters,
+        })
+      } catch (error: any) {
+        if (controller.signal.aborted) return
+        console.error('Error resuming pending search:', error)
+        toast.error('Failed to search similar papers', error?.message || 'An unexpected error occurred')
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoadingSearch(false)
+        }
+      }
+    }
+    resumePendingSearch()
+
+    return () => controller.abort()
+  }, [chatId])
+
+  /**
+   * Show a finished search job's papers, storing them in the chat via search-papers API
+   * unless the job runner already stored them
+   */
+  const storeSearchResults = async (
+    job: TrackedJob,
+    params: Pick<SimilarPaperSearchParams, 'jobType' | 'keywords' | 'tldrs' | 'filters'>
+  ) => {
+    const papers: VeritusPaper[] = job.results || []
+    if (!job.consumedAt) {
+      await postSearchResults(job.jobId, papers, params)
+    }
+    await reloadSearchResults(papers)
+  }
+
+  const postSearchResults = async (
+    jobId: string,
+    papers: VeritusPaper[],
+    params: Pick<SimilarPaperSearchParams, 'jobType' | 'keywords' | 'tldrs' | 'filters'>
+  ) => {
+    const storeBody: any = {
+      chatId,
+      isMocked: false, // We already got real results
+    }
+    
+    if (params.jobType === 'keywordSearch' || params.jobType === 'combinedSearch') {
+      if (params.keywords && params.keywords.length > 0) {
+        storeBody.phrases = params.keywords
+      }
+    }
+    if (params.jobType === 'querySearch' || params.jobType === 'combinedSearch') {
+      if (params.tldrs && params.tldrs.length > 0) {
+        storeBody.query = params.tldrs.join(' ')
+      }
+    }
+
+    // Add filters for storage
+    if (params.filters) {
+      if (params.filters.fieldsOfStudy) storeBody.fieldsOfStudy = params.filters.fieldsOfStudy
+      if (params.filters.minCitationCount !== undefined) storeBody.minCitationCount = params.filters.minCitationCount
+      if (params.filters.openAccessPdf !== undefined) storeBody.openAccessPdf = params.filters.openAccessPdf
+      if (params.filters.downloadable !== undefined) storeBody.downloadable = params.filters.downloadable
+      if (params.filters.quartileRanking) storeBody.quartileRanking = params.filters.quartileRanking
+      if (params.filters.publicationTypes) storeBody.publicationTypes = params.filters.publicationTypes
+      if (params.filters.sort) storeBody.sort = params.filters.sort
+      if (params.filters.year) storeBody.year = params.filters.year
+      if (params.filters.limit) storeBody.limit = params.filters.limit
     }
-  }) => {
+
+    // Call search-papers API to store results (it will use the papers we already have)
+    // We pass a flag to skip job creation since we already have results
+    const storeResponse = await fetch('/api/v1/papers/search-papers', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        ...storeBody,
+        _skipJobCreation: true, // Internal flag to skip job creation
+        _papers: papers, // Pass papers directly
+      }),
+    })
+
+    // Results are now in the chat - don't reattach to this job after a reload
+    if (storeResponse.ok) {
+      await acknowledgeJob(jobId)
+    }
+  }
+
+  const reloadSearchResults = async (papers: VeritusPaper[]) => {
+    // Reload chat to get updated messages with stored papers
+    const chatResponse = await fetch(`/api/chats/${chatId}`)
+    if (chatResponse.ok) {
+      const chatData = await chatResponse.json()
+      if (chatData.chat?.messages) {
+        setMessages(chatData.chat.messages)
+        
+        // Only get papers from messages that came from search-papers API
+        // Look for messages with "Found X similar papers" content
+        const searchResultMessages = chatData.chat.messages.filter((msg: any) => 
+          msg.papers && 
+          Array.isArray(msg.papers) && 
+          msg.papers.length > 0 &&
+          msg.content && 
+          msg.content.includes('Found') && 
+          msg.content.includes('similar papers')
+        )
+        
+        if (searchResultMessages.length > 0) {
+          // Get papers from the most recent search result message
+          const latestSearchMessage = searchResultMessages[searchResultMessages.length - 1]
+          const papersFromSearch = latestSearchMessage.papers || []
+          setSearchResults(papersFromSearch)
+          setHasSearchResults(papersFromSearch.length > 0)
+        } else {
+          // Fallback: use papers we got from job
+          setSearchResults(papers)
+          setHasSearchResults(papers.length > 0)
+        }
+      }
+    }
+  }
+
+  const handleSearchSimilarPapers = async (params: SimilarPaperSearchParams) => {
     setLoadingSearch(true)
     setShowKeywordSelectionPanel(false)
     
@@ -418,6 +558,13 @@ export function PaperChatView({
       // Build request body based on job type
       const body: any = {
         corpusId: params.corpusId, // Pass corpusId for phrase padding when chat doesn't have paperData
+        // Stored with the job so the search can be resumed after a reload
+        context: {
+          source: 'paper-chat',
+          keywords: params.keywords,
+          tldrs: params.tldrs,
+          filters: params.filters,
+        },
       }
       if (params.jobType === 'keywordSearch' || params.jobType === 'combinedSearch') {
         if (params.keywords && params.keywords.length > 0) {
@@ -463,141 +610,16 @@ export function PaperChatView({
         throw new Error('No job ID returned from job creation')
       }
 
-      // Step 2: Poll job status (show loading skeleton with quotes)
-      // For mock mode: 3 second timeout, for real API: 60 second timeout (default)
-      const isMock = isDebugMode() || jobId.startsWith('mock-job-')
-      let attempts = 0
-      const maxAttempts = isMock ? 2 : 30 // Mock: 2 attempts * 1.5s ≈ 3s, Real: 30 attempts * 2s = 60s
-      const pollInterval = isMock ? 1500 : 2000 // Mock: 1.5s, Real: 2s
-      let jobStatus: any = null
-      let papers: VeritusPaper[] = []
-
-      while (attempts < maxAttempts) {
-        // Wait before checking status
-        await new Promise(resolve => setTimeout(resolve, pollInterval))
-
-        const statusResponse = await fetch(`/api/veritus/job/${jobId}`)
-        if (!statusResponse.ok) {
-          const contentType = statusResponse.headers.get('content-type')
-          if (contentType && contentType.includes('application/json')) {
-            const errorData = await statusResponse.json()
-            throw new Error(errorData.error || 'Failed to check job status')
-          } else {
-            throw new Error(`Failed to check job status: ${statusResponse.status} ${statusResponse.statusText}`)
-          }
-        }
-
-        // Check content type before parsing JSON
-        const statusContentType = statusResponse.headers.get('content-type')
-        if (!statusContentType || !statusContentType.includes('application/json')) {
-          throw new Error('Invalid response format from job status endpoint')
-        }
-
-        jobStatus = await statusResponse.json()
-
-        if (jobStatus.status === 'success') {
-          papers = jobStatus.results || []
-          break
-        } else if (jobStatus.status === 'error') {
-          throw new Error('Job failed')
-        }
-
-        attempts++
-      }
-
-      // Check if we timed out or got results
-      if (!papers || papers.length === 0) {
-        if (isMock) {
-          throw new Error('Search timed out or returned no results')
-        } else {
-          // For real API, check final status to see if still processing
-          const finalStatusResponse = await fetch(`/api/veritus/job/${jobId}`)
-          if (finalStatusResponse.ok) {
-            const finalContentType = finalStatusResponse.headers.get('content-type')
-            if (finalContentType && finalContentType.includes('application/json')) {
-              const finalStatus = await finalStatusResponse.json()
-              if (finalStatus.status === 'queued' || finalStatus.status === 'processing') {
-                throw new Error('Search timed out after 60 seconds. The job is still processing. Please try again later.')
-              }
-            }
-          }
-          throw new Error('Search timed out after 60 seconds or returned no results')
-        }
-      }
-
-      // Step 3: Store papers in chat via search-papers API
-      const storeBody: any = {
-        chatId,
-        isMocked: false, // We already got real results
-      }
-      
-      if (params.jobType === 'keywordSearch' || params.jobType === 'combinedSearch') {
-        if (params.keywords && params.keywords.length > 0) {
-          storeBody.phrases = params.keywords
-        }
-      }
-      if (params.jobType === 'querySearch' || params.jobType === 'combinedSearch') {
-        if (params.tldrs && params.tldrs.length > 0) {
-          storeBody.query = params.tldrs.join(' ')
-        }
-      }
+      // Step 2: Wait for the job (show loading skeleton with quotes)
+      // The server tracks the job to completion, so there is no client-side timeout
+      const job = await waitForJob(jobId)
 
-      // Add filters for storage
-      if (params.filters) {
-        if (params.filters.fieldsOfStudy) storeBody.fieldsOfStudy = params.filters.fieldsOfStudy
-        if (params.filters.minCitationCount !== undefined) storeBody.minCitationCount = params.filters.minCitationCount
-        if (params.filters.openAccessPdf !== undefined) storeBody.openAccessPdf = params.filters.openAccessPdf
-        if (params.filters.downloadable !== undefined) storeBody.downloadable = params.filters.downloadable
-        if (params.filters.quartileRanking) storeBody.quartileRanking = params.filters.quartileRanking
-        if (params.filters.publicationTypes) storeBody.publicationTypes = params.filters.publicationTypes
-        if (params.filters.sort) storeBody.sort = params.filters.sort
-        if (params.filters.year) storeBody.year = params.filters.year
-        if (params.filters.limit) storeBody.limit = params.filters.limit
+      if (!job.results || job.results.length === 0) {
+        throw new Error('Search returned no results')
       }
 
-      // Call search-papers API to store results (it will use the papers we already have)
-      // We pass a flag to skip job creation since we already have results
-      const storeResponse = await fetch('/api/v1/papers/search-papers', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          ...storeBody,
-          _skipJobCreation: true, // Internal flag to skip job creation
-          _papers: papers, // Pass papers directly
-        }),
-      })
-
-      // Reload chat to get updated messages with stored papers
-      const chatResponse = await fetch(`/api/chats/${chatId}`)
-      if (chatResponse.ok) {
-        const chatData = await chatResponse.json()
-        if (chatData.chat?.messages) {
-          setMessages(chatData.chat.messages)
-          
-          // Only get papers from messages that came from search-papers API
-          // Look for messages with "Found X similar papers" content
-          const searchResultMessages = chatData.chat.messages.filter((msg: any) => 
-            msg.papers && 
-            Array.isArray(msg.papers) && 
-            msg.papers.length > 0 &&
-            msg.content && 
-            msg.content.includes('Found') && 
-            msg.content.includes('similar papers')
-          )
-          
-          if (searchResultMessages.length > 0) {
-            // Get papers from the most recent search result message
-            const latestSearchMessage = searchResultMessages[searchResultMessages.length - 1]
-            const papersFromSearch = latestSearchMessage.papers || []
-            setSearchResults(papersFromSearch)
-            setHasSearchResults(papersFromSearch.length > 0)
-          } else {
-            // Fallback: use papers we got from job
-            setSearchResults(papers)
-            setHasSearchResults(papers.length > 0)
-          }
-        }
-      }
+      // Step 3: Store papers in chat and show them
+      await storeSearchResults(job, params)
     } catch (error: any) {
       // Extract error message properly to avoid "[object Object]"
       let errorMessage = 'Failed to search similar papers'
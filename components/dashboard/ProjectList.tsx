@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button'
 import { Card, CardDescription, CardHeader, CardTitle, CardContent } from '@/components/ui/card'
 import { EditProjectModal } from './EditProjectModal'
 import { CreateProjectModal } from './CreateProjectModal'
+import { CreditBudget } from '@/lib/utils/credit-cost'
 
 interface Project {
   id: string
@@ -27,7 +28,8 @@ interface ProjectListProps {
   chats?: Chat[]
   onSelectProject: (projectId: string) => void
   onNewProject?: (name: string, description?: string) => Promise<void>
-  onUpdateProject: (id: string, name: string, description?: string) => Promise<void>
+  onProjectImported?: (projectId: string) => Promise<void>
+  onUpdateProject: (id: string, name: string, description?: string, creditBudget?: CreditBudget) => Promise<void>
   onDeleteProject: (projectId: string) => void
 }
 
@@ -36,6 +38,7 @@ export function ProjectList({
   chats = [],
   onSelectProject,
   onNewProject,
+  onProjectImported,
   onUpdateProject,
   onDeleteProject,
 }: ProjectListProps) {
@@ -76,8 +79,8 @@ export function ProjectList({
     }
   }
 
-  const handleUpdate = async (id: string, name: string, description?: string) => {
-    await onUpdateProject(id, name, description)
+  const handleUpdate = async (id: string, name: string, description?: string, creditBudget?: CreditBudget) => {
+    await onUpdateProject(id, name, description, creditBudget)
     setShowEditModal(false)
     setEditingProject(null)
   }
@@ -412,6 +415,7 @@ export function ProjectList({
         open={showCreateModal}
         onOpenChange={setShowCreateModal}
         onCreateProject={handleCreate}
+        onProjectImported={onProjectImported}
       />
       <EditProjectModal
         open={showEditModal}
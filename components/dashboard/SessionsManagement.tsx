@@ -0,0 +1,209 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Loader2, LogOut, MonitorSmartphone } from 'lucide-react'
+import { toast } from '@/lib/utils/toast'
+
+interface ActiveSession {
+  id: string
+  userAgent: string | null
+  ip: string | null
+  createdAt: string
+  lastSeenAt: string
+  current: boolean
+}
+
+interface SessionsManagementProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Short "Browser on OS" label from a user agent string
+ */
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device'
+
+  const browser = /Edg\//.test(userAgent)
+    ? 'Edge'
+    : /OPR\//.test(userAgent)
+      ? 'Opera'
+      : /Firefox\//.test(userAgent)
+        ? 'Firefox'
+        : /Chrome\//.test(userAgent)
+          ? 'Chrome'
+          : /Safari\//.test(userAgent)
+            ? 'Safari'
+            : 'Browser'
+  const os = /iPhone|iPad/.test(userAgent)
+    ? 'iOS'
+    : /Android/.test(userAgent)
+      ? 'Android'
+      : /Mac OS X/.test(userAgent)
+        ? 'macOS'
+        : /Windows/.test(userAgent)
+          ? 'Windows'
+          : /Linux/.test(userAgent)
+            ? 'Linux'
+            : null
+
+  return os ? `${browser} on ${os}` : browser
+}
+
+function formatDateTime(dateString: string) {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
+export function SessionsManagement({ open, onOpenChange }: SessionsManagementProps) {
+  const router = useRouter()
+  const [sessions, setSessions] = useState<ActiveSession[]>([])
+  const [loading, setLoading] = useState(false)
+  const [revokingId, setRevokingId] = useState<string | null>(null)
+  const [loggingOutEverywhere, setLoggingOutEverywhere] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      fetchSessions()
+    }
+  }, [open])
+
+  const fetchSessions = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch('/api/auth/sessions')
+      if (response.ok) {
+        const data = await response.json()
+        setSessions(data.sessions || [])
+      }
+    } catch (error) {
+      console.error('Error fetching sessions:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleRevoke = async (session: ActiveSession) => {
+    setRevokingId(session.id)
+    try {
+      const response = await fetch(`/api/auth/sessions/${session.id}`, { method: 'DELETE' })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to sign out device')
+      }
+      if (data.current) {
+        router.push('/login')
+        return
+      }
+      setSessions((prev) => prev.filter((s) => s.id !== session.id))
+      toast.success('Device signed out')
+    } catch (error: any) {
+      toast.error('Failed to sign out device', error?.message || 'An unexpected error occurred')
+    } finally {
+      setRevokingId(null)
+    }
+  }
+
+  const handleLogoutEverywhere = async () => {
+    if (!confirm('Log out of every device, including this one?')) {
+      return
+    }
+
+    setLoggingOutEverywhere(true)
+    try {
+      const response = await fetch('/api/auth/sessions', { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to log out everywhere')
+      }
+      router.push('/login')
+    } catch (error: any) {
+      toast.error('Failed to log out everywhere', error?.message || 'An unexpected error occurred')
+      setLoggingOutEverywhere(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <div className="flex items-center gap-2">
+            <MonitorSmartphone className="h-5 w-5 text-muted-foreground" />
+            <DialogTitle className="text-card-foreground">Devices</DialogTitle>
+          </div>
+          <DialogDescription className="text-muted-foreground">
+            Devices signed in to your account. Sign out any you don&apos;t recognise.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {loading && sessions.length === 0 ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : sessions.length === 0 ? (
+            <div className="py-4 text-sm text-muted-foreground">No active sessions</div>
+          ) : (
+            sessions.map((session) => (
+              <div
+                key={session.id}
+                className="flex items-center justify-between gap-3 rounded-lg border border-border bg-card px-4 py-3"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="truncate text-sm font-medium text-card-foreground" title={session.userAgent || undefined}>
+                      {describeDevice(session.userAgent)}
+                    </span>
+                    {session.current && <Badge variant="secondary">This device</Badge>}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {session.ip && `${session.ip} • `}
+                    Last active {formatDateTime(session.lastSeenAt)} • Signed in {formatDateTime(session.createdAt)}
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRevoke(session)}
+                  disabled={revokingId === session.id}
+                  className="text-red-400 hover:bg-red-900/20 hover:text-red-400"
+                >
+                  {revokingId === session.id ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Sign out'}
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="flex justify-end border-t border-border pt-4">
+          <Button
+            variant="destructive"
+            onClick={handleLogoutEverywhere}
+            disabled={loggingOutEverywhere || sessions.length === 0}
+          >
+            {loggingOutEverywhere ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <LogOut className="mr-2 h-4 w-4" />
+            )}
+            Log out everywhere
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -18,7 +18,9 @@ import {
   ChevronDown,
   ChevronUp,
   Sparkles,
-  Bookmark
+  Bookmark,
+  MonitorSmartphone,
+  KeyRound
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -54,14 +56,18 @@ import {
 } from '@/components/ui/dropdown-menu'
 import { useRouter } from 'next/navigation'
 import { BookmarksManagement } from './BookmarksManagement'
+import { SessionsManagement } from './SessionsManagement'
+import { AccessTokensManagement } from './AccessTokensManagement'
+import { CreditBudget } from '@/lib/utils/credit-cost'
 
 interface SidebarProps {
   projects: Array<{ id: string; name: string }>
   chats: Array<{ id: string; title: string; projectId: string; isFavorite?: boolean; updatedAt?: string }>
   onNewProject: (name: string, description?: string) => Promise<void>
+  onProjectImported?: (projectId: string) => Promise<void>
   onSelectChat: (chatId: string) => void
   onSelectProject: (projectId: string) => Promise<void>
-  onUpdateProject: (id: string, name: string, description?: string) => Promise<void>
+  onUpdateProject: (id: string, name: string, description?: string, creditBudget?: CreditBudget) => Promise<void>
   onUpdateChat: (id: string, title: string) => Promise<void>
   onToggleFavorite?: (chatId: string, isFavorite: boolean) => Promise<void>
   onDeleteProject: (id: string) => Promise<void>
@@ -77,6 +83,7 @@ export function Sidebar({
   projects,
   chats,
   onNewProject,
+  onProjectImported,
   onSelectChat,
   onSelectProject,
   onUpdateProject,
@@ -96,6 +103,8 @@ export function Sidebar({
   const [showEditProjectModal, setShowEditProjectModal] = useState(false)
   const [showEditChatModal, setShowEditChatModal] = useState(false)
   const [showBookmarksManagement, setShowBookmarksManagement] = useState(false)
+  const [showSessionsManagement, setShowSessionsManagement] = useState(false)
+  const [showAccessTokensManagement, setShowAccessTokensManagement] = useState(false)
   const [editingProject, setEditingProject] = useState<{ id: string; name: string; description?: string } | null>(null)
   const [editingChat, setEditingChat] = useState<{ id: string; title: string } | null>(null)
 
@@ -525,6 +534,24 @@ export function Sidebar({
                     <Bookmark className="mr-2 h-4 w-4" />
                     Bookmarks
                   </DropdownMenuItem>
+                  <DropdownMenuItem 
+                    onClick={() => {
+                      setShowSessionsManagement(true)
+                    }}
+                    className="text-white hover:bg-[#2a2a2a] focus:bg-[#2a2a2a] cursor-pointer"
+                  >
+                    <MonitorSmartphone className="mr-2 h-4 w-4" />
+                    Devices
+                  </DropdownMenuItem>
+                  <DropdownMenuItem 
+                    onClick={() => {
+                      setShowAccessTokensManagement(true)
+                    }}
+                    className="text-white hover:bg-[#2a2a2a] focus:bg-[#2a2a2a] cursor-pointer"
+                  >
+                    <KeyRound className="mr-2 h-4 w-4" />
+                    Access Tokens
+                  </DropdownMenuItem>
                   <DropdownMenuSeparator className="bg-[#2a2a2a]" />
                   <DropdownMenuItem 
                     onClick={handleLogout} 
@@ -545,6 +572,7 @@ export function Sidebar({
         open={showProjectModal}
         onOpenChange={setShowProjectModal}
         onCreateProject={handleCreateProject}
+        onProjectImported={onProjectImported}
       />
       <EditProjectModal
         open={showEditProjectModal}
@@ -562,6 +590,14 @@ export function Sidebar({
         open={showBookmarksManagement}
         onOpenChange={setShowBookmarksManagement}
       />
+      <SessionsManagement
+        open={showSessionsManagement}
+        onOpenChange={setShowSessionsManagement}
+      />
+      <AccessTokensManagement
+        open={showAccessTokensManagement}
+        onOpenChange={setShowAccessTokensManagement}
+      />
     </ShadcnSidebar>
   )
 }
@@ -1,32 +1,71 @@
 import jwt from 'jsonwebtoken'
-import { cookies } from 'next/headers'
+import { cookies, headers } from 'next/headers'
+import {
+  createSession,
+  endSession,
+  getRefreshTokenSessionId,
+  getSessionIdleMs,
+  rotateRefreshToken,
+  SessionClient,
+  SessionUser,
+  touchSession,
+} from '@/lib/services/sessions'
+import { authenticateAccessToken } from '@/lib/services/access-tokens'
+import { AccessTokenScope } from '@/lib/config/access-token-scopes'
+import { getClientIp } from '@/lib/utils/client-ip'
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production'
-const JWT_EXPIRY_DAYS = 7 // 7 days for academic users
+// Access tokens are short-lived; the refresh token cookie renews them while the session is active
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60
+export const ACCESS_TOKEN_COOKIE = 'token'
+export const REFRESH_TOKEN_COOKIE = 'refresh_token'
 
 export interface JWTPayload {
   userId: string
   email: string
   isAcademic: boolean
+  /** Session ID (see models/Session), added by jwt.sign */
+  jti?: string
+  /** Issued-at time in seconds, added by jwt.sign */
+  iat?: number
+  /** Set when the request was authenticated by a personal access token rather than the login cookie */
+  accessToken?: { id: string; scopes: AccessTokenScope[] }
+}
+
+export interface SessionTokens {
+  accessToken: string
+  refreshToken: string | null
+  /** Lifetime of the refresh token cookie in seconds */
+  refreshMaxAge: number
+}
+
+interface CookieOptions {
+  httpOnly: boolean
+  secure: boolean
+  sameSite: 'lax'
+  path: string
+  maxAge: number
+}
+
+/** Anything cookies can be set on: `NextResponse.cookies`, or `cookies()` in a Route Handler */
+interface CookieJar {
+  set(name: string, value: string, options?: CookieOptions): unknown
+  delete(name: string): unknown
 }
 
 /**
- * Generate JWT token for user
- * Academic users get 7 days, others get 1 day
+ * Generate a short-lived access token for a session
  */
-export function generateToken(payload: JWTPayload): string {
-  // Always use 7 days for academic users, ensure isAcademic is true
-  const expiresIn = payload.isAcademic ? `${JWT_EXPIRY_DAYS}d` : '1d'
-  
-  const token = jwt.sign(payload, JWT_SECRET, {
-    expiresIn,
-    algorithm: 'HS256', // Explicitly set algorithm for compatibility with jose
-  })
-  
-  // Log token generation for debugging
-  console.log(`Token generated for ${payload.email}, isAcademic: ${payload.isAcademic}, expiresIn: ${expiresIn}`)
-  
-  return token
+export function generateToken(payload: JWTPayload, sessionId: string): string {
+  return jwt.sign(
+    { userId: payload.userId, email: payload.email, isAcademic: payload.isAcademic },
+    JWT_SECRET,
+    {
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+      jwtid: sessionId,
+      algorithm: 'HS256', // Explicitly set algorithm for compatibility with jose
+    }
+  )
 }
 
 /**
@@ -38,8 +77,7 @@ export function verifyToken(token: string): JWTPayload | null {
     return decoded
   } catch (error: any) {
     if (error.name === 'TokenExpiredError') {
-      console.error('Token expired:', error.expiredAt)
-      return null
+      return null // Routine: renewed from the refresh token
     }
     if (error.name === 'JsonWebTokenError') {
       console.error('Invalid token:', error.message)
@@ -50,39 +88,185 @@ export function verifyToken(token: string): JWTPayload | null {
   }
 }
 
+function getSessionClient(source: Request | Headers): SessionClient {
+  const requestHeaders = source instanceof Headers ? source : source.headers
+  return {
+    userAgent: requestHeaders.get('user-agent')?.slice(0, 512) || null,
+    ip: getClientIp(requestHeaders),
+  }
+}
+
+/**
+ * Sign a user in: create a session for this device and its first tokens
+ * Set them with setSessionCookies
+ */
+export async function startSession(user: SessionUser, request: Request): Promise<SessionTokens> {
+  const { session, refreshToken } = await createSession(user, getSessionClient(request))
+  return {
+    accessToken: generateToken(user, session.sessionId),
+    refreshToken,
+    refreshMaxAge: Math.floor(getSessionIdleMs(user.isAcademic) / 1000),
+  }
+}
+
+/**
+ * Renew a session from its refresh token, rotating the refresh token
+ * @returns New tokens and the user, or null if the refresh token is not valid
+ */
+export async function refreshSession(
+  refreshToken: string,
+  source: Request | Headers
+): Promise<{ tokens: SessionTokens; user: JWTPayload } | null> {
+  const result = await rotateRefreshToken(refreshToken, getSessionClient(source))
+  if (!result) {
+    return null
+  }
+
+  const accessToken = generateToken(result.user, result.session.sessionId)
+  return {
+    tokens: {
+      accessToken,
+      refreshToken: result.refreshToken,
+      refreshMaxAge: Math.floor(getSessionIdleMs(result.user.isAcademic) / 1000),
+    },
+    user: { ...result.user, jti: result.session.sessionId },
+  }
+}
+
 /**
- * Get current user from token
+ * Authenticate a personal access token sent as `Authorization: Bearer <token>`
+ * It only counts for routes that ask for a scope, and only if the token was granted that scope
  */
-export async function getCurrentUser(): Promise<JWTPayload | null> {
+async function getAccessTokenUser(token: string, scope: AccessTokenScope | undefined, requestHeaders: Headers) {
+  if (!scope) {
+    return null // Login cookie only
+  }
+
+  const tokenUser = await authenticateAccessToken(token, getClientIp(requestHeaders))
+  if (!tokenUser) {
+    return null
+  }
+  if (!tokenUser.scopes.includes(scope)) {
+    console.warn(`Access token ${tokenUser.tokenId} lacks the ${scope} scope`)
+    return null
+  }
+
+  return {
+    userId: tokenUser.userId,
+    email: tokenUser.email,
+    isAcademic: tokenUser.isAcademic,
+    accessToken: { id: tokenUser.tokenId, scopes: tokenUser.scopes },
+  }
+}
+
+/**
+ * Get current user from the request
+ * Every API route authenticates through this. Pass the scope the route needs to also accept
+ * personal access tokens (see lib/config/access-token-scopes); without one, only the login cookie works.
+ *
+ * With the login cookie, the token's session must still be active, so logging out or revoking
+ * a device takes effect immediately. An expired access token is renewed from the refresh token
+ * cookie, which sets new cookies - so this may only be called from Route Handlers.
+ */
+export async function getCurrentUser(scope?: AccessTokenScope): Promise<JWTPayload | null> {
+  const requestHeaders = await headers()
+  const authorization = requestHeaders.get('authorization')
+  if (authorization && /^bearer /i.test(authorization)) {
+    return getAccessTokenUser(authorization.slice('bearer '.length).trim(), scope, requestHeaders)
+  }
+
   const cookieStore = await cookies()
-  const token = cookieStore.get('token')?.value
+  const token = cookieStore.get(ACCESS_TOKEN_COOKIE)?.value
+
+  if (token) {
+    const payload = verifyToken(token)
+    if (payload) {
+      // Tokens without a session predate the session store and are no longer accepted
+      return payload.jti && (await touchSession(payload.jti)) ? payload : null
+    }
+  }
+
+  const refreshToken = cookieStore.get(REFRESH_TOKEN_COOKIE)?.value
+  if (!refreshToken) {
+    return null
+  }
 
-  if (!token) {
+  const refreshed = await refreshSession(refreshToken, requestHeaders)
+  if (!refreshed) {
+    clearSessionCookies(cookieStore)
     return null
   }
+  setSessionCookies(cookieStore, refreshed.tokens)
+  return refreshed.user
+}
 
-  return verifyToken(token)
+/**
+ * Whether the request may do what a scope allows: always with the login cookie, and with a
+ * personal access token only if it was granted the scope
+ * For routes where part of the work needs a second scope (e.g. writing to a chat when chatId is given)
+ */
+export function hasAccessScope(user: JWTPayload, scope: AccessTokenScope): boolean {
+  return !user.accessToken || user.accessToken.scopes.includes(scope)
 }
 
 /**
- * Set auth cookie
+ * The session ID behind the request's cookies, whether or not the access token has expired
  */
-export async function setAuthCookie(token: string) {
+export async function getCurrentSessionId(): Promise<string | null> {
   const cookieStore = await cookies()
-  cookieStore.set('token', token, {
+  const token = cookieStore.get(ACCESS_TOKEN_COOKIE)?.value
+  const accessSessionId = token ? (jwt.decode(token) as JWTPayload | null)?.jti : undefined
+  if (accessSessionId) {
+    return accessSessionId
+  }
+  const refreshToken = cookieStore.get(REFRESH_TOKEN_COOKIE)?.value
+  return refreshToken ? getRefreshTokenSessionId(refreshToken) : null
+}
+
+/**
+ * Whether the user may use admin tools
+ * Admins are listed by email in ADMIN_EMAILS (comma-separated)
+ */
+export function isAdmin(user: JWTPayload): boolean {
+  const adminEmails = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean)
+  return adminEmails.includes(user.email.toLowerCase())
+}
+
+/**
+ * Set the access and refresh token cookies
+ * The refresh token is left alone when it wasn't rotated
+ */
+export function setSessionCookies(jar: CookieJar, tokens: SessionTokens) {
+  const options = {
     httpOnly: true,
     secure: process.env.NODE_ENV === 'production',
-    sameSite: 'lax',
-    maxAge: 60 * 60 * 24 * 7, // 7 days
+    sameSite: 'lax' as const,
     path: '/',
-  })
+  }
+  jar.set(ACCESS_TOKEN_COOKIE, tokens.accessToken, { ...options, maxAge: ACCESS_TOKEN_TTL_SECONDS })
+  if (tokens.refreshToken) {
+    jar.set(REFRESH_TOKEN_COOKIE, tokens.refreshToken, { ...options, maxAge: tokens.refreshMaxAge })
+  }
 }
 
 /**
- * Clear auth cookie
+ * Clear auth cookies
  */
-export async function clearAuthCookie() {
-  const cookieStore = await cookies()
-  cookieStore.delete('token')
+export function clearSessionCookies(jar: CookieJar) {
+  jar.delete(ACCESS_TOKEN_COOKIE)
+  jar.delete(REFRESH_TOKEN_COOKIE)
 }
 
+/**
+ * Log out this device: revoke its session and clear the cookies
+ */
+export async function endCurrentSession() {
+  const sessionId = await getCurrentSessionId()
+  if (sessionId) {
+    await endSession(sessionId)
+  }
+  clearSessionCookies(await cookies())
+}
@@ -1,7 +1,10 @@
 import connectDB from './db'
 import Chat from '@/models/Chat'
-import { getCurrentUser } from './auth'
 import mongoose from 'mongoose'
+import { ChatMetadata } from '@/models/Chat'
+import { extractMetadataFromPapers, mergeMetadata } from '@/lib/utils/chat-metadata'
+import { VeritusPaper } from '@/types/veritus'
+import { addPapersToChat } from '@/lib/services/chat-paper-library'
 import {
   SearchPaperResponse,
   CorpusResponse,
@@ -11,17 +14,18 @@ import {
 
 /**
  * Store paper search result in chat messages
+ * userId must be the authenticated caller; the chat is only updated if it belongs to them
+ *
+ * Transitional dual write: the papers are embedded in the new message, which the chat view still
+ * renders, and added to the ChatPaper library, which everything else reads. See "Chat Paper
+ * Migration" in CRON_SETUP.md for the steps that remove the embedded copy.
  */
 export async function storePaperSearchInChat(
   chatId: string,
+  userId: string,
   searchResult: SearchPaperResponse | CorpusResponse | VisualizationResponse | CitationNetworkResponse,
   searchType: 'search' | 'corpus' | 'visualization' | 'citation-network'
 ): Promise<void> {
-  const user = await getCurrentUser()
-  if (!user) {
-    throw new Error('Unauthorized')
-  }
-
   await connectDB()
 
   if (!mongoose.Types.ObjectId.isValid(chatId)) {
@@ -30,7 +34,7 @@ export async function storePaperSearchInChat(
 
   const chat = await Chat.findOne({
     _id: chatId,
-    userId: user.userId,
+    userId,
   })
 
   if (!chat) {
@@ -79,26 +83,102 @@ export async function storePaperSearchInChat(
   })
 
   await chat.save()
+
+  const message = chat.messages[chat.messages.length - 1] as any
+  await addPapersToChat(chat, papers, { source: searchType, messageId: message._id })
 }
 
 /**
- * Get paper search history from a chat
+ * Store similar-paper search results in a chat
+ * Takes the owner explicitly so it can run without a request (job callbacks, job runner)
+ * @returns true if the chat was found and updated
  */
-export async function getPaperSearchHistory(chatId: string): Promise<any[]> {
-  const user = await getCurrentUser()
-  if (!user) {
-    throw new Error('Unauthorized')
+export async function storeSimilarPapersInChat(
+  chatId: string,
+  userId: string,
+  papers: VeritusPaper[],
+  isMocked: boolean
+): Promise<boolean> {
+  if (!mongoose.Types.ObjectId.isValid(chatId) || papers.length === 0) {
+    return false
   }
 
   await connectDB()
 
+  // Fetch the specific chat by chatId AND userId to ensure:
+  // 1. User can only update their own chats (security)
+  // 2. Metadata is isolated to this specific chat session
+  const chat = await Chat.findOne({
+    _id: chatId,
+    userId,
+  })
+
+  if (!chat) {
+    return false
+  }
+
+  // Extract metadata from all papers (includes tldr, quartile, publishedAt)
+  const metadata = extractMetadataFromPapers(papers)
+  
+  // Merge with existing metadata using utility function
+  // This merges into THIS specific chat's metadata only
+  const existingMetadata = chat.chatMetadata || {}
+  const updatedMetadata = mergeMetadata(existingMetadata as ChatMetadata, metadata)
+  
+  // Update chat store with similar papers (limit to 5 for graph)
+  // Find the root paper's heading from chatMetadata
+  if (chat.chatMetadata) {
+    const rootPaperHeading = chat.chatMetadata.paperData?.abstract || chat.chatMetadata.paperData?.title
+    if (rootPaperHeading && chat.chatMetadata.chatStore) {
+      const chatStore = chat.chatMetadata.chatStore as any
+      if (chatStore[rootPaperHeading]) {
+        // Update similar papers (limit to 5)
+        chatStore[rootPaperHeading].similarPapers = papers.slice(0, 5)
+        chatStore[rootPaperHeading].apiResponse = {
+          papers,
+          total: papers.length,
+          isMocked,
+        }
+        updatedMetadata.chatStore = chatStore
+      }
+    }
+  }
+  
+  chat.chatMetadata = updatedMetadata
+  
+  // Store papers in chat messages automatically
+  // These papers will be used by citation-network API
+  const searchMessage = {
+    role: 'assistant' as const,
+    content: `Found ${papers.length} similar papers`,
+    timestamp: new Date(),
+    papers: papers, // Store all papers in the message for citation network
+  }
+  
+  chat.messages.push(searchMessage)
+  chat.updatedAt = new Date()
+  await chat.save()
+
+  // Dual write, as in storePaperSearchInChat
+  const message = chat.messages[chat.messages.length - 1] as any
+  await addPapersToChat(chat, papers, { source: 'similar', messageId: message._id })
+
+  return true
+}
+
+/**
+ * Get paper search history from a chat
+ */
+export async function getPaperSearchHistory(chatId: string, userId: string): Promise<any[]> {
+  await connectDB()
+
   if (!mongoose.Types.ObjectId.isValid(chatId)) {
     throw new Error('Invalid chat ID')
   }
 
   const chat = await Chat.findOne({
     _id: chatId,
-    userId: user.userId,
+    userId,
   })
 
   if (!chat) {
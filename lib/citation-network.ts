@@ -1,33 +1,83 @@
 import { VeritusPaper, CitationNetwork, CitationNetworkNode, CitationNetworkEdge } from '@/types/veritus'
 
+/**
+ * A link between two papers
+ * When directed, source cites target; otherwise the papers are related but the direction is unknown
+ */
+export interface CitationRelationship {
+  source: string
+  target: string
+  directed: boolean
+}
+
+/**
+ * Looks up citation relationships among a set of papers
+ */
+export interface CitationProvider {
+  getRelationships(papers: VeritusPaper[]): Promise<CitationRelationship[]>
+}
+
+/**
+ * Key used to match relationship ends to papers ("corpus:123" and "123" are the same paper)
+ */
+export function paperKey(id: string): string {
+  return String(id).trim().replace(/^corpus:/, '')
+}
+
+/**
+ * Relationships from "child" entries of a chat's paper library, as written by store-children
+ * A child was found from its parent, but store-children does not record whether it cites or is cited by it
+ */
+export function relationshipsFromChatPapers(
+  entries: Array<{ corpusId: string; parentCorpusId?: string | null }>
+): CitationRelationship[] {
+  return entries
+    .filter((entry) => entry.parentCorpusId)
+    .map((entry) => ({ source: entry.parentCorpusId as string, target: entry.corpusId, directed: false }))
+}
+
 /**
  * Build citation network from selected papers
- * This creates a network where papers are nodes and citations are edges
+ * Papers are nodes; edges come only from the given relationships, and only between papers in the set.
+ * A pair linked both with and without a known direction keeps the directed edge.
  */
-export function buildCitationNetwork(papers: VeritusPaper[]): CitationNetwork {
+export function buildCitationNetwork(
+  papers: VeritusPaper[],
+  relationships: CitationRelationship[] = []
+): CitationNetwork {
   const nodes: CitationNetworkNode[] = papers.map(paper => ({
     id: paper.id,
     paper,
   }))
 
-  const edges: CitationNetworkEdge[] = []
-
-  // For now, create a simple network structure
-  // In a real implementation, you would fetch citation relationships from the API
-  // This is a placeholder that can be enhanced with actual citation data
-  
-  // Create edges based on citation counts (simplified approach)
-  // Papers with higher citation counts are considered more central
-  papers.forEach((paper, index) => {
-    if (index < papers.length - 1) {
-      // Connect papers in sequence (can be enhanced with actual citation data)
-      edges.push({
-        source: paper.id,
-        target: papers[index + 1].id,
-        type: 'cites',
-      })
+  // Relationship ids may or may not carry the "corpus:" prefix - map them back to node ids
+  const nodeIds = new Map(papers.map(paper => [paperKey(paper.id), paper.id]))
+
+  const directed = new Map<string, CitationNetworkEdge>()
+  const undirected = new Map<string, CitationNetworkEdge>()
+
+  for (const relationship of relationships) {
+    const source = nodeIds.get(paperKey(relationship.source))
+    const target = nodeIds.get(paperKey(relationship.target))
+    if (!source || !target || source === target) continue
+
+    if (relationship.directed) {
+      directed.set(`${source}->${target}`, { source, target, type: 'cites', direction: 'known' })
+    } else {
+      const pairKey = [source, target].sort().join('<>')
+      if (!undirected.has(pairKey)) {
+        undirected.set(pairKey, { source, target, type: 'cites', direction: 'unknown' })
+      }
+    }
+  }
+
+  const edges: CitationNetworkEdge[] = Array.from(directed.values())
+  for (const [pairKey, edge] of Array.from(undirected.entries())) {
+    const [a, b] = pairKey.split('<>')
+    if (!directed.has(`${a}->${b}`) && !directed.has(`${b}->${a}`)) {
+      edges.push(edge)
     }
-  })
+  }
 
   return {
     nodes,
@@ -39,6 +89,18 @@ export function buildCitationNetwork(papers: VeritusPaper[]): CitationNetwork {
   }
 }
 
+/**
+ * Build citation network using relationships looked up from one or more providers
+ */
+export async function buildCitationNetworkFromProviders(
+  papers: VeritusPaper[],
+  providers: CitationProvider[],
+  relationships: CitationRelationship[] = []
+): Promise<CitationNetwork> {
+  const provided = await Promise.all(providers.map(provider => provider.getRelationships(papers)))
+  return buildCitationNetwork(papers, [...relationships, ...provided.flat()])
+}
+
 /**
  * Calculate network layout positions (force-directed layout simulation)
  */
@@ -46,4 +108,3 @@ export function calculateLayout(network: CitationNetwork, width: number, height:
   // This will be handled by D3.js force simulation in the component
   return network
 }
-
@@ -0,0 +1,21 @@
+/**
+ * Scopes a personal access token can be granted
+ * Each API route names the scope it needs when it calls getCurrentUser; routes that name none
+ * (account settings, sessions, tokens, admin) only accept the login cookie.
+ * Kept free of server imports so the settings UI can list them.
+ */
+export const ACCESS_TOKEN_SCOPES = {
+  'papers:read': 'Read cached papers and searches, citation networks and job status',
+  'jobs:write': 'Start and update search jobs and fetch papers from Veritus (spends Veritus credits)',
+  'chats:read': 'Read chats and their paper libraries',
+  'chats:write': 'Create, edit and delete chats and add papers to them',
+  'projects:read': 'Read projects',
+  'projects:write': 'Create, edit, delete and import projects',
+  'bookmarks:read': 'Read bookmarks',
+  'bookmarks:write': 'Add and remove bookmarks and run bookmark searches',
+  export: 'Export citations and citation networks',
+} as const
+
+export type AccessTokenScope = keyof typeof ACCESS_TOKEN_SCOPES
+
+export const ACCESS_TOKEN_SCOPE_NAMES = Object.keys(ACCESS_TOKEN_SCOPES) as [AccessTokenScope, ...AccessTokenScope[]]
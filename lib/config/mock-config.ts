@@ -7,6 +7,8 @@
  * - DEBUG=false => use real API
  *
  * A per-request override (mock/isMocked) still wins if provided.
+ *
+ * With DEBUG off, VERITUS_MODE decides what "real API" means (see getVeritusMode).
  */
 
 /**
@@ -47,3 +49,84 @@ export function normalizeMockFlag(params: { mock?: boolean; isMocked?: boolean }
   return shouldUseMockData()
 }
 
+/**
+ * How lib/veritus-api talks to Veritus
+ * - live: real requests (default)
+ * - record: real requests, each request/response pair also saved to the named cassette
+ * - replay: no network; responses come from the named cassette and unrecorded requests throw
+ */
+export type VeritusMode =
+  | { name: 'live' }
+  | { name: 'record' | 'replay'; cassette: string }
+
+/**
+ * Parse VERITUS_MODE: unset or "live", "record:<cassette>" or "replay:<cassette>"
+ * @throws If the value is not one of those, rather than silently calling the live API
+ */
+export function getVeritusMode(): VeritusMode {
+  const raw = process.env.VERITUS_MODE?.trim()
+  if (!raw || raw === 'live') {
+    return { name: 'live' }
+  }
+
+  const match = raw.match(/^(record|replay):([\w.-]+)$/)
+  if (!match) {
+    throw new Error(`Invalid VERITUS_MODE "${raw}". Use live, record:<cassette> or replay:<cassette> (letters, digits, ".", "-", "_")`)
+  }
+  return { name: match[1] as 'record' | 'replay', cassette: match[2] }
+}
+
+/**
+ * Whether Veritus responses are being served from a cassette instead of the network
+ */
+export function isReplayMode(): boolean {
+  return getVeritusMode().name === 'replay'
+}
+
+/**
+ * How the mock Veritus engine behaves in DEBUG mode (see lib/mock-data/mock-veritus-engine)
+ */
+export interface MockVeritusConfig {
+  /** How long a mock job stays queued, then processing, before it finishes */
+  queuedMs: number
+  processingMs: number
+  /** Average delay before each mock response; actual delays vary by ±50% */
+  latencyMs: number
+  /** Share of jobs (0-1) that end in the error state */
+  jobFailureRate: number
+  /** Share of requests (0-1) that time out */
+  timeoutRate: number
+  /** Share of requests (0-1) that fail with a 503 */
+  serverErrorRate: number
+  /** Requests allowed per minute before answering 429; 0 for no limit */
+  rateLimitPerMinute: number
+}
+
+function readNumberEnv(name: string, fallback: number, max: number = Infinity): number {
+  const raw = process.env[name]
+  if (raw === undefined || raw.trim() === '') {
+    return fallback
+  }
+
+  const value = Number(raw)
+  if (!Number.isFinite(value) || value < 0 || value > max) {
+    throw new Error(`Invalid ${name} "${raw}". Expected a number from 0 to ${max}`)
+  }
+  return value
+}
+
+/**
+ * Read the MOCK_VERITUS_* settings
+ * The defaults finish every job after about 3 seconds with no faults, as DEBUG mode always has
+ */
+export function getMockVeritusConfig(): MockVeritusConfig {
+  return {
+    queuedMs: readNumberEnv('MOCK_VERITUS_QUEUED_MS', 1000),
+    processingMs: readNumberEnv('MOCK_VERITUS_PROCESSING_MS', 2000),
+    latencyMs: readNumberEnv('MOCK_VERITUS_LATENCY_MS', 0),
+    jobFailureRate: readNumberEnv('MOCK_VERITUS_JOB_FAILURE_RATE', 0, 1),
+    timeoutRate: readNumberEnv('MOCK_VERITUS_TIMEOUT_RATE', 0, 1),
+    serverErrorRate: readNumberEnv('MOCK_VERITUS_SERVER_ERROR_RATE', 0, 1),
+    rateLimitPerMinute: readNumberEnv('MOCK_VERITUS_RATE_LIMIT', 0),
+  }
+}
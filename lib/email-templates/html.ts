@@ -0,0 +1,59 @@
+/**
+ * Markup that is already safe to insert into an email - the output of the html tag and partials
+ */
+export class SafeHtml {
+  constructor(readonly value: string) {}
+
+  toString(): string {
+    return this.value
+  }
+}
+
+/**
+ * Escape HTML to prevent XSS
+ */
+export function escapeHtml(text: string): string {
+  const map: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#039;',
+  }
+  return text.replace(/[&<>"']/g, (m) => map[m])
+}
+
+/**
+ * Trusted markup that should not be escaped (e.g. a translated string containing <strong>)
+ */
+export function rawHtml(value: string): SafeHtml {
+  return new SafeHtml(value)
+}
+
+function interpolate(value: unknown): string {
+  if (value === null || value === undefined || value === false) return ''
+  if (value instanceof SafeHtml) return value.value
+  if (Array.isArray(value)) return value.map(interpolate).join('')
+  return escapeHtml(String(value))
+}
+
+/**
+ * Tagged template for email markup
+ * Interpolated values are escaped unless they are SafeHtml (partials, nested html``), arrays are
+ * joined, and null / undefined / false render nothing - so `${cond && html`...`}` works
+ */
+export function html(strings: TemplateStringsArray, ...values: unknown[]): SafeHtml {
+  return new SafeHtml(
+    strings.reduce((result, part, i) => result + part + (i < values.length ? interpolate(values[i]) : ''), '')
+  )
+}
+
+/**
+ * Join plain-text blocks with blank lines, skipping empty ones
+ */
+export function textBlocks(...blocks: Array<string | null | undefined | false>): string {
+  return blocks
+    .filter((block): block is string => typeof block === 'string' && block.trim() !== '')
+    .map((block) => block.trim())
+    .join('\n\n')
+}
@@ -0,0 +1,75 @@
+/**
+ * Transactional email templates
+ *
+ * Each template lives in ./templates and defines its subject, HTML body and plain-text body as
+ * functions of typed data, with its copy kept per locale. Bodies are composed from the shared
+ * layout (./layout) and partials (./partials); the html`` tag escapes interpolated values.
+ *
+ * To add a notification type: create a template with defineEmailTemplate (English copy and a
+ * fixture are required), register it below, and render it with renderEmail. It is then
+ * previewable at /api/admin/email-preview/<name>.
+ */
+import { commonEmailStrings, EmailLocale, resolveEmailLocale } from './locales'
+import { EmailTemplate, RenderedEmail } from './types'
+import { otpTemplate } from './templates/otp'
+import { passwordResetTemplate } from './templates/password-reset'
+import { accountExistsTemplate } from './templates/account-exists'
+import { dailyPaperTemplate } from './templates/daily-paper'
+import { paperRecommendationsTemplate } from './templates/paper-recommendations'
+import { creditBudgetWarningTemplate } from './templates/credit-budget-warning'
+
+export const emailTemplates = {
+  otp: otpTemplate,
+  'password-reset': passwordResetTemplate,
+  'account-exists': accountExistsTemplate,
+  'daily-paper': dailyPaperTemplate,
+  'paper-recommendations': paperRecommendationsTemplate,
+  'credit-budget-warning': creditBudgetWarningTemplate,
+}
+
+export type EmailTemplateName = keyof typeof emailTemplates
+export type EmailTemplateData<Name extends EmailTemplateName> =
+  (typeof emailTemplates)[Name] extends EmailTemplate<infer Data, any> ? Data : never
+
+export function isEmailTemplateName(name: string): name is EmailTemplateName {
+  return Object.prototype.hasOwnProperty.call(emailTemplates, name)
+}
+
+/**
+ * Locales a template has its own copy for
+ */
+export function getTemplateLocales(name: EmailTemplateName): EmailLocale[] {
+  return Object.keys(emailTemplates[name].strings) as EmailLocale[]
+}
+
+/**
+ * Render a template's subject and bodies
+ * @param locale Language tag or Accept-Language header; unsupported locales fall back to English
+ */
+export function renderEmail<Name extends EmailTemplateName>(
+  name: Name,
+  data: EmailTemplateData<Name>,
+  locale?: string | null
+): RenderedEmail {
+  const template = emailTemplates[name] as unknown as EmailTemplate<EmailTemplateData<Name>, unknown>
+  const resolvedLocale = resolveEmailLocale(locale)
+  const context = {
+    locale: resolvedLocale,
+    t: template.strings[resolvedLocale] ?? template.strings.en,
+    common: commonEmailStrings[resolvedLocale],
+  }
+
+  return {
+    subject: template.subject(data, context),
+    html: template.html(data, context).value.trim(),
+    text: template.text(data, context),
+  }
+}
+
+export { resolveEmailLocale, EMAIL_LOCALES } from './locales'
+export type { EmailLocale } from './locales'
+export type { EmailFooterLinks, RenderedEmail } from './types'
+export type { DailyPaperEmailData } from './templates/daily-paper'
+export type { PaperRecommendationsEmailData, RecommendedPaper } from './templates/paper-recommendations'
+export type { OtpEmailData } from './templates/otp'
+export type { CreditBudgetWarningEmailData } from './templates/credit-budget-warning'
@@ -0,0 +1,90 @@
+import { html, SafeHtml, textBlocks } from './html'
+import { CommonEmailStrings } from './locales'
+import { EmailFooterLinks } from './types'
+
+interface LayoutProps {
+  /** Document title */
+  title: string
+  /** Heading at the top of the card, including any emoji */
+  heading: string
+  /** Muted line under the heading (greeting or instructions) */
+  subheading?: string
+  content: SafeHtml
+  /** Small print explaining why the email was sent */
+  footerNote: string
+  links?: EmailFooterLinks
+  common: CommonEmailStrings
+}
+
+interface TextLayoutProps {
+  heading: string
+  subheading?: string
+  /** Body paragraphs; empty ones are skipped */
+  blocks: Array<string | null | undefined | false>
+  footerNote: string
+  links?: EmailFooterLinks
+  common: CommonEmailStrings
+}
+
+function footerLinksHtml(links: EmailFooterLinks | undefined, common: CommonEmailStrings) {
+  if (!links) return null
+  const linkStyle = 'color: #9ca3af; text-decoration: underline;'
+  return html`
+        <p style="color: #9ca3af; font-size: 12px; margin: 10px 0 0 0;">
+          <a href="${links.unsubscribeUrl}" style="${linkStyle}">${common.unsubscribe}</a>
+          &nbsp;·&nbsp;
+          <a href="${links.pauseUrl}" style="${linkStyle}">${common.pause}</a>
+          &nbsp;·&nbsp;
+          <a href="${links.preferencesUrl}" style="${linkStyle}">${common.preferences}</a>
+        </p>`
+}
+
+function footerLinksText(links: EmailFooterLinks | undefined, common: CommonEmailStrings): string | null {
+  if (!links) return null
+  return [
+    `${common.unsubscribe}: ${links.unsubscribeUrl}`,
+    `${common.pause}: ${links.pauseUrl}`,
+    `${common.preferences}: ${links.preferencesUrl}`,
+  ].join('\n')
+}
+
+/**
+ * The dark card every email is rendered in
+ */
+export function emailLayout({ title, heading, subheading, content, footerNote, links, common }: LayoutProps): SafeHtml {
+  return html`
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${title}</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #0f0f0f; color: #ffffff; margin: 0; padding: 0;">
+  <div style="max-width: 600px; margin: 0 auto; padding: 40px 20px;">
+    <div style="background-color: #1a1a1a; border-radius: 12px; padding: 30px; border: 1px solid #2a2a2a;">
+      <h1 style="color: #ffffff; margin-top: 0; margin-bottom: 10px; font-size: 24px;">
+        ${heading}
+      </h1>
+      ${subheading && html`<p style="color: #9ca3af; margin: 10px 0 30px 0; font-size: 14px;">
+        ${subheading}
+      </p>`}
+      ${content}
+      <div style="margin-top: 40px; padding-top: 20px; border-top: 1px solid #2a2a2a;">
+        <p style="color: #9ca3af; font-size: 12px; margin: 0;">
+          ${footerNote}
+        </p>${footerLinksHtml(links, common)}
+      </div>
+    </div>
+  </div>
+</body>
+</html>
+`
+}
+
+/**
+ * Plain-text counterpart of emailLayout
+ */
+export function emailTextLayout({ heading, subheading, blocks, footerNote, links, common }: TextLayoutProps): string {
+  return textBlocks(heading, subheading, ...blocks, footerNote, footerLinksText(links, common))
+}
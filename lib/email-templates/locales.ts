@@ -0,0 +1,57 @@
+export const EMAIL_LOCALES = ['en', 'es'] as const
+export type EmailLocale = (typeof EMAIL_LOCALES)[number]
+export const DEFAULT_EMAIL_LOCALE: EmailLocale = 'en'
+
+/**
+ * Pick a supported locale from a language tag or an Accept-Language header
+ * ("es-MX", "es-ES,es;q=0.9,en;q=0.8"), falling back to English
+ */
+export function resolveEmailLocale(value?: string | null): EmailLocale {
+  if (!value) return DEFAULT_EMAIL_LOCALE
+
+  const tags = value
+    .split(',')
+    .map((part) => part.split(';')[0].trim().toLowerCase())
+    .filter(Boolean)
+
+  for (const tag of tags) {
+    const language = tag.split('-')[0]
+    const match = EMAIL_LOCALES.find((locale) => locale === language)
+    if (match) return match
+  }
+  return DEFAULT_EMAIL_LOCALE
+}
+
+/**
+ * Copy shared by every template (greeting, footer, buttons)
+ */
+export interface CommonEmailStrings {
+  greeting: (name: string) => string
+  viewPdf: string
+  paperId: string
+  automatedNote: string
+  unsubscribe: string
+  pause: string
+  preferences: string
+}
+
+export const commonEmailStrings: Record<EmailLocale, CommonEmailStrings> = {
+  en: {
+    greeting: (name) => `Hi ${name},`,
+    viewPdf: 'View PDF',
+    paperId: 'Paper ID',
+    automatedNote: 'This is an automated email. Please do not reply.',
+    unsubscribe: 'Unsubscribe',
+    pause: 'Pause for 30 days',
+    preferences: 'Email preferences',
+  },
+  es: {
+    greeting: (name) => `Hola ${name},`,
+    viewPdf: 'Ver PDF',
+    paperId: 'ID del artículo',
+    automatedNote: 'Este es un correo automático. Por favor, no respondas.',
+    unsubscribe: 'Darse de baja',
+    pause: 'Pausar 30 días',
+    preferences: 'Preferencias de correo',
+  },
+}
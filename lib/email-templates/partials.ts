@@ -0,0 +1,71 @@
+import { html, SafeHtml } from './html'
+import { CommonEmailStrings } from './locales'
+
+export interface PaperCardProps {
+  title: string
+  tldr?: string
+  pdfLink?: string
+  paperId?: string
+  /** Numbers the card in a list ("2. Title") */
+  position?: number
+}
+
+/**
+ * Body paragraph; pass SafeHtml to include markup such as <strong>
+ */
+export function paragraph(content: string | SafeHtml): SafeHtml {
+  return html`<p style="color: #d1d5db; margin: 20px 0; line-height: 1.6;">
+        ${content}
+      </p>`
+}
+
+export function primaryButton(href: string, label: string): SafeHtml {
+  return html`<a href="${href}" style="display: inline-block; margin-top: 10px; padding: 8px 16px; background-color: #3b82f6; color: #ffffff; text-decoration: none; border-radius: 4px; font-weight: 500;">
+          ${label}
+        </a>`
+}
+
+/**
+ * A paper with its TL;DR and PDF link, as shown in digest emails
+ */
+export function paperCard(paper: PaperCardProps, common: CommonEmailStrings): SafeHtml {
+  const title = paper.position ? `${paper.position}. ${paper.title}` : paper.title
+  return html`
+    <div style="margin: 30px 0; padding: 20px; background-color: #1a1a1a; border-radius: 8px; border-left: 4px solid #3b82f6;">
+      <h2 style="color: #ffffff; margin-top: 0; margin-bottom: 15px; font-size: 18px;">
+        ${title}
+      </h2>
+      ${paper.tldr && html`<p style="color: #d1d5db; margin: 15px 0; font-style: italic; line-height: 1.6;">
+        ${paper.tldr}
+      </p>`}
+      ${paper.pdfLink && primaryButton(paper.pdfLink, common.viewPdf)}
+      ${paper.paperId && html`<p style="color: #9ca3af; margin-top: 15px; font-size: 12px;">
+        ${common.paperId}: ${paper.paperId}
+      </p>`}
+    </div>`
+}
+
+export function paperCardText(paper: PaperCardProps, common: CommonEmailStrings): string {
+  const title = paper.position ? `${paper.position}. ${paper.title}` : paper.title
+  const indent = paper.position ? '   ' : ''
+  return [
+    title,
+    paper.tldr && `${indent}${paper.tldr}`,
+    paper.pdfLink && `${indent}PDF: ${paper.pdfLink}`,
+    paper.paperId && `${indent}${common.paperId}: ${paper.paperId}`,
+  ]
+    .filter(Boolean)
+    .join('\n')
+}
+
+/**
+ * One-time code in a large monospace box
+ */
+export function codeBox(code: string): SafeHtml {
+  return html`
+      <div style="margin: 30px 0; padding: 20px; background-color: #1a1a1a; border-radius: 8px; border: 2px solid #3b82f6; text-align: center;">
+        <div style="font-size: 32px; font-weight: bold; color: #3b82f6; letter-spacing: 8px; font-family: monospace;">
+          ${code}
+        </div>
+      </div>`
+}
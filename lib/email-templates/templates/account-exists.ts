@@ -0,0 +1,71 @@
+import { defineEmailTemplate } from '../types'
+import { html } from '../html'
+import { emailLayout, emailTextLayout } from '../layout'
+import { paragraph, primaryButton } from '../partials'
+
+export interface AccountExistsEmailData {
+  loginUrl?: string
+  resetUrl?: string
+}
+
+interface AccountExistsEmailStrings {
+  subject: string
+  heading: string
+  body: string
+  ignore: string
+  login: string
+  reset: string
+}
+
+/**
+ * Sent instead of a signup code when the email already has an account, so the signup form
+ * responds the same either way
+ */
+export const accountExistsTemplate = defineEmailTemplate<AccountExistsEmailData, AccountExistsEmailStrings>({
+  description: 'Sent in place of a signup code when the email already has an account',
+  strings: {
+    en: {
+      subject: 'You already have an account',
+      heading: 'You Already Have an Account',
+      body: 'Someone - hopefully you - tried to sign up with this email address, but it already has an account. You can log in, or reset your password if you have forgotten it.',
+      ignore: "If this wasn't you, you can ignore this email. Nothing about your account has changed.",
+      login: 'Log in',
+      reset: 'Reset password',
+    },
+    es: {
+      subject: 'Ya tienes una cuenta',
+      heading: 'Ya tienes una cuenta',
+      body: 'Alguien (esperamos que tú) intentó registrarse con esta dirección de correo, pero ya tiene una cuenta. Puedes iniciar sesión o restablecer tu contraseña si la has olvidado.',
+      ignore: 'Si no fuiste tú, ignora este correo. Tu cuenta no ha cambiado.',
+      login: 'Iniciar sesión',
+      reset: 'Restablecer contraseña',
+    },
+  },
+  subject: (_data, { t }) => t.subject,
+  html: ({ loginUrl, resetUrl }, { t, common }) =>
+    emailLayout({
+      title: t.heading,
+      heading: `👋 ${t.heading}`,
+      content: html`${paragraph(t.body)}
+      ${loginUrl && primaryButton(loginUrl, t.login)}
+      ${resetUrl && primaryButton(resetUrl, t.reset)}
+      ${paragraph(t.ignore)}`,
+      footerNote: common.automatedNote,
+      common,
+    }),
+  text: ({ loginUrl, resetUrl }, { t, common }) =>
+    emailTextLayout({
+      heading: t.heading,
+      blocks: [
+        t.body,
+        [loginUrl && `${t.login}: ${loginUrl}`, resetUrl && `${t.reset}: ${resetUrl}`].filter(Boolean).join('\n'),
+        t.ignore,
+      ],
+      footerNote: common.automatedNote,
+      common,
+    }),
+  fixture: {
+    loginUrl: 'https://example.com/login',
+    resetUrl: 'https://example.com/reset-password?email=ada%40example.edu',
+  },
+})
@@ -0,0 +1,85 @@
+import { defineEmailTemplate } from '../types'
+import { html } from '../html'
+import { emailLayout, emailTextLayout } from '../layout'
+import { paragraph, primaryButton } from '../partials'
+
+export interface CreditBudgetWarningEmailData {
+  userName: string
+  /** Project the budget belongs to, or null for the user's own budget */
+  projectName: string | null
+  period: 'daily' | 'monthly'
+  used: number
+  limit: number
+  settingsUrl?: string
+}
+
+interface CreditBudgetWarningEmailStrings {
+  subject: (percent: number) => string
+  heading: string
+  usage: (data: CreditBudgetWarningEmailData, percent: number) => string
+  blocked: (period: CreditBudgetWarningEmailData['period']) => string
+  settings: string
+}
+
+function usagePercent({ used, limit }: CreditBudgetWarningEmailData): number {
+  return Math.floor((used / limit) * 100)
+}
+
+/**
+ * Sent once per day or month when searches reach 80% of a project or user credit budget
+ */
+export const creditBudgetWarningTemplate = defineEmailTemplate<CreditBudgetWarningEmailData, CreditBudgetWarningEmailStrings>({
+  description: 'Warning that a project or user has used most of a Veritus credit budget',
+  strings: {
+    en: {
+      subject: (percent) => `You've used ${percent}% of a Veritus credit budget`,
+      heading: 'Credit Budget Almost Used',
+      usage: ({ projectName, period, used, limit }, percent) =>
+        `${projectName ? `The project "${projectName}"` : 'Your account'} has used ${used} of its ${limit} ${period === 'daily' ? 'daily' : 'monthly'} credits (${percent}%).`,
+      blocked: (period) =>
+        `Searches that would go over the budget are blocked until it resets at the start of the next ${period === 'daily' ? 'day' : 'month'} (UTC).`,
+      settings: 'Review budgets',
+    },
+    es: {
+      subject: (percent) => `Has usado el ${percent}% de un presupuesto de créditos de Veritus`,
+      heading: 'Presupuesto de créditos casi agotado',
+      usage: ({ projectName, period, used, limit }, percent) =>
+        `${projectName ? `El proyecto "${projectName}"` : 'Tu cuenta'} ha usado ${used} de sus ${limit} créditos ${period === 'daily' ? 'diarios' : 'mensuales'} (${percent}%).`,
+      blocked: (period) =>
+        `Las búsquedas que superen el presupuesto se bloquearán hasta que se reinicie al comienzo ${period === 'daily' ? 'del día' : 'del mes'} siguiente (UTC).`,
+      settings: 'Revisar presupuestos',
+    },
+  },
+  subject: (data, { t }) => t.subject(usagePercent(data)),
+  html: (data, { t, common }) =>
+    emailLayout({
+      title: t.heading,
+      heading: `💳 ${t.heading}`,
+      subheading: common.greeting(data.userName),
+      content: html`${paragraph(t.usage(data, usagePercent(data)))}
+      ${paragraph(t.blocked(data.period))}
+      ${data.settingsUrl && primaryButton(data.settingsUrl, t.settings)}`,
+      footerNote: common.automatedNote,
+      common,
+    }),
+  text: (data, { t, common }) =>
+    emailTextLayout({
+      heading: t.heading,
+      subheading: common.greeting(data.userName),
+      blocks: [
+        t.usage(data, usagePercent(data)),
+        t.blocked(data.period),
+        data.settingsUrl ? `${t.settings}: ${data.settingsUrl}` : null,
+      ],
+      footerNote: common.automatedNote,
+      common,
+    }),
+  fixture: {
+    userName: 'Ada',
+    projectName: 'Thesis literature review',
+    period: 'monthly',
+    used: 82,
+    limit: 100,
+    settingsUrl: 'https://example.com/dashboard',
+  },
+})
@@ -0,0 +1,72 @@
+import { defineEmailTemplate, EmailFooterLinks } from '../types'
+import { html } from '../html'
+import { emailLayout, emailTextLayout } from '../layout'
+import { paperCard, paperCardText, paragraph } from '../partials'
+
+export interface DailyPaperEmailData {
+  userName: string
+  bookmarkTitle: string
+  paperTitle: string
+  tldr: string
+  paperId?: string
+  pdfLink?: string
+  links?: EmailFooterLinks
+}
+
+interface DailyPaperEmailStrings {
+  subject: (paperTitle: string) => string
+  heading: string
+  /** Followed by the bookmark title */
+  basedOn: string
+  footerNote: string
+}
+
+export const dailyPaperTemplate = defineEmailTemplate<DailyPaperEmailData, DailyPaperEmailStrings>({
+  description: 'Digest with a single recommended paper, based on one bookmark',
+  strings: {
+    en: {
+      subject: (paperTitle) => `Your daily paper: ${paperTitle}`,
+      heading: 'Your Daily Paper Recommendation',
+      basedOn: "Here's a paper recommendation based on your bookmark:",
+      footerNote: "You're receiving this email because you have daily email notifications enabled for your bookmarked papers.",
+    },
+    es: {
+      subject: (paperTitle) => `Tu artículo del día: ${paperTitle}`,
+      heading: 'Tu recomendación de artículo del día',
+      basedOn: 'Te recomendamos este artículo a partir de tu marcador:',
+      footerNote: 'Recibes este correo porque tienes activadas las notificaciones por correo de tus artículos guardados.',
+    },
+  },
+  subject: ({ paperTitle }, { t }) => t.subject(paperTitle),
+  html: (data, { t, common }) =>
+    emailLayout({
+      title: t.heading,
+      heading: `📚 ${t.heading}`,
+      subheading: common.greeting(data.userName),
+      content: html`${paragraph(html`${t.basedOn} <strong>${data.bookmarkTitle}</strong>`)}
+      ${paperCard({ title: data.paperTitle, tldr: data.tldr, pdfLink: data.pdfLink, paperId: data.paperId }, common)}`,
+      footerNote: t.footerNote,
+      links: data.links,
+      common,
+    }),
+  text: (data, { t, common }) =>
+    emailTextLayout({
+      heading: t.heading,
+      subheading: common.greeting(data.userName),
+      blocks: [
+        `${t.basedOn} ${data.bookmarkTitle}`,
+        paperCardText({ title: data.paperTitle, tldr: data.tldr, pdfLink: data.pdfLink, paperId: data.paperId }, common),
+      ],
+      footerNote: t.footerNote,
+      links: data.links,
+      common,
+    }),
+  fixture: {
+    userName: 'Ada',
+    bookmarkTitle: 'Attention Is All You Need',
+    paperTitle: 'Efficient Transformers: A Survey',
+    tldr: 'A survey of transformer variants that reduce the quadratic cost of self-attention, grouped by technique.',
+    paperId: '221702858',
+    pdfLink: 'https://arxiv.org/pdf/2009.06732',
+  },
+})
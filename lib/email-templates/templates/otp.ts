@@ -0,0 +1,54 @@
+import { defineEmailTemplate } from '../types'
+import { html } from '../html'
+import { emailLayout, emailTextLayout } from '../layout'
+import { codeBox, paragraph } from '../partials'
+
+export interface OtpEmailData {
+  otp: string
+  expiresInMinutes: number
+}
+
+interface OtpEmailStrings {
+  subject: string
+  heading: string
+  instructions: string
+  expiry: (minutes: number) => string
+}
+
+export const otpTemplate = defineEmailTemplate<OtpEmailData, OtpEmailStrings>({
+  description: 'Verification code sent during signup',
+  strings: {
+    en: {
+      subject: 'Your Verification Code',
+      heading: 'Verification Code',
+      instructions: 'Please use the following code to complete your signup:',
+      expiry: (minutes) => `This code will expire in ${minutes} minutes. If you didn't request this code, please ignore this email.`,
+    },
+    es: {
+      subject: 'Tu código de verificación',
+      heading: 'Código de verificación',
+      instructions: 'Usa el siguiente código para completar tu registro:',
+      expiry: (minutes) => `Este código caduca en ${minutes} minutos. Si no lo has solicitado, ignora este correo.`,
+    },
+  },
+  subject: (_data, { t }) => t.subject,
+  html: ({ otp, expiresInMinutes }, { t, common }) =>
+    emailLayout({
+      title: t.heading,
+      heading: `🔐 ${t.heading}`,
+      subheading: t.instructions,
+      content: html`${codeBox(otp)}
+      ${paragraph(t.expiry(expiresInMinutes))}`,
+      footerNote: common.automatedNote,
+      common,
+    }),
+  text: ({ otp, expiresInMinutes }, { t, common }) =>
+    emailTextLayout({
+      heading: t.heading,
+      subheading: t.instructions,
+      blocks: [otp, t.expiry(expiresInMinutes)],
+      footerNote: common.automatedNote,
+      common,
+    }),
+  fixture: { otp: '482913', expiresInMinutes: 10 },
+})
@@ -0,0 +1,84 @@
+import { defineEmailTemplate, EmailFooterLinks } from '../types'
+import { html } from '../html'
+import { emailLayout, emailTextLayout } from '../layout'
+import { paperCard, paperCardText, paragraph } from '../partials'
+
+export interface RecommendedPaper {
+  title: string
+  tldr?: string
+  pdfLink?: string
+}
+
+export interface PaperRecommendationsEmailData {
+  userName: string
+  recommendations: RecommendedPaper[]
+  links?: EmailFooterLinks
+}
+
+interface PaperRecommendationsEmailStrings {
+  subject: (count: number) => string
+  heading: string
+  intro: (count: number) => string
+  footerNote: string
+}
+
+export const paperRecommendationsTemplate = defineEmailTemplate<PaperRecommendationsEmailData, PaperRecommendationsEmailStrings>({
+  description: 'Digest with several recommended papers across the user\'s bookmarks',
+  strings: {
+    en: {
+      subject: (count) => `New Paper Recommendations - ${count} papers`,
+      heading: 'New Paper Recommendations',
+      intro: (count) => `Based on your bookmarked papers, we found ${count} new paper${count > 1 ? 's' : ''} that might interest you:`,
+      footerNote: "You're receiving this email because you have email notifications enabled for your bookmarked papers.",
+    },
+    es: {
+      subject: (count) => `Nuevas recomendaciones de artículos - ${count} artículos`,
+      heading: 'Nuevas recomendaciones de artículos',
+      intro: (count) => `A partir de tus artículos guardados, encontramos ${count} artículo${count > 1 ? 's' : ''} nuevo${count > 1 ? 's' : ''} que te pueden interesar:`,
+      footerNote: 'Recibes este correo porque tienes activadas las notificaciones por correo de tus artículos guardados.',
+    },
+  },
+  subject: ({ recommendations }, { t }) => t.subject(recommendations.length),
+  html: (data, { t, common }) =>
+    emailLayout({
+      title: t.heading,
+      heading: `📚 ${t.heading}`,
+      subheading: common.greeting(data.userName),
+      content: html`${paragraph(t.intro(data.recommendations.length))}
+      ${data.recommendations.map((paper, index) => paperCard({ ...paper, position: index + 1 }, common))}`,
+      footerNote: t.footerNote,
+      links: data.links,
+      common,
+    }),
+  text: (data, { t, common }) =>
+    emailTextLayout({
+      heading: t.heading,
+      subheading: common.greeting(data.userName),
+      blocks: [
+        t.intro(data.recommendations.length),
+        ...data.recommendations.map((paper, index) => paperCardText({ ...paper, position: index + 1 }, common)),
+      ],
+      footerNote: t.footerNote,
+      links: data.links,
+      common,
+    }),
+  fixture: {
+    userName: 'Ada',
+    recommendations: [
+      {
+        title: 'Efficient Transformers: A Survey',
+        tldr: 'A survey of transformer variants that reduce the quadratic cost of self-attention, grouped by technique.',
+        pdfLink: 'https://arxiv.org/pdf/2009.06732',
+      },
+      {
+        title: 'Longformer: The Long-Document Transformer',
+        tldr: 'Combines local windowed attention with task-specific global attention to scale linearly with sequence length.',
+        pdfLink: 'https://arxiv.org/pdf/2004.05150',
+      },
+      {
+        title: 'Reformer: The Efficient Transformer',
+        tldr: 'Uses locality-sensitive hashing attention and reversible layers to train transformers on long sequences with less memory.',
+      },
+    ],
+  },
+})
@@ -0,0 +1,50 @@
+import { defineEmailTemplate } from '../types'
+import { html } from '../html'
+import { emailLayout, emailTextLayout } from '../layout'
+import { codeBox, paragraph } from '../partials'
+import { OtpEmailData } from './otp'
+
+interface PasswordResetEmailStrings {
+  subject: string
+  heading: string
+  instructions: string
+  expiry: (minutes: number) => string
+}
+
+export const passwordResetTemplate = defineEmailTemplate<OtpEmailData, PasswordResetEmailStrings>({
+  description: 'Code for resetting a forgotten password',
+  strings: {
+    en: {
+      subject: 'Reset your password',
+      heading: 'Reset Your Password',
+      instructions: 'Use the following code to choose a new password:',
+      expiry: (minutes) => `This code will expire in ${minutes} minutes. If you didn't ask to reset your password, you can ignore this email - your password won't change.`,
+    },
+    es: {
+      subject: 'Restablece tu contraseña',
+      heading: 'Restablece tu contraseña',
+      instructions: 'Usa el siguiente código para elegir una contraseña nueva:',
+      expiry: (minutes) => `Este código caduca en ${minutes} minutos. Si no has pedido restablecer tu contraseña, ignora este correo: tu contraseña no cambiará.`,
+    },
+  },
+  subject: (_data, { t }) => t.subject,
+  html: ({ otp, expiresInMinutes }, { t, common }) =>
+    emailLayout({
+      title: t.heading,
+      heading: `🔑 ${t.heading}`,
+      subheading: t.instructions,
+      content: html`${codeBox(otp)}
+      ${paragraph(t.expiry(expiresInMinutes))}`,
+      footerNote: common.automatedNote,
+      common,
+    }),
+  text: ({ otp, expiresInMinutes }, { t, common }) =>
+    emailTextLayout({
+      heading: t.heading,
+      subheading: t.instructions,
+      blocks: [otp, t.expiry(expiresInMinutes)],
+      footerNote: common.automatedNote,
+      common,
+    }),
+  fixture: { otp: '730156', expiresInMinutes: 10 },
+})
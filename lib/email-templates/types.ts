@@ -0,0 +1,50 @@
+import { SafeHtml } from './html'
+import { CommonEmailStrings, EmailLocale } from './locales'
+
+/**
+ * Signed links that let the recipient manage their email without logging in
+ */
+export interface EmailFooterLinks {
+  /** Target of the List-Unsubscribe header - unsubscribes on POST (RFC 8058) */
+  oneClickUnsubscribeUrl: string
+  unsubscribeUrl: string
+  pauseUrl: string
+  preferencesUrl: string
+}
+
+export interface RenderedEmail {
+  subject: string
+  html: string
+  text: string
+}
+
+/**
+ * What a template's render functions receive besides its data
+ */
+export interface TemplateContext<Strings> {
+  locale: EmailLocale
+  /** The template's own copy in this locale */
+  t: Strings
+  common: CommonEmailStrings
+}
+
+/**
+ * A named email with HTML and plain-text bodies and copy per locale
+ * Only English copy is required; other locales fall back to it
+ */
+export interface EmailTemplate<Data, Strings> {
+  description: string
+  strings: { en: Strings } & Partial<Record<EmailLocale, Strings>>
+  subject: (data: Data, context: TemplateContext<Strings>) => string
+  html: (data: Data, context: TemplateContext<Strings>) => SafeHtml
+  text: (data: Data, context: TemplateContext<Strings>) => string
+  /** Sample data for the admin preview route */
+  fixture: Data
+}
+
+/**
+ * Identity helper so a template's Data and Strings types are inferred from its definition
+ */
+export function defineEmailTemplate<Data, Strings>(template: EmailTemplate<Data, Strings>): EmailTemplate<Data, Strings> {
+  return template
+}
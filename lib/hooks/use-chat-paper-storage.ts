@@ -3,6 +3,7 @@
  * Robust system to track all API responses per chat
  * Stores papers in a map for fast lookup and keyword extraction
  * Enhanced to store papers by heading/abstract with full API response
+ * Papers are read from and written to the chat's server-side paper library (/api/chats/{id}/papers)
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react'
@@ -37,6 +38,25 @@ interface ChatStorage {
 // Global storage shared across all instances
 const globalStorage: ChatStorage = {}
 
+/**
+ * Load every paper in a chat's library, keyed by paper id
+ */
+async function fetchLibraryPapers(chatId: string): Promise<ChatPaperStorage> {
+  const response = await fetch(`/api/chats/${chatId}/papers`)
+  if (!response.ok) {
+    throw new Error(`Failed to load chat papers: ${response.status}`)
+  }
+
+  const data = await response.json()
+  const papers: ChatPaperStorage = {}
+  for (const entry of data.papers || []) {
+    if (entry.paper && entry.paper.id) {
+      papers[entry.paper.id] = entry.paper
+    }
+  }
+  return papers
+}
+
 export function useChatPaperStorage(chatId?: string | null, messages?: any[]) {
   const [storage, setStorage] = useState<ChatPaperStorage>({})
   const [isLoading, setIsLoading] = useState(false)
@@ -151,10 +171,31 @@ export function useChatPaperStorage(chatId?: string | null, messages?: any[]) {
     }
 
     // Update local state
-    setStorage(globalStorage[chatId].papers)
+    setStorage({ ...globalStorage[chatId].papers })
     initializedRef.current = true
   }, [chatId, messages])
 
+  // Papers that never made it into a message (tree children, cached details) are only in the library.
+  // Loaded once per chat; papers added later come back in the write response (see addPaper)
+  useEffect(() => {
+    if (!chatId) return
+
+    let cancelled = false
+    fetchLibraryPapers(chatId)
+      .then((libraryPapers) => {
+        if (cancelled || !globalStorage[chatId]) return
+        globalStorage[chatId].papers = { ...globalStorage[chatId].papers, ...libraryPapers }
+        setStorage({ ...globalStorage[chatId].papers })
+      })
+      .catch((error) => {
+        console.error('Error loading chat paper library:', error)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [chatId])
+
   // Refresh storage from API
   const refreshStorage = useCallback(async () => {
     if (!chatId) return
@@ -232,15 +273,21 @@ export function useChatPaperStorage(chatId?: string | null, messages?: any[]) {
             }
           })
 
+          // The library also holds papers that are not in any message
+          const libraryPapers = await fetchLibraryPapers(chatId).catch((error) => {
+            console.error('Error loading chat paper library:', error)
+            return {} as ChatPaperStorage
+          })
+
           // Update global storage
           globalStorage[chatId] = {
-            papers: papersMap,
+            papers: { ...papersMap, ...libraryPapers },
             chatStore: chatStoreMap,
             lastUpdated: new Date(),
           }
 
           // Update local state
-          setStorage(papersMap)
+          setStorage(globalStorage[chatId].papers)
         }
       }
     } catch (error) {
@@ -284,6 +331,29 @@ export function useChatPaperStorage(chatId?: string | null, messages?: any[]) {
     globalStorage[chatId].lastUpdated = new Date()
 
     setStorage({ ...globalStorage[chatId].papers })
+
+    // Persist to the chat's paper library so the paper survives a reload, and keep the stored copy
+    fetch(`/api/chats/${chatId}/papers`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ papers: [paper], source: 'cache' }),
+    })
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(`Failed to save chat paper: ${response.status}`)
+        }
+        const data = await response.json()
+        if (!globalStorage[chatId]) return
+        for (const entry of data.papers || []) {
+          if (entry.paper && entry.paper.id) {
+            globalStorage[chatId].papers[entry.paper.id] = entry.paper
+          }
+        }
+        setStorage({ ...globalStorage[chatId].papers })
+      })
+      .catch((error) => {
+        console.error('Error saving paper to chat library:', error)
+      })
   }, [chatId])
   
   // Get chat store entry by heading
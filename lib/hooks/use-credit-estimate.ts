@@ -0,0 +1,88 @@
+/**
+ * Credit Estimate Hook
+ * Fetches the expected credit cost of a search job so the search panels can warn before
+ * running an expensive one. Shows the built-in default until (or if) the server answers.
+ */
+
+import { useEffect, useState } from 'react'
+import {
+  CreditEstimate,
+  CreditJobType,
+  defaultJobCost,
+  formatCredits,
+  requiresCostConfirmation,
+} from '@/lib/utils/credit-cost'
+
+// Estimates move slowly, so one fetch per job type and limit per page load is enough
+const estimateCache = new Map<string, CreditEstimate>()
+
+function defaultEstimate(jobType: CreditJobType, limit: number): CreditEstimate {
+  const credits = defaultJobCost(jobType, limit)
+  return { credits, basis: 'default', samples: 0, requiresConfirmation: requiresCostConfirmation(credits) }
+}
+
+/**
+ * @param jobType Job the search would run, or null while the selection is incomplete
+ * @param enabled false for mock searches, which cost nothing
+ */
+export function useCreditEstimate(
+  jobType: CreditJobType | null,
+  limit: number,
+  enabled: boolean = true
+): CreditEstimate | null {
+  const key = jobType ? `${jobType}:${limit}` : null
+  const [estimate, setEstimate] = useState<CreditEstimate | null>(null)
+
+  useEffect(() => {
+    if (!enabled || !jobType || !key) {
+      setEstimate(null)
+      return
+    }
+
+    const cached = estimateCache.get(key)
+    if (cached) {
+      setEstimate(cached)
+      return
+    }
+
+    setEstimate(defaultEstimate(jobType, limit))
+
+    let cancelled = false
+    fetch(`/api/veritus/credits/estimate?jobType=${jobType}&limit=${limit}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!data || typeof data.credits !== 'number') return
+        const fetched: CreditEstimate = {
+          credits: data.credits,
+          basis: data.basis,
+          samples: data.samples,
+          requiresConfirmation: data.requiresConfirmation,
+        }
+        estimateCache.set(key, fetched)
+        if (!cancelled) setEstimate(fetched)
+      })
+      .catch((error) => {
+        console.error('Error fetching credit estimate:', error)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [key, enabled])
+
+  return estimate
+}
+
+/**
+ * Ask before running a search the estimate flags as expensive
+ * @returns false if the user backed out
+ */
+export function confirmCreditCost(estimate: CreditEstimate | null, jobType: string, limit: number): boolean {
+  if (!estimate?.requiresConfirmation) {
+    return true
+  }
+  const approx = estimate.basis === 'history' ? 'about ' : 'up to roughly '
+  return confirm(
+    `This ${limit}-result ${jobType} will use ${approx}${formatCredits(estimate.credits)} Veritus credits. Run it anyway?`
+  )
+}
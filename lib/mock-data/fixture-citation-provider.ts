@@ -0,0 +1,33 @@
+/**
+ * Citation provider backed by the local citation-network fixtures
+ * Server-side only: it pulls in the JSON fixtures, which must stay out of the client bundle
+ * (lib/citation-network is also used by client components).
+ */
+
+import { CitationProvider, CitationRelationship, paperKey } from '@/lib/citation-network'
+import { getMockCitationNetworkResponse } from './mock-data-manager'
+
+/**
+ * Fixture edges are either "cites" (citing paper → root) or "references" (root → referenced paper),
+ * so in both cases the source cites the target
+ */
+export function createFixtureCitationProvider(
+  fixtures = [0, 1, 2].map((variant) => getMockCitationNetworkResponse(variant))
+): CitationProvider {
+  const relationships: CitationRelationship[] = fixtures.flatMap((fixture: any) =>
+    (fixture?.citationNetwork?.edges || []).map((edge: any) => ({
+      source: edge.source,
+      target: edge.target,
+      directed: true,
+    }))
+  )
+
+  return {
+    async getRelationships(papers) {
+      const keys = new Set(papers.map((paper) => paperKey(paper.id)))
+      return relationships.filter(
+        (relationship) => keys.has(paperKey(relationship.source)) && keys.has(paperKey(relationship.target))
+      )
+    },
+  }
+}
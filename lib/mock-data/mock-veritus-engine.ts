@@ -0,0 +1,184 @@
+/**
+ * Mock Veritus engine
+ * Stands in for the Veritus job API in DEBUG mode, so the job lifecycle and the ways it can go
+ * wrong can be exercised without the live API:
+ * - jobs move from queued to processing to success or error as time passes
+ * - requests can be slowed down, time out, fail with 503 or be rate limited (429)
+ * - results are the mock papers that match the job's fieldsOfStudy, year and minCitationCount
+ *
+ * Errors are the same VeritusApiError classes the real client throws, so routes and the job
+ * runner handle them the same way. They are not retried here, so the client sees each one.
+ * Behaviour is set with the MOCK_VERITUS_* variables (see getMockVeritusConfig).
+ */
+
+import crypto from 'crypto'
+import { VeritusJobResponse, VeritusJobStatus, VeritusPaper } from '@/types/veritus'
+import { CreateJobParams } from '@/lib/veritus-api'
+import {
+  VeritusNotFoundError,
+  VeritusRateLimitError,
+  VeritusUnavailableError,
+} from '@/lib/veritus-errors'
+import { getMockVeritusConfig, MockVeritusConfig } from '@/lib/config/mock-config'
+import { getMockCorpusResponse } from './mock-data-manager'
+import delay from '@/lib/services/utils/delay'
+
+const MOCK_JOB_PREFIX = 'mock-job-'
+const MOCK_TIMEOUT_MS = 5000
+const RATE_LIMIT_WINDOW_MS = 60 * 1000
+const CORPUS_VARIANTS = 3
+
+export type MockJobParams = Omit<CreateJobParams, 'jobType'> & { jobType?: CreateJobParams['jobType'] }
+
+declare global {
+  var mockVeritusRateLimit: { windowStart: number; count: number } | undefined
+}
+
+// Shared across dev reloads, like the real API's limit would be
+const rateLimit = global.mockVeritusRateLimit || { windowStart: 0, count: 0 }
+
+if (!global.mockVeritusRateLimit) {
+  global.mockVeritusRateLimit = rateLimit
+}
+
+export function isMockJobId(veritusJobId?: string): boolean {
+  return !!veritusJobId && veritusJobId.startsWith(MOCK_JOB_PREFIX)
+}
+
+/**
+ * Creation time encoded in a mock job ID, or null if the ID isn't one
+ */
+function parseMockJobId(veritusJobId: string): number | null {
+  const match = veritusJobId.match(/^mock-job-(\d+)-[a-z0-9]+$/)
+  return match ? Number(match[1]) : null
+}
+
+/**
+ * A stable number in [0, 1) for a job, so its fate is the same on every poll and every instance
+ */
+function jobRoll(veritusJobId: string): number {
+  return crypto.createHash('sha256').update(veritusJobId).digest().readUInt32BE(0) / 2 ** 32
+}
+
+/**
+ * Apply the configured latency and faults to one mock request
+ * @throws VeritusRateLimitError, or VeritusUnavailableError for timeouts and server errors
+ */
+async function simulateRequest(operation: string, config: MockVeritusConfig): Promise<void> {
+  if (config.latencyMs > 0) {
+    await delay(config.latencyMs * (0.5 + Math.random()))
+  }
+
+  if (config.rateLimitPerMinute > 0) {
+    const now = Date.now()
+    if (now - rateLimit.windowStart >= RATE_LIMIT_WINDOW_MS) {
+      rateLimit.windowStart = now
+      rateLimit.count = 0
+    }
+    rateLimit.count += 1
+    if (rateLimit.count > config.rateLimitPerMinute) {
+      throw new VeritusRateLimitError(
+        `Mock rate limit of ${config.rateLimitPerMinute} requests per minute exceeded`,
+        rateLimit.windowStart + RATE_LIMIT_WINDOW_MS - now
+      )
+    }
+  }
+
+  const roll = Math.random()
+  if (roll < config.timeoutRate) {
+    await delay(MOCK_TIMEOUT_MS)
+    throw new VeritusUnavailableError(`Veritus request timed out after ${MOCK_TIMEOUT_MS}ms (mock ${operation})`)
+  }
+  if (roll < config.timeoutRate + config.serverErrorRate) {
+    throw new VeritusUnavailableError(`Mock Veritus server error (${operation})`, 503)
+  }
+}
+
+/**
+ * Parse a year filter: "2020", "2020:2023", "2020:" or ":2023"
+ */
+function parseYearRange(year?: string): { from: number; to: number } | null {
+  const match = year?.trim().match(/^(\d{4})?(?:(:)(\d{4})?)?$/)
+  if (!match || (!match[1] && !match[3])) {
+    return null
+  }
+  const from = match[1] ? Number(match[1]) : -Infinity
+  const to = match[3] ? Number(match[3]) : match[2] ? Infinity : from
+  return { from, to }
+}
+
+/**
+ * All mock papers, without duplicates
+ */
+function getMockPapers(): VeritusPaper[] {
+  const papers = new Map<string, VeritusPaper>()
+  for (let variant = 0; variant < CORPUS_VARIANTS; variant++) {
+    const corpus = getMockCorpusResponse(variant)
+    for (const paper of [corpus.paper, ...corpus.similarPapers] as VeritusPaper[]) {
+      papers.set(paper.id, paper)
+    }
+  }
+  return Array.from(papers.values())
+}
+
+/**
+ * Mock papers matching a job's filters, up to its limit
+ */
+export function filterMockPapers(params: MockJobParams): VeritusPaper[] {
+  const fields = (params.fieldsOfStudy || []).map((field) => field.trim().toLowerCase()).filter(Boolean)
+  const years = parseYearRange(params.year)
+  const minCitations = params.minCitationCount ?? 0
+
+  return getMockPapers()
+    .filter((paper) => {
+      if (fields.length > 0 && !paper.fieldsOfStudy.some((field) => fields.includes(field.toLowerCase()))) {
+        return false
+      }
+      if (years && (paper.year === null || paper.year < years.from || paper.year > years.to)) {
+        return false
+      }
+      return (paper.impactFactor?.citationCount ?? 0) >= minCitations
+    })
+    .slice(0, params.limit ?? 100)
+}
+
+/**
+ * Mock of createJob
+ * @throws VeritusApiError subclasses for injected faults
+ */
+export async function createMockJob(): Promise<VeritusJobResponse> {
+  await simulateRequest('createJob', getMockVeritusConfig())
+  return { jobId: `${MOCK_JOB_PREFIX}${Date.now()}-${Math.random().toString(36).substring(2, 9)}` }
+}
+
+/**
+ * Mock of getJobStatus
+ * The state follows from the job's age; whether it fails is fixed by its ID. The engine keeps no
+ * jobs of its own, so the caller passes the parameters the job was created with.
+ * @throws VeritusNotFoundError for IDs that aren't mock jobs, and VeritusApiError subclasses for
+ *   injected faults
+ */
+export async function getMockJobStatus(
+  veritusJobId: string,
+  params: MockJobParams
+): Promise<VeritusJobStatus & { error?: string }> {
+  const config = getMockVeritusConfig()
+  await simulateRequest('getJobStatus', config)
+
+  const createdAt = parseMockJobId(veritusJobId)
+  if (createdAt === null) {
+    throw new VeritusNotFoundError(`Job ${veritusJobId} not found`, 404)
+  }
+
+  const age = Date.now() - createdAt
+  if (age < config.queuedMs) {
+    return { status: 'queued' }
+  }
+  if (age < config.queuedMs + config.processingMs) {
+    return { status: 'processing' }
+  }
+  if (jobRoll(veritusJobId) < config.jobFailureRate) {
+    return { status: 'error', error: 'Mock job failed (MOCK_VERITUS_JOB_FAILURE_RATE)' }
+  }
+  return { status: 'success', results: filterMockPapers(params) }
+}
@@ -0,0 +1,139 @@
+import crypto from 'crypto'
+import connectDB from '@/lib/db'
+import AccessToken, { IAccessToken } from '@/models/AccessToken'
+import User from '@/models/User'
+import { AccessTokenScope } from '@/lib/config/access-token-scopes'
+
+// Marks the string as one of ours, so it's recognisable in logs and secret scanners
+const TOKEN_PREFIX = 'pat_'
+const MAX_TOKENS_PER_USER = 20
+// lastUsedAt is written at most this often, so a busy script doesn't write on every request
+const LAST_USED_THROTTLE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface AccessTokenSummary {
+  id: string
+  name: string
+  tokenPrefix: string
+  scopes: AccessTokenScope[]
+  expiresAt: Date | null
+  lastUsedAt: Date | null
+  lastUsedIp: string | null
+  createdAt: Date
+}
+
+export interface AccessTokenUser {
+  userId: string
+  email: string
+  isAcademic: boolean
+  scopes: AccessTokenScope[]
+  tokenId: string
+}
+
+export class AccessTokenLimitError extends Error {
+  constructor() {
+    super(`You can have at most ${MAX_TOKENS_PER_USER} access tokens. Revoke one to create another.`)
+    this.name = 'AccessTokenLimitError'
+  }
+}
+
+// Tokens are 256 random bits, so a fast unkeyed hash is enough
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+function toSummary(token: IAccessToken): AccessTokenSummary {
+  return {
+    id: token._id.toString(),
+    name: token.name,
+    tokenPrefix: token.tokenPrefix,
+    scopes: token.scopes,
+    expiresAt: token.expiresAt ?? null,
+    lastUsedAt: token.lastUsedAt ?? null,
+    lastUsedIp: token.lastUsedIp ?? null,
+    createdAt: token.createdAt,
+  }
+}
+
+/**
+ * Create a token for the user
+ * @returns The token itself (it cannot be shown again) and its summary
+ * @throws AccessTokenLimitError if the user already has MAX_TOKENS_PER_USER tokens
+ */
+export async function createAccessToken(
+  userId: string,
+  input: { name: string; scopes: AccessTokenScope[]; expiresInDays: number | null }
+): Promise<{ token: string; accessToken: AccessTokenSummary }> {
+  await connectDB()
+
+  const existing = await AccessToken.countDocuments({ userId })
+  if (existing >= MAX_TOKENS_PER_USER) {
+    throw new AccessTokenLimitError()
+  }
+
+  const token = `${TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`
+  const record = await AccessToken.create({
+    userId,
+    name: input.name,
+    tokenHash: hashToken(token),
+    tokenPrefix: token.slice(0, TOKEN_PREFIX.length + 6),
+    scopes: Array.from(new Set(input.scopes)),
+    expiresAt: input.expiresInDays ? new Date(Date.now() + input.expiresInDays * DAY_MS) : null,
+  })
+
+  return { token, accessToken: toSummary(record) }
+}
+
+/**
+ * The user's tokens, newest first
+ */
+export async function listAccessTokens(userId: string): Promise<AccessTokenSummary[]> {
+  await connectDB()
+  const tokens = await AccessToken.find({ userId }).sort({ createdAt: -1 })
+  return tokens.map(toSummary)
+}
+
+/**
+ * Delete one of the user's tokens; it stops working immediately
+ * @returns false if the user has no such token
+ */
+export async function revokeAccessToken(userId: string, tokenId: string): Promise<boolean> {
+  await connectDB()
+  const result = await AccessToken.deleteOne({ _id: tokenId, userId })
+  return result.deletedCount > 0
+}
+
+/**
+ * Look up the user behind a bearer token, recording that it was used
+ * @returns null for unknown or expired tokens
+ */
+export async function authenticateAccessToken(token: string, ip: string | null): Promise<AccessTokenUser | null> {
+  if (!token.startsWith(TOKEN_PREFIX)) {
+    return null
+  }
+
+  await connectDB()
+
+  const now = new Date()
+  const record = await AccessToken.findOne({ tokenHash: hashToken(token) }).lean()
+  if (!record || (record.expiresAt && record.expiresAt <= now)) {
+    return null
+  }
+
+  const user = await User.findById(record.userId).select('email isAcademic').lean()
+  if (!user) {
+    return null
+  }
+
+  if (!record.lastUsedAt || now.getTime() - new Date(record.lastUsedAt).getTime() > LAST_USED_THROTTLE_MS) {
+    await AccessToken.updateOne({ _id: record._id }, { lastUsedAt: now, lastUsedIp: ip })
+  }
+
+  return {
+    userId: record.userId.toString(),
+    email: user.email,
+    isAcademic: user.isAcademic ?? true,
+    scopes: record.scopes,
+    tokenId: record._id.toString(),
+  }
+}
@@ -1,53 +1,23 @@
 import connectDB from '@/lib/db'
 import User from '@/models/User'
-import { getVeritusApiKey } from '@/lib/veritus-auth'
-import { createJob, getJobStatus } from '@/lib/veritus-api'
-import { sendDailyPaperEmail } from '@/lib/utils/email-service'
+import { getVeritusApiKeyForUser } from '@/lib/veritus-auth'
+import { runJob } from '@/lib/services/job-runner'
+import { CreditBudgetExceededError } from '@/lib/services/credit-budgets'
+import { sendDailyPaperEmail, sendPaperRecommendationsEmail } from '@/lib/utils/email-service'
+import { isDigestDue, resolveDigestPreferences } from '@/lib/utils/digest-schedule'
+import { buildEmailLinks } from '@/lib/services/email-links'
+import {
+  getExcludedCorpusIds,
+  pickRecommendations,
+  recordBookmarkUse,
+  recordRecommendations,
+  RecommendationPick,
+  scheduleBookmarks,
+} from '@/lib/services/recommendation-scheduler'
 import { VeritusPaper } from '@/types/veritus'
 
-/**
- * Check if email was already sent today for a user
- * Compares dates in IST timezone (4:30 AM IST = 11:00 PM previous day UTC)
- */
-function wasEmailSentToday(user: any): boolean {
-  if (!user.lastEmailSentDate) {
-    return false
-  }
-
-  const now = new Date()
-  const lastSent = new Date(user.lastEmailSentDate)
-
-  // Convert to IST (UTC+5:30) for comparison
-  // 4:30 AM IST = 11:00 PM previous day UTC
-  const istOffset = 5.5 * 60 * 60 * 1000 // 5.5 hours in milliseconds
-  const nowIST = new Date(now.getTime() + istOffset)
-  const lastSentIST = new Date(lastSent.getTime() + istOffset)
-
-  // Compare dates (YYYY-MM-DD) in IST
-  const todayIST = new Date(nowIST.getFullYear(), nowIST.getMonth(), nowIST.getDate())
-  const lastSentDateIST = new Date(lastSentIST.getFullYear(), lastSentIST.getMonth(), lastSentIST.getDate())
-
-  return todayIST.getTime() === lastSentDateIST.getTime()
-}
-
-/**
- * Select one bookmark from user's bookmarks
- * For now, selects the first bookmark with keywords
- */
-function selectBookmark(bookmarks: any[]): any | null {
-  if (!bookmarks || bookmarks.length === 0) {
-    return null
-  }
-
-  // Find first bookmark with keywords
-  for (const bookmark of bookmarks) {
-    if (bookmark.keywords && Array.isArray(bookmark.keywords) && bookmark.keywords.length > 0) {
-      return bookmark
-    }
-  }
-
-  return null
-}
+// Extra bookmarks to try when searches have too little that's new - each try costs a search job
+const EXTRA_BOOKMARK_ATTEMPTS = 1
 
 /**
  * Get top 5 keywords from bookmark
@@ -67,10 +37,11 @@ function getTopKeywords(bookmark: any): string[] {
  */
 async function performCombinedSearch(
   keywords: string[],
-  apiKey: string
-): Promise<VeritusPaper | null> {
+  apiKey: string,
+  userId: string
+): Promise<VeritusPaper[]> {
   if (keywords.length === 0) {
-    return null
+    return []
   }
 
   try {
@@ -101,8 +72,8 @@ async function performCombinedSearch(
       query = query.substring(0, 5000)
     }
 
-    // Create combined search job
-    const jobResponse = await createJob(
+    // Run combined search job (tracked to completion by the job runner)
+    const papers = await runJob(
       {
         jobType: 'combinedSearch',
         limit: 100, // Get up to 100 results to find best match
@@ -111,163 +82,177 @@ async function performCombinedSearch(
         phrases: searchPhrases,
         query: query,
       },
-      { apiKey }
+      { userId, apiKey }
     )
 
-    const jobId = jobResponse.jobId
-    if (!jobId) {
-      console.error('No job ID returned for combined search')
-      return null
-    }
-
-    // Poll for job completion
-    let attempts = 0
-    const maxAttempts = 30 // 30 attempts * 2s = 60s timeout
-    const pollInterval = 2000 // 2 seconds
-
-    while (attempts < maxAttempts) {
-      await new Promise((resolve) => setTimeout(resolve, pollInterval))
-      
-      const jobStatus = await getJobStatus(jobId, { apiKey })
-      
-      if (jobStatus.status === 'success' && jobStatus.results && jobStatus.results.length > 0) {
-        // Find the first paper with a valid TL;DR
-        const papers = jobStatus.results
-        const paperWithTLDR = papers.find((paper: VeritusPaper) => 
-          paper.tldr && paper.tldr.trim().length > 0
-        )
-
-        // If no paper with TLDR, return the first paper
-        return paperWithTLDR || papers[0] || null
-      } else if (jobStatus.status === 'error') {
-        console.error(`Job ${jobId} failed for combined search`)
-        return null
-      }
-
-      attempts++
-    }
-
-    console.warn(`Job ${jobId} timed out for combined search`)
-    return null
+    return papers
   } catch (error) {
+    // Over budget: no digest search until the budget resets, and no error to report
+    if (error instanceof CreditBudgetExceededError) {
+      console.log(`Digest search for user ${userId} skipped: ${error.message}`)
+      return []
+    }
     console.error('Error performing combined search:', error)
-    return null
+    return []
   }
 }
 
 /**
- * Process a single user and send daily email notification
- * - Selects one bookmark
- * - Gets top 5 keywords
- * - Calls combined search
- * - Sends email with TL;DR
- * - Updates lastEmailSentDate
+ * Gather a digest's papers from the user's bookmarks, spread across the bookmarks whose turn it is
  */
-async function processUserDailyNotification(user: any): Promise<void> {
-  // Check eligibility
-  if (!user.emailNotificationsEnabled) {
-    return
+async function collectDigestPapers(
+  user: any,
+  count: number
+): Promise<Array<{ bookmark: any; keywords: string[]; picks: RecommendationPick[] }>> {
+  const userId = user._id.toString()
+  const scheduled = await scheduleBookmarks(userId, user.bookmarks)
+  if (scheduled.length === 0) {
+    console.log(`No bookmark with keywords found for user ${user.email}`)
+    return []
   }
 
-  if (!user.bookmarks || user.bookmarks.length === 0) {
-    return
-  }
+  // Get API key (cron runs without a request cookie, so resolve it for this user)
+  const apiKey = await getVeritusApiKeyForUser(userId)
+  const excluded = await getExcludedCorpusIds(userId, user.bookmarks)
 
-  // Check if email already sent today
-  if (wasEmailSentToday(user)) {
-    console.log(`Email already sent today for user ${user.email}, skipping`)
-    return
-  }
+  const bookmarksToUse = Math.min(count, scheduled.length)
+  const perBookmark = Math.ceil(count / bookmarksToUse)
+  const groups: Array<{ bookmark: any; keywords: string[]; picks: RecommendationPick[] }> = []
+  let remaining = count
 
-  try {
-    // Select one bookmark
-    const selectedBookmark = selectBookmark(user.bookmarks)
-    if (!selectedBookmark) {
-      console.log(`No bookmark with keywords found for user ${user.email}`)
-      return
-    }
+  for (const { bookmark } of scheduled.slice(0, bookmarksToUse + EXTRA_BOOKMARK_ATTEMPTS)) {
+    if (remaining <= 0) break
 
     // Get top 5 keywords
-    const keywords = getTopKeywords(selectedBookmark)
-    if (keywords.length === 0) {
-      console.log(`No keywords found in bookmark for user ${user.email}`)
-      return
+    const keywords = getTopKeywords(bookmark)
+    console.log(`Processing user ${user.email} with bookmark: ${bookmark.title}, keywords: ${keywords.join(', ')}`)
+
+    const papers = await performCombinedSearch(keywords, apiKey, userId)
+    // Count the turn even when nothing new turns up, so this bookmark doesn't starve the others
+    await recordBookmarkUse(userId, bookmark)
+    const picks = pickRecommendations(papers, excluded, bookmark, keywords, Math.min(perBookmark, remaining))
+    if (picks.length === 0) {
+      console.log(`No new paper with TLDR found for bookmark ${bookmark.title} (user ${user.email})`)
+      continue
     }
 
-    console.log(`Processing user ${user.email} with bookmark: ${selectedBookmark.title}, keywords: ${keywords.join(', ')}`)
+    groups.push({ bookmark, keywords, picks })
+    remaining -= picks.length
+  }
 
-    // Get API key
-    const apiKey = await getVeritusApiKey()
+  return groups
+}
 
-    // Perform combined search
-    const recommendedPaper = await performCombinedSearch(keywords, apiKey)
-    
-    if (!recommendedPaper || !recommendedPaper.tldr) {
-      console.log(`No paper with TLDR found for user ${user.email}`)
+/**
+ * Send a user's digest
+ * - Picks papers from the bookmarks whose turn it is (see scheduleBookmarks), skipping papers the
+ *   user has been sent, bookmarked or added to a chat
+ * - One paper goes out as the daily paper email, more as a recommendations email
+ * - Records the papers in the recommendation history and updates lastEmailSentDate
+ */
+async function processUserDigest(user: any, papersPerDigest: number): Promise<void> {
+  try {
+    const groups = await collectDigestPapers(user, papersPerDigest)
+    const picks = groups.flatMap((group) => group.picks)
+    if (picks.length === 0) {
       return
     }
 
-    // Send email
-    await sendDailyPaperEmail(
-      user.email,
-      user.name,
-      {
-        bookmarkTitle: selectedBookmark.title,
-        paperTitle: recommendedPaper.title || 'Untitled',
-        tldr: recommendedPaper.tldr,
-        paperId: recommendedPaper.id ? String(recommendedPaper.id) : undefined,
-        pdfLink: recommendedPaper.pdfLink ? String(recommendedPaper.pdfLink) : undefined,
-      }
-    )
+    const userId = user._id.toString()
+    const sendOptions = { userId, links: buildEmailLinks(userId) }
+
+    if (picks.length === 1) {
+      const [{ bookmark }] = groups
+      const [{ paper }] = picks
+      await sendDailyPaperEmail(
+        user.email,
+        user.name,
+        {
+          bookmarkTitle: bookmark.title,
+          paperTitle: paper.title || 'Untitled',
+          tldr: paper.tldr!,
+          paperId: paper.id ? String(paper.id) : undefined,
+          pdfLink: paper.pdfLink ? String(paper.pdfLink) : undefined,
+        },
+        sendOptions
+      )
+    } else {
+      await sendPaperRecommendationsEmail(
+        user.email,
+        user.name,
+        picks.map(({ paper }) => ({
+          title: paper.title || 'Untitled',
+          tldr: paper.tldr || undefined,
+          pdfLink: paper.pdfLink ? String(paper.pdfLink) : undefined,
+        })),
+        sendOptions
+      )
+    }
 
-    // Update lastEmailSentDate
-    user.lastEmailSentDate = new Date()
-    await user.save()
+    const sentAt = new Date()
+    for (const group of groups) {
+      await recordRecommendations(userId, group.bookmark, group.keywords, group.picks, sentAt)
+    }
 
-    // Also update emailNotificationHistory for tracking
+    user.lastEmailSentDate = sentAt
     if (!user.emailNotificationHistory) {
       user.emailNotificationHistory = []
     }
     user.emailNotificationHistory.push({
-      sentAt: new Date(),
-      papersCount: 1,
+      sentAt,
+      papersCount: picks.length,
     })
     await user.save()
 
-    console.log(`Successfully sent daily email to ${user.email}`)
+    console.log(`Successfully sent digest with ${picks.length} paper(s) to ${user.email}`)
   } catch (error) {
-    console.error(`Error processing daily notification for user ${user.email}:`, error)
+    console.error(`Error processing digest for user ${user.email}:`, error)
     // Don't throw - continue with other users
   }
 }
 
 /**
- * Process all eligible users and send daily email notifications
- * This is called by the cron job at 4:30 AM IST
+ * Send the digests that are due
+ * Called hourly by the cron job; each user's digest goes out once their local send hour has passed
+ * on a send day (see isDigestDue)
+ * @returns Number of users whose digest was due
  */
-export async function processAllDailyBookmarkNotifications(): Promise<void> {
+export async function processDueBookmarkDigests(now: Date = new Date()): Promise<number> {
   try {
     await connectDB()
 
-    // Find all users with email notifications enabled and bookmarks
     const users = await User.find({
       emailNotificationsEnabled: true,
       bookmarks: { $exists: true, $ne: [] },
+      'digestPreferences.frequency': { $ne: 'off' },
+      emailNotificationsPausedUntil: { $not: { $gt: now } },
     })
 
-    console.log(`Processing daily bookmark notifications for ${users.length} users`)
+    const due = users
+      .map((user) => ({ user, preferences: resolveDigestPreferences(user.digestPreferences) }))
+      // Users from before attempts were recorded fall back to their last sent digest
+      .filter(({ user, preferences }) =>
+        isDigestDue(preferences, user.lastDigestAttemptDate || user.lastEmailSentDate, now)
+      )
+
+    console.log(`Processing bookmark digests for ${due.length} of ${users.length} users`)
 
     // Process each user sequentially to avoid rate limiting
-    for (const user of users) {
-      await processUserDailyNotification(user)
-      
+    for (const { user, preferences } of due) {
+      // Record the attempt before searching, so a run that finds nothing (or fails) waits for the
+      // next send day instead of being retried - and charged - every hour
+      await User.updateOne({ _id: user._id }, { $set: { lastDigestAttemptDate: now } })
+      user.lastDigestAttemptDate = now
+      await processUserDigest(user, preferences.papersPerDigest)
+
       // Small delay between users to avoid overwhelming the API
       await new Promise((resolve) => setTimeout(resolve, 2000))
     }
 
-    console.log('Daily bookmark notification processing completed')
+    console.log('Bookmark digest processing completed')
+    return due.length
   } catch (error) {
-    console.error('Error processing daily bookmark notifications:', error)
+    console.error('Error processing bookmark digests:', error)
     throw error
   }
 }
@@ -0,0 +1,272 @@
+import connectDB from '@/lib/db'
+import Chat, { IChat } from '@/models/Chat'
+import ChatPaper, { ChatPaperSource } from '@/models/ChatPaper'
+import Paper from '@/models/Paper'
+import { cachePapers, normalizeCorpusId } from './paper-cache'
+import { VeritusPaper } from '@/types/veritus'
+import mongoose from 'mongoose'
+
+const MIGRATION_BATCH_SIZE = 100
+
+export interface AddChatPapersOptions {
+  source: ChatPaperSource
+  parentCorpusId?: string | null
+  messageId?: mongoose.Types.ObjectId
+}
+
+export interface ChatPaperFilter {
+  source?: ChatPaperSource | ChatPaperSource[]
+  parentCorpusId?: string
+}
+
+/**
+ * A paper in a chat's library, with where and why it was added
+ */
+export interface ChatPaperEntry {
+  corpusId: string
+  source: ChatPaperSource
+  parentCorpusId?: string | null
+  messageId?: string
+  rank?: number
+  addedAt: Date
+  paper: VeritusPaper
+}
+
+type ChatRef = Pick<IChat, '_id' | 'userId' | 'projectId'>
+
+/**
+ * Add papers to a chat's library
+ * Papers are deduplicated per chat, source and parent; re-adding a paper is a no-op
+ * @returns Number of papers that were new to the chat for this source
+ */
+export async function addPapersToChat(
+  chat: ChatRef,
+  papers: VeritusPaper[],
+  options: AddChatPapersOptions
+): Promise<number> {
+  const withIds = papers.filter((paper) => paper && paper.id)
+  if (withIds.length === 0) {
+    return 0
+  }
+
+  await connectDB()
+
+  // Paper data handed to us with a chat may come from the client - don't let it overwrite Veritus data
+  await cachePapers(withIds, { trusted: false })
+
+  const corpusIds = withIds.map((paper) => normalizeCorpusId(String(paper.id)))
+  const paperDocs = await Paper.find({ corpusId: { $in: corpusIds } }, { _id: 1, corpusId: 1 })
+  const paperRefs = new Map(paperDocs.map((doc) => [doc.corpusId, doc._id]))
+
+  const parentCorpusId = options.parentCorpusId ? normalizeCorpusId(options.parentCorpusId) : null
+  const now = new Date()
+
+  const result = await ChatPaper.bulkWrite(
+    corpusIds
+      .filter((corpusId) => paperRefs.has(corpusId))
+      .map((corpusId, rank) => ({
+        updateOne: {
+          filter: { chatId: chat._id, corpusId, source: options.source, parentCorpusId },
+          update: {
+            $setOnInsert: {
+              chatId: chat._id,
+              userId: chat.userId,
+              projectId: chat.projectId,
+              corpusId,
+              paper: paperRefs.get(corpusId),
+              source: options.source,
+              parentCorpusId,
+              messageId: options.messageId,
+              rank,
+              addedAt: now,
+            },
+          },
+          upsert: true,
+        },
+      })),
+    { ordered: false }
+  )
+
+  return result.upsertedCount
+}
+
+/**
+ * Read a chat's papers, oldest first
+ * Chats created before the library existed are migrated on first read
+ */
+export async function getChatPapers(
+  chatId: string,
+  userId: string,
+  filter: ChatPaperFilter = {}
+): Promise<ChatPaperEntry[]> {
+  if (!mongoose.Types.ObjectId.isValid(chatId)) {
+    return []
+  }
+
+  await connectDB()
+
+  const chat = await Chat.findOne({ _id: chatId, userId })
+  if (!chat) {
+    return []
+  }
+  await ensureChatPapersMigrated(chat)
+
+  const query: Record<string, any> = { chatId: chat._id }
+  if (filter.source) {
+    query.source = Array.isArray(filter.source) ? { $in: filter.source } : filter.source
+  }
+  if (filter.parentCorpusId) {
+    query.parentCorpusId = normalizeCorpusId(filter.parentCorpusId)
+  }
+
+  const entries = await ChatPaper.find(query)
+    .sort({ addedAt: 1, rank: 1 })
+    .populate<{ paper: { data: VeritusPaper } }>('paper', 'data')
+
+  return entries
+    .filter((entry) => entry.paper)
+    .map((entry) => ({
+      corpusId: entry.corpusId,
+      source: entry.source,
+      parentCorpusId: entry.parentCorpusId,
+      messageId: entry.messageId?.toString(),
+      rank: entry.rank,
+      addedAt: entry.addedAt,
+      paper: entry.paper.data,
+    }))
+}
+
+/**
+ * Unique papers in a chat, keyed by their Veritus id
+ */
+export async function getChatPaperMap(
+  chatId: string,
+  userId: string,
+  filter: ChatPaperFilter = {}
+): Promise<Record<string, VeritusPaper>> {
+  const entries = await getChatPapers(chatId, userId, filter)
+  const papers: Record<string, VeritusPaper> = {}
+  for (const entry of entries) {
+    papers[entry.paper.id || entry.corpusId] = entry.paper
+  }
+  return papers
+}
+
+/**
+ * Unique papers across every chat of a project, oldest first
+ */
+export async function getProjectPapers(projectId: string, userId: string): Promise<VeritusPaper[]> {
+  if (!mongoose.Types.ObjectId.isValid(projectId)) {
+    return []
+  }
+
+  await connectDB()
+
+  const chats = await Chat.find({ projectId, userId })
+  for (const chat of chats) {
+    await ensureChatPapersMigrated(chat)
+  }
+
+  const entries = await ChatPaper.find({ chatId: { $in: chats.map((chat) => chat._id) } })
+    .sort({ addedAt: 1, rank: 1 })
+    .populate<{ paper: { data: VeritusPaper } }>('paper', 'data')
+
+  const papers = new Map<string, VeritusPaper>()
+  for (const entry of entries) {
+    if (entry.paper && !papers.has(entry.corpusId)) {
+      papers.set(entry.corpusId, entry.paper.data)
+    }
+  }
+  return Array.from(papers.values())
+}
+
+/**
+ * Classify papers embedded in an old message by the content the storing route wrote
+ */
+function getMessageSource(content: string, index: number): ChatPaperSource {
+  if (content.startsWith('Found') && content.includes('similar papers')) return 'similar'
+  if (content.startsWith('Cached paper details')) return 'cache'
+  if (content.startsWith('Generated semantic similarity graph')) return 'visualization'
+  if (content.startsWith('Generated citation network')) return 'citation-network'
+  if (index === 0 && content.startsWith('Paper:')) return 'root'
+  return 'search'
+}
+
+/**
+ * Copy the papers embedded in a chat (messages, paperData, paperRelationships) into the library
+ * Safe to run more than once - additions are deduplicated
+ */
+export async function migrateChatPapers(chat: IChat): Promise<number> {
+  let added = 0
+  const metadata = chat.chatMetadata || {}
+
+  if (metadata.paperData?.id) {
+    added += await addPapersToChat(chat, [metadata.paperData], { source: 'root' })
+  }
+
+  for (const [index, message] of chat.messages.entries()) {
+    const messageId = (message as any)._id
+    if (Array.isArray(message.papers) && message.papers.length > 0) {
+      added += await addPapersToChat(chat, message.papers, {
+        source: getMessageSource(message.content || '', index),
+        messageId,
+      })
+    }
+
+    const network = message.citationNetwork
+    if (network) {
+      const networkPapers = [network.paper, ...(Array.isArray(network.similarPapers) ? network.similarPapers : [])]
+      added += await addPapersToChat(chat, networkPapers.filter(Boolean), {
+        source: 'citation-network',
+        messageId,
+      })
+    }
+  }
+
+  const relationships = (metadata.paperRelationships || {}) as Record<string, any>
+  for (const [parentId, relationship] of Object.entries(relationships)) {
+    const children = (relationship?.childPapers || [])
+      .map((child: any) => child.paper || (child.id ? { id: child.id, title: child.title } : null))
+      .filter(Boolean)
+    added += await addPapersToChat(chat, children, {
+      source: 'child',
+      parentCorpusId: parentId,
+    })
+  }
+
+  // updateOne rather than save, so migrating doesn't bump the chat's updatedAt
+  await Chat.updateOne({ _id: chat._id }, { $set: { papersMigratedAt: new Date() } })
+  chat.papersMigratedAt = new Date()
+
+  return added
+}
+
+export async function ensureChatPapersMigrated(chat: IChat): Promise<void> {
+  if (!chat.papersMigratedAt) {
+    await migrateChatPapers(chat)
+  }
+}
+
+/**
+ * Migrate every chat that has not been migrated yet
+ */
+export async function migrateAllChatPapers(): Promise<{ chats: number; papers: number; failed: number }> {
+  await connectDB()
+
+  let chats = 0
+  let papers = 0
+  let failed = 0
+
+  const cursor = Chat.find({ papersMigratedAt: { $exists: false } }).batchSize(MIGRATION_BATCH_SIZE).cursor()
+  for await (const chat of cursor) {
+    try {
+      papers += await migrateChatPapers(chat)
+      chats++
+    } catch (error) {
+      failed++
+      console.error(`Error migrating papers of chat ${chat._id}:`, error)
+    }
+  }
+
+  return { chats, papers, failed }
+}
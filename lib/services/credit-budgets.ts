@@ -0,0 +1,292 @@
+import { NextResponse } from 'next/server'
+import mongoose from 'mongoose'
+import connectDB from '@/lib/db'
+import Project from '@/models/Project'
+import User from '@/models/User'
+import {
+  CreditCall,
+  CreditUsageContext,
+  estimateJobCost,
+  releaseCreditReservation,
+  reserveCreditUsage,
+  resolveUsageProjectId,
+  sumCreditUsage,
+} from './credit-ledger'
+import { sendCreditBudgetWarningEmail } from '@/lib/utils/email-service'
+import {
+  BUDGET_WARNING_RATIO,
+  CREDIT_BUDGET_PERIODS,
+  CreditBudget,
+  CreditBudgetAlerts,
+  CreditBudgetPeriod,
+  CreditJobType,
+  formatCredits,
+} from '@/lib/utils/credit-cost'
+
+/**
+ * A budget a search is counted against: the user's own, or the project's
+ */
+interface BudgetTarget {
+  scope: 'user' | 'project'
+  id: mongoose.Types.ObjectId
+  /** The user, or the project's owner */
+  ownerId: mongoose.Types.ObjectId
+  projectName: string | null
+  budget: CreditBudget
+  alerts: CreditBudgetAlerts
+}
+
+export interface CreditBudgetUsage {
+  limit: number
+  used: number
+  resetsAt: Date
+}
+
+export type CreditBudgetStatus = Partial<Record<CreditBudgetPeriod, CreditBudgetUsage>>
+
+/**
+ * Sent to the client with the 402 response, so it can say which budget was hit and when it resets
+ */
+export interface CreditBudgetExceededDetails {
+  scope: 'user' | 'project'
+  period: CreditBudgetPeriod
+  projectId: string | null
+  limit: number
+  used: number
+  estimatedCost: number
+  resetsAt: Date
+}
+
+export class CreditBudgetExceededError extends Error {
+  details: CreditBudgetExceededDetails
+
+  constructor(target: BudgetTarget, period: CreditBudgetPeriod, used: number, estimatedCost: number, resetsAt: Date) {
+    const limit = target.budget[period] as number
+    const owner = target.scope === 'project' ? `Project "${target.projectName}" has used` : 'You have used'
+    super(
+      `${owner} ${formatCredits(used)} of ${target.scope === 'project' ? 'its' : 'your'} ${limit}-credit ${period} budget ` +
+        `and this search needs about ${formatCredits(estimatedCost)} more. The budget resets at ${resetsAt.toISOString()}.`
+    )
+    this.name = 'CreditBudgetExceededError'
+    this.details = {
+      scope: target.scope,
+      period,
+      projectId: target.scope === 'project' ? target.id.toString() : null,
+      limit,
+      used,
+      estimatedCost,
+      resetsAt,
+    }
+  }
+}
+
+/**
+ * 402 response for a search refused by a credit budget, or null for any other error
+ */
+export function creditBudgetErrorResponse(error: unknown): NextResponse | null {
+  if (!(error instanceof CreditBudgetExceededError)) {
+    return null
+  }
+  return NextResponse.json(
+    { error: error.message, code: 'CREDIT_BUDGET_EXCEEDED', budget: error.details },
+    { status: 402 }
+  )
+}
+
+/**
+ * Start and end of the UTC day or month `now` falls in
+ */
+function periodBounds(period: CreditBudgetPeriod, now: Date): { start: Date; end: Date } {
+  const year = now.getUTCFullYear()
+  const month = now.getUTCMonth()
+  if (period === 'daily') {
+    const day = now.getUTCDate()
+    return { start: new Date(Date.UTC(year, month, day)), end: new Date(Date.UTC(year, month, day + 1)) }
+  }
+  return { start: new Date(Date.UTC(year, month, 1)), end: new Date(Date.UTC(year, month + 1, 1)) }
+}
+
+function periodKey(period: CreditBudgetPeriod, now: Date): string {
+  return periodBounds(period, now).start.toISOString().slice(0, period === 'daily' ? 10 : 7)
+}
+
+function hasLimits(budget?: CreditBudget | null): boolean {
+  return CREDIT_BUDGET_PERIODS.some((period) => typeof budget?.[period] === 'number')
+}
+
+/**
+ * The budgets a call for this user (and chat or project) counts against
+ */
+async function loadBudgetTargets(context: CreditUsageContext): Promise<BudgetTarget[]> {
+  await connectDB()
+
+  const targets: BudgetTarget[] = []
+  const user = await User.findById(context.userId).select('creditBudget creditBudgetAlerts').lean()
+  if (user && hasLimits(user.creditBudget)) {
+    targets.push({
+      scope: 'user',
+      id: user._id,
+      ownerId: user._id,
+      projectName: null,
+      budget: user.creditBudget!,
+      alerts: user.creditBudgetAlerts || {},
+    })
+  }
+
+  const projectId = await resolveUsageProjectId(context)
+  if (projectId) {
+    const project = await Project.findOne({ _id: projectId, userId: context.userId })
+      .select('userId name creditBudget creditBudgetAlerts')
+      .lean()
+    if (project && hasLimits(project.creditBudget)) {
+      targets.push({
+        scope: 'project',
+        id: project._id,
+        ownerId: project.userId,
+        projectName: project.name,
+        budget: project.creditBudget!,
+        alerts: project.creditBudgetAlerts || {},
+      })
+    }
+  }
+
+  return targets
+}
+
+function usageFilter(target: Pick<BudgetTarget, 'scope' | 'id'>) {
+  return target.scope === 'user' ? { userId: target.id } : { projectId: target.id }
+}
+
+/**
+ * Reserve a search's estimated cost against the user's and the chat's project credit budgets,
+ * refusing it if that would take one over its limit
+ * The reservation is a ledger row that usage counts straight away, added before usage is read: two
+ * searches racing for the rest of a budget each see the other's, so at worst both are refused, and
+ * never both let through. Pass the id to recordCreditUsage as the call's reservationId, which turns
+ * it into the charge - or frees it if the call fails.
+ * @param apiKey Key the search will run on, for a cost estimate measured on that key
+ * @returns The reservation's ledger id, or null when no budget applies
+ * @throws CreditBudgetExceededError
+ */
+export async function reserveCreditBudgets(
+  call: CreditCall & { context: CreditUsageContext; jobType: CreditJobType },
+  apiKey: string
+): Promise<string | null> {
+  const targets = await loadBudgetTargets(call.context)
+  if (targets.length === 0) {
+    return null
+  }
+
+  const now = new Date()
+  const { credits: estimatedCost } = await estimateJobCost(call.jobType, call.limit ?? 100, apiKey)
+  const reservationId = await reserveCreditUsage(call, apiKey, estimatedCost)
+
+  try {
+    for (const target of targets) {
+      for (const period of CREDIT_BUDGET_PERIODS) {
+        const limit = target.budget[period]
+        if (typeof limit !== 'number') continue
+
+        const { start, end } = periodBounds(period, now)
+        // Includes this reservation
+        const used = await sumCreditUsage(usageFilter(target), start)
+        if (used > limit) {
+          throw new CreditBudgetExceededError(target, period, used - estimatedCost, estimatedCost, end)
+        }
+      }
+    }
+  } catch (error) {
+    await releaseCreditReservation(reservationId)
+    throw error
+  }
+
+  return reservationId
+}
+
+/**
+ * Email the owner of each budget this call counts against that has reached 80%, at most once per
+ * budget per day or month. Call after the search has been recorded in the ledger.
+ */
+export async function notifyCreditBudgetUsage(context: CreditUsageContext): Promise<void> {
+  const targets = await loadBudgetTargets(context)
+  const now = new Date()
+
+  for (const target of targets) {
+    for (const period of CREDIT_BUDGET_PERIODS) {
+      const limit = target.budget[period]
+      if (typeof limit !== 'number') continue
+
+      const key = periodKey(period, now)
+      if (target.alerts[period] === key) continue
+
+      const used = await sumCreditUsage(usageFilter(target), periodBounds(period, now).start)
+      if (used < limit * BUDGET_WARNING_RATIO) continue
+
+      // Claim the warning first, so concurrent searches send it once
+      const Model: mongoose.Model<any> = target.scope === 'user' ? User : Project
+      const claimed = await Model.updateOne(
+        { _id: target.id, [`creditBudgetAlerts.${period}`]: { $ne: key } },
+        { $set: { [`creditBudgetAlerts.${period}`]: key } }
+      )
+      if (claimed.modifiedCount === 0) continue
+
+      const owner = await User.findById(target.ownerId).select('email name').lean()
+      if (!owner) continue
+
+      await sendCreditBudgetWarningEmail(
+        owner.email,
+        { userName: owner.name, projectName: target.projectName, period, used: Number(formatCredits(used)), limit },
+        { userId: owner._id.toString() }
+      )
+    }
+  }
+}
+
+export interface ProjectCreditBudgetStatus {
+  projectId: string
+  name: string
+  usage: CreditBudgetStatus
+}
+
+async function budgetStatus(target: Pick<BudgetTarget, 'scope' | 'id' | 'budget'>, now: Date): Promise<CreditBudgetStatus> {
+  const status: CreditBudgetStatus = {}
+  for (const period of CREDIT_BUDGET_PERIODS) {
+    const limit = target.budget[period]
+    if (typeof limit !== 'number') continue
+    const { start, end } = periodBounds(period, now)
+    status[period] = { limit, used: await sumCreditUsage(usageFilter(target), start), resetsAt: end }
+  }
+  return status
+}
+
+/**
+ * How much of each budget has been used this day and month
+ * @returns The user's own budget (empty if none) and those of their projects that have one
+ */
+export async function getCreditBudgetStatus(
+  userId: string
+): Promise<{ user: CreditBudgetStatus; projects: ProjectCreditBudgetStatus[] }> {
+  await connectDB()
+
+  const now = new Date()
+  const user = await User.findById(userId).select('creditBudget').lean()
+  const projects = await Project.find({ userId }).select('name creditBudget').sort({ name: 1 }).lean()
+
+  const projectStatus: ProjectCreditBudgetStatus[] = []
+  for (const project of projects) {
+    if (hasLimits(project.creditBudget)) {
+      projectStatus.push({
+        projectId: project._id.toString(),
+        name: project.name,
+        usage: await budgetStatus({ scope: 'project', id: project._id, budget: project.creditBudget! }, now),
+      })
+    }
+  }
+
+  return {
+    user: user && hasLimits(user.creditBudget)
+      ? await budgetStatus({ scope: 'user', id: user._id, budget: user.creditBudget! }, now)
+      : {},
+    projects: projectStatus,
+  }
+}
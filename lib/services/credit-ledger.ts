@@ -0,0 +1,390 @@
+import crypto from 'crypto'
+import mongoose from 'mongoose'
+import connectDB from '@/lib/db'
+import CreditLedger from '@/models/CreditLedger'
+import CreditBalanceReading, { ICreditBalanceReading } from '@/models/CreditBalanceReading'
+import Chat from '@/models/Chat'
+import Project from '@/models/Project'
+import { getCredits } from '@/lib/veritus-api'
+import {
+  CreditEstimate,
+  CreditJobType,
+  CreditOperation,
+  DEFAULT_GET_PAPER_CREDITS,
+  defaultJobCost,
+  requiresCostConfirmation,
+} from '@/lib/utils/credit-cost'
+
+// Measured costs only replace the defaults once there are a few of them
+const MIN_HISTORY_SAMPLES = 3
+const MAX_HISTORY_SAMPLES = 20
+const BALANCE_TIMEOUT_MS = 5000
+// Each API key's balance is read at most this often, after a call on it; well above any call's
+// timeout, so no call is still running across the reading before the latest
+const BALANCE_READ_INTERVAL_MS = 10 * 60 * 1000
+// A reservation left behind by a process that died mid-call stops counting after this long
+const RESERVATION_TTL_MS = 15 * 60 * 1000
+
+/**
+ * Who a Veritus call is made for; the project is looked up from the chat when not given
+ */
+export interface CreditUsageContext {
+  userId: string
+  chatId?: string | null
+  projectId?: string | null
+}
+
+export interface CreditCall {
+  operation: CreditOperation
+  context?: CreditUsageContext
+  jobType?: CreditJobType
+  limit?: number
+  corpusId?: string
+  jobId?: string
+  /** Ledger row reserved for this call (see reserveCreditUsage); completed instead of adding a row */
+  reservationId?: string | null
+}
+
+export interface ProjectCreditUsage {
+  projectId: string | null
+  name: string
+  credits: number
+  calls: number
+  jobs: number
+  papers: number
+  /** Calls that failed, which are not counted in `credits` */
+  failedCalls: number
+}
+
+declare global {
+  var creditLedgerBalanceReads: Map<string, number> | undefined
+}
+
+// When this process last considered reading each key's balance, shared across dev reloads
+const balanceReads = global.creditLedgerBalanceReads || new Map<string, number>()
+
+if (!global.creditLedgerBalanceReads) {
+  global.creditLedgerBalanceReads = balanceReads
+}
+
+function toObjectId(id: string | null | undefined): mongoose.Types.ObjectId | null {
+  return id && mongoose.Types.ObjectId.isValid(id) ? new mongoose.Types.ObjectId(id) : null
+}
+
+/**
+ * Stable identifier for an API key that doesn't reveal it, so ledger rows can be grouped by key
+ */
+export function apiKeyFingerprint(apiKey: string): string {
+  return crypto.createHash('sha256').update(`credit-ledger:${apiKey}`).digest('hex').slice(0, 16)
+}
+
+/**
+ * Total free + pro tier balance, or null if it can't be read right now
+ */
+async function readBalance(apiKey: string): Promise<number | null> {
+  try {
+    const credits = await getCredits({ apiKey, retry: { retries: 0 }, timeoutMs: BALANCE_TIMEOUT_MS })
+    return credits.freeTierCreditsBalance + credits.proTierCreditsBalance
+  } catch (error: any) {
+    console.warn('Could not read Veritus credit balance for the ledger:', error.message)
+    return null
+  }
+}
+
+/**
+ * The project a call is for: given directly, or the project of the user's chat
+ */
+export async function resolveUsageProjectId(context?: CreditUsageContext): Promise<mongoose.Types.ObjectId | null> {
+  if (context?.projectId) {
+    return toObjectId(context.projectId)
+  }
+  const chatId = toObjectId(context?.chatId)
+  const userId = toObjectId(context?.userId)
+  if (!chatId || !userId) {
+    return null
+  }
+  const chat = await Chat.findOne({ _id: chatId, userId }).select('projectId').lean()
+  return chat?.projectId ?? null
+}
+
+/**
+ * What a call is expected to cost: the job estimate for this key, or the getPaper default
+ */
+async function estimateCallCost(call: CreditCall, apiKey: string): Promise<number> {
+  if (call.operation === 'createJob' && call.jobType) {
+    return (await estimateJobCost(call.jobType, call.limit ?? 100, apiKey)).credits
+  }
+  return DEFAULT_GET_PAPER_CREDITS
+}
+
+/**
+ * Measure the cost of the call between two balance readings, if there was exactly one
+ * A call counts as between them only if it started after the first reading came back and returned
+ * before the second was sent; any other call overlapping the interval could have blurred it
+ */
+async function reconcileInterval(fingerprint: string, end: ICreditBalanceReading): Promise<void> {
+  const start = await CreditBalanceReading.findOne({
+    apiKeyFingerprint: fingerprint,
+    requestedAt: { $lt: end.requestedAt },
+  })
+    .sort({ requestedAt: -1 })
+    .lean()
+  if (!start) return
+
+  const calls = await CreditLedger.find({
+    apiKeyFingerprint: fingerprint,
+    startedAt: { $lt: end.receivedAt },
+    createdAt: { $gt: start.requestedAt },
+  })
+    .limit(2)
+    .select('startedAt createdAt status')
+    .lean()
+  if (calls.length !== 1) return
+
+  const [call] = calls
+  const inside = call.startedAt! >= start.receivedAt && call.createdAt <= end.requestedAt
+  if (!inside || call.status !== 'success') return
+
+  // A top-up between the readings would make the difference negative
+  await CreditLedger.updateOne({ _id: call._id }, { $set: { cost: Math.max(0, start.balance - end.balance) } })
+}
+
+/**
+ * Read the key's balance if nobody has in the last BALANCE_READ_INTERVAL_MS, then measure the
+ * interval that ended at the previous reading - by now every call overlapping it has returned
+ * Runs after a call has returned, so it never holds it up
+ */
+async function readBalancePeriodically(apiKey: string, fingerprint: string): Promise<void> {
+  const now = Date.now()
+  if (now - (balanceReads.get(fingerprint) ?? 0) < BALANCE_READ_INTERVAL_MS) return
+  balanceReads.set(fingerprint, now)
+
+  await connectDB()
+
+  // Other processes read the same keys
+  const previous = await CreditBalanceReading.findOne({ apiKeyFingerprint: fingerprint })
+    .sort({ requestedAt: -1 })
+  if (previous && now - previous.requestedAt.getTime() < BALANCE_READ_INTERVAL_MS) return
+
+  const requestedAt = new Date()
+  const balance = await readBalance(apiKey)
+  if (balance === null) return
+  await CreditBalanceReading.create({ apiKeyFingerprint: fingerprint, balance, requestedAt, receivedAt: new Date() })
+
+  if (previous) {
+    await reconcileInterval(fingerprint, previous)
+  }
+}
+
+/**
+ * Who and what a ledger row is for
+ */
+async function ledgerEntry(call: CreditCall, fingerprint: string) {
+  return {
+    userId: toObjectId(call.context?.userId),
+    projectId: await resolveUsageProjectId(call.context),
+    chatId: toObjectId(call.context?.chatId),
+    apiKeyFingerprint: fingerprint,
+    operation: call.operation,
+    jobType: call.jobType ?? null,
+    limit: call.limit ?? null,
+    corpusId: call.corpusId ?? null,
+    jobId: toObjectId(call.jobId),
+  }
+}
+
+/**
+ * Add a 'reserved' ledger row for a call about to be made, charged at its estimate like a
+ * successful call until recordCreditUsage completes it (pass the id as call.reservationId)
+ * @returns The reservation's ledger id
+ */
+export async function reserveCreditUsage(call: CreditCall, apiKey: string, estimatedCost: number): Promise<string> {
+  await connectDB()
+
+  const entry = await CreditLedger.create({
+    ...(await ledgerEntry(call, apiKeyFingerprint(apiKey))),
+    estimatedCost,
+    status: 'reserved',
+    startedAt: new Date(),
+  })
+  return entry._id.toString()
+}
+
+/**
+ * Drop a reservation whose call was never made
+ */
+export async function releaseCreditReservation(reservationId: string): Promise<void> {
+  await connectDB()
+  await CreditLedger.deleteOne({ _id: reservationId, status: 'reserved' })
+}
+
+/**
+ * Make a Veritus call that spends credits, recording it in the credit ledger
+ * The call is charged at its estimated cost, which is what usage and budgets count. The measured
+ * cost is filled in later to improve estimates, from balance readings taken at most every
+ * BALANCE_READ_INTERVAL_MS per key (see readBalancePeriodically), so the only delay added to the
+ * call is the ledger insert.
+ * The ledger never changes the outcome: the call's result or error is passed through, and a
+ * failure to record is only logged.
+ */
+export async function recordCreditUsage<T>(call: CreditCall, apiKey: string, run: () => Promise<T>): Promise<T> {
+  const fingerprint = apiKeyFingerprint(apiKey)
+  const startedAt = new Date()
+  let status: 'success' | 'error' = 'success'
+  let errorMessage: string | null = null
+
+  try {
+    return await run()
+  } catch (error: any) {
+    status = 'error'
+    errorMessage = error?.message || String(error)
+    throw error
+  } finally {
+    try {
+      await connectDB()
+      // A reserved row keeps the estimate it was reserved at
+      const completed = call.reservationId
+        ? await CreditLedger.updateOne(
+            { _id: call.reservationId, status: 'reserved' },
+            { $set: { status, error: errorMessage, startedAt } }
+          )
+        : null
+      if (!completed?.matchedCount) {
+        await CreditLedger.create({
+          ...(await ledgerEntry(call, fingerprint)),
+          estimatedCost: await estimateCallCost(call, apiKey),
+          status,
+          error: errorMessage,
+          startedAt,
+        })
+      }
+    } catch (ledgerError) {
+      console.error(`Failed to record ${call.operation} in the credit ledger:`, ledgerError)
+    }
+
+    readBalancePeriodically(apiKey, fingerprint).catch((error) => {
+      console.error('Failed to reconcile the Veritus credit balance:', error)
+    })
+  }
+}
+
+/**
+ * Expected credit cost of a search job, before running it
+ * Uses the median measured cost of recent jobs of the same type and limit on the same API key
+ * (keys can be on different plans), falling back to the defaults in lib/utils/credit-cost until
+ * there are enough measurements
+ * @param apiKey Key the job will run on; without it, jobs on any key are used
+ */
+export async function estimateJobCost(
+  jobType: CreditJobType,
+  limit: number = 100,
+  apiKey?: string
+): Promise<CreditEstimate> {
+  await connectDB()
+
+  const samples = await CreditLedger.find({
+    operation: 'createJob',
+    jobType,
+    limit,
+    status: 'success',
+    cost: { $ne: null, $gte: 0 },
+    ...(apiKey ? { apiKeyFingerprint: apiKeyFingerprint(apiKey) } : {}),
+  })
+    .sort({ createdAt: -1 })
+    .limit(MAX_HISTORY_SAMPLES)
+    .select('cost')
+    .lean()
+
+  if (samples.length < MIN_HISTORY_SAMPLES) {
+    const credits = defaultJobCost(jobType, limit)
+    return { credits, basis: 'default', samples: samples.length, requiresConfirmation: requiresCostConfirmation(credits) }
+  }
+
+  // Median, so an odd measurement (e.g. a top-up between readings) doesn't skew it
+  const costs = samples.map((sample) => sample.cost as number).sort((a, b) => a - b)
+  const middle = Math.floor(costs.length / 2)
+  const credits = costs.length % 2 ? costs[middle] : (costs[middle - 1] + costs[middle]) / 2
+
+  return { credits, basis: 'history', samples: costs.length, requiresConfirmation: requiresCostConfirmation(credits) }
+}
+
+// Usage counts each successful call at the estimate it was charged at, and so does each recent
+// reservation; failed calls count nothing
+const CHARGED_CREDITS = {
+  $cond: [
+    {
+      $or: [
+        { $eq: ['$status', 'success'] },
+        {
+          $and: [
+            { $eq: ['$status', 'reserved'] },
+            { $gt: ['$createdAt', { $subtract: ['$$NOW', RESERVATION_TTL_MS] }] },
+          ],
+        },
+      ],
+    },
+    { $max: ['$estimatedCost', 0] },
+    0,
+  ],
+}
+
+/**
+ * Credits spent since a date by a user or in a project
+ */
+export async function sumCreditUsage(
+  filter: { userId?: mongoose.Types.ObjectId; projectId?: mongoose.Types.ObjectId },
+  since: Date
+): Promise<number> {
+  await connectDB()
+
+  const [result] = await CreditLedger.aggregate([
+    { $match: { ...filter, createdAt: { $gte: since } } },
+    { $group: { _id: null, credits: { $sum: CHARGED_CREDITS } } },
+  ])
+  return result?.credits ?? 0
+}
+
+/**
+ * Credits the user spent per project over the last `days` days, highest first
+ * Calls outside any project (e.g. imports, bookmark digests) are grouped under projectId null
+ */
+export async function getCreditUsageByProject(userId: string, days: number = 30): Promise<ProjectCreditUsage[]> {
+  await connectDB()
+
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+  const groups: Array<{
+    _id: mongoose.Types.ObjectId | null
+    credits: number
+    calls: number
+    jobs: number
+    papers: number
+    failedCalls: number
+  }> = await CreditLedger.aggregate([
+    { $match: { userId: new mongoose.Types.ObjectId(userId), createdAt: { $gte: since } } },
+    {
+      $group: {
+        _id: '$projectId',
+        credits: { $sum: CHARGED_CREDITS },
+        calls: { $sum: 1 },
+        jobs: { $sum: { $cond: [{ $eq: ['$operation', 'createJob'] }, 1, 0] } },
+        papers: { $sum: { $cond: [{ $eq: ['$operation', 'getPaper'] }, 1, 0] } },
+        failedCalls: { $sum: { $cond: [{ $eq: ['$status', 'error'] }, 1, 0] } },
+      },
+    },
+    { $sort: { credits: -1 } },
+  ])
+
+  const projectIds = groups.map((group) => group._id).filter((id): id is mongoose.Types.ObjectId => !!id)
+  const projects = await Project.find({ _id: { $in: projectIds }, userId }).select('name').lean()
+  const names = new Map(projects.map((project) => [project._id.toString(), project.name]))
+
+  return groups.map((group) => ({
+    projectId: group._id ? group._id.toString() : null,
+    name: group._id ? names.get(group._id.toString()) || 'Deleted project' : 'No project',
+    credits: group.credits,
+    calls: group.calls,
+    jobs: group.jobs,
+    papers: group.papers,
+    failedCalls: group.failedCalls,
+  }))
+}
@@ -0,0 +1,102 @@
+import crypto from 'crypto'
+import { EmailFooterLinks } from '@/lib/email-templates'
+
+const TOKEN_PURPOSE = 'email-preferences'
+// Long enough that links in old digests keep working
+const EMAIL_LINK_TTL_MS = 90 * 24 * 60 * 60 * 1000
+
+interface EmailLinkPayload {
+  purpose: typeof TOKEN_PURPOSE
+  userId: string
+  /** Expiry, ms since epoch */
+  exp: number
+}
+
+// Deliberately no fallback to JWT_SECRET: a leaked link secret shouldn't also forge sessions
+function getEmailLinkSecret(): string | null {
+  const secret = process.env.EMAIL_LINK_SECRET || null
+  if (!secret && process.env.NODE_ENV === 'production') {
+    throw new Error('EMAIL_LINK_SECRET must be set in production to sign email links')
+  }
+  return secret
+}
+
+function sign(data: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(data).digest('base64url')
+}
+
+/**
+ * Signed, expiring token that lets whoever holds an email manage that user's email preferences
+ * without logging in
+ */
+export function createEmailLinkToken(userId: string, now: Date = new Date()): string | null {
+  const secret = getEmailLinkSecret()
+  if (!secret) {
+    return null
+  }
+
+  const payload: EmailLinkPayload = { purpose: TOKEN_PURPOSE, userId, exp: now.getTime() + EMAIL_LINK_TTL_MS }
+  const data = Buffer.from(JSON.stringify(payload)).toString('base64url')
+  return `${data}.${sign(data, secret)}`
+}
+
+/**
+ * Check a token's signature (in constant time) and expiry
+ * @returns The user the token was issued for, or null
+ */
+export function verifyEmailLinkToken(token: string | null, now: Date = new Date()): string | null {
+  const secret = getEmailLinkSecret()
+  if (!secret || !token) {
+    return null
+  }
+
+  const [data, signature] = token.split('.')
+  if (!data || !signature) {
+    return null
+  }
+
+  const expected = sign(data, secret)
+  if (signature.length !== expected.length || !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+    return null
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(data, 'base64url').toString('utf8')) as EmailLinkPayload
+    if (payload.purpose !== TOKEN_PURPOSE || typeof payload.userId !== 'string' || payload.exp < now.getTime()) {
+      return null
+    }
+    return payload.userId
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Unsubscribe, pause and preferences links for the footer of an email to a user
+ * Returns undefined when APP_URL or (outside production) EMAIL_LINK_SECRET is not set, since the
+ * links would not work
+ */
+export function buildEmailLinks(userId: string): EmailFooterLinks | undefined {
+  const appUrl = process.env.APP_URL
+  const token = createEmailLinkToken(userId)
+  if (!appUrl || !token) {
+    return undefined
+  }
+
+  const base = appUrl.replace(/\/+$/, '')
+  const pageUrl = (action?: string) => {
+    const url = new URL('/email-preferences', base)
+    url.searchParams.set('token', token)
+    if (action) url.searchParams.set('action', action)
+    return url.toString()
+  }
+  const oneClickUrl = new URL('/api/email/unsubscribe', base)
+  oneClickUrl.searchParams.set('token', token)
+
+  return {
+    oneClickUnsubscribeUrl: oneClickUrl.toString(),
+    unsubscribeUrl: pageUrl('unsubscribe'),
+    pauseUrl: pageUrl('pause'),
+    preferencesUrl: pageUrl(),
+  }
+}
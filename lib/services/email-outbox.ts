@@ -0,0 +1,210 @@
+import connectDB from '@/lib/db'
+import EmailOutbox, { IEmailOutbox } from '@/models/EmailOutbox'
+import { EmailTemplateName } from '@/lib/email-templates'
+import { deliverEmail, OutgoingEmail } from '@/lib/utils/email-transport'
+
+const MINUTE_MS = 60 * 1000
+// Retries back off 5, 10, 20... minutes, capped at 6 hours; the worker runs every 5 minutes
+const RETRY_BASE_DELAY_MS = 5 * MINUTE_MS
+const RETRY_MAX_DELAY_MS = 6 * 60 * MINUTE_MS
+// Messages that expire (one-time codes) back off 1, 2, 4... minutes instead, so retries land while
+// the code still works
+const EXPIRING_RETRY_BASE_DELAY_MS = MINUTE_MS
+// A worker that dies mid-send leaves the message in 'sending'; after this long it is retried
+const STALE_LOCK_MS = 10 * MINUTE_MS
+const DEFAULT_MAX_ATTEMPTS = 8
+
+export interface EnqueueEmailOptions {
+  template: EmailTemplateName
+  userId?: string
+  /** 1 disables retries */
+  maxAttempts?: number
+  /**
+   * Queue the message without attempting delivery, for callers that must respond first: they
+   * start it with deliverQueuedEmail, and if that never runs the outbox worker sends it
+   */
+  defer?: boolean
+  /**
+   * For messages carrying a secret such as a one-time code: not delivered after this time, and the
+   * row (body included) is deleted then
+   */
+  expiresAt?: Date
+}
+
+export interface DrainOutboxResult {
+  sent: number
+  retrying: number
+  failed: number
+  /** Messages found stuck in 'sending' and put back in the queue */
+  recovered: number
+}
+
+function retryDelayMs(attempts: number, expiring: boolean): number {
+  const baseDelay = expiring ? EXPIRING_RETRY_BASE_DELAY_MS : RETRY_BASE_DELAY_MS
+  const delay = Math.min(baseDelay * Math.pow(2, attempts - 1), RETRY_MAX_DELAY_MS)
+  // +/-20% jitter so messages that failed together don't all retry together
+  return Math.round(delay * (0.8 + Math.random() * 0.4))
+}
+
+/**
+ * Make one delivery attempt for a message already claimed (status 'sending') and record the outcome
+ */
+async function attemptDelivery(message: IEmailOutbox, now: Date = new Date()): Promise<IEmailOutbox> {
+  if (message.expiresAt && message.expiresAt <= now) {
+    const expired = await EmailOutbox.findByIdAndUpdate(
+      message._id,
+      {
+        $set: { status: 'failed', lastError: 'Expired before it could be delivered', updatedAt: new Date() },
+        $unset: { html: 1, text: 1, lockedAt: 1 },
+      },
+      { new: true }
+    )
+    return expired || message
+  }
+
+  const attempts = message.attempts + 1
+
+  try {
+    const result = await deliverEmail({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      html: message.html || '',
+      text: message.text || '',
+      headers: message.headers,
+    })
+
+    const sent = await EmailOutbox.findByIdAndUpdate(
+      message._id,
+      {
+        $set: { status: 'sent', attempts, sentAt: new Date(), messageId: result.messageId, updatedAt: new Date() },
+        $unset: { html: 1, text: 1, lockedAt: 1 },
+      },
+      { new: true }
+    )
+    return sent || message
+  } catch (error: any) {
+    const lastError = error?.message || String(error)
+    const nextAttemptAt = new Date(now.getTime() + retryDelayMs(attempts, Boolean(message.expiresAt)))
+    const expiresFirst = Boolean(message.expiresAt && nextAttemptAt >= message.expiresAt)
+    const exhausted = attempts >= message.maxAttempts || expiresFirst
+    console.error(`Email ${message._id} to ${message.to} failed (attempt ${attempts}/${message.maxAttempts}): ${lastError}`)
+
+    const update = exhausted
+      ? {
+          $set: { status: 'failed', attempts, lastError, updatedAt: new Date() },
+          $unset: { html: 1, text: 1, lockedAt: 1 },
+        }
+      : {
+          $set: {
+            status: 'pending',
+            attempts,
+            lastError,
+            nextAttemptAt,
+            updatedAt: new Date(),
+          },
+          $unset: { lockedAt: 1 },
+        }
+    const failed = await EmailOutbox.findByIdAndUpdate(message._id, update, { new: true })
+    return failed || message
+  }
+}
+
+/**
+ * Record an email in the outbox and make the first delivery attempt straight away
+ * A failed attempt does not throw: the message stays queued and the outbox worker retries it.
+ * Check the returned message's status when the caller needs to know.
+ */
+export async function enqueueEmail(email: OutgoingEmail, options: EnqueueEmailOptions): Promise<IEmailOutbox> {
+  await connectDB()
+
+  const now = new Date()
+  const message = await EmailOutbox.create({
+    ...email,
+    userId: options.userId,
+    template: options.template,
+    maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    status: options.defer ? 'pending' : 'sending',
+    lockedAt: options.defer ? undefined : now,
+    nextAttemptAt: now,
+    expiresAt: options.expiresAt,
+  })
+
+  if (options.defer) return message
+  return attemptDelivery(message, now)
+}
+
+/**
+ * Make the first delivery attempt for a message queued with defer
+ * Claims the message atomically, so it is never sent twice if the worker gets to it first
+ * @returns The message after the attempt, or null when it was no longer pending
+ */
+export async function deliverQueuedEmail(messageId: string): Promise<IEmailOutbox | null> {
+  await connectDB()
+
+  const message = await EmailOutbox.findOneAndUpdate(
+    { _id: messageId, status: 'pending' },
+    { $set: { status: 'sending', lockedAt: new Date(), updatedAt: new Date() } },
+    { new: true }
+  )
+  if (!message) return null
+
+  return attemptDelivery(message)
+}
+
+/**
+ * Deliver queued messages whose next attempt is due, oldest first
+ * Each message is claimed atomically, so overlapping worker runs never send the same message twice
+ */
+export async function drainEmailOutbox(limit: number = 50, now: Date = new Date()): Promise<DrainOutboxResult> {
+  await connectDB()
+
+  const recovery = await EmailOutbox.updateMany(
+    { status: 'sending', lockedAt: { $lt: new Date(now.getTime() - STALE_LOCK_MS) } },
+    { $set: { status: 'pending', nextAttemptAt: now, updatedAt: now }, $unset: { lockedAt: 1 } }
+  )
+
+  const result: DrainOutboxResult = { sent: 0, retrying: 0, failed: 0, recovered: recovery.modifiedCount }
+
+  for (let i = 0; i < limit; i++) {
+    const message = await EmailOutbox.findOneAndUpdate(
+      { status: 'pending', nextAttemptAt: { $lte: now } },
+      { $set: { status: 'sending', lockedAt: new Date(), updatedAt: new Date() } },
+      { sort: { nextAttemptAt: 1 }, new: true }
+    )
+    if (!message) break
+
+    const outcome = await attemptDelivery(message)
+    if (outcome.status === 'sent') result.sent++
+    else if (outcome.status === 'failed') result.failed++
+    else result.retrying++
+  }
+
+  return result
+}
+
+/**
+ * A user's most recent emails and their delivery state, newest first
+ */
+export async function getEmailDeliveryLog(userId: string, limit: number = 20) {
+  await connectDB()
+
+  const messages = await EmailOutbox.find({ userId })
+    .sort({ createdAt: -1 })
+    .limit(limit)
+    .select('to subject template status attempts lastError nextAttemptAt sentAt createdAt')
+    .lean()
+
+  return messages.map((message) => ({
+    id: String(message._id),
+    to: message.to,
+    subject: message.subject,
+    template: message.template,
+    status: message.status,
+    attempts: message.attempts,
+    lastError: message.lastError || null,
+    nextAttemptAt: message.status === 'pending' ? message.nextAttemptAt.toISOString() : null,
+    sentAt: message.sentAt ? message.sentAt.toISOString() : null,
+    createdAt: message.createdAt.toISOString(),
+  }))
+}
@@ -0,0 +1,78 @@
+import { IUser } from '@/models/User'
+import { resolveDigestPreferences, validateDigestPreferences } from '@/lib/utils/digest-schedule'
+import { DigestPreferences } from '@/types'
+
+export const EMAIL_PAUSE_DAYS = 30
+
+export interface EmailPreferencesUpdate {
+  enabled?: unknown
+  /** true pauses digests for EMAIL_PAUSE_DAYS, false resumes them */
+  pause?: unknown
+  digest?: unknown
+}
+
+/**
+ * A user's email settings as returned by the preferences endpoints
+ */
+export function serializeEmailPreferences(user: IUser) {
+  const pausedUntil = user.emailNotificationsPausedUntil && user.emailNotificationsPausedUntil > new Date()
+    ? user.emailNotificationsPausedUntil.toISOString()
+    : null
+
+  return {
+    enabled: user.emailNotificationsEnabled !== false,
+    pausedUntil,
+    digest: resolveDigestPreferences(user.digestPreferences),
+  }
+}
+
+/**
+ * Validate and apply a preferences update to a user document (the caller saves it)
+ * @returns An error message for the client, or null when the update was applied
+ */
+export function applyEmailPreferencesUpdate(user: IUser, update: EmailPreferencesUpdate, now: Date = new Date()): string | null {
+  const { enabled, pause, digest } = update
+
+  if (enabled === undefined && pause === undefined && digest === undefined) {
+    return 'enabled, pause or digest is required'
+  }
+  if (enabled !== undefined && typeof enabled !== 'boolean') {
+    return 'enabled must be a boolean'
+  }
+  if (pause !== undefined && typeof pause !== 'boolean') {
+    return 'pause must be a boolean'
+  }
+  if (digest !== undefined) {
+    if (typeof digest !== 'object' || digest === null) {
+      return 'digest must be an object'
+    }
+    const digestError = validateDigestPreferences(digest as Record<string, unknown>)
+    if (digestError) {
+      return digestError
+    }
+  }
+
+  if (enabled !== undefined) {
+    user.emailNotificationsEnabled = enabled
+    // Turning emails back on ends any pause
+    if (enabled) {
+      user.emailNotificationsPausedUntil = null
+    }
+  }
+  if (pause !== undefined) {
+    user.emailNotificationsPausedUntil = pause
+      ? new Date(now.getTime() + EMAIL_PAUSE_DAYS * 24 * 60 * 60 * 1000)
+      : null
+  }
+  if (digest !== undefined) {
+    const { frequency, timezone, sendHour, sendDay, papersPerDigest } = digest as Partial<DigestPreferences>
+    user.digestPreferences = {
+      ...resolveDigestPreferences(user.digestPreferences),
+      ...Object.fromEntries(
+        Object.entries({ frequency, timezone, sendHour, sendDay, papersPerDigest }).filter(([, value]) => value !== undefined)
+      ),
+    }
+  }
+
+  return null
+}
@@ -0,0 +1,51 @@
+import crypto from 'crypto'
+import { isReplayMode } from '@/lib/config/mock-config'
+
+const CALLBACK_PATH = '/api/veritus/job/callback'
+
+// Deliberately no fallback to JWT_SECRET: a leaked callback secret shouldn't also forge sessions
+function getCallbackSecret(): string | null {
+  return process.env.VERITUS_CALLBACK_SECRET || null
+}
+
+/**
+ * HMAC signature for a job's callback URL
+ * Veritus echoes the URL back verbatim, so the signature travels in the query string
+ */
+export function signJobCallback(jobId: string): string | null {
+  const secret = getCallbackSecret()
+  if (!secret) {
+    return null
+  }
+  return crypto.createHmac('sha256', secret).update(jobId).digest('hex')
+}
+
+/**
+ * Check a callback signature in constant time
+ */
+export function verifyJobCallback(jobId: string, signature: string | null): boolean {
+  const expected = signJobCallback(jobId)
+  if (!expected || !signature || signature.length !== expected.length) {
+    return false
+  }
+  return crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+}
+
+/**
+ * Build the signed callback URL Veritus should notify when the job finishes
+ * Returns undefined when APP_URL or VERITUS_CALLBACK_SECRET is not set (Veritus cannot reach a
+ * local dev server), and the job runner falls back to polling. Also undefined when replaying a cassette, where no
+ * callback will ever arrive
+ */
+export function buildJobCallbackUrl(jobId: string): string | undefined {
+  const appUrl = process.env.APP_URL
+  const signature = signJobCallback(jobId)
+  if (!appUrl || !signature || isReplayMode()) {
+    return undefined
+  }
+
+  const url = new URL(CALLBACK_PATH, appUrl.replace(/\/+$/, ''))
+  url.searchParams.set('jobId', jobId)
+  url.searchParams.set('signature', signature)
+  return url.toString()
+}
@@ -0,0 +1,426 @@
+import connectDB from '@/lib/db'
+import Job, { IJob, JobStatus } from '@/models/Job'
+import { createJob, getJobStatus, CreateJobParams, CreateJobBody } from '@/lib/veritus-api'
+import { VeritusApiError } from '@/lib/veritus-errors'
+import { getVeritusApiKeyForUser } from '@/lib/veritus-auth'
+import { isDebugMode } from '@/lib/config/mock-config'
+import { createMockJob, getMockJobStatus, isMockJobId } from '@/lib/mock-data/mock-veritus-engine'
+import { storeSimilarPapersInChat } from '@/lib/chat-paper-integration'
+import { buildJobCallbackUrl } from './job-callback'
+import { cachePapers } from './paper-cache'
+import { recordCreditUsage } from './credit-ledger'
+import { reserveCreditBudgets, notifyCreditBudgetUsage } from './credit-budgets'
+import { VeritusPaper } from '@/types/veritus'
+import mongoose from 'mongoose'
+import delay from './utils/delay'
+
+const POLL_INTERVAL_MS = 2000
+const MAX_JOB_AGE_MS = 30 * 60 * 1000 // Give up on jobs that have not finished after 30 minutes
+const CALLBACK_FALLBACK_MS = 2 * 60 * 1000 // Start polling Veritus if a registered callback has not arrived
+const ACTIVE_STATUSES: JobStatus[] = ['queued', 'processing']
+const RUN_JOB_TIMEOUT_MS = 60 * 1000 // How long runJob waits inline unless the caller says otherwise
+
+declare global {
+  var jobTrackers: Map<string, Promise<IJob | null>> | undefined
+}
+
+// One tracker per job per process, kept on global so dev reloads don't start duplicates
+const trackers: Map<string, Promise<IJob | null>> = global.jobTrackers || new Map()
+
+if (!global.jobTrackers) {
+  global.jobTrackers = trackers
+}
+
+export interface SubmitJobOptions {
+  userId: string
+  chatId?: string | null
+  context?: Record<string, any>
+  apiKey?: string
+}
+
+export interface WaitForJobOptions {
+  timeoutMs?: number
+  apiKey?: string
+}
+
+/**
+ * runJob gave up waiting; the job runner keeps tracking the job, and stores its results in the chat
+ * it was started from when it finishes
+ */
+export class JobStillRunningError extends Error {
+  jobId: string
+
+  constructor(jobId: string) {
+    super('Job is still processing')
+    this.name = 'JobStillRunningError'
+    this.jobId = jobId
+  }
+}
+
+export interface JobStatusUpdate {
+  status: JobStatus
+  results?: any[]
+  error?: string
+}
+
+/**
+ * Whether a job is still waiting on Veritus
+ */
+export function isActiveStatus(status: JobStatus): boolean {
+  return ACTIVE_STATUSES.includes(status)
+}
+
+/**
+ * Whether the job should keep waiting for its callback instead of polling Veritus
+ */
+function isAwaitingCallback(job: IJob): boolean {
+  return (
+    !!job.callbackRegisteredAt &&
+    !job.callbackReceivedAt &&
+    Date.now() - job.callbackRegisteredAt.getTime() < CALLBACK_FALLBACK_MS
+  )
+}
+
+/**
+ * Store a finished job's results in the chat it was started from
+ * Citation tree searches are skipped: the tree stores them as children of a node instead
+ */
+async function storeJobResults(job: IJob): Promise<void> {
+  const results = (job.results || []) as VeritusPaper[]
+  if (!job.chatId || job.consumedAt || results.length === 0 || job.context?.source === 'citation-tree') {
+    return
+  }
+
+  try {
+    const stored = await storeSimilarPapersInChat(
+      job.chatId.toString(),
+      job.userId.toString(),
+      results,
+      isMockJobId(job.veritusJobId)
+    )
+    if (stored) {
+      job.consumedAt = new Date()
+      await Job.updateOne({ _id: job._id }, { $set: { consumedAt: job.consumedAt } })
+    }
+  } catch (error) {
+    // Not fatal - the client stores unconsumed results when it picks the job up
+    console.error(`Error storing results of job ${job._id}:`, error)
+  }
+}
+
+/**
+ * Record a status polled from Veritus
+ * Written with one conditional update that only applies while the job is still active, so when the
+ * poller, a callback or another instance finish the same job at once, only the one that wins stores
+ * the results
+ * @returns The job as stored afterwards
+ */
+async function applyJobStatus(job: IJob, update: JobStatusUpdate): Promise<IJob> {
+  const now = new Date()
+  const changes: Record<string, any> = { status: update.status, lastPolledAt: now, updatedAt: now }
+  if (update.status === 'success') {
+    changes.results = update.results || []
+  } else if (update.status === 'error') {
+    changes.error = update.error || 'Veritus job failed'
+  }
+  if (!isActiveStatus(update.status)) {
+    changes.completedAt = now
+  }
+
+  const updated = await Job.findOneAndUpdate(
+    { _id: job._id, status: { $in: ACTIVE_STATUSES } },
+    { $set: changes, $inc: { attempts: 1 } },
+    { new: true }
+  )
+  if (!updated) {
+    // Finished by someone else in the meantime
+    return (await Job.findById(job._id)) || job
+  }
+
+  if (updated.status === 'success') {
+    await storeJobResults(updated)
+
+    // Warm the paper cache so opening any of the results doesn't cost another request
+    if (!isMockJobId(updated.veritusJobId)) {
+      cachePapers(updated.results || []).catch((error) => {
+        console.error(`Error caching results of job ${updated._id}:`, error)
+      })
+    }
+  }
+
+  return updated
+}
+
+/**
+ * Create a Veritus job, persist it and start tracking it in the background
+ * A signed callback URL is registered when APP_URL is configured; polling is the fallback
+ * Every job that spends credits reserves its estimated cost against the user's and the chat's
+ * project credit budgets first, whichever route or cron submits it.
+ * In DEBUG mode the job is created on the mock Veritus engine instead, and costs nothing
+ * @throws CreditBudgetExceededError if the job would take a budget over its limit
+ */
+export async function submitJob(
+  params: CreateJobParams,
+  body: CreateJobBody,
+  options: SubmitJobOptions
+): Promise<IJob> {
+  await connectDB()
+
+  // The id is needed up front so it can be signed into the callback URL
+  const jobId = new mongoose.Types.ObjectId()
+
+  let veritusJobId: string
+  let callbackUrl: string | undefined
+  if (isDebugMode()) {
+    veritusJobId = (await createMockJob()).jobId
+  } else {
+    const apiKey = options.apiKey || await getVeritusApiKeyForUser(options.userId)
+    const usage = { userId: options.userId, chatId: options.chatId }
+    const call = {
+      operation: 'createJob' as const,
+      context: usage,
+      jobType: params.jobType,
+      limit: params.limit,
+      jobId: jobId.toString(),
+    }
+
+    callbackUrl = buildJobCallbackUrl(jobId.toString())
+    const reservationId = await reserveCreditBudgets(call, apiKey)
+    const response = await recordCreditUsage({ ...call, reservationId }, apiKey, () =>
+      createJob(params, { ...body, callbackUrl }, { apiKey })
+    )
+    veritusJobId = response.jobId
+
+    notifyCreditBudgetUsage(usage).catch((error) => {
+      console.error('Error sending credit budget warning:', error)
+    })
+  }
+
+  const { jobType, ...jobParams } = params
+  const job = new Job({
+    _id: jobId,
+    userId: options.userId,
+    chatId: options.chatId && mongoose.Types.ObjectId.isValid(options.chatId) ? options.chatId : undefined,
+    jobType,
+    params: jobParams,
+    body,
+    context: options.context,
+    veritusJobId,
+    status: 'queued',
+    callbackRegisteredAt: callbackUrl ? new Date() : undefined,
+  })
+  await job.save()
+
+  // Fire and forget - callers that need the results use waitForJob
+  trackJob(job._id.toString(), options.apiKey).catch((error) => {
+    console.error(`Job tracker for ${job._id} failed:`, error)
+  })
+
+  return job
+}
+
+/**
+ * Poll Veritus once and persist the job's new state
+ */
+export async function refreshJob(job: IJob, apiKey?: string): Promise<IJob> {
+  if (!isActiveStatus(job.status)) {
+    return job
+  }
+
+  if (Date.now() - job.createdAt.getTime() > MAX_JOB_AGE_MS) {
+    return applyJobStatus(job, { status: 'error', error: 'Job did not complete within 30 minutes' })
+  }
+
+  let update: JobStatusUpdate
+  try {
+    const status = isMockJobId(job.veritusJobId)
+      ? await getMockJobStatus(job.veritusJobId!, { jobType: job.jobType, ...job.params })
+      : await getJobStatus(job.veritusJobId!, {
+          apiKey: apiKey || await getVeritusApiKeyForUser(job.userId.toString()),
+        })
+    update = {
+      status: status.status,
+      results: status.results,
+      error: (status as any).error,
+    }
+  } catch (error) {
+    // Rate limits and outages are retried on the next tick; anything else won't get better
+    if (!(error instanceof VeritusApiError) || error.retryable) {
+      throw error
+    }
+    update = { status: 'error', error: error.message }
+  }
+
+  return applyJobStatus(job, update)
+}
+
+/**
+ * Track a job until it reaches a terminal state
+ * Returns the existing tracker if this process is already following the job
+ */
+export function trackJob(jobId: string, apiKey?: string): Promise<IJob | null> {
+  const existing = trackers.get(jobId)
+  if (existing) {
+    return existing
+  }
+
+  const tracker = (async () => {
+    await connectDB()
+    let job: IJob | null = await Job.findById(jobId)
+
+    while (job && isActiveStatus(job.status)) {
+      await delay(POLL_INTERVAL_MS)
+      try {
+        // Reload first - a callback handled by another request may have completed the job
+        job = await Job.findById(jobId)
+        if (job && isActiveStatus(job.status) && !isAwaitingCallback(job)) {
+          job = await refreshJob(job, apiKey)
+        }
+      } catch (error) {
+        // Transient failures are retried on the next tick; refreshJob expires stuck jobs
+        console.error(`Error polling job ${jobId}:`, error)
+      }
+    }
+
+    return job
+  })().finally(() => {
+    trackers.delete(jobId)
+  })
+
+  trackers.set(jobId, tracker)
+  return tracker
+}
+
+/**
+ * Handle the callback webhook for a job
+ * Only the callback URL is signed, not its body, so the body isn't trusted for the outcome: the
+ * callback just prompts an immediate poll. If that poll fails, the job goes back to regular polling.
+ * Callbacks for jobs that already finished (e.g. completed by the polling fallback) are ignored
+ */
+export async function completeJobFromCallback(job: IJob): Promise<IJob> {
+  if (!isActiveStatus(job.status)) {
+    return job
+  }
+
+  job.callbackReceivedAt = new Date()
+  await Job.updateOne({ _id: job._id }, { $set: { callbackReceivedAt: job.callbackReceivedAt } })
+
+  return refreshJob(job)
+}
+
+/**
+ * Make sure a job is being followed by this process
+ * Polls inline when the stored state is stale, which covers restarts and serverless instances
+ * where the original tracker is no longer running
+ */
+export async function resumeJob(job: IJob): Promise<IJob> {
+  if (!isActiveStatus(job.status)) {
+    return job
+  }
+
+  const jobId = job._id.toString()
+  const lastPolled = job.lastPolledAt || job.createdAt
+  let current = job
+  if (
+    !trackers.has(jobId) &&
+    !isAwaitingCallback(job) &&
+    Date.now() - lastPolled.getTime() > POLL_INTERVAL_MS * 2
+  ) {
+    current = await refreshJob(job)
+  }
+
+  if (isActiveStatus(current.status)) {
+    trackJob(jobId).catch((error) => {
+      console.error(`Job tracker for ${jobId} failed:`, error)
+    })
+  }
+
+  return current
+}
+
+/**
+ * Wait for a job to finish, or until the timeout elapses
+ * Returns the job in whatever state it is in at that point
+ */
+export async function waitForJob(
+  jobId: string,
+  options: WaitForJobOptions = {}
+): Promise<IJob | null> {
+  const tracker = trackJob(jobId, options.apiKey)
+
+  if (!options.timeoutMs) {
+    return tracker
+  }
+
+  const timeout = delay(options.timeoutMs).then(async () => {
+    await connectDB()
+    return Job.findById(jobId)
+  })
+
+  return Promise.race([tracker, timeout])
+}
+
+/**
+ * Submit a job and wait for its results
+ * Used by server-side callers that need the papers inline (corpus search, notifications)
+ * Waits up to a minute by default, so a slow job can't hold a request or the digest cron for the
+ * 30 minutes a job may take
+ * @throws JobStillRunningError if the job hasn't finished within the timeout
+ * @throws CreditBudgetExceededError if the job would take a credit budget over its limit
+ */
+export async function runJob(
+  params: CreateJobParams,
+  body: CreateJobBody,
+  options: SubmitJobOptions & WaitForJobOptions
+): Promise<VeritusPaper[]> {
+  const job = await submitJob(params, body, options)
+  const finished = await waitForJob(job._id.toString(), {
+    ...options,
+    timeoutMs: options.timeoutMs ?? RUN_JOB_TIMEOUT_MS,
+  })
+
+  if (!finished) {
+    throw new Error('Job not found')
+  }
+  if (finished.status === 'error') {
+    throw new Error(finished.error || 'Veritus job failed')
+  }
+  if (isActiveStatus(finished.status)) {
+    throw new JobStillRunningError(finished._id.toString())
+  }
+
+  return (finished.results || []) as VeritusPaper[]
+}
+
+/**
+ * Load a job owned by the given user
+ */
+export async function getJobForUser(jobId: string, userId: string): Promise<IJob | null> {
+  if (!mongoose.Types.ObjectId.isValid(jobId)) {
+    return null
+  }
+
+  await connectDB()
+  return Job.findOne({ _id: jobId, userId })
+}
+
+/**
+ * Shape a job for API responses
+ * Keeps the VeritusJobStatus fields (status, results) so existing clients keep working
+ */
+export function serializeJob(job: IJob, includeResults: boolean = true) {
+  return {
+    jobId: job._id.toString(),
+    jobType: job.jobType,
+    status: job.status,
+    results: includeResults ? job.results : undefined,
+    resultCount: Array.isArray(job.results) ? job.results.length : 0,
+    error: job.error,
+    chatId: job.chatId?.toString(),
+    context: job.context,
+    createdAt: job.createdAt,
+    completedAt: job.completedAt,
+    consumedAt: job.consumedAt,
+    isMocked: isMockJobId(job.veritusJobId),
+  }
+}
@@ -1,36 +1,46 @@
-import { veritusClient } from './veritus-client'
-import delay from './utils/delay'
+import { runJob } from './job-runner'
+import { CreateJobParams } from '@/lib/veritus-api'
+
+interface RunCombinedSearchOptions {
+  userId: string
+  chatId?: string | null
+  apiKey?: string
+}
+
+/**
+ * Smallest result limit Veritus accepts that covers the requested number of papers
+ */
+function toJobLimit(limit: number): NonNullable<CreateJobParams['limit']> {
+  if (limit <= 100) return 100
+  if (limit <= 200) return 200
+  return 300
+}
 
 /**
- * Run combined search with job polling
- * Creates a job, polls every 2 seconds until completion (max 30 attempts = 60 seconds)
+ * Run combined search through the server-side job runner
+ * The job is persisted and tracked to completion, so it survives the caller going away
  * @param phrases Array of search phrases
  * @param query Search query string
- * @param limit Maximum number of results
+ * @param limit Maximum number of results; the job asks for the next limit Veritus accepts (100, 200
+ *   or 300), so callers trim the results
+ * @param options Job owner and optional chat/API key (the owner's own key when omitted)
  * @returns Array of papers from search results
+ * @throws JobStillRunningError if the search takes longer than runJob waits
+ * @throws CreditBudgetExceededError if the search would take a credit budget over its limit
  */
 export async function runCombinedSearch(
   phrases: string[],
   query: string,
-  limit: number = 50
+  limit: number = 50,
+  options: RunCombinedSearchOptions
 ): Promise<any[]> {
-  const jobId = await veritusClient.createCombinedSearchJob(phrases, query, limit)
-
-  // Poll job status every 2 seconds, max 30 attempts (60 seconds total)
-  for (let i = 0; i < 30; i++) {
-    const status = await veritusClient.getJobStatus(jobId)
-
-    if (status.status === 'success') {
-      return status.results || []
-    }
-    if (status.status === 'error') {
-      throw new Error(status.error || 'Veritus job failed')
+  return runJob(
+    { jobType: 'combinedSearch', limit: toJobLimit(limit) },
+    { phrases, query, enrich: false },
+    {
+      userId: options.userId,
+      chatId: options.chatId,
+      apiKey: options.apiKey,
     }
-
-    // Wait 2 seconds before next poll
-    await delay(2000)
-  }
-
-  throw new Error('Job polling timed out after 60 seconds')
+  )
 }
-
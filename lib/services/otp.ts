@@ -0,0 +1,178 @@
+import crypto from 'crypto'
+import connectDB from '@/lib/db'
+import OTP, { IOTP, OTPPurpose } from '@/models/OTP'
+import OTPSendWindow from '@/models/OTPSendWindow'
+
+export const OTP_EXPIRY_MINUTES = 10
+// A code stops working after this many wrong guesses; with the send quotas below that caps
+// guessing at a few dozen tries per hour against a million codes
+export const OTP_MAX_ATTEMPTS = 5
+const OTP_RESEND_COOLDOWN_SECONDS = 60
+const OTP_SENDS_PER_EMAIL_PER_HOUR = 5
+const OTP_SENDS_PER_IP_PER_HOUR = 20
+const HOUR_MS = 60 * 60 * 1000
+const DUPLICATE_KEY_ERROR = 11000
+
+export type OTPSendQuota = { allowed: true } | { allowed: false; retryAfterSeconds: number }
+
+// Deliberately no fallback to JWT_SECRET: a leaked code key shouldn't also forge sessions
+function getOTPSecret(): string {
+  const secret = process.env.OTP_SECRET
+  if (secret) return secret
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('OTP_SECRET must be set in production to hash one-time codes')
+  }
+  return 'development-otp-secret'
+}
+
+/**
+ * Keyed hash of a code, bound to its email and purpose
+ * Six digits are trivial to brute-force from a plain hash, so the key stays on the server
+ */
+function hashOTP(email: string, purpose: OTPPurpose, otp: string): string {
+  return crypto.createHmac('sha256', getOTPSecret()).update(`${purpose}:${email}:${otp}`).digest('hex')
+}
+
+/**
+ * Generate a 6-digit OTP
+ */
+function generateOTP(): string {
+  return crypto.randomInt(0, 1_000_000).toString().padStart(6, '0')
+}
+
+function secondsUntil(date: Date, now: Date): number {
+  return Math.max(1, Math.ceil((date.getTime() - now.getTime()) / 1000))
+}
+
+interface SendWindow {
+  key: string
+  windowMs: number
+  limit: number
+}
+
+type WindowClaim = { allowed: true; windowStart: Date } | { allowed: false; retryAfterSeconds: number }
+
+/**
+ * Count one send in the current fixed window of a quota, unless the window is already full
+ * The check and the increment are one findOneAndUpdate, so concurrent requests can't both take
+ * the last slot: when the window is full the filter misses and the upsert hits the unique index
+ */
+async function claimSendWindow({ key, windowMs, limit }: SendWindow, now: Date): Promise<WindowClaim> {
+  const windowStart = new Date(Math.floor(now.getTime() / windowMs) * windowMs)
+  const windowEnd = new Date(windowStart.getTime() + windowMs)
+
+  try {
+    await OTPSendWindow.findOneAndUpdate(
+      { key, windowStart, count: { $lt: limit } },
+      { $inc: { count: 1 }, $setOnInsert: { expiresAt: windowEnd } },
+      { upsert: true }
+    )
+    return { allowed: true, windowStart }
+  } catch (error: any) {
+    if (error?.code !== DUPLICATE_KEY_ERROR) throw error
+    return { allowed: false, retryAfterSeconds: secondsUntil(windowEnd, now) }
+  }
+}
+
+/**
+ * Check the send quotas for an email and the caller's IP, and count this request against them
+ * Call this before looking up the account, so the answer is the same whether or not it exists
+ * - One code per email per minute
+ * - OTP_SENDS_PER_EMAIL_PER_HOUR per email and OTP_SENDS_PER_IP_PER_HOUR per IP, across purposes
+ * Quotas use fixed windows; a request refused by one quota is given back to the ones it already took
+ */
+export async function reserveOTPSend(email: string, ip: string | null, purpose: OTPPurpose): Promise<OTPSendQuota> {
+  await connectDB()
+
+  const now = new Date()
+  const windows: SendWindow[] = [
+    { key: `email-cooldown:${email}`, windowMs: OTP_RESEND_COOLDOWN_SECONDS * 1000, limit: 1 },
+    { key: `email-hour:${email}`, windowMs: HOUR_MS, limit: OTP_SENDS_PER_EMAIL_PER_HOUR },
+  ]
+  if (ip) {
+    windows.push({ key: `ip-hour:${ip}`, windowMs: HOUR_MS, limit: OTP_SENDS_PER_IP_PER_HOUR })
+  }
+
+  const claimed: Array<{ key: string; windowStart: Date }> = []
+  for (const window of windows) {
+    const claim = await claimSendWindow(window, now)
+    if (!claim.allowed) {
+      if (claimed.length > 0) {
+        await OTPSendWindow.bulkWrite(
+          claimed.map((taken) => ({ updateOne: { filter: taken, update: { $inc: { count: -1 } } } }))
+        )
+      }
+      console.log(`OTP send for ${purpose} refused by quota ${window.key.split(':')[0]}`)
+      return { allowed: false, retryAfterSeconds: claim.retryAfterSeconds }
+    }
+    claimed.push({ key: window.key, windowStart: claim.windowStart })
+  }
+
+  return { allowed: true }
+}
+
+/**
+ * Create a fresh code for an email and purpose, invalidating any earlier unused ones
+ * Only a hash is stored
+ * @returns The code to send and its record (delete the record if sending fails)
+ */
+export async function issueOTP(email: string, purpose: OTPPurpose): Promise<{ otp: string; record: IOTP }> {
+  await connectDB()
+
+  // Invalidate any existing unverified OTPs for this email and purpose
+  await OTP.updateMany(
+    { email, purpose, verified: false },
+    { verified: true } // Mark as verified (effectively invalidating them)
+  )
+
+  const otp = generateOTP()
+  const record = await OTP.create({
+    email,
+    codeHash: hashOTP(email, purpose, otp),
+    purpose,
+    expiresAt: new Date(Date.now() + OTP_EXPIRY_MINUTES * 60 * 1000),
+    verified: false,
+  })
+
+  return { otp, record }
+}
+
+/**
+ * Check a code and mark it used, atomically so it cannot be used twice
+ * A code only matches the purpose it was issued for - a signup code cannot reset a password.
+ * Wrong guesses are counted, and after OTP_MAX_ATTEMPTS the code no longer works even if correct.
+ * Callers should give the same response for every failure, so it doesn't reveal whether the
+ * email has an account or a locked code.
+ */
+export async function consumeOTP(email: string, purpose: OTPPurpose, otp: string): Promise<boolean> {
+  await connectDB()
+
+  const active = {
+    email,
+    purpose,
+    verified: false,
+    expiresAt: { $gt: new Date() }, // Not expired
+    attempts: { $lt: OTP_MAX_ATTEMPTS },
+  }
+
+  const record = await OTP.findOne(active).sort({ createdAt: -1 })
+  if (!record) {
+    return false
+  }
+
+  const expected = Buffer.from(record.codeHash, 'hex')
+  const actual = Buffer.from(hashOTP(email, purpose, otp), 'hex')
+  const matches = expected.length === actual.length && crypto.timingSafeEqual(expected, actual)
+
+  if (!matches) {
+    const updated = await OTP.findOneAndUpdate({ _id: record._id, ...active }, { $inc: { attempts: 1 } }, { new: true })
+    if (updated && updated.attempts >= OTP_MAX_ATTEMPTS) {
+      console.warn(`OTP for ${email} (${purpose}) locked after ${OTP_MAX_ATTEMPTS} failed attempts`)
+    }
+    return false
+  }
+
+  // Conditional on the same state, so concurrent requests can't both use the code
+  const consumed = await OTP.findOneAndUpdate({ _id: record._id, ...active }, { verified: true })
+  return !!consumed
+}
@@ -0,0 +1,287 @@
+import connectDB from '@/lib/db'
+import Paper from '@/models/Paper'
+import PaperSearch from '@/models/PaperSearch'
+import { getPaper, searchPapers } from '@/lib/veritus-api'
+import { VeritusApiError } from '@/lib/veritus-errors'
+import { VeritusPaper } from '@/types/veritus'
+import { apiKeyFingerprint, CreditUsageContext, recordCreditUsage } from './credit-ledger'
+
+const PAPER_FRESH_MS = 7 * 24 * 60 * 60 * 1000 // Served as-is
+const PAPER_STALE_MS = 30 * 24 * 60 * 60 * 1000 // Served while refreshing in the background
+const SEARCH_FRESH_MS = 24 * 60 * 60 * 1000
+const SEARCH_STALE_MS = 7 * 24 * 60 * 60 * 1000
+
+/**
+ * How a cached lookup was answered
+ * - hit: fresh cache entry
+ * - stale: cache entry past its TTL, returned while it is refreshed in the background
+ * - miss: fetched from Veritus
+ * - refreshed: refetched from Veritus on request
+ */
+export type CacheStatus = 'hit' | 'stale' | 'miss' | 'refreshed'
+
+export interface CachedResult<T> {
+  value: T
+  cacheStatus: CacheStatus
+}
+
+/**
+ * A cache-only lookup found nothing usable; answering it would need a (charged) Veritus call
+ */
+export class PaperNotCachedError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PaperNotCachedError'
+  }
+}
+
+declare global {
+  var paperCacheRefreshes: Map<string, Promise<any>> | undefined
+}
+
+// In-flight Veritus fetches, so concurrent lookups of the same paper by the same payer share one request
+const refreshes: Map<string, Promise<any>> = global.paperCacheRefreshes || new Map()
+
+if (!global.paperCacheRefreshes) {
+  global.paperCacheRefreshes = refreshes
+}
+
+/**
+ * Cache key for a corpus ID - accepts both "corpus:123" and "123"
+ */
+export function normalizeCorpusId(corpusId: string): string {
+  return corpusId.trim().replace(/^corpus:/, '')
+}
+
+export function normalizeDoi(doi: string): string {
+  return doi.trim().toLowerCase().replace(/^(https?:\/\/(dx\.)?doi\.org\/|doi:)/, '')
+}
+
+function normalizeTitle(title: string): string {
+  return title.trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+/**
+ * Who pays for a fetch, as part of a dedupe key: callers only share a fetch that is billed the same
+ * way, so nobody's lookup is charged to another user's key or recorded against their project
+ */
+function billingKey(apiKey: string, usage?: CreditUsageContext): string {
+  return [apiKeyFingerprint(apiKey), usage?.userId || '', usage?.chatId || '', usage?.projectId || ''].join(':')
+}
+
+function dedupe<T>(key: string, fetcher: () => Promise<T>): Promise<T> {
+  const existing = refreshes.get(key)
+  if (existing) {
+    return existing
+  }
+
+  const promise = fetcher().finally(() => {
+    refreshes.delete(key)
+  })
+  refreshes.set(key, promise)
+  return promise
+}
+
+/**
+ * Let a refresh run in the background; failures only mean the stale entry is served a little longer
+ */
+function revalidate(refresh: Promise<unknown>, label: string) {
+  refresh.catch((error) => {
+    console.error(`Background refresh of ${label} failed:`, error)
+  })
+}
+
+function canServeStaleOnError(error: unknown): boolean {
+  return error instanceof VeritusApiError && error.retryable
+}
+
+/**
+ * Upsert papers into the cache
+ * Called with every batch of papers we get from Veritus, so later lookups of them are free
+ * @param options.trusted false for paper data that came from a client: it only fills gaps and
+ *   is stored as already expired, so the next cache lookup replaces it with Veritus data
+ */
+export async function cachePapers(
+  papers: VeritusPaper[],
+  options: { trusted?: boolean } = {}
+): Promise<void> {
+  const withIds = papers.filter((paper) => paper && paper.id)
+  if (withIds.length === 0) {
+    return
+  }
+
+  await connectDB()
+
+  const now = new Date()
+  const trusted = options.trusted !== false
+  await Paper.bulkWrite(
+    withIds.map((paper) => {
+      const fields = {
+        ...(paper.doi ? { doi: normalizeDoi(paper.doi) } : {}),
+        title: paper.title || '',
+        data: paper,
+        fetchedAt: trusted ? now : new Date(0),
+        updatedAt: now,
+      }
+      return {
+        updateOne: {
+          filter: { corpusId: normalizeCorpusId(String(paper.id)) },
+          update: trusted
+            ? { $set: fields, $setOnInsert: { createdAt: now } }
+            : { $setOnInsert: { ...fields, createdAt: now } },
+          upsert: true,
+        },
+      }
+    }),
+    { ordered: false }
+  )
+}
+
+async function fetchPaper(corpusId: string, apiKey: string, usage?: CreditUsageContext): Promise<VeritusPaper> {
+  const key = normalizeCorpusId(corpusId)
+  return dedupe(`paper:${key}:${billingKey(apiKey, usage)}`, async () => {
+    const paper = await recordCreditUsage(
+      { operation: 'getPaper', context: usage, corpusId: key },
+      apiKey,
+      () => getPaper(corpusId, { apiKey })
+    )
+    await cachePapers([{ ...paper, id: paper.id || corpusId }])
+    return paper
+  })
+}
+
+/**
+ * Get a paper by corpus ID, from the cache when possible
+ * @param options.forceRefresh Skip the cache and refetch from Veritus
+ * @param options.usage Who the lookup is for, recorded in the credit ledger if Veritus is called
+ * @param options.cacheOnly Never call Veritus, e.g. for callers that may not spend credits; stale
+ *   entries are served without a background refresh
+ * @throws PaperNotCachedError with cacheOnly, when the paper isn't cached
+ */
+export async function getPaperCached(
+  corpusId: string,
+  apiKey: string,
+  options: { forceRefresh?: boolean; usage?: CreditUsageContext; cacheOnly?: boolean } = {}
+): Promise<CachedResult<VeritusPaper>> {
+  await connectDB()
+
+  const key = normalizeCorpusId(corpusId)
+  const cached = await Paper.findOne({ corpusId: key })
+
+  if (options.cacheOnly) {
+    if (!cached || options.forceRefresh) {
+      throw new PaperNotCachedError(`Paper ${key} is not cached`)
+    }
+    const fresh = Date.now() - cached.fetchedAt.getTime() < PAPER_FRESH_MS
+    return { value: cached.data, cacheStatus: fresh ? 'hit' : 'stale' }
+  }
+
+  if (cached && !options.forceRefresh) {
+    const age = Date.now() - cached.fetchedAt.getTime()
+    if (age < PAPER_FRESH_MS) {
+      return { value: cached.data, cacheStatus: 'hit' }
+    }
+    if (age < PAPER_STALE_MS) {
+      revalidate(fetchPaper(corpusId, apiKey, options.usage), `paper ${key}`)
+      return { value: cached.data, cacheStatus: 'stale' }
+    }
+  }
+
+  try {
+    const paper = await fetchPaper(corpusId, apiKey, options.usage)
+    return { value: paper, cacheStatus: options.forceRefresh ? 'refreshed' : 'miss' }
+  } catch (error) {
+    // Veritus is rate limiting or down - an old copy beats an error
+    if (cached && canServeStaleOnError(error)) {
+      return { value: cached.data, cacheStatus: 'stale' }
+    }
+    throw error
+  }
+}
+
+/**
+ * Look up a cached paper by DOI
+ * Only finds papers we have already seen; paper-import falls back to a Veritus search
+ */
+export async function findCachedPaperByDoi(doi: string): Promise<VeritusPaper | null> {
+  await connectDB()
+  const cached = await Paper.findOne({ doi: normalizeDoi(doi) })
+  return cached ? cached.data : null
+}
+
+/**
+ * Look up cached papers by corpus id without calling Veritus
+ * @returns Papers keyed by normalized corpus id; ids we have never seen are missing
+ */
+export async function findCachedPapers(corpusIds: string[]): Promise<Map<string, VeritusPaper>> {
+  await connectDB()
+  const normalized = Array.from(new Set(corpusIds.map(normalizeCorpusId)))
+  const cached = await Paper.find({ corpusId: { $in: normalized } }, { corpusId: 1, data: 1 })
+  return new Map(cached.map((doc) => [doc.corpusId, doc.data as VeritusPaper]))
+}
+
+async function fetchSearch(title: string, apiKey: string): Promise<VeritusPaper[]> {
+  const titleKey = normalizeTitle(title)
+
+  return dedupe(`search:${titleKey}:${billingKey(apiKey)}`, async () => {
+    const papers = await searchPapers({ title }, { apiKey })
+    await cachePapers(papers)
+
+    const now = Date.now()
+    await PaperSearch.findOneAndUpdate(
+      { titleKey },
+      {
+        titleKey,
+        corpusIds: papers.filter((paper) => paper.id).map((paper) => normalizeCorpusId(String(paper.id))),
+        fetchedAt: new Date(now),
+        expiresAt: new Date(now + SEARCH_STALE_MS),
+      },
+      { upsert: true }
+    )
+
+    return papers
+  })
+}
+
+/**
+ * Search papers by title, from the cache when the same title was searched recently
+ * @param options.cacheOnly Never call Veritus; stale results are served without a background refresh
+ * @throws PaperNotCachedError with cacheOnly, when the title hasn't been searched (or its papers were evicted)
+ */
+export async function searchPapersCached(
+  title: string,
+  apiKey: string,
+  options: { cacheOnly?: boolean } = {}
+): Promise<CachedResult<VeritusPaper[]>> {
+  await connectDB()
+
+  const titleKey = normalizeTitle(title)
+  const cachedSearch = await PaperSearch.findOne({ titleKey })
+
+  if (cachedSearch) {
+    const cachedPapers = await Paper.find({ corpusId: { $in: cachedSearch.corpusIds } })
+    const byId = new Map(cachedPapers.map((paper) => [paper.corpusId, paper.data]))
+    const papers = cachedSearch.corpusIds
+      .map((corpusId) => byId.get(corpusId))
+      .filter((paper): paper is VeritusPaper => !!paper)
+
+    // Only usable if none of the papers were evicted since
+    if (papers.length === cachedSearch.corpusIds.length) {
+      const age = Date.now() - cachedSearch.fetchedAt.getTime()
+      if (age < SEARCH_FRESH_MS) {
+        return { value: papers, cacheStatus: 'hit' }
+      }
+      if (!options.cacheOnly) {
+        revalidate(fetchSearch(title, apiKey), `search "${titleKey}"`)
+      }
+      return { value: papers, cacheStatus: 'stale' }
+    }
+  }
+
+  if (options.cacheOnly) {
+    throw new PaperNotCachedError(`No cached search for "${titleKey}"`)
+  }
+
+  const papers = await fetchSearch(title, apiKey)
+  return { value: papers, cacheStatus: 'miss' }
+}
@@ -0,0 +1,205 @@
+import connectDB from '@/lib/db'
+import Chat, { IChat } from '@/models/Chat'
+import { IProject } from '@/models/Project'
+import { findCachedPaperByDoi, getPaperCached, normalizeCorpusId, normalizeDoi, searchPapersCached } from './paper-cache'
+import { addPapersToChat, migrateChatPapers } from './chat-paper-library'
+import { CreditUsageContext } from './credit-ledger'
+import { VeritusAuthError, VeritusInsufficientCreditsError } from '@/lib/veritus-errors'
+import { ImportEntry, titleSimilarity } from '@/lib/utils/citation-import'
+import { initialChatMetadata, initialPaperMessage } from '@/lib/utils/chat-metadata'
+import { VeritusPaper } from '@/types/veritus'
+
+// Below this a search result is a different paper that happens to share words with the title
+const TITLE_MATCH_THRESHOLD = 0.85
+// A mismatched year is only forgiven for near-identical titles (preprint vs. published version)
+const TITLE_MATCH_THRESHOLD_YEAR_MISMATCH = 0.95
+const RESOLVE_CONCURRENCY = 4
+
+export type ImportMode = 'per-paper' | 'single'
+
+export interface ImportMatch {
+  entry: ImportEntry
+  paper: VeritusPaper
+  matchedBy: 'corpusId' | 'doi' | 'title'
+  similarity?: number
+}
+
+export interface ImportMiss {
+  entry: ImportEntry
+  reason: string
+}
+
+export interface ImportResolution {
+  matched: ImportMatch[]
+  unmatched: ImportMiss[]
+}
+
+function pickBestTitleMatch(entry: ImportEntry, candidates: VeritusPaper[]): ImportMatch | null {
+  let best: ImportMatch | null = null
+
+  for (const paper of candidates) {
+    // A DOI match beats any amount of title similarity
+    if (entry.doi && paper.doi && normalizeDoi(paper.doi) === normalizeDoi(entry.doi)) {
+      return { entry, paper, matchedBy: 'doi' }
+    }
+
+    const similarity = titleSimilarity(entry.title!, paper.title || '')
+    const yearMismatch = entry.year && paper.year && Math.abs(entry.year - paper.year) > 1
+    const threshold = yearMismatch ? TITLE_MATCH_THRESHOLD_YEAR_MISMATCH : TITLE_MATCH_THRESHOLD
+
+    if (similarity >= threshold && (!best || similarity > best.similarity!)) {
+      best = { entry, paper, matchedBy: 'title', similarity }
+    }
+  }
+  return best
+}
+
+/**
+ * Search Veritus for a DOI we have not cached
+ * Only a result carrying the same DOI counts; the search may also return papers that merely mention it
+ */
+async function searchPaperByDoi(doi: string, apiKey: string): Promise<VeritusPaper | null> {
+  const { value: candidates } = await searchPapersCached(doi, apiKey)
+  return candidates.find((paper) => paper.doi && normalizeDoi(paper.doi) === normalizeDoi(doi)) || null
+}
+
+async function resolveEntry(
+  entry: ImportEntry,
+  apiKey: string,
+  usage?: CreditUsageContext
+): Promise<ImportMatch | ImportMiss> {
+  try {
+    if (entry.corpusId) {
+      const { value } = await getPaperCached(entry.corpusId, apiKey, { usage })
+      return { entry, paper: value, matchedBy: 'corpusId' }
+    }
+
+    if (entry.doi) {
+      const cached = await findCachedPaperByDoi(entry.doi)
+      if (cached) {
+        return { entry, paper: cached, matchedBy: 'doi' }
+      }
+      // With a title, the title search below also matches on DOI
+      if (!entry.title) {
+        const found = await searchPaperByDoi(entry.doi, apiKey)
+        return found
+          ? { entry, paper: found, matchedBy: 'doi' }
+          : { entry, reason: 'DOI not found and no title to search by' }
+      }
+    }
+
+    if (!entry.title) {
+      return { entry, reason: 'No title, DOI or corpus ID' }
+    }
+
+    const { value: candidates } = await searchPapersCached(entry.title, apiKey)
+    if (candidates.length === 0) {
+      return { entry, reason: 'No search results' }
+    }
+
+    const match = pickBestTitleMatch(entry, candidates)
+    if (!match) {
+      const closest = Math.max(...candidates.map((paper) => titleSimilarity(entry.title!, paper.title || '')))
+      return { entry, reason: `No close title match (best ${Math.round(closest * 100)}%)` }
+    }
+
+    return match
+  } catch (error: any) {
+    // Every other entry would fail the same way
+    if (error instanceof VeritusAuthError || error instanceof VeritusInsufficientCreditsError) {
+      throw error
+    }
+    return { entry, reason: error?.message || 'Lookup failed' }
+  }
+}
+
+/**
+ * Match bibliography entries to Veritus papers
+ * Corpus IDs are fetched directly. DOIs are looked up in the paper cache, then resolved through
+ * Veritus: by title search with fuzzy matching (a DOI match wins), or by searching for the DOI
+ * itself when the entry has no title
+ * @param usage Who the import is for, for the credit ledger
+ */
+export async function resolveImportEntries(
+  entries: ImportEntry[],
+  apiKey: string,
+  usage?: CreditUsageContext
+): Promise<ImportResolution> {
+  const results: Array<ImportMatch | ImportMiss> = new Array(entries.length)
+  let next = 0
+
+  const worker = async () => {
+    while (next < entries.length) {
+      const index = next++
+      results[index] = await resolveEntry(entries[index], apiKey, usage)
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(RESOLVE_CONCURRENCY, entries.length) }, worker))
+
+  const matched: ImportMatch[] = []
+  const unmatched: ImportMiss[] = []
+  const seen = new Set<string>()
+
+  for (const result of results) {
+    if (!('paper' in result)) {
+      unmatched.push(result)
+      continue
+    }
+    const key = normalizeCorpusId(String(result.paper.id))
+    if (seen.has(key)) {
+      unmatched.push({ entry: result.entry, reason: `Duplicate of "${result.paper.title}"` })
+      continue
+    }
+    seen.add(key)
+    matched.push(result)
+  }
+
+  return { matched, unmatched }
+}
+
+/**
+ * Create chats in a project for imported papers
+ * @param mode per-paper: one chat per paper, opened for it like a chat started from search
+ *             single: one chat holding every paper
+ */
+export async function createImportChats(
+  project: Pick<IProject, '_id' | 'userId'>,
+  papers: VeritusPaper[],
+  mode: ImportMode,
+  singleChatTitle = 'Imported papers'
+): Promise<IChat[]> {
+  await connectDB()
+
+  const drafts = mode === 'single'
+    ? [{
+        title: singleChatTitle,
+        chatMetadata: initialChatMetadata(),
+        messages: [{
+          role: 'assistant' as const,
+          content: `Imported ${papers.length} paper${papers.length === 1 ? '' : 's'}`,
+          timestamp: new Date(),
+          papers,
+        }],
+      }]
+    : papers.map((paper) => ({
+        title: paper.title || 'Untitled',
+        chatMetadata: initialChatMetadata(paper),
+        messages: [initialPaperMessage(paper)],
+      }))
+
+  const chats: IChat[] = []
+  for (const draft of drafts) {
+    const chat = new Chat({
+      projectId: project._id,
+      userId: project.userId,
+      depth: 100,
+      ...draft,
+    })
+    await chat.save()
+
+    await addPapersToChat(chat, draft.messages[0].papers, { source: 'import' })
+    await migrateChatPapers(chat)
+    chats.push(chat)
+  }
+  return chats
+}
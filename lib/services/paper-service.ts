@@ -1,24 +1,31 @@
-import { veritusClient } from './veritus-client'
+import { getPaperCached, searchPapersCached } from './paper-cache'
+import { CreditUsageContext } from './credit-ledger'
 
 /**
  * Resolve paper by title or corpusId
+ * Lookups go through the shared paper cache, so resolving the same paper twice is free
  * @param title Paper title (optional if corpusId provided)
  * @param corpusId Corpus ID (optional if title provided)
+ * @param usage Who the lookup is for, for the credit ledger
  * @returns Paper object
  */
 export async function resolvePaper(
   title: string | null,
-  corpusId: string | null
+  corpusId: string | null,
+  usage?: CreditUsageContext
 ): Promise<any> {
+  const apiKey = process.env.VERITUS_API_KEY || ''
+
   if (corpusId) {
-    return await veritusClient.getPaperById(corpusId)
+    const { value: paper } = await getPaperCached(corpusId, apiKey, { usage })
+    return paper
   }
 
   if (!title) {
     throw new Error('Title or corpusId required')
   }
 
-  const results = await veritusClient.searchByTitle(title)
+  const { value: results } = await searchPapersCached(title, apiKey)
 
   if (!results.length) {
     throw new Error('Paper not found')
@@ -26,4 +33,3 @@ export async function resolvePaper(
 
   return results[0]
 }
-
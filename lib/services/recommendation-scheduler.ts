@@ -0,0 +1,201 @@
+import connectDB from '@/lib/db'
+import BookmarkDigestUse from '@/models/BookmarkDigestUse'
+import ChatPaper from '@/models/ChatPaper'
+import PaperRecommendation from '@/models/PaperRecommendation'
+import { Bookmark } from '@/models/User'
+import { normalizeCorpusId } from './paper-cache'
+import { VeritusPaper } from '@/types/veritus'
+import mongoose from 'mongoose'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// A bookmark's weight halves every 30 days, but never drops below a tenth so old bookmarks still get a turn
+const RECENCY_HALF_LIFE_DAYS = 30
+const MIN_RECENCY_WEIGHT = 0.1
+// How long a never-used bookmark counts as having waited
+const NEVER_USED_WAIT_DAYS = 30
+
+export interface ScheduledBookmark {
+  bookmark: Bookmark
+  /** recency weight x days since the bookmark was last searched for a digest */
+  priority: number
+  lastUsedAt: Date | null
+}
+
+export interface RecommendationPick {
+  paper: VeritusPaper
+  rank: number
+  matchedKeywords: string[]
+  reason: string
+}
+
+function recencyWeight(bookmarkedAt: Date | undefined, now: Date): number {
+  if (!bookmarkedAt) return MIN_RECENCY_WEIGHT
+  const ageDays = Math.max(0, (now.getTime() - new Date(bookmarkedAt).getTime()) / DAY_MS)
+  return Math.max(MIN_RECENCY_WEIGHT, Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS))
+}
+
+/**
+ * Order a user's bookmarks for the next digest
+ * Each bookmark's priority grows with the time since it was last searched (see recordBookmarkUse),
+ * scaled by how recently it was bookmarked - so every bookmark gets a turn, and new ones come round
+ * more often
+ */
+export async function scheduleBookmarks(
+  userId: string,
+  bookmarks: Bookmark[],
+  now: Date = new Date()
+): Promise<ScheduledBookmark[]> {
+  const withKeywords = bookmarks.filter((bookmark) => Array.isArray(bookmark.keywords) && bookmark.keywords.length > 0)
+  if (withKeywords.length === 0) {
+    return []
+  }
+
+  await connectDB()
+
+  const userObjectId = new mongoose.Types.ObjectId(userId)
+  const [uses, recommended] = await Promise.all([
+    BookmarkDigestUse.find({ userId: userObjectId }, { bookmarkPaperId: 1, lastUsedAt: 1 }).lean(),
+    // Bookmarks used before searches were recorded only show up in the recommendation history
+    PaperRecommendation.aggregate<{ _id: string; lastUsedAt: Date }>([
+      { $match: { userId: userObjectId } },
+      { $group: { _id: '$bookmarkPaperId', lastUsedAt: { $max: '$recommendedAt' } } },
+    ]),
+  ])
+  const lastUsedBy = new Map<string, Date>()
+  const noteUse = (paperId: string, usedAt: Date) => {
+    const previous = lastUsedBy.get(paperId)
+    if (!previous || new Date(usedAt) > new Date(previous)) lastUsedBy.set(paperId, usedAt)
+  }
+  recommended.forEach((use) => noteUse(use._id, use.lastUsedAt))
+  uses.forEach((use) => noteUse(use.bookmarkPaperId, use.lastUsedAt))
+
+  return withKeywords
+    .map((bookmark) => {
+      const lastUsedAt = lastUsedBy.get(bookmark.paperId) || null
+      const waitedDays = lastUsedAt
+        ? Math.max(0, (now.getTime() - new Date(lastUsedAt).getTime()) / DAY_MS)
+        : NEVER_USED_WAIT_DAYS
+      return {
+        bookmark,
+        lastUsedAt,
+        priority: recencyWeight(bookmark.bookmarkedAt, now) * (waitedDays + 1),
+      }
+    })
+    .sort((a, b) => b.priority - a.priority)
+}
+
+/**
+ * Record that a bookmark was searched for a digest, whether or not the search found anything to send
+ */
+export async function recordBookmarkUse(userId: string, bookmark: Bookmark, usedAt: Date = new Date()): Promise<void> {
+  await connectDB()
+
+  await BookmarkDigestUse.updateOne(
+    { userId: new mongoose.Types.ObjectId(userId), bookmarkPaperId: bookmark.paperId },
+    { $max: { lastUsedAt: usedAt } },
+    { upsert: true }
+  )
+}
+
+/**
+ * Corpus IDs a user should not be recommended: already recommended, bookmarked, or in one of their chats
+ */
+export async function getExcludedCorpusIds(userId: string, bookmarks: Bookmark[]): Promise<Set<string>> {
+  await connectDB()
+
+  const [recommended, inChats] = await Promise.all([
+    PaperRecommendation.distinct('corpusId', { userId }),
+    ChatPaper.distinct('corpusId', { userId }),
+  ])
+
+  return new Set<string>([
+    ...recommended,
+    ...inChats,
+    ...bookmarks.map((bookmark) => normalizeCorpusId(String(bookmark.paperId))),
+  ])
+}
+
+function matchKeywords(paper: VeritusPaper, keywords: string[]): string[] {
+  const text = [paper.title, paper.abstract, paper.tldr, ...(paper.fieldsOfStudy || [])]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase()
+  return keywords.filter((keyword) => text.includes(keyword.toLowerCase()))
+}
+
+/**
+ * Choose papers from a bookmark's search results, skipping excluded ones
+ * Only papers with a TL;DR are picked, since the digest shows it; results keep their search order
+ */
+export function pickRecommendations(
+  papers: VeritusPaper[],
+  excluded: Set<string>,
+  bookmark: Bookmark,
+  keywords: string[],
+  count: number
+): RecommendationPick[] {
+  const picks: RecommendationPick[] = []
+
+  for (const [rank, paper] of papers.entries()) {
+    if (picks.length >= count) break
+    if (!paper.id || !paper.tldr || paper.tldr.trim().length === 0) continue
+
+    const corpusId = normalizeCorpusId(String(paper.id))
+    if (excluded.has(corpusId)) continue
+    excluded.add(corpusId)
+
+    const matchedKeywords = matchKeywords(paper, keywords)
+    picks.push({
+      paper,
+      rank,
+      matchedKeywords,
+      reason: matchedKeywords.length > 0
+        ? `Matches ${matchedKeywords.join(', ')} from your bookmark "${bookmark.title}"`
+        : `Result #${rank + 1} for the keywords of your bookmark "${bookmark.title}"`,
+    })
+  }
+
+  return picks
+}
+
+/**
+ * Add picks to the user's recommendation history
+ */
+export async function recordRecommendations(
+  userId: string,
+  bookmark: Bookmark,
+  keywords: string[],
+  picks: RecommendationPick[],
+  recommendedAt: Date = new Date()
+): Promise<void> {
+  if (picks.length === 0) return
+
+  await connectDB()
+
+  await PaperRecommendation.bulkWrite(
+    picks.map((pick) => {
+      const corpusId = normalizeCorpusId(String(pick.paper.id))
+      return {
+        updateOne: {
+          filter: { userId: new mongoose.Types.ObjectId(userId), corpusId },
+          update: {
+            $setOnInsert: {
+              userId: new mongoose.Types.ObjectId(userId),
+              corpusId,
+              title: pick.paper.title || '',
+              bookmarkPaperId: bookmark.paperId,
+              bookmarkTitle: bookmark.title,
+              keywords,
+              matchedKeywords: pick.matchedKeywords,
+              rank: pick.rank,
+              reason: pick.reason,
+              recommendedAt,
+            },
+          },
+          upsert: true,
+        },
+      }
+    }),
+    { ordered: false }
+  )
+}
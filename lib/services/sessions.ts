@@ -0,0 +1,250 @@
+import crypto from 'crypto'
+import connectDB from '@/lib/db'
+import Session, { ISession } from '@/models/Session'
+import User from '@/models/User'
+
+// Sessions end after this long without a refresh: academic users get 7 days, others 1 day
+const ACADEMIC_SESSION_IDLE_DAYS = 7
+const SESSION_IDLE_DAYS = 1
+// lastSeenAt is written at most this often, so authenticated requests don't all write
+const LAST_SEEN_THROTTLE_MS = 5 * 60 * 1000
+// A refresh token replaced less than this long ago still works (without being rotated again),
+// so parallel requests that all found the access token expired don't look like token theft
+const REFRESH_REUSE_GRACE_MS = 30 * 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface SessionClient {
+  userAgent: string | null
+  ip: string | null
+}
+
+export interface SessionUser {
+  userId: string
+  email: string
+  isAcademic: boolean
+}
+
+export interface SessionSummary {
+  id: string
+  userAgent: string | null
+  ip: string | null
+  createdAt: Date
+  lastSeenAt: Date
+  expiresAt: Date
+}
+
+export type RefreshResult =
+  | {
+      session: ISession
+      user: SessionUser
+      /** The replacement refresh token, or null when a just-rotated token was reused within the grace period */
+      refreshToken: string | null
+    }
+  | null
+
+export function getSessionIdleMs(isAcademic: boolean): number {
+  return (isAcademic ? ACADEMIC_SESSION_IDLE_DAYS : SESSION_IDLE_DAYS) * DAY_MS
+}
+
+function hashRefreshSecret(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex')
+}
+
+function hashesMatch(a: string | null | undefined, b: string): boolean {
+  if (!a || a.length !== b.length) return false
+  return crypto.timingSafeEqual(Buffer.from(a, 'hex'), Buffer.from(b, 'hex'))
+}
+
+/**
+ * Refresh tokens are `<sessionId>.<secret>`, so the session can be found without scanning hashes
+ */
+function newRefreshSecret(sessionId: string): { token: string; hash: string } {
+  const secret = crypto.randomBytes(32).toString('hex')
+  return { token: `${sessionId}.${secret}`, hash: hashRefreshSecret(secret) }
+}
+
+function parseRefreshToken(token: string): { sessionId: string; secret: string } | null {
+  const [sessionId, secret, ...rest] = token.split('.')
+  if (!sessionId || !secret || rest.length > 0) return null
+  return { sessionId, secret }
+}
+
+/**
+ * The session ID a refresh token belongs to, without checking it
+ */
+export function getRefreshTokenSessionId(token: string): string | null {
+  return parseRefreshToken(token)?.sessionId ?? null
+}
+
+/**
+ * Start a session for a user who just signed in
+ * @returns The session and its first refresh token (only a hash is stored)
+ */
+export async function createSession(
+  user: SessionUser,
+  client: SessionClient
+): Promise<{ session: ISession; refreshToken: string }> {
+  await connectDB()
+
+  const now = new Date()
+  const sessionId = crypto.randomBytes(16).toString('hex')
+  const refresh = newRefreshSecret(sessionId)
+
+  const session = await Session.create({
+    sessionId,
+    userId: user.userId,
+    userAgent: client.userAgent,
+    ip: client.ip,
+    refreshTokenHash: refresh.hash,
+    createdAt: now,
+    lastSeenAt: now,
+    expiresAt: new Date(now.getTime() + getSessionIdleMs(user.isAcademic)),
+  })
+
+  return { session, refreshToken: refresh.token }
+}
+
+/**
+ * Whether a session (an access token's `jti`) is still signed in, noting that it was just used
+ */
+export async function touchSession(sessionId: string): Promise<boolean> {
+  await connectDB()
+
+  const now = new Date()
+  const session = await Session.findOne({ sessionId, revokedAt: null, expiresAt: { $gt: now } })
+    .select('lastSeenAt')
+    .lean()
+  if (!session) {
+    return false
+  }
+
+  if (now.getTime() - new Date(session.lastSeenAt).getTime() > LAST_SEEN_THROTTLE_MS) {
+    await Session.updateOne({ _id: session._id }, { lastSeenAt: now })
+  }
+  return true
+}
+
+/**
+ * Exchange a refresh token for a new one, sliding the session's expiry forward
+ * Each refresh token works once. Presenting one that was already rotated (outside the short
+ * grace period) means it was copied, so the whole session is revoked.
+ * @returns The session, its user and the replacement token, or null if the token is not valid
+ */
+export async function rotateRefreshToken(token: string, client: SessionClient): Promise<RefreshResult> {
+  const parsed = parseRefreshToken(token)
+  if (!parsed) {
+    return null
+  }
+
+  await connectDB()
+
+  const now = new Date()
+  const active = { sessionId: parsed.sessionId, revokedAt: null, expiresAt: { $gt: now } }
+  const session = await Session.findOne(active)
+  if (!session) {
+    return null
+  }
+
+  const user = await User.findById(session.userId).select('email isAcademic').lean()
+  if (!user) {
+    await revokeSessionById(session.sessionId, 'user')
+    return null
+  }
+  const sessionUser: SessionUser = {
+    userId: session.userId.toString(),
+    email: user.email,
+    isAcademic: user.isAcademic ?? true,
+  }
+
+  const presentedHash = hashRefreshSecret(parsed.secret)
+
+  if (hashesMatch(session.refreshTokenHash, presentedHash)) {
+    const refresh = newRefreshSecret(session.sessionId)
+    // Conditional on the current hash, so only one of several concurrent refreshes rotates
+    const rotated = await Session.findOneAndUpdate(
+      { ...active, refreshTokenHash: presentedHash },
+      {
+        refreshTokenHash: refresh.hash,
+        previousRefreshTokenHash: presentedHash,
+        rotatedAt: now,
+        lastSeenAt: now,
+        expiresAt: new Date(now.getTime() + getSessionIdleMs(sessionUser.isAcademic)),
+        ip: client.ip ?? session.ip,
+      },
+      { new: true }
+    )
+    if (rotated) {
+      return { session: rotated, user: sessionUser, refreshToken: refresh.token }
+    }
+    // Another request rotated it first; that request's response carries the new token
+    return { session, user: sessionUser, refreshToken: null }
+  }
+
+  const withinGrace = !!session.rotatedAt && now.getTime() - session.rotatedAt.getTime() < REFRESH_REUSE_GRACE_MS
+  if (withinGrace && hashesMatch(session.previousRefreshTokenHash, presentedHash)) {
+    return { session, user: sessionUser, refreshToken: null }
+  }
+
+  console.warn(`Refresh token reuse on session ${session.sessionId} for user ${sessionUser.userId}; session revoked`)
+  await revokeSessionById(session.sessionId, 'refresh-reuse')
+  return null
+}
+
+async function revokeSessionById(sessionId: string, reason: NonNullable<ISession['revokedReason']>): Promise<boolean> {
+  const result = await Session.updateOne({ sessionId, revokedAt: null }, { revokedAt: new Date(), revokedReason: reason })
+  return result.modifiedCount > 0
+}
+
+/**
+ * End one session (sign out of this device)
+ */
+export async function endSession(sessionId: string): Promise<void> {
+  await connectDB()
+  await revokeSessionById(sessionId, 'logout')
+}
+
+/**
+ * Revoke one of the user's sessions from the device list
+ * @returns false if the user has no such active session
+ */
+export async function revokeUserSession(userId: string, sessionId: string): Promise<boolean> {
+  await connectDB()
+  const result = await Session.updateOne(
+    { sessionId, userId, revokedAt: null },
+    { revokedAt: new Date(), revokedReason: 'user' }
+  )
+  return result.modifiedCount > 0
+}
+
+/**
+ * Revoke every session the user has, including the current one
+ * @returns Number of sessions revoked
+ */
+export async function revokeAllSessions(
+  userId: string,
+  reason: 'logout-all' | 'password-reset'
+): Promise<number> {
+  await connectDB()
+  const result = await Session.updateMany({ userId, revokedAt: null }, { revokedAt: new Date(), revokedReason: reason })
+  return result.modifiedCount
+}
+
+/**
+ * The user's signed-in devices, most recently used first
+ */
+export async function listActiveSessions(userId: string): Promise<SessionSummary[]> {
+  await connectDB()
+
+  const sessions = await Session.find({ userId, revokedAt: null, expiresAt: { $gt: new Date() } })
+    .sort({ lastSeenAt: -1 })
+    .lean()
+
+  return sessions.map((session) => ({
+    id: session.sessionId,
+    userAgent: session.userAgent ?? null,
+    ip: session.ip ?? null,
+    createdAt: session.createdAt,
+    lastSeenAt: session.lastSeenAt,
+    expiresAt: session.expiresAt,
+  }))
+}
@@ -0,0 +1,98 @@
+import connectDB from '@/lib/db'
+import UserSettings, { IUserSettings } from '@/models/UserSettings'
+import { decryptField, encryptField, getCurrentKeyVersion } from '@/lib/utils/field-encryption'
+
+export interface ApiKeyRotationResult {
+  keyVersion: number
+  /** Rows re-encrypted from an older master key */
+  rotated: number
+  /** Plain text rows encrypted for the first time */
+  encrypted: number
+  failed: number
+}
+
+// Binds each ciphertext to its owner, so it can't be copied onto another user's settings
+function apiKeyContext(settings: IUserSettings): string {
+  return `UserSettings.veritusApiKey:${settings.userId.toString()}`
+}
+
+/**
+ * Store (or clear, with an empty value) a user's Veritus API key, encrypted
+ * Call settings.save() afterwards
+ */
+export function setVeritusApiKey(settings: IUserSettings, apiKey: string | null | undefined): void {
+  const trimmed = apiKey?.trim()
+  settings.veritusApiKey = undefined
+  settings.veritusApiKeyEncrypted = trimmed ? encryptField(trimmed, apiKeyContext(settings)) : undefined
+  settings.veritusApiKeyLast4 = trimmed ? trimmed.slice(-4) : undefined
+}
+
+/**
+ * The user's Veritus API key in plain text, or null if they haven't set one
+ * Rows saved before encryption are still read as plain text until rotated
+ * @throws If the key was encrypted with a master key that is no longer configured
+ */
+export function readVeritusApiKey(settings: IUserSettings): string | null {
+  if (settings.veritusApiKeyEncrypted?.ciphertext) {
+    try {
+      return decryptField(settings.veritusApiKeyEncrypted, apiKeyContext(settings))
+    } catch (error: any) {
+      console.error(`Failed to decrypt Veritus API key for user ${settings.userId}:`, error.message)
+      throw new Error('Your saved Veritus API key could not be decrypted. Please enter it again in settings.')
+    }
+  }
+  return settings.veritusApiKey || null
+}
+
+/**
+ * What the settings UI may show of the key: whether there is one and its last 4 characters
+ */
+export function describeVeritusApiKey(settings: IUserSettings | null): { hasApiKey: boolean; apiKeyLast4: string | null } {
+  if (settings?.veritusApiKeyEncrypted?.ciphertext) {
+    return { hasApiKey: true, apiKeyLast4: settings.veritusApiKeyLast4 || null }
+  }
+  if (settings?.veritusApiKey) {
+    return { hasApiKey: true, apiKeyLast4: settings.veritusApiKey.slice(-4) }
+  }
+  return { hasApiKey: false, apiKeyLast4: null }
+}
+
+/**
+ * Re-encrypt every stored key under the current master key version
+ * Also encrypts keys still stored as plain text. Safe to run repeatedly: rows already on the
+ * current version are skipped. Retire an old key from FIELD_ENCRYPTION_KEYS only after this
+ * reports no failures.
+ */
+export async function rotateVeritusApiKeys(): Promise<ApiKeyRotationResult> {
+  await connectDB()
+
+  const keyVersion = getCurrentKeyVersion()
+  const result: ApiKeyRotationResult = { keyVersion, rotated: 0, encrypted: 0, failed: 0 }
+
+  const cursor = UserSettings.find({
+    $or: [
+      { veritusApiKey: { $exists: true, $nin: [null, ''] } },
+      { veritusApiKeyEncrypted: { $exists: true }, 'veritusApiKeyEncrypted.keyVersion': { $ne: keyVersion } },
+    ],
+  }).cursor()
+
+  for await (const settings of cursor) {
+    try {
+      const wasPlainText = !settings.veritusApiKeyEncrypted?.ciphertext
+      const apiKey = readVeritusApiKey(settings)
+      setVeritusApiKey(settings, apiKey)
+      await settings.save()
+
+      if (wasPlainText) {
+        result.encrypted++
+      } else {
+        result.rotated++
+      }
+    } catch (error: any) {
+      result.failed++
+      console.error(`Failed to rotate Veritus API key for user ${settings.userId}:`, error.message)
+    }
+  }
+
+  return result
+}
@@ -133,3 +133,78 @@ export function extractMetadataFromPapers(papers: VeritusPaper[]): Partial<ChatM
 
   return combined
 }
+
+/**
+ * Metadata for a new chat, optionally opened for a paper
+ * paperData is scoped to this chat only; it also seeds the chat store entry keyed by the
+ * paper's heading (abstract or title)
+ */
+export function initialChatMetadata(paperData?: any): ChatMetadata {
+  const chatMetadata: ChatMetadata = {
+    authors: [],
+    keywords: [],
+    abstracts: [],
+    tldrs: [],
+    publicationTypes: [],
+    publishedDates: [],
+    quartileRankings: [],
+    journalNames: [],
+    citationCounts: [],
+  }
+
+  if (!paperData) {
+    return chatMetadata
+  }
+
+  chatMetadata.paperData = paperData
+
+  const heading = paperData.abstract || paperData.title || ''
+  if (heading) {
+    chatMetadata.chatStore = {
+      [heading]: {
+        heading,
+        paper: paperData,
+        similarPapers: [], // Empty initially, will be populated after similar search
+        apiResponse: { paper: paperData }, // Full API response
+      }
+    }
+  }
+
+  if (paperData.authors) {
+    chatMetadata.authors = Array.isArray(paperData.authors)
+      ? paperData.authors
+      : paperData.authors.split(',').map((a: string) => a.trim())
+  }
+  if (paperData.abstract) {
+    chatMetadata.abstracts = [paperData.abstract]
+  }
+  if (paperData.tldr) {
+    chatMetadata.tldrs = [paperData.tldr]
+  }
+  if (paperData.journalName) {
+    chatMetadata.journalNames = [paperData.journalName]
+  }
+  if (paperData.citationCount) {
+    chatMetadata.citationCounts = [paperData.citationCount]
+  }
+  if (paperData.year) {
+    chatMetadata.publishedDates = [new Date(paperData.year, 0, 1)]
+  }
+  if (paperData.publicationType) {
+    chatMetadata.publicationTypes = [paperData.publicationType]
+  }
+
+  return chatMetadata
+}
+
+/**
+ * The first message of a chat opened for a paper, holding the paper in message.papers
+ */
+export function initialPaperMessage(paperData: any) {
+  return {
+    role: 'assistant' as const,
+    content: `Paper: ${paperData.title || 'Untitled'}\n\nAuthors: ${paperData.authors || 'N/A'}\nYear: ${paperData.year || 'N/A'}\nJournal: ${paperData.journalName || 'N/A'}\n\n${paperData.abstract ? `Abstract: ${paperData.abstract}` : ''}\n\n${paperData.tldr ? `TLDR: ${paperData.tldr}` : ''}`,
+    timestamp: new Date(),
+    papers: [paperData],
+  }
+}
@@ -0,0 +1,279 @@
+import { VeritusPaper } from '@/types/veritus'
+
+export type CitationExportFormat = 'bibtex' | 'ris' | 'csl-json'
+
+export const CITATION_EXPORT_FORMATS: CitationExportFormat[] = ['bibtex', 'ris', 'csl-json']
+
+export interface CitationExportFile {
+  content: string
+  contentType: string
+  extension: string
+}
+
+export interface ParsedAuthor {
+  family: string
+  given?: string
+}
+
+type EntryKind = 'article' | 'conference' | 'book' | 'chapter' | 'dataset' | 'thesis' | 'misc'
+
+// Title words skipped when building citation keys
+const KEY_STOP_WORDS = new Set(['a', 'an', 'the', 'on', 'of', 'in', 'for', 'and', 'to', 'with', 'towards', 'toward', 'via', 'from', 'at', 'by'])
+
+// Lowercase name particles that belong to the family name ("van der Berg", "de la Cruz")
+const NAME_PARTICLES = new Set(['van', 'von', 'der', 'den', 'de', 'del', 'della', 'da', 'di', 'du', 'la', 'le', 'dos', 'das', 'bin', 'ibn', 'al'])
+
+/**
+ * Parse the comma-separated `authors` string ("Jane Doe, John van der Berg") into family/given names
+ */
+export function parseAuthors(authors: string | null | undefined): ParsedAuthor[] {
+  if (!authors) return []
+
+  return authors
+    .split(/\s*,\s*|\s*;\s*|\s+and\s+/)
+    .map(name => name.trim())
+    .filter(name => name.length > 0 && !/^et\.?\s*al\.?$/i.test(name))
+    .map(name => {
+      const parts = name.split(/\s+/)
+      if (parts.length === 1) {
+        return { family: parts[0] }
+      }
+
+      // Walk back from the last word over any lowercase particles
+      let familyStart = parts.length - 1
+      while (familyStart > 1 && NAME_PARTICLES.has(parts[familyStart - 1].toLowerCase())) {
+        familyStart--
+      }
+      return {
+        family: parts.slice(familyStart).join(' '),
+        given: parts.slice(0, familyStart).join(' '),
+      }
+    })
+}
+
+function entryKind(paper: VeritusPaper): EntryKind {
+  const type = (paper.publicationType || '').toLowerCase()
+  if (type.includes('conference') || type.includes('proceeding')) return 'conference'
+  if (type.includes('chapter') || type.includes('booksection')) return 'chapter'
+  if (type.includes('book')) return 'book'
+  if (type.includes('dataset')) return 'dataset'
+  if (type.includes('thesis')) return 'thesis'
+  if (type.includes('journal') || type.includes('review') || type.includes('article') || paper.journalName) return 'article'
+  return 'misc'
+}
+
+function paperUrl(paper: VeritusPaper): string | null {
+  return paper.link || paper.titleLink || paper.semanticLink || paper.pdfLink || (paper.doi ? `https://doi.org/${paper.doi}` : null)
+}
+
+function dateParts(paper: VeritusPaper): number[] | null {
+  const match = paper.publishedAt?.match(/^(\d{4})-(\d{2})-(\d{2})/)
+  if (match) {
+    return [parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10)]
+  }
+  return paper.year ? [paper.year] : null
+}
+
+function asciiFold(value: string): string {
+  return value.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^A-Za-z0-9]/g, '')
+}
+
+function baseCitationKey(paper: VeritusPaper): string {
+  const [firstAuthor] = parseAuthors(paper.authors)
+  const author = asciiFold(firstAuthor?.family || '').toLowerCase() || 'anon'
+  const year = paper.year ? String(paper.year) : 'nd'
+  const word = (paper.title || '')
+    .split(/\s+/)
+    .map(w => asciiFold(w).toLowerCase())
+    .find(w => w.length > 0 && !KEY_STOP_WORDS.has(w)) || ''
+  return `${author}${year}${word}`
+}
+
+/**
+ * Citation keys like "doe2024machine", unique within the set
+ * Colliding keys get a/b/c suffixes ordered by paper id, so exporting the same papers again
+ * yields the same keys regardless of their order
+ */
+export function generateCitationKeys(papers: VeritusPaper[]): Map<VeritusPaper, string> {
+  const groups = new Map<string, VeritusPaper[]>()
+  for (const paper of papers) {
+    const key = baseCitationKey(paper)
+    if (!groups.has(key)) groups.set(key, [])
+    groups.get(key)!.push(paper)
+  }
+
+  const keys = new Map<VeritusPaper, string>()
+  groups.forEach((group, key) => {
+    if (group.length === 1) {
+      keys.set(group[0], key)
+      return
+    }
+    const ordered = [...group].sort((a, b) => String(a.id).localeCompare(String(b.id)))
+    ordered.forEach((paper, i) => {
+      let suffix = ''
+      let n = i
+      do {
+        suffix = String.fromCharCode(97 + (n % 26)) + suffix
+        n = Math.floor(n / 26) - 1
+      } while (n >= 0)
+      keys.set(paper, `${key}${suffix}`)
+    })
+  })
+  return keys
+}
+
+/**
+ * Deduplicate by paper id, keeping the first occurrence
+ */
+function uniquePapers(papers: VeritusPaper[]): VeritusPaper[] {
+  const seen = new Set<string>()
+  return papers.filter(paper => {
+    const id = String(paper.id || paper.title)
+    if (seen.has(id)) return false
+    seen.add(id)
+    return true
+  })
+}
+
+function escapeBibtex(value: string): string {
+  return value
+    .replace(/\\/g, '\\textbackslash{}')
+    .replace(/([&%$#_{}])/g, '\\$1')
+    .replace(/~/g, '\\textasciitilde{}')
+    .replace(/\^/g, '\\textasciicircum{}')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+const BIBTEX_TYPES: Record<EntryKind, string> = {
+  article: 'article',
+  conference: 'inproceedings',
+  book: 'book',
+  chapter: 'incollection',
+  dataset: 'misc',
+  thesis: 'phdthesis',
+  misc: 'misc',
+}
+
+function toBibtex(papers: VeritusPaper[]): string {
+  const keys = generateCitationKeys(papers)
+
+  return papers.map(paper => {
+    const kind = entryKind(paper)
+    const authors = parseAuthors(paper.authors)
+    const fields: Array<[string, string | null | undefined]> = [
+      // Double braces keep the title's capitalisation in most styles
+      ['title', paper.title ? `{${escapeBibtex(paper.title)}}` : null],
+      ['author', authors.map(a => escapeBibtex(a.given ? `${a.family}, ${a.given}` : a.family)).join(' and ')],
+      ['year', paper.year ? String(paper.year) : null],
+      [kind === 'conference' || kind === 'chapter' ? 'booktitle' : 'journal', paper.journalName ? escapeBibtex(paper.journalName) : null],
+      ['publisher', paper.v_publisher ? escapeBibtex(paper.v_publisher) : null],
+      ['doi', paper.doi],
+      ['url', paperUrl(paper)],
+      ['abstract', paper.abstract ? escapeBibtex(paper.abstract) : null],
+      ['keywords', paper.fieldsOfStudy?.length ? escapeBibtex(paper.fieldsOfStudy.join(', ')) : null],
+    ]
+
+    const body = fields
+      .filter(([, value]) => value)
+      .map(([name, value]) => `  ${name} = {${value}}`)
+      .join(',\n')
+    return `@${BIBTEX_TYPES[kind]}{${keys.get(paper)},\n${body}\n}`
+  }).join('\n\n') + '\n'
+}
+
+const RIS_TYPES: Record<EntryKind, string> = {
+  article: 'JOUR',
+  conference: 'CPAPER',
+  book: 'BOOK',
+  chapter: 'CHAP',
+  dataset: 'DATA',
+  thesis: 'THES',
+  misc: 'GEN',
+}
+
+function toRis(papers: VeritusPaper[]): string {
+  const keys = generateCitationKeys(papers)
+
+  return papers.map(paper => {
+    const lines: Array<[string, string | null | undefined]> = [['TY', RIS_TYPES[entryKind(paper)]]]
+    for (const author of parseAuthors(paper.authors)) {
+      lines.push(['AU', author.given ? `${author.family}, ${author.given}` : author.family])
+    }
+    lines.push(['TI', paper.title])
+    lines.push([entryKind(paper) === 'article' ? 'JO' : 'T2', paper.journalName])
+    lines.push(['PY', paper.year ? String(paper.year) : null])
+    const parts = dateParts(paper)
+    if (parts && parts.length === 3) {
+      lines.push(['DA', parts.map(p => String(p).padStart(2, '0')).join('/')])
+    }
+    lines.push(['PB', paper.v_publisher])
+    lines.push(['DO', paper.doi])
+    lines.push(['UR', paperUrl(paper)])
+    if (paper.pdfLink) lines.push(['L1', paper.pdfLink])
+    lines.push(['AB', paper.abstract])
+    for (const field of paper.fieldsOfStudy || []) {
+      lines.push(['KW', field])
+    }
+    lines.push(['ID', keys.get(paper)])
+    lines.push(['ER', ''])
+
+    return lines
+      .filter(([tag, value]) => tag === 'ER' || value)
+      .map(([tag, value]) => `${tag}  - ${String(value).replace(/\s*[\r\n]+\s*/g, ' ')}`)
+      .join('\r\n')
+  }).join('\r\n\r\n') + '\r\n'
+}
+
+const CSL_TYPES: Record<EntryKind, string> = {
+  article: 'article-journal',
+  conference: 'paper-conference',
+  book: 'book',
+  chapter: 'chapter',
+  dataset: 'dataset',
+  thesis: 'thesis',
+  misc: 'article',
+}
+
+function toCslJson(papers: VeritusPaper[]): string {
+  const keys = generateCitationKeys(papers)
+
+  const items = papers.map(paper => {
+    const parts = dateParts(paper)
+    const item: Record<string, unknown> = {
+      id: keys.get(paper),
+      type: CSL_TYPES[entryKind(paper)],
+      title: paper.title,
+      author: parseAuthors(paper.authors),
+      issued: parts ? { 'date-parts': [parts] } : undefined,
+      'container-title': paper.journalName || undefined,
+      publisher: paper.v_publisher || undefined,
+      DOI: paper.doi || undefined,
+      URL: paperUrl(paper) || undefined,
+      abstract: paper.abstract || undefined,
+      keyword: paper.fieldsOfStudy?.length ? paper.fieldsOfStudy.join(', ') : undefined,
+      note: paper.id ? `Veritus: ${paper.id}` : undefined,
+    }
+    return item
+  })
+
+  return JSON.stringify(items, null, 2)
+}
+
+/**
+ * Serialize papers for reference managers (BibTeX, RIS or CSL-JSON)
+ */
+export function exportCitations(papers: VeritusPaper[], format: CitationExportFormat): CitationExportFile {
+  const unique = uniquePapers(papers.filter(paper => paper && (paper.id || paper.title)))
+
+  switch (format) {
+    case 'bibtex':
+      return { content: toBibtex(unique), contentType: 'application/x-bibtex', extension: 'bib' }
+    case 'ris':
+      return { content: toRis(unique), contentType: 'application/x-research-info-systems', extension: 'ris' }
+    case 'csl-json':
+      return { content: toCslJson(unique), contentType: 'application/vnd.citationstyles.csl+json', extension: 'json' }
+    default:
+      throw new Error(`Unsupported citation format: ${format}`)
+  }
+}
@@ -0,0 +1,276 @@
+export type CitationImportFormat = 'bibtex' | 'ris' | 'list'
+
+export const CITATION_IMPORT_FORMATS: CitationImportFormat[] = ['bibtex', 'ris', 'list']
+
+/**
+ * One reference from an uploaded bibliography, before it is matched to a Veritus paper
+ * `label` is what we show the user if the entry could not be matched
+ */
+export interface ImportEntry {
+  label: string
+  title?: string
+  doi?: string
+  corpusId?: string
+  authors?: string[]
+  year?: number
+}
+
+const DOI_PATTERN = /10\.\d{4,9}\/[^\s"'<>{}]+/i
+const CORPUS_ID_PATTERN = /^corpus:\s*(\d+)$/i
+
+// BibTeX entry types that are not references
+const BIBTEX_SKIP_TYPES = new Set(['comment', 'string', 'preamble'])
+
+/**
+ * Pull a DOI out of a bare DOI, a doi: prefix or a doi.org URL
+ */
+export function extractDoi(value: string | undefined | null): string | undefined {
+  const match = value?.match(DOI_PATTERN)
+  // Trailing punctuation is almost always sentence punctuation, not part of the DOI
+  return match ? match[0].replace(/[.,;:)\]]+$/, '').toLowerCase() : undefined
+}
+
+export function detectImportFormat(content: string): CitationImportFormat {
+  if (/^\s*@[a-z]+\s*[{(]/im.test(content)) return 'bibtex'
+  if (/^TY {2}- /m.test(content)) return 'ris'
+  return 'list'
+}
+
+/**
+ * Strip braces and the common LaTeX escapes from a BibTeX value
+ */
+function cleanBibtexValue(value: string): string {
+  return value
+    .replace(/\\(?:textbackslash|textasciitilde|textasciicircum)\{\}/g, ' ')
+    .replace(/\\[`'^"~=.uvHckbdr]\{?([A-Za-z])\}?/g, '$1')
+    .replace(/\\([&%$#_{}])/g, '$1')
+    .replace(/[{}]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function parseYear(value: string | undefined): number | undefined {
+  const match = value?.match(/\b(1[5-9]\d{2}|20\d{2})\b/)
+  return match ? parseInt(match[1], 10) : undefined
+}
+
+/**
+ * Read one `{...}`, `"..."` or bare value starting at `start`
+ * @returns The raw value and the index just past it
+ */
+function readBibtexValue(body: string, start: number): [string, number] {
+  let i = start
+  while (i < body.length && /\s/.test(body[i])) i++
+
+  if (body[i] === '{') {
+    let depth = 0
+    const from = i
+    for (; i < body.length; i++) {
+      if (body[i] === '\\') { i++; continue }
+      if (body[i] === '{') depth++
+      if (body[i] === '}' && --depth === 0) break
+    }
+    return [body.slice(from + 1, i), i + 1]
+  }
+
+  if (body[i] === '"') {
+    const from = i
+    let depth = 0
+    for (i++; i < body.length; i++) {
+      if (body[i] === '\\') { i++; continue }
+      if (body[i] === '{') depth++
+      if (body[i] === '}') depth--
+      if (body[i] === '"' && depth === 0) break
+    }
+    return [body.slice(from + 1, i), i + 1]
+  }
+
+  const from = i
+  while (i < body.length && body[i] !== ',' && body[i] !== '}' && body[i] !== ')') i++
+  return [body.slice(from, i).trim(), i]
+}
+
+function parseBibtexFields(body: string): Record<string, string> {
+  const fields: Record<string, string> = {}
+  const fieldName = /([A-Za-z][\w-]*)\s*=/g
+  let match: RegExpExecArray | null
+
+  while ((match = fieldName.exec(body)) !== null) {
+    let [value, end] = readBibtexValue(body, match.index + match[0].length)
+    // String concatenation: "a" # {b}
+    while (/^\s*#/.test(body.slice(end))) {
+      const [next, nextEnd] = readBibtexValue(body, body.indexOf('#', end) + 1)
+      value += next
+      end = nextEnd
+    }
+    fields[match[1].toLowerCase()] = value
+    fieldName.lastIndex = end
+  }
+  return fields
+}
+
+export function parseBibtex(content: string): ImportEntry[] {
+  const entries: ImportEntry[] = []
+  const entryStart = /@([a-z]+)\s*[{(]/gi
+  let match: RegExpExecArray | null
+
+  while ((match = entryStart.exec(content)) !== null) {
+    // Find the matching close of the entry - @article{...} or @article(...)
+    const open = match[0].slice(-1)
+    const close = open === '{' ? '}' : ')'
+    let depth = 1
+    let i = match.index + match[0].length
+    for (; i < content.length && depth > 0; i++) {
+      if (content[i] === '\\') { i++; continue }
+      if (content[i] === open) depth++
+      if (content[i] === close) depth--
+    }
+    const body = content.slice(match.index + match[0].length, i - 1)
+    entryStart.lastIndex = i
+
+    if (BIBTEX_SKIP_TYPES.has(match[1].toLowerCase())) continue
+
+    const citationKey = body.split(',')[0].trim()
+    const fields = parseBibtexFields(body.slice(body.indexOf(',') + 1))
+    const title = fields.title ? cleanBibtexValue(fields.title) : undefined
+    const doi = extractDoi(fields.doi) || extractDoi(fields.url)
+
+    if (!title && !doi) continue
+    entries.push({
+      label: title || doi || citationKey,
+      title,
+      doi,
+      authors: fields.author
+        ? fields.author.split(/\s+and\s+/i).map(cleanBibtexValue).filter(Boolean)
+        : undefined,
+      year: parseYear(fields.year || fields.date),
+    })
+  }
+  return entries
+}
+
+export function parseRis(content: string): ImportEntry[] {
+  const entries: ImportEntry[] = []
+  let current: Record<string, string[]> | null = null
+
+  const finish = () => {
+    if (!current) return
+    const title = (current.TI || current.T1 || current.CT || current.BT || [])[0]?.trim()
+    const doi = extractDoi(current.DO?.[0]) || (current.UR || []).map(extractDoi).find(Boolean)
+    if (title || doi) {
+      const authors = [...(current.AU || []), ...(current.A1 || [])].map(a => a.trim()).filter(Boolean)
+      entries.push({
+        label: title || doi!,
+        title,
+        doi,
+        authors: authors.length > 0 ? authors : undefined,
+        year: parseYear((current.PY || current.Y1 || current.DA || [])[0]),
+      })
+    }
+    current = null
+  }
+
+  for (const line of content.split(/\r?\n/)) {
+    const match = line.match(/^([A-Z][A-Z0-9]) {2}-(?: (.*))?$/)
+    if (!match) continue
+    const [, tag, value = ''] = match
+    if (tag === 'TY') {
+      finish()
+      current = {}
+      continue
+    }
+    if (tag === 'ER') {
+      finish()
+      continue
+    }
+    if (current) {
+      if (!current[tag]) current[tag] = []
+      current[tag].push(value)
+    }
+  }
+  finish()
+  return entries
+}
+
+/**
+ * One reference per line: a DOI, a Veritus id ("corpus:123") or a title
+ * Leading list markers ("1.", "-", "*") are ignored
+ */
+export function parseReferenceList(content: string): ImportEntry[] {
+  return content
+    .split(/\r?\n/)
+    .map(line => line.replace(/^\s*(?:[-*\u2022]|\d+[.)]|\[\d+\])\s*/, '').trim())
+    .filter(line => line.length > 0)
+    .map(line => {
+      const corpusId = line.match(CORPUS_ID_PATTERN)
+      if (corpusId) {
+        return { label: line, corpusId: `corpus:${corpusId[1]}` }
+      }
+      const doi = extractDoi(line)
+      if (doi && line.replace(/^(https?:\/\/(dx\.)?doi\.org\/|doi:\s*)/i, '').trim().toLowerCase().startsWith(doi)) {
+        return { label: line, doi }
+      }
+      return { label: line, title: line, doi }
+    })
+}
+
+/**
+ * Parse a bibliography into import entries
+ * @param format Defaults to detecting BibTeX and RIS, falling back to one reference per line
+ */
+export function parseCitationImport(content: string, format?: CitationImportFormat): ImportEntry[] {
+  switch (format || detectImportFormat(content)) {
+    case 'bibtex':
+      return parseBibtex(content)
+    case 'ris':
+      return parseRis(content)
+    default:
+      return parseReferenceList(content)
+  }
+}
+
+function normalizeForMatch(title: string): string {
+  return title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * How alike two titles are, from 0 to 1, ignoring case, accents and punctuation
+ * Takes the better of edit distance (typos) and word overlap (reordered or dropped subtitles)
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const left = normalizeForMatch(a)
+  const right = normalizeForMatch(b)
+  if (!left || !right) return 0
+  if (left === right) return 1
+
+  const editSimilarity = 1 - levenshtein(left, right) / Math.max(left.length, right.length)
+
+  const leftWords = new Set(left.split(' '))
+  const rightWords = new Set(right.split(' '))
+  let shared = 0
+  leftWords.forEach(word => { if (rightWords.has(word)) shared++ })
+  const wordSimilarity = (2 * shared) / (leftWords.size + rightWords.size)
+
+  return Math.max(editSimilarity, wordSimilarity)
+}
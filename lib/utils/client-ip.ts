@@ -0,0 +1,14 @@
+/**
+ * Best-effort client IP for rate limiting and the session list
+ * Uses the last X-Forwarded-For entry - the one our proxy (e.g. Vercel) appended for the peer it
+ * saw. Earlier entries come from the client and can be anything, so they must not key a rate limit
+ */
+export function getClientIp(source: Request | Headers): string | null {
+  const headers = source instanceof Headers ? source : source.headers
+  const forwardedFor = headers.get('x-forwarded-for')
+  if (forwardedFor) {
+    const last = forwardedFor.split(',').map((entry) => entry.trim()).filter(Boolean).pop()
+    if (last) return last
+  }
+  return headers.get('x-real-ip')?.trim() || null
+}
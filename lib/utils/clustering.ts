@@ -1,9 +1,12 @@
-import { CitationNetworkNode } from '@/types/paper-api'
+import { CitationNetworkNode, CitationNetworkEdge } from '@/types/paper-api'
+import { calculateEdgeWeight, WeightingMode } from './edge-weighting'
 
 export interface Cluster {
   id: string
   label: string
   nodes: CitationNetworkNode[]
+  /** Most frequent fields of study / title words of the members (community clusters only) */
+  keywords?: string[]
   bounds: {
     x: number
     y: number
@@ -12,7 +15,7 @@ export interface Cluster {
   }
 }
 
-export type ClusterType = 'year' | 'citations' | 'type'
+export type ClusterType = 'year' | 'citations' | 'type' | 'community'
 
 /**
  * Cluster nodes by year ranges
@@ -144,3 +147,205 @@ export function calculateClusterBounds(cluster: Cluster): Cluster {
   }
 }
 
+
+const TITLE_STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'into', 'onto', 'over', 'under', 'via', 'using', 'based',
+  'towards', 'toward', 'through', 'between', 'among', 'about', 'their', 'its', 'our', 'new', 'novel',
+  'approach', 'approaches', 'method', 'methods', 'study', 'analysis', 'paper', 'review', 'survey',
+  'case', 'results',
+])
+
+export interface CommunityOptions {
+  /** Weighting mode passed to calculateEdgeWeight when both ends carry paper data */
+  weighting?: WeightingMode
+  /** Louvain resolution: above 1 gives more, smaller communities */
+  resolution?: number
+  /** Communities smaller than this are returned as "Unclustered" */
+  minSize?: number
+}
+
+function endpointId(endpoint: any): string {
+  // d3 force simulations replace edge endpoints with node objects
+  return typeof endpoint === 'string' ? endpoint : String(endpoint?.id ?? endpoint)
+}
+
+/**
+ * One Louvain run over a weighted, undirected graph given as adjacency maps
+ * Self-loops hold twice the internal weight of an aggregated community, so degrees are preserved
+ * @returns Community index for every node
+ */
+function louvain(adjacency: Array<Map<number, number>>, resolution: number): number[] {
+  let graph = adjacency
+  // membership[i] = current aggregated node of original node i
+  let membership = graph.map((_, i) => i)
+
+  while (true) {
+    const n = graph.length
+    const degree = graph.map(neighbors => Array.from(neighbors.values()).reduce((sum, w) => sum + w, 0))
+    const totalWeight = degree.reduce((sum, k) => sum + k, 0)
+    if (totalWeight === 0) break
+
+    const community = graph.map((_, i) => i)
+    const communityDegree = degree.slice()
+    let moved = false
+    let improved = true
+
+    while (improved) {
+      improved = false
+      for (let i = 0; i < n; i++) {
+        const current = community[i]
+        const linksTo = new Map<number, number>()
+        graph[i].forEach((w, j) => {
+          if (j !== i) linksTo.set(community[j], (linksTo.get(community[j]) || 0) + w)
+        })
+
+        communityDegree[current] -= degree[i]
+        let best = current
+        let bestGain = (linksTo.get(current) || 0) - (resolution * communityDegree[current] * degree[i]) / totalWeight
+        linksTo.forEach((w, candidate) => {
+          const gain = w - (resolution * communityDegree[candidate] * degree[i]) / totalWeight
+          if (gain > bestGain + 1e-12) {
+            best = candidate
+            bestGain = gain
+          }
+        })
+        communityDegree[best] += degree[i]
+
+        if (best !== current) {
+          community[i] = best
+          improved = true
+          moved = true
+        }
+      }
+    }
+
+    if (!moved) break
+
+    // Collapse each community into a single node and repeat on the smaller graph
+    const renumbered = new Map<number, number>()
+    community.forEach(c => {
+      if (!renumbered.has(c)) renumbered.set(c, renumbered.size)
+    })
+    const aggregated: Array<Map<number, number>> = Array.from({ length: renumbered.size }, () => new Map())
+    graph.forEach((neighbors, i) => {
+      const ci = renumbered.get(community[i])!
+      neighbors.forEach((w, j) => {
+        const cj = renumbered.get(community[j])!
+        aggregated[ci].set(cj, (aggregated[ci].get(cj) || 0) + w)
+      })
+    })
+
+    membership = membership.map(m => renumbered.get(community[m])!)
+    graph = aggregated
+  }
+
+  return membership
+}
+
+/**
+ * Label a community from its members' most frequent fields of study and title words
+ */
+function labelCommunity(nodes: CitationNetworkNode[]): { label: string; keywords: string[] } {
+  const fieldCounts = new Map<string, number>()
+  const wordCounts = new Map<string, number>()
+
+  nodes.forEach(node => {
+    new Set(node.data?.fieldsOfStudy || []).forEach(field => {
+      fieldCounts.set(field, (fieldCounts.get(field) || 0) + 1)
+    })
+
+    const words = (node.data?.title || node.label || '')
+      .toLowerCase()
+      .replace(/[^a-z0-9\s-]/g, ' ')
+      .split(/\s+/)
+      .filter(word => word.length >= 4 && !TITLE_STOP_WORDS.has(word) && !/^\d+$/.test(word))
+    new Set(words).forEach(word => {
+      wordCounts.set(word, (wordCounts.get(word) || 0) + 1)
+    })
+  })
+
+  const top = (counts: Map<string, number>, limit: number) =>
+    Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, limit)
+      .map(([key]) => key)
+
+  const fields = top(fieldCounts, 1)
+  // Only keep title words shared by several members, unless the community is tiny
+  const minWordCount = nodes.length > 2 ? 2 : 1
+  const words = top(new Map(Array.from(wordCounts).filter(([, count]) => count >= minWordCount)), 3)
+
+  const parts = [fields[0], words.join(', ')].filter(Boolean)
+  return {
+    label: parts.join(' · '),
+    keywords: [...fields, ...words],
+  }
+}
+
+/**
+ * Cluster nodes into communities of densely connected papers (Louvain modularity optimisation)
+ * Edges are weighted with calculateEdgeWeight when both papers are available, otherwise their own weight
+ */
+export function clusterByCommunity(
+  nodes: CitationNetworkNode[],
+  edges: CitationNetworkEdge[],
+  options: CommunityOptions = {}
+): Cluster[] {
+  const { weighting = 'balanced', resolution = 1, minSize = 2 } = options
+  const index = new Map(nodes.map((node, i) => [node.id, i]))
+  const adjacency: Array<Map<number, number>> = nodes.map(() => new Map())
+
+  edges.forEach(edge => {
+    const source = index.get(endpointId(edge.source))
+    const target = index.get(endpointId(edge.target))
+    if (source === undefined || target === undefined || source === target) return
+
+    const sourceData = nodes[source].data
+    const targetData = nodes[target].data
+    const weight = sourceData && targetData
+      ? calculateEdgeWeight(sourceData, targetData, { weighting }).weight
+      : edge.weight || 1
+
+    // Parallel edges (A cites B and B references A) add up
+    adjacency[source].set(target, (adjacency[source].get(target) || 0) + weight)
+    adjacency[target].set(source, (adjacency[target].get(source) || 0) + weight)
+  })
+
+  const membership = louvain(adjacency, resolution)
+  const groups = new Map<number, CitationNetworkNode[]>()
+  membership.forEach((community, i) => {
+    if (!groups.has(community)) groups.set(community, [])
+    groups.get(community)!.push(nodes[i])
+  })
+
+  const clusters: Cluster[] = []
+  const unclustered: CitationNetworkNode[] = []
+  Array.from(groups.values())
+    .sort((a, b) => b.length - a.length)
+    .forEach(members => {
+      if (members.length < minSize) {
+        unclustered.push(...members)
+        return
+      }
+      const { label, keywords } = labelCommunity(members)
+      const id = `community-${clusters.length + 1}`
+      clusters.push({
+        id,
+        label: label || `Community ${clusters.length + 1}`,
+        keywords,
+        nodes: members,
+        bounds: { x: 0, y: 0, width: 0, height: 0 }
+      })
+    })
+
+  if (unclustered.length > 0) {
+    clusters.push({
+      id: 'unclustered',
+      label: 'Unclustered',
+      nodes: unclustered,
+      bounds: { x: 0, y: 0, width: 0, height: 0 }
+    })
+  }
+
+  return clusters
+}
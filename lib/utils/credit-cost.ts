@@ -0,0 +1,59 @@
+/**
+ * Veritus credit cost estimates
+ * The defaults below are used until the credit ledger has measured what an operation really
+ * costs (see estimateJobCost in lib/services/credit-ledger). No server imports, so the search
+ * panels can use the types and threshold.
+ */
+
+export const CREDIT_JOB_TYPES = ['keywordSearch', 'querySearch', 'combinedSearch'] as const
+export type CreditJobType = (typeof CREDIT_JOB_TYPES)[number]
+export type CreditOperation = 'createJob' | 'getPaper'
+
+// Job cost grows with the result limit; combinedSearch runs both searches
+const DEFAULT_JOB_CREDITS_PER_100_RESULTS: Record<CreditJobType, number> = {
+  keywordSearch: 1,
+  querySearch: 1,
+  combinedSearch: 2,
+}
+export const DEFAULT_GET_PAPER_CREDITS = 1
+
+// Searches estimated at this many credits or more ask for confirmation first
+// (with the defaults, a 300-result combinedSearch)
+export const CONFIRM_COST_THRESHOLD = 5
+
+export interface CreditEstimate {
+  credits: number
+  /** 'history' when measured from the ledger, 'default' when no measurements exist yet */
+  basis: 'history' | 'default'
+  samples: number
+  requiresConfirmation: boolean
+}
+
+export function defaultJobCost(jobType: CreditJobType, limit: number = 100): number {
+  return DEFAULT_JOB_CREDITS_PER_100_RESULTS[jobType] * Math.ceil(limit / 100)
+}
+
+export function requiresCostConfirmation(credits: number): boolean {
+  return credits >= CONFIRM_COST_THRESHOLD
+}
+
+export function formatCredits(credits: number): string {
+  return Number.isInteger(credits) ? credits.toString() : credits.toFixed(1)
+}
+
+export const CREDIT_BUDGET_PERIODS = ['daily', 'monthly'] as const
+export type CreditBudgetPeriod = (typeof CREDIT_BUDGET_PERIODS)[number]
+
+/**
+ * Optional credit limits on a project or user; null or missing means no limit
+ * Days and months are UTC
+ */
+export type CreditBudget = Partial<Record<CreditBudgetPeriod, number | null>>
+
+/**
+ * Period each budget warning was last sent for, e.g. "2026-10-18" (daily) or "2026-10" (monthly)
+ */
+export type CreditBudgetAlerts = Partial<Record<CreditBudgetPeriod, string | null>>
+
+// Owners are emailed once per period when usage reaches this share of a budget
+export const BUDGET_WARNING_RATIO = 0.8
@@ -0,0 +1,114 @@
+import { DigestFrequency, DigestPreferences } from '@/types'
+
+export const DIGEST_FREQUENCIES: DigestFrequency[] = ['daily', 'weekly', 'off']
+
+export const MAX_PAPERS_PER_DIGEST = 10
+
+// Users who never chose get what the digest always did: one paper at 4 AM IST
+export const DEFAULT_DIGEST_PREFERENCES: DigestPreferences = {
+  frequency: 'daily',
+  timezone: 'Asia/Kolkata',
+  sendHour: 4,
+  sendDay: 1,
+  papersPerDigest: 1,
+}
+
+interface ZonedParts {
+  /** YYYY-MM-DD in the time zone */
+  date: string
+  hour: number
+  weekday: number
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+function getZonedParts(date: Date, timezone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    hourCycle: 'h23',
+    weekday: 'short',
+  }).formatToParts(date)
+  const get = (type: string) => parts.find((part) => part.type === type)?.value || ''
+
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    hour: parseInt(get('hour'), 10) % 24,
+    weekday: WEEKDAYS.indexOf(get('weekday')),
+  }
+}
+
+/**
+ * Fill in missing or invalid fields of stored preferences with the defaults
+ */
+export function resolveDigestPreferences(stored?: Partial<DigestPreferences> | null): DigestPreferences {
+  const preferences = { ...DEFAULT_DIGEST_PREFERENCES }
+  if (!stored) return preferences
+
+  if (stored.frequency && DIGEST_FREQUENCIES.includes(stored.frequency)) preferences.frequency = stored.frequency
+  if (stored.timezone && isValidTimeZone(stored.timezone)) preferences.timezone = stored.timezone
+  if (Number.isInteger(stored.sendHour) && stored.sendHour! >= 0 && stored.sendHour! <= 23) preferences.sendHour = stored.sendHour!
+  if (Number.isInteger(stored.sendDay) && stored.sendDay! >= 0 && stored.sendDay! <= 6) preferences.sendDay = stored.sendDay!
+  if (Number.isInteger(stored.papersPerDigest) && stored.papersPerDigest! >= 1) {
+    preferences.papersPerDigest = Math.min(MAX_PAPERS_PER_DIGEST, stored.papersPerDigest!)
+  }
+  return preferences
+}
+
+/**
+ * Check a preferences update from the client
+ * @returns An error message, or null when every given field is valid
+ */
+export function validateDigestPreferences(update: Record<string, unknown>): string | null {
+  if (update.frequency !== undefined && !DIGEST_FREQUENCIES.includes(update.frequency as DigestFrequency)) {
+    return `frequency must be one of: ${DIGEST_FREQUENCIES.join(', ')}`
+  }
+  if (update.timezone !== undefined && (typeof update.timezone !== 'string' || !isValidTimeZone(update.timezone))) {
+    return 'timezone must be an IANA time zone such as "Europe/Berlin"'
+  }
+  const isIntIn = (value: unknown, min: number, max: number) =>
+    Number.isInteger(value) && (value as number) >= min && (value as number) <= max
+  if (update.sendHour !== undefined && !isIntIn(update.sendHour, 0, 23)) {
+    return 'sendHour must be an integer from 0 to 23'
+  }
+  if (update.sendDay !== undefined && !isIntIn(update.sendDay, 0, 6)) {
+    return 'sendDay must be an integer from 0 (Sunday) to 6 (Saturday)'
+  }
+  if (update.papersPerDigest !== undefined && !isIntIn(update.papersPerDigest, 1, MAX_PAPERS_PER_DIGEST)) {
+    return `papersPerDigest must be an integer from 1 to ${MAX_PAPERS_PER_DIGEST}`
+  }
+  return null
+}
+
+/**
+ * Whether a user's digest should go out now
+ * Due once the local send hour has passed on a send day (every day, or sendDay for weekly) and
+ * no digest run was attempted yet that local day - so a missed cron run is caught up by the next
+ * one, but a run that found nothing to send isn't repeated (and charged) every hour
+ */
+export function isDigestDue(
+  preferences: DigestPreferences,
+  lastAttemptAt: Date | null | undefined,
+  now: Date = new Date()
+): boolean {
+  if (preferences.frequency === 'off') return false
+
+  const local = getZonedParts(now, preferences.timezone)
+  if (local.hour < preferences.sendHour) return false
+  if (preferences.frequency === 'weekly' && local.weekday !== preferences.sendDay) return false
+
+  if (!lastAttemptAt) return true
+  return getZonedParts(new Date(lastAttemptAt), preferences.timezone).date !== local.date
+}
@@ -0,0 +1,129 @@
+import fs from 'fs/promises'
+import path from 'path'
+import nodemailer from 'nodemailer'
+
+interface EmailConfig {
+  host: string
+  port: number
+  secure: boolean
+  auth: {
+    user: string
+    pass: string
+  }
+}
+
+/**
+ * A fully rendered email, ready to hand to the transport
+ */
+export interface OutgoingEmail {
+  from: string
+  to: string
+  subject: string
+  html: string
+  text: string
+  headers?: Record<string, string>
+}
+
+export interface DeliveryResult {
+  messageId: string
+  /** Where the message was written in file transport mode */
+  filePath?: string
+}
+
+/**
+ * EMAIL_TRANSPORT=file writes each message to EMAIL_FILE_DIR as an .eml file instead of sending it,
+ * so email flows can be exercised locally without an SMTP server
+ */
+export function isFileTransport(): boolean {
+  return process.env.EMAIL_TRANSPORT === 'file'
+}
+
+function getEmailFileDir(): string {
+  return process.env.EMAIL_FILE_DIR || path.join(process.cwd(), 'tmp', 'emails')
+}
+
+function getSmtpConfig(): EmailConfig {
+  return {
+    host: process.env.SMTP_HOST?.trim() || 'smtp.gmail.com',
+    port: parseInt(process.env.SMTP_PORT || '587', 10),
+    secure: process.env.SMTP_SECURE === 'true', // true for 465, false for other ports
+    auth: {
+      user: process.env.SMTP_USER?.trim() || '',
+      pass: process.env.SMTP_PASSWORD?.trim() || '',
+    },
+  }
+}
+
+/**
+ * Whether emails can actually be delivered (file transport, or SMTP credentials are set)
+ */
+export function isEmailTransportConfigured(): boolean {
+  if (isFileTransport()) return true
+  const { auth } = getSmtpConfig()
+  return !!auth.user && !!auth.pass
+}
+
+/**
+ * From header with a display name, e.g. "Research Paper Recommendations" <noreply@example.com>
+ */
+export function formatFromAddress(displayName: string): string {
+  const address = process.env.EMAIL_FROM || process.env.SMTP_USER || 'noreply@localhost'
+  return `"${displayName}" <${address}>`
+}
+
+/**
+ * Turn nodemailer's error codes into messages that say which setting to check
+ */
+function describeSmtpError(error: any, config: EmailConfig): Error {
+  if (error.code === 'EAUTH') {
+    return new Error('SMTP authentication failed. Please check your SMTP_USER and SMTP_PASSWORD.')
+  } else if (error.code === 'ECONNECTION') {
+    return new Error(`Could not connect to SMTP server ${config.host}:${config.port}. Please check SMTP_HOST and SMTP_PORT.`)
+  } else if (error.code === 'ETIMEDOUT') {
+    return new Error('SMTP connection timed out. Please check your network connection and SMTP settings.')
+  }
+  return error instanceof Error ? error : new Error(String(error))
+}
+
+async function deliverToFile(email: OutgoingEmail): Promise<DeliveryResult> {
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' })
+  const info = await transporter.sendMail(email)
+
+  const dir = getEmailFileDir()
+  await fs.mkdir(dir, { recursive: true })
+  const safeRecipient = email.to.replace(/[^a-zA-Z0-9@._-]/g, '_')
+  const filePath = path.join(dir, `${new Date().toISOString().replace(/[:.]/g, '-')}-${safeRecipient}.eml`)
+  await fs.writeFile(filePath, info.message as Buffer)
+
+  console.log(`Email to ${email.to} written to ${filePath}`)
+  return { messageId: info.messageId, filePath }
+}
+
+async function deliverViaSmtp(email: OutgoingEmail): Promise<DeliveryResult> {
+  const config = getSmtpConfig()
+  if (!config.auth.user || !config.auth.pass) {
+    throw new Error('SMTP credentials not configured. Set SMTP_USER and SMTP_PASSWORD, or EMAIL_TRANSPORT=file for local testing.')
+  }
+
+  const transporter = nodemailer.createTransport({
+    ...config,
+    // Add debug option in development
+    debug: process.env.NODE_ENV === 'development',
+    logger: process.env.NODE_ENV === 'development',
+  })
+
+  try {
+    const info = await transporter.sendMail(email)
+    return { messageId: info.messageId }
+  } catch (error: any) {
+    throw describeSmtpError(error, config)
+  }
+}
+
+/**
+ * Send one email through the configured transport
+ * Throws on failure - retrying is up to the caller (see the email outbox)
+ */
+export async function deliverEmail(email: OutgoingEmail): Promise<DeliveryResult> {
+  return isFileTransport() ? deliverToFile(email) : deliverViaSmtp(email)
+}
@@ -0,0 +1,140 @@
+import crypto from 'crypto'
+
+/**
+ * Envelope encryption for secrets stored in the database (e.g. users' Veritus API keys)
+ *
+ * Each value is encrypted with its own random data key (AES-256-GCM), and the data key is
+ * encrypted ("wrapped") with a versioned master key from FIELD_ENCRYPTION_KEYS. A database
+ * dump alone decrypts nothing, and the record's keyVersion says which master key to unwrap with,
+ * so old and new master keys can coexist while rows are rotated.
+ *
+ * FIELD_ENCRYPTION_KEYS is a comma-separated list of `<version>:<base64 32-byte key>`; new values
+ * use the highest version. A version 0 key derived from JWT_SECRET is always available for reading
+ * rows written before the keys were configured, but only encrypts new values outside production:
+ * in production, encrypting without FIELD_ENCRYPTION_KEYS throws.
+ */
+
+const ALGORITHM = 'aes-256-gcm'
+const IV_BYTES = 12
+const KEY_BYTES = 32
+
+export interface EncryptedField {
+  keyVersion: number
+  /** Data key encrypted with the master key: base64 of iv | auth tag | ciphertext */
+  wrappedKey: string
+  iv: string
+  tag: string
+  ciphertext: string
+}
+
+let cachedKeys: { raw: string | undefined; keys: Map<number, Buffer> } | null = null
+
+function loadMasterKeys(): Map<number, Buffer> {
+  const raw = process.env.FIELD_ENCRYPTION_KEYS
+  if (cachedKeys && cachedKeys.raw === raw) {
+    return cachedKeys.keys
+  }
+
+  const keys = new Map<number, Buffer>()
+  if (raw?.trim()) {
+    for (const entry of raw.split(',').map((e) => e.trim()).filter(Boolean)) {
+      const separator = entry.indexOf(':')
+      const version = Number(entry.slice(0, separator))
+      const key = Buffer.from(entry.slice(separator + 1), 'base64')
+      if (separator < 1 || !Number.isInteger(version) || version < 1) {
+        throw new Error('FIELD_ENCRYPTION_KEYS entries must look like "<version>:<base64 key>" with a version of 1 or more')
+      }
+      if (key.length !== KEY_BYTES) {
+        throw new Error(`FIELD_ENCRYPTION_KEYS key version ${version} must be ${KEY_BYTES} bytes (base64)`)
+      }
+      keys.set(version, key)
+    }
+  }
+
+  // Always readable, so values written before FIELD_ENCRYPTION_KEYS was set can still be rotated.
+  // Only used to encrypt in development (see getCurrentKeyVersion)
+  const jwtSecret = process.env.JWT_SECRET || 'your-secret-key-change-in-production'
+  keys.set(0, crypto.createHash('sha256').update(`field-encryption:${jwtSecret}`).digest())
+
+  cachedKeys = { raw, keys }
+  return keys
+}
+
+/**
+ * Version of the master key new values are encrypted with
+ * @throws In production when FIELD_ENCRYPTION_KEYS is not set
+ */
+export function getCurrentKeyVersion(): number {
+  const version = Math.max(...Array.from(loadMasterKeys().keys()))
+  if (version === 0 && process.env.NODE_ENV === 'production') {
+    throw new Error('FIELD_ENCRYPTION_KEYS must be set in production to encrypt stored secrets')
+  }
+  return version
+}
+
+function getMasterKey(version: number): Buffer {
+  const key = loadMasterKeys().get(version)
+  if (!key) {
+    throw new Error(`Encryption key version ${version} is not configured in FIELD_ENCRYPTION_KEYS`)
+  }
+  return key
+}
+
+function seal(key: Buffer, plaintext: Buffer, aad: string): { iv: Buffer; tag: Buffer; ciphertext: Buffer } {
+  const iv = crypto.randomBytes(IV_BYTES)
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv)
+  cipher.setAAD(Buffer.from(aad))
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()])
+  return { iv, tag: cipher.getAuthTag(), ciphertext }
+}
+
+function open(key: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer, aad: string): Buffer {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv)
+  decipher.setAAD(Buffer.from(aad))
+  decipher.setAuthTag(tag)
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()])
+}
+
+/**
+ * Encrypt a value with a fresh data key under the current master key
+ * @param aad Context the value belongs to (e.g. field name and owner ID); decrypting requires the
+ *   same string, so a ciphertext copied onto another row doesn't decrypt
+ */
+export function encryptField(plaintext: string, aad: string): EncryptedField {
+  const keyVersion = getCurrentKeyVersion()
+  const dataKey = crypto.randomBytes(KEY_BYTES)
+
+  const wrapped = seal(getMasterKey(keyVersion), dataKey, `${aad}:v${keyVersion}`)
+  const sealed = seal(dataKey, Buffer.from(plaintext, 'utf8'), aad)
+
+  return {
+    keyVersion,
+    wrappedKey: Buffer.concat([wrapped.iv, wrapped.tag, wrapped.ciphertext]).toString('base64'),
+    iv: sealed.iv.toString('base64'),
+    tag: sealed.tag.toString('base64'),
+    ciphertext: sealed.ciphertext.toString('base64'),
+  }
+}
+
+/**
+ * Decrypt a value from encryptField
+ * @throws If the master key version is missing, or the value or aad was tampered with
+ */
+export function decryptField(field: EncryptedField, aad: string): string {
+  const wrapped = Buffer.from(field.wrappedKey, 'base64')
+  const dataKey = open(
+    getMasterKey(field.keyVersion),
+    wrapped.subarray(0, IV_BYTES),
+    wrapped.subarray(IV_BYTES, IV_BYTES + 16),
+    wrapped.subarray(IV_BYTES + 16),
+    `${aad}:v${field.keyVersion}`
+  )
+
+  return open(
+    dataKey,
+    Buffer.from(field.iv, 'base64'),
+    Buffer.from(field.tag, 'base64'),
+    Buffer.from(field.ciphertext, 'base64'),
+    aad
+  ).toString('utf8')
+}
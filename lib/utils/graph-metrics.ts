@@ -0,0 +1,262 @@
+import { CitationNetwork } from '@/types/paper-api'
+import { CentralityMetric } from '@/types/graph-visualization'
+
+export const CENTRALITY_METRICS: CentralityMetric[] = [
+  'pageRank',
+  'betweenness',
+  'closeness',
+  'eigenvector',
+  'inDegree',
+  'outDegree',
+]
+
+export interface NodeCentrality {
+  /** Share of "attention" flowing along citations (sums to 1 over the network) */
+  pageRank: number
+  /** Fraction of shortest paths between other papers that pass through this one (0-1) */
+  betweenness: number
+  /** Inverse mean distance to the papers it can reach, scaled by how many it can reach (0-1) */
+  closeness: number
+  /** Connectedness to other well-connected papers, scaled so the top node is 1 */
+  eigenvector: number
+  /** Edges pointing at this paper (papers citing it) */
+  inDegree: number
+  /** Edges leaving this paper (papers it cites) */
+  outDegree: number
+}
+
+export interface CentralityOptions {
+  damping?: number
+  maxIterations?: number
+  tolerance?: number
+}
+
+interface IndexedGraph {
+  ids: string[]
+  /** Directed adjacency: source cites target */
+  out: number[][]
+  /** Same edges, ignoring direction */
+  undirected: number[][]
+  inDegree: number[]
+}
+
+function endpointId(endpoint: any): string {
+  // d3 force simulations replace edge endpoints with node objects
+  return typeof endpoint === 'string' ? endpoint : String(endpoint?.id ?? endpoint)
+}
+
+/**
+ * Index nodes and drop self-loops, duplicate edges and edges to unknown nodes
+ * Both "cites" and "references" edges point from the citing paper to the cited one
+ */
+function indexGraph(network: Pick<CitationNetwork, 'nodes' | 'edges'>): IndexedGraph {
+  const ids = network.nodes.map(node => node.id)
+  const index = new Map(ids.map((id, i) => [id, i]))
+  const out: number[][] = ids.map(() => [])
+  const undirected: number[][] = ids.map(() => [])
+  const inDegree: number[] = ids.map(() => 0)
+  const seen = new Set<string>()
+  const seenUndirected = new Set<string>()
+
+  for (const edge of network.edges || []) {
+    const source = index.get(endpointId(edge.source))
+    const target = index.get(endpointId(edge.target))
+    if (source === undefined || target === undefined || source === target) continue
+
+    const key = `${source}>${target}`
+    if (!seen.has(key)) {
+      seen.add(key)
+      out[source].push(target)
+      inDegree[target]++
+    }
+
+    const pairKey = source < target ? `${source}-${target}` : `${target}-${source}`
+    if (!seenUndirected.has(pairKey)) {
+      seenUndirected.add(pairKey)
+      undirected[source].push(target)
+      undirected[target].push(source)
+    }
+  }
+
+  return { ids, out, undirected, inDegree }
+}
+
+function pageRank(graph: IndexedGraph, damping: number, maxIterations: number, tolerance: number): number[] {
+  const n = graph.ids.length
+  let rank = new Array(n).fill(1 / n)
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    // Papers that cite nothing in the network spread their rank evenly
+    let danglingRank = 0
+    for (let i = 0; i < n; i++) {
+      if (graph.out[i].length === 0) danglingRank += rank[i]
+    }
+
+    const base = (1 - damping) / n + (damping * danglingRank) / n
+    const next = new Array(n).fill(base)
+    for (let i = 0; i < n; i++) {
+      const targets = graph.out[i]
+      if (targets.length === 0) continue
+      const share = (damping * rank[i]) / targets.length
+      for (const target of targets) {
+        next[target] += share
+      }
+    }
+
+    let delta = 0
+    for (let i = 0; i < n; i++) delta += Math.abs(next[i] - rank[i])
+    rank = next
+    if (delta < tolerance) break
+  }
+
+  return rank
+}
+
+/**
+ * Betweenness (Brandes) and closeness from one BFS per node over the undirected graph
+ */
+function pathCentralities(graph: IndexedGraph): { betweenness: number[]; closeness: number[] } {
+  const n = graph.ids.length
+  const betweenness = new Array(n).fill(0)
+  const closeness = new Array(n).fill(0)
+
+  for (let s = 0; s < n; s++) {
+    const stack: number[] = []
+    const predecessors: number[][] = Array.from({ length: n }, () => [])
+    const paths = new Array(n).fill(0)
+    const distance = new Array(n).fill(-1)
+    paths[s] = 1
+    distance[s] = 0
+
+    const queue = [s]
+    for (let head = 0; head < queue.length; head++) {
+      const v = queue[head]
+      stack.push(v)
+      for (const w of graph.undirected[v]) {
+        if (distance[w] < 0) {
+          distance[w] = distance[v] + 1
+          queue.push(w)
+        }
+        if (distance[w] === distance[v] + 1) {
+          paths[w] += paths[v]
+          predecessors[w].push(v)
+        }
+      }
+    }
+
+    // Wasserman-Faust closeness, so papers in small components don't look central
+    const reachable = queue.length - 1
+    if (reachable > 0 && n > 1) {
+      const totalDistance = queue.reduce((sum, v) => sum + distance[v], 0)
+      closeness[s] = (reachable / (n - 1)) * (reachable / totalDistance)
+    }
+
+    const dependency = new Array(n).fill(0)
+    while (stack.length > 0) {
+      const w = stack.pop()!
+      for (const v of predecessors[w]) {
+        dependency[v] += (paths[v] / paths[w]) * (1 + dependency[w])
+      }
+      if (w !== s) betweenness[w] += dependency[w]
+    }
+  }
+
+  // Each pair was counted from both ends; scale to the fraction of pairs
+  const pairs = ((n - 1) * (n - 2)) / 2
+  for (let i = 0; i < n; i++) {
+    betweenness[i] = pairs > 0 ? betweenness[i] / 2 / pairs : 0
+  }
+
+  return { betweenness, closeness }
+}
+
+/**
+ * Power iteration on the undirected graph
+ * Citation graphs are nearly acyclic, so directed eigenvector centrality would collapse to zero;
+ * iterating on A + I also keeps bipartite neighbourhoods from oscillating
+ */
+function eigenvectorCentrality(graph: IndexedGraph, maxIterations: number, tolerance: number): number[] {
+  const n = graph.ids.length
+  let scores = new Array(n).fill(1 / Math.sqrt(n))
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const next = scores.slice()
+    for (let i = 0; i < n; i++) {
+      for (const neighbor of graph.undirected[i]) {
+        next[i] += scores[neighbor]
+      }
+    }
+
+    const norm = Math.sqrt(next.reduce((sum, value) => sum + value * value, 0)) || 1
+    let delta = 0
+    for (let i = 0; i < n; i++) {
+      next[i] /= norm
+      delta += Math.abs(next[i] - scores[i])
+    }
+    scores = next
+    if (delta < tolerance * n) break
+  }
+
+  const max = Math.max(...scores)
+  return max > 0 ? scores.map(score => score / max) : scores
+}
+
+/**
+ * Compute centrality metrics for every node in a citation network
+ */
+export function computeCentralityMetrics(
+  network: Pick<CitationNetwork, 'nodes' | 'edges'>,
+  options: CentralityOptions = {}
+): Record<string, NodeCentrality> {
+  const { damping = 0.85, maxIterations = 100, tolerance = 1e-6 } = options
+  const graph = indexGraph(network)
+  if (graph.ids.length === 0) {
+    return {}
+  }
+
+  const ranks = pageRank(graph, damping, maxIterations, tolerance)
+  const { betweenness, closeness } = pathCentralities(graph)
+  const eigenvector = eigenvectorCentrality(graph, maxIterations, tolerance)
+
+  const metrics: Record<string, NodeCentrality> = {}
+  graph.ids.forEach((id, i) => {
+    metrics[id] = {
+      pageRank: ranks[i],
+      betweenness: betweenness[i],
+      closeness: closeness[i],
+      eigenvector: eigenvector[i],
+      inDegree: graph.inDegree[i],
+      outDegree: graph.out[i].length,
+    }
+  })
+  return metrics
+}
+
+/**
+ * Node ids ordered by a metric, highest first
+ */
+export function rankNodesBy(
+  metrics: Record<string, NodeCentrality>,
+  metric: CentralityMetric,
+  limit?: number
+): string[] {
+  const ranked = Object.keys(metrics).sort((a, b) => metrics[b][metric] - metrics[a][metric])
+  return limit !== undefined ? ranked.slice(0, limit) : ranked
+}
+
+/**
+ * Scale a metric to 0-1 across the network, for sizing nodes
+ */
+export function normalizeMetric(
+  metrics: Record<string, NodeCentrality>,
+  metric: CentralityMetric
+): Record<string, number> {
+  const values = Object.values(metrics).map(value => value[metric])
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  const normalized: Record<string, number> = {}
+  for (const [id, value] of Object.entries(metrics)) {
+    normalized[id] = max > min ? (value[metric] - min) / (max - min) : 0
+  }
+  return normalized
+}
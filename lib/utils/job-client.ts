@@ -0,0 +1,102 @@
+/**
+ * Job client utilities
+ * Follows jobs tracked by the server-side job runner. The server owns the Veritus polling,
+ * so these helpers only read the job store and can reattach to jobs after a page reload.
+ */
+
+import { VeritusPaper } from '@/types/veritus'
+
+export interface TrackedJob {
+  jobId: string
+  jobType: 'keywordSearch' | 'querySearch' | 'combinedSearch'
+  status: 'queued' | 'processing' | 'success' | 'error'
+  results?: VeritusPaper[]
+  resultCount: number
+  error?: string
+  chatId?: string
+  context?: Record<string, any>
+  createdAt: string
+  completedAt?: string
+  /** Set once the results are stored - by the job runner for chat searches, or by the client */
+  consumedAt?: string
+  isMocked?: boolean
+}
+
+interface WaitForJobOptions {
+  intervalMs?: number
+  signal?: AbortSignal
+}
+
+async function readJson(response: Response, fallbackError: string) {
+  const contentType = response.headers.get('content-type')
+  const isJson = !!contentType && contentType.includes('application/json')
+
+  if (!response.ok) {
+    if (isJson) {
+      const errorData = await response.json()
+      throw new Error(errorData.error || fallbackError)
+    }
+    throw new Error(`${fallbackError}: ${response.status} ${response.statusText}`)
+  }
+
+  if (!isJson) {
+    throw new Error('Invalid response format from job endpoint')
+  }
+
+  return response.json()
+}
+
+/**
+ * Wait until a job finishes and return it with its results
+ * There is no client-side timeout: the job runner expires jobs that never complete
+ * @throws Error if the job fails or polling is aborted
+ */
+export async function waitForJob(
+  jobId: string,
+  options: WaitForJobOptions = {}
+): Promise<TrackedJob> {
+  const { intervalMs = 2000, signal } = options
+
+  while (true) {
+    if (signal?.aborted) {
+      throw new Error('Job polling aborted')
+    }
+
+    const response = await fetch(`/api/veritus/job/${jobId}`, { signal })
+    const job: TrackedJob = await readJson(response, 'Failed to check job status')
+
+    if (job.status === 'success') {
+      return job
+    }
+    if (job.status === 'error') {
+      throw new Error(job.error || 'Job failed')
+    }
+
+    await new Promise(resolve => setTimeout(resolve, intervalMs))
+  }
+}
+
+/**
+ * List a chat's jobs that are still running or whose results were never consumed
+ */
+export async function fetchPendingJobs(chatId: string): Promise<TrackedJob[]> {
+  const response = await fetch(`/api/veritus/job?chatId=${encodeURIComponent(chatId)}`)
+  const data = await readJson(response, 'Failed to load pending jobs')
+  return data.jobs || []
+}
+
+/**
+ * Mark a job's results as consumed so reloads do not pick it up again
+ */
+export async function acknowledgeJob(jobId: string): Promise<void> {
+  try {
+    await fetch(`/api/veritus/job/${jobId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ consumed: true }),
+    })
+  } catch (error) {
+    // Not fatal - at worst the results are stored again on the next reload
+    console.error('Error acknowledging job:', error)
+  }
+}
@@ -0,0 +1,316 @@
+import { CitationNetwork, CitationNetworkNode, CitationNetworkEdge } from '@/types/paper-api'
+
+export type NetworkExportFormat = 'graphml' | 'gexf' | 'cytoscape' | 'csv-nodes' | 'csv-edges'
+
+export const NETWORK_EXPORT_FORMATS: NetworkExportFormat[] = ['graphml', 'gexf', 'cytoscape', 'csv-nodes', 'csv-edges']
+
+export interface NetworkExportFile {
+  content: string
+  contentType: string
+  extension: string
+}
+
+type AttributeValue = string | number | boolean | null
+type AttributeType = 'string' | 'double' | 'boolean'
+
+interface AttributeColumn {
+  name: string
+  type: AttributeType
+}
+
+// Node fields exported as attributes; `id` is the element id and `data` is flattened as paper_*
+const NODE_FIELDS: Array<keyof CitationNetworkNode> = [
+  'label',
+  'type',
+  'citations',
+  'references',
+  'isRoot',
+  'year',
+  'authors',
+  'score',
+  'weight',
+  'primaryKey',
+  'parentId',
+  'nodeType',
+  'level',
+  'expandable',
+]
+
+// Separator for list values (fields of study, shared keywords) - commas are common inside the values
+const LIST_SEPARATOR = '; '
+
+function endpointId(endpoint: any): string {
+  // d3 force simulations replace edge endpoints with node objects
+  return typeof endpoint === 'string' ? endpoint : String(endpoint?.id ?? endpoint)
+}
+
+function toAttributeValue(value: unknown): AttributeValue {
+  if (value === undefined || value === null) return null
+  if (Array.isArray(value)) return value.map(String).join(LIST_SEPARATOR)
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null
+  if (typeof value === 'boolean' || typeof value === 'string') return value
+  return JSON.stringify(value)
+}
+
+/**
+ * Flatten a value into prefixed attributes: { impactFactor: { citationCount } } → paper_impactFactor_citationCount
+ */
+function flattenInto(target: Record<string, AttributeValue>, prefix: string, value: unknown) {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    for (const [key, nested] of Object.entries(value as Record<string, unknown>)) {
+      flattenInto(target, `${prefix}_${key}`, nested)
+    }
+    return
+  }
+  target[prefix] = toAttributeValue(value)
+}
+
+function nodeAttributes(node: CitationNetworkNode): Record<string, AttributeValue> {
+  const attributes: Record<string, AttributeValue> = {}
+  for (const field of NODE_FIELDS) {
+    if (node[field] !== undefined) {
+      attributes[field] = toAttributeValue(node[field])
+    }
+  }
+  if (node.data) {
+    for (const [key, value] of Object.entries(node.data)) {
+      if (key !== 'id') flattenInto(attributes, `paper_${key}`, value)
+    }
+  }
+  return attributes
+}
+
+function edgeAttributes(edge: CitationNetworkEdge): Record<string, AttributeValue> {
+  const attributes: Record<string, AttributeValue> = {
+    type: edge.type,
+    weight: toAttributeValue(edge.weight),
+  }
+  for (const [key, value] of Object.entries(edge.metadata || {})) {
+    attributes[key] = toAttributeValue(value)
+  }
+  // Keep anything else callers attached to the edge (e.g. direction)
+  for (const [key, value] of Object.entries(edge)) {
+    if (!['source', 'target', 'type', 'weight', 'metadata'].includes(key) && !(key in attributes)) {
+      attributes[key] = toAttributeValue(value)
+    }
+  }
+  return attributes
+}
+
+/**
+ * Union of attribute names across rows, typed by the values seen (mixed types fall back to string)
+ */
+function collectColumns(rows: Array<Record<string, AttributeValue>>): AttributeColumn[] {
+  const types = new Map<string, AttributeType | null>()
+  for (const row of rows) {
+    for (const [name, value] of Object.entries(row)) {
+      const current = types.get(name) ?? null
+      if (value === null) {
+        if (!types.has(name)) types.set(name, null)
+        continue
+      }
+      const valueType: AttributeType =
+        typeof value === 'number' ? 'double' : typeof value === 'boolean' ? 'boolean' : 'string'
+      types.set(name, current === null || current === valueType ? valueType : 'string')
+    }
+  }
+  return Array.from(types.entries()).map(([name, type]) => ({ name, type: type || 'string' }))
+}
+
+function prepare(network: Pick<CitationNetwork, 'nodes' | 'edges'>) {
+  const nodeIds = new Set(network.nodes.map(node => node.id))
+  const nodes = network.nodes.map(node => ({ id: node.id, attributes: nodeAttributes(node) }))
+  const edges = (network.edges || [])
+    .map((edge, index) => ({
+      id: `e${index}`,
+      source: endpointId(edge.source),
+      target: endpointId(edge.target),
+      attributes: edgeAttributes(edge),
+    }))
+    // Gephi and Cytoscape reject edges to nodes that are not in the file
+    .filter(edge => nodeIds.has(edge.source) && nodeIds.has(edge.target))
+
+  return {
+    nodes,
+    edges,
+    nodeColumns: collectColumns(nodes.map(node => node.attributes)),
+    edgeColumns: collectColumns(edges.map(edge => edge.attributes)),
+  }
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // Control characters other than tab/newline are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+}
+
+function toGraphML(network: Pick<CitationNetwork, 'nodes' | 'edges'>): string {
+  const { nodes, edges, nodeColumns, edgeColumns } = prepare(network)
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+  ]
+
+  nodeColumns.forEach((column, i) => {
+    lines.push(`  <key id="n${i}" for="node" attr.name="${escapeXml(column.name)}" attr.type="${column.type}"/>`)
+  })
+  edgeColumns.forEach((column, i) => {
+    lines.push(`  <key id="e${i}" for="edge" attr.name="${escapeXml(column.name)}" attr.type="${column.type}"/>`)
+  })
+
+  lines.push('  <graph id="citation-network" edgedefault="directed">')
+  for (const node of nodes) {
+    lines.push(`    <node id="${escapeXml(node.id)}">`)
+    nodeColumns.forEach((column, i) => {
+      const value = node.attributes[column.name]
+      if (value !== null && value !== undefined) {
+        lines.push(`      <data key="n${i}">${escapeXml(String(value))}</data>`)
+      }
+    })
+    lines.push('    </node>')
+  }
+  for (const edge of edges) {
+    lines.push(`    <edge id="${edge.id}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">`)
+    edgeColumns.forEach((column, i) => {
+      const value = edge.attributes[column.name]
+      if (value !== null && value !== undefined) {
+        lines.push(`      <data key="e${i}">${escapeXml(String(value))}</data>`)
+      }
+    })
+    lines.push('    </edge>')
+  }
+  lines.push('  </graph>', '</graphml>')
+
+  return lines.join('\n')
+}
+
+function toGEXF(network: Pick<CitationNetwork, 'nodes' | 'edges'>): string {
+  const { nodes, edges, nodeColumns, edgeColumns } = prepare(network)
+  const gexfType = (type: AttributeType) => type === 'double' ? 'double' : type === 'boolean' ? 'boolean' : 'string'
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" version="1.3">',
+    `  <meta lastmodifieddate="${new Date().toISOString().slice(0, 10)}">`,
+    '    <creator>Veritus citation network export</creator>',
+    '  </meta>',
+    '  <graph mode="static" defaultedgetype="directed">',
+    '    <attributes class="node">',
+    ...nodeColumns.map((column, i) =>
+      `      <attribute id="n${i}" title="${escapeXml(column.name)}" type="${gexfType(column.type)}"/>`),
+    '    </attributes>',
+    '    <attributes class="edge">',
+    ...edgeColumns.map((column, i) =>
+      `      <attribute id="e${i}" title="${escapeXml(column.name)}" type="${gexfType(column.type)}"/>`),
+    '    </attributes>',
+    '    <nodes>',
+  ]
+
+  for (const node of nodes) {
+    const label = node.attributes.label ?? node.attributes.paper_title ?? node.id
+    lines.push(`      <node id="${escapeXml(node.id)}" label="${escapeXml(String(label))}">`)
+    lines.push('        <attvalues>')
+    nodeColumns.forEach((column, i) => {
+      const value = node.attributes[column.name]
+      if (value !== null && value !== undefined) {
+        lines.push(`          <attvalue for="n${i}" value="${escapeXml(String(value))}"/>`)
+      }
+    })
+    lines.push('        </attvalues>', '      </node>')
+  }
+  lines.push('    </nodes>', '    <edges>')
+
+  for (const edge of edges) {
+    const weight = typeof edge.attributes.weight === 'number' ? ` weight="${edge.attributes.weight}"` : ''
+    lines.push(`      <edge id="${edge.id}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}"${weight}>`)
+    lines.push('        <attvalues>')
+    edgeColumns.forEach((column, i) => {
+      const value = edge.attributes[column.name]
+      if (value !== null && value !== undefined) {
+        lines.push(`          <attvalue for="e${i}" value="${escapeXml(String(value))}"/>`)
+      }
+    })
+    lines.push('        </attvalues>', '      </edge>')
+  }
+  lines.push('    </edges>', '  </graph>', '</gexf>')
+
+  return lines.join('\n')
+}
+
+/**
+ * Cytoscape.js elements JSON (also imported by Cytoscape desktop as .cyjs)
+ */
+function toCytoscape(network: Pick<CitationNetwork, 'nodes' | 'edges'>): string {
+  const { nodes, edges } = prepare(network)
+  return JSON.stringify(
+    {
+      format_version: '1.0',
+      generated_by: 'veritus-citation-network',
+      data: { name: 'citation-network' },
+      elements: {
+        nodes: nodes.map(node => ({ data: { id: node.id, ...node.attributes } })),
+        edges: edges.map(edge => ({
+          data: { ...edge.attributes, id: edge.id, source: edge.source, target: edge.target },
+        })),
+      },
+    },
+    null,
+    2
+  )
+}
+
+function escapeCsv(value: AttributeValue | undefined): string {
+  if (value === null || value === undefined) return ''
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function toCsv(header: string[], rows: Array<Array<AttributeValue | undefined>>): string {
+  return [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n'
+}
+
+/**
+ * Node table - pairs with the edge table through the id column
+ */
+function toNodesCsv(network: Pick<CitationNetwork, 'nodes' | 'edges'>): string {
+  const { nodes, nodeColumns } = prepare(network)
+  return toCsv(
+    ['id', ...nodeColumns.map(column => column.name)],
+    nodes.map(node => [node.id, ...nodeColumns.map(column => node.attributes[column.name])])
+  )
+}
+
+function toEdgesCsv(network: Pick<CitationNetwork, 'nodes' | 'edges'>): string {
+  const { edges, edgeColumns } = prepare(network)
+  return toCsv(
+    ['id', 'source', 'target', ...edgeColumns.map(column => column.name)],
+    edges.map(edge => [edge.id, edge.source, edge.target, ...edgeColumns.map(column => edge.attributes[column.name])])
+  )
+}
+
+/**
+ * Serialize a citation network for Gephi (GraphML/GEXF), Cytoscape (JSON) or pandas/networkx (CSV)
+ */
+export function exportCitationNetwork(
+  network: Pick<CitationNetwork, 'nodes' | 'edges'>,
+  format: NetworkExportFormat
+): NetworkExportFile {
+  switch (format) {
+    case 'graphml':
+      return { content: toGraphML(network), contentType: 'application/graphml+xml', extension: 'graphml' }
+    case 'gexf':
+      return { content: toGEXF(network), contentType: 'application/gexf+xml', extension: 'gexf' }
+    case 'cytoscape':
+      return { content: toCytoscape(network), contentType: 'application/json', extension: 'cyjs' }
+    case 'csv-nodes':
+      return { content: toNodesCsv(network), contentType: 'text/csv', extension: 'nodes.csv' }
+    case 'csv-edges':
+      return { content: toEdgesCsv(network), contentType: 'text/csv', extension: 'edges.csv' }
+    default:
+      throw new Error(`Unsupported export format: ${format}`)
+  }
+}
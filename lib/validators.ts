@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { ACCESS_TOKEN_SCOPE_NAMES } from '@/lib/config/access-token-scopes'
 
 export const signupSchema = z.object({
   email: z.string().email('Invalid email address'),
@@ -12,6 +13,39 @@ export const loginSchema = z.object({
   password: z.string().min(1, 'Password is required'),
 })
 
+export const requestResetSchema = z.object({
+  email: z.string().email('Invalid email address'),
+})
+
+export const confirmResetSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  otp: z.string().length(6, 'Code must be 6 digits'),
+  password: z.string().min(6, 'Password must be at least 6 characters'),
+})
+
+export const createAccessTokenSchema = z.object({
+  name: z.string().trim().min(1, 'Token name is required').max(100, 'Token name must be at most 100 characters'),
+  scopes: z.array(z.enum(ACCESS_TOKEN_SCOPE_NAMES)).min(1, 'Select at least one scope'),
+  // null for a token that never expires
+  expiresInDays: z.number().int().min(1).max(365).nullable().default(90),
+})
+
+// null clears a limit; omitted leaves it unchanged
+const creditLimitSchema = z.number().positive('Budgets must be more than 0 credits').max(1_000_000).nullable().optional()
+
+export const creditBudgetSchema = z.object({
+  daily: creditLimitSchema,
+  monthly: creditLimitSchema,
+})
+
+export const userCreditBudgetSchema = creditBudgetSchema.extend({
+  email: z.string().email('Invalid email address'),
+})
+
 export type SignupInput = z.infer<typeof signupSchema>
 export type LoginInput = z.infer<typeof loginSchema>
-
+export type RequestResetInput = z.infer<typeof requestResetSchema>
+export type ConfirmResetInput = z.infer<typeof confirmResetSchema>
+export type CreateAccessTokenInput = z.infer<typeof createAccessTokenSchema>
+export type CreditBudgetInput = z.infer<typeof creditBudgetSchema>
+export type UserCreditBudgetInput = z.infer<typeof userCreditBudgetSchema>
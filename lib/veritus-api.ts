@@ -1,6 +1,15 @@
 import { VeritusPaper, VeritusJobResponse, VeritusJobStatus, VeritusCredits } from '@/types/veritus'
+import {
+  VeritusApiError,
+  VeritusUnavailableError,
+  createVeritusError,
+} from './veritus-errors'
+import { CassetteResponse, recordInteraction, replayInteraction } from './veritus-cassette'
+import { getVeritusMode } from '@/lib/config/mock-config'
 
 const VERITUS_BASE_URL = 'https://discover.veritus.ai/api'
+const DEFAULT_TIMEOUT_MS = 30 * 1000
+const MAX_RETRY_AFTER_MS = 60 * 1000 // Don't sleep longer than this on a Retry-After header
 const VERITUS_LOG_ENABLED =
   process.env.VERITUS_API_LOG === 'true' || process.env.DEBUG === 'true'
 
@@ -28,8 +37,242 @@ async function parseJsonSafe(response: Response) {
   }
 }
 
+export interface RetryOptions {
+  /** Number of retries after the first attempt */
+  retries: number
+  baseDelayMs: number
+  maxDelayMs: number
+}
+
 export interface VeritusApiOptions {
   apiKey: string
+  retry?: Partial<RetryOptions>
+  timeoutMs?: number
+}
+
+const DEFAULT_RETRY: RetryOptions = {
+  retries: parseInt(process.env.VERITUS_MAX_RETRIES || '3', 10),
+  baseDelayMs: 500,
+  maxDelayMs: 10 * 1000,
+}
+
+// Statuses that mean the API turned the request away without processing it, so even job creation
+// can be retried; 502 and 504 are left out since the gateway may have given up on a request the API
+// still completed
+const NON_IDEMPOTENT_RETRY_STATUSES = [429, 503]
+
+interface VeritusRequest {
+  /** Name used in logs, e.g. "getPaper" */
+  operation: string
+  url: string
+  method: 'GET' | 'POST'
+  body?: unknown
+  /** Extra fields for the request logs */
+  logContext?: Record<string, any>
+}
+
+/**
+ * Turn a Veritus error body into a readable message
+ * Handles plain strings, arrays of validation errors and nested error objects
+ */
+function extractErrorMessage(json: any, status: number): string {
+  if (!json) {
+    return `HTTP ${status}`
+  }
+  if (typeof json === 'string') {
+    return json
+  }
+
+  const joinMessages = (errors: any[]) => {
+    const messages = errors
+      .map((e: any) => {
+        if (typeof e === 'string') return e
+        if (e?.message) return e.message
+        if (e?.error) return typeof e.error === 'string' ? e.error : String(e.error)
+        return null
+      })
+      .filter(Boolean)
+    return messages.length > 0 ? messages.join('. ') : 'Validation error occurred'
+  }
+
+  if (Array.isArray(json)) {
+    // Handle array of error objects (e.g., validation errors)
+    return joinMessages(json)
+  }
+  if (json.error) {
+    // Handle nested error objects
+    if (Array.isArray(json.error)) {
+      return joinMessages(json.error)
+    }
+    return typeof json.error === 'string' ? json.error : JSON.stringify(json.error)
+  }
+  if (json.message) {
+    return String(json.message)
+  }
+  return `HTTP ${status}`
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined
+
+  const seconds = Number(header)
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(header)
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now())
+  }
+  return undefined
+}
+
+/**
+ * Exponential backoff with full jitter
+ */
+function getBackoffDelay(attempt: number, retry: RetryOptions): number {
+  const ceiling = Math.min(retry.maxDelayMs, retry.baseDelayMs * 2 ** attempt)
+  return Math.random() * ceiling
+}
+
+function shouldRetry(error: VeritusApiError, method: VeritusRequest['method']): boolean {
+  if (!error.retryable) return false
+  if (method === 'GET') return true
+  // A timed out or failed POST may have been processed - only retry when it certainly was not
+  return error.status !== undefined && NON_IDEMPOTENT_RETRY_STATUSES.includes(error.status)
+}
+
+/**
+ * Turn a live or replayed response into its JSON, or the error it stands for
+ */
+function settleResponse(response: CassetteResponse): any {
+  if (response.networkError) {
+    throw new VeritusUnavailableError(response.networkError)
+  }
+  if (response.status < 200 || response.status >= 300) {
+    throw createVeritusError(
+      response.status,
+      extractErrorMessage(response.body, response.status),
+      parseRetryAfter(response.retryAfter ?? null),
+      response.body
+    )
+  }
+  return response.body
+}
+
+/**
+ * Send a single request to Veritus, with a timeout
+ * Network failures come back as a networkError response so they can be recorded like any other
+ */
+async function fetchResponse(request: VeritusRequest, options: VeritusApiOptions): Promise<CassetteResponse> {
+  const controller = new AbortController()
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  const timeout = setTimeout(() => controller.abort(), timeoutMs)
+
+  let response: Response
+  try {
+    response = await fetch(request.url, {
+      method: request.method,
+      headers: {
+        'Authorization': `Bearer ${options.apiKey}`,
+        ...(request.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: request.body !== undefined ? JSON.stringify(request.body) : undefined,
+      signal: controller.signal,
+    })
+  } catch (error: any) {
+    const networkError = error?.name === 'AbortError'
+      ? `Veritus request timed out after ${timeoutMs}ms`
+      : `Unable to reach Veritus: ${error?.message || 'network error'}`
+    return { status: 0, body: null, networkError }
+  } finally {
+    clearTimeout(timeout)
+  }
+
+  return {
+    status: response.status,
+    body: await parseJsonSafe(response),
+    retryAfter: response.headers.get('retry-after'),
+  }
+}
+
+/**
+ * Run a single request against Veritus, or against a cassette when VERITUS_MODE says so
+ * @throws VeritusApiError subclass for HTTP errors, VeritusUnavailableError for network failures,
+ *   VeritusCassetteMissError when replaying a request the cassette doesn't have
+ */
+async function attemptRequest(request: VeritusRequest, options: VeritusApiOptions): Promise<any> {
+  const mode = getVeritusMode()
+  const cassetteRequest = { operation: request.operation, method: request.method, url: request.url, body: request.body }
+
+  if (mode.name === 'replay') {
+    return settleResponse(replayInteraction(mode.cassette, cassetteRequest))
+  }
+
+  const response = await fetchResponse(request, options)
+
+  if (mode.name === 'record') {
+    try {
+      await recordInteraction(mode.cassette, cassetteRequest, response)
+    } catch (error) {
+      // A failed recording shouldn't fail the live request
+      console.error(`[veritus-api] Failed to record ${request.operation} to cassette "${mode.cassette}":`, error)
+    }
+  }
+
+  return settleResponse(response)
+}
+
+/**
+ * Shared request layer for the Veritus API
+ * Retries rate limits and transient failures with exponential backoff, honouring Retry-After
+ */
+async function veritusRequest<T>(request: VeritusRequest, options: VeritusApiOptions): Promise<T> {
+  const retry = { ...DEFAULT_RETRY, ...options.retry }
+  const start = Date.now()
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const json = await attemptRequest(request, options)
+
+      logVeritusApi(`${request.operation}.success`, {
+        ...request.logContext,
+        url: request.url,
+        attempts: attempt + 1,
+        durationMs: Date.now() - start,
+        total: Array.isArray(json) ? json.length : undefined,
+        dataPreview: json,
+      })
+
+      return json as T
+    } catch (error: any) {
+      const retryAfterMs: number | undefined = error?.retryAfterMs
+      const canRetry =
+        error instanceof VeritusApiError &&
+        attempt < retry.retries &&
+        shouldRetry(error, request.method) &&
+        (retryAfterMs === undefined || retryAfterMs <= MAX_RETRY_AFTER_MS)
+
+      logVeritusApi(`${request.operation}.${canRetry ? 'retry' : 'error'}`, {
+        ...request.logContext,
+        url: request.url,
+        body: request.body,
+        attempt: attempt + 1,
+        status: error?.status,
+        durationMs: Date.now() - start,
+        error: error?.details ?? error?.message,
+      })
+
+      if (!canRetry) {
+        throw error
+      }
+
+      await new Promise(resolve => setTimeout(resolve, retryAfterMs ?? getBackoffDelay(attempt, retry)))
+    }
+  }
 }
 
 export interface SearchPapersParams {
@@ -63,40 +306,13 @@ export async function searchPapers(
   params: SearchPapersParams,
   options: VeritusApiOptions
 ): Promise<VeritusPaper[]> {
-  const start = Date.now()
   const url = new URL(`${VERITUS_BASE_URL}/v1/papers/search`)
   url.searchParams.set('title', params.title)
 
-  const response = await fetch(url.toString(), {
-    method: 'GET',
-    headers: {
-      'Authorization': `Bearer ${options.apiKey}`,
-    },
-  })
-
-  const json = await parseJsonSafe(response)
-
-  if (!response.ok) {
-    logVeritusApi('searchPapers.error', {
-      url: url.toString(),
-      params,
-      status: response.status,
-      durationMs: Date.now() - start,
-      error: json,
-    })
-    throw new Error((json as any)?.error || `HTTP ${response.status}`)
-  }
-
-  logVeritusApi('searchPapers.success', {
-    url: url.toString(),
-    params,
-    status: response.status,
-    durationMs: Date.now() - start,
-    total: Array.isArray(json) ? json.length : undefined,
-    dataPreview: Array.isArray(json) ? json : json,
-  })
-
-  return json as VeritusPaper[]
+  return veritusRequest<VeritusPaper[]>(
+    { operation: 'searchPapers', url: url.toString(), method: 'GET', logContext: { params } },
+    options
+  )
 }
 
 /**
@@ -106,34 +322,15 @@ export async function getPaper(
   corpusId: string,
   options: VeritusApiOptions
 ): Promise<VeritusPaper> {
-  const start = Date.now()
-  const response = await fetch(`${VERITUS_BASE_URL}/v1/papers/${corpusId}`, {
-    method: 'GET',
-    headers: {
-      'Authorization': `Bearer ${options.apiKey}`,
+  return veritusRequest<VeritusPaper>(
+    {
+      operation: 'getPaper',
+      url: `${VERITUS_BASE_URL}/v1/papers/${corpusId}`,
+      method: 'GET',
+      logContext: { corpusId },
     },
-  })
-
-  const json = await parseJsonSafe(response)
-
-  if (!response.ok) {
-    logVeritusApi('getPaper.error', {
-      corpusId,
-      status: response.status,
-      durationMs: Date.now() - start,
-      error: json,
-    })
-    throw new Error((json as any)?.error || `HTTP ${response.status}`)
-  }
-
-  logVeritusApi('getPaper.success', {
-    corpusId,
-    status: response.status,
-    durationMs: Date.now() - start,
-    dataPreview: json,
-  })
-
-  return json as VeritusPaper
+    options
+  )
 }
 
 /**
@@ -144,7 +341,6 @@ export async function createJob(
   body: CreateJobBody,
   options: VeritusApiOptions
 ): Promise<VeritusJobResponse> {
-  const start = Date.now()
   const url = new URL(`${VERITUS_BASE_URL}/v1/job/${params.jobType}`)
 
   // Add query parameters
@@ -158,80 +354,16 @@ export async function createJob(
   if (params.sort) url.searchParams.set('sort', params.sort)
   if (params.year) url.searchParams.set('year', params.year)
 
-  const response = await fetch(url.toString(), {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${options.apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(body),
-  })
-
-  const json = await parseJsonSafe(response)
-
-  if (!response.ok) {
-    logVeritusApi('createJob.error', {
-      jobType: params.jobType,
+  return veritusRequest<VeritusJobResponse>(
+    {
+      operation: 'createJob',
       url: url.toString(),
-      params,
+      method: 'POST',
       body,
-      status: response.status,
-      durationMs: Date.now() - start,
-      error: json,
-    })
-    // Extract error message properly to handle various error formats
-    let errorMessage = `HTTP ${response.status}`
-    if (json) {
-      if (typeof json === 'string') {
-        errorMessage = json
-      } else if (Array.isArray(json)) {
-        // Handle array of error objects (e.g., validation errors)
-        const errorMessages = json
-          .map((e: any) => {
-            if (typeof e === 'string') return e
-            if (e?.message) return e.message
-            if (e?.error) return typeof e.error === 'string' ? e.error : String(e.error)
-            return null
-          })
-          .filter(Boolean)
-        errorMessage = errorMessages.length > 0 
-          ? errorMessages.join('. ') 
-          : 'Validation error occurred'
-      } else if ((json as any)?.error) {
-        // Handle nested error objects
-        if (Array.isArray((json as any).error)) {
-          const errorMessages = (json as any).error
-            .map((e: any) => {
-              if (typeof e === 'string') return e
-              if (e?.message) return e.message
-              return null
-            })
-            .filter(Boolean)
-          errorMessage = errorMessages.length > 0 
-            ? errorMessages.join('. ') 
-            : 'Validation error occurred'
-        } else {
-          errorMessage = typeof (json as any).error === 'string' 
-            ? (json as any).error 
-            : JSON.stringify((json as any).error)
-        }
-      } else if ((json as any)?.message) {
-        errorMessage = String((json as any).message)
-      }
-    }
-    throw new Error(errorMessage)
-  }
-
-  logVeritusApi('createJob.success', {
-    jobType: params.jobType,
-    url: url.toString(),
-    params,
-    status: response.status,
-    durationMs: Date.now() - start,
-    dataPreview: json,
-  })
-
-  return json as VeritusJobResponse
+      logContext: { jobType: params.jobType, params },
+    },
+    options
+  )
 }
 
 /**
@@ -241,34 +373,15 @@ export async function getJobStatus(
   jobId: string,
   options: VeritusApiOptions
 ): Promise<VeritusJobStatus> {
-  const start = Date.now()
-  const response = await fetch(`${VERITUS_BASE_URL}/v1/job/${jobId}`, {
-    method: 'GET',
-    headers: {
-      'Authorization': `Bearer ${options.apiKey}`,
+  return veritusRequest<VeritusJobStatus>(
+    {
+      operation: 'getJobStatus',
+      url: `${VERITUS_BASE_URL}/v1/job/${jobId}`,
+      method: 'GET',
+      logContext: { jobId },
     },
-  })
-
-  const json = await parseJsonSafe(response)
-
-  if (!response.ok) {
-    logVeritusApi('getJobStatus.error', {
-      jobId,
-      status: response.status,
-      durationMs: Date.now() - start,
-      error: json,
-    })
-    throw new Error((json as any)?.error || `HTTP ${response.status}`)
-  }
-
-  logVeritusApi('getJobStatus.success', {
-    jobId,
-    status: response.status,
-    durationMs: Date.now() - start,
-    dataPreview: json,
-  })
-
-  return json as VeritusJobStatus
+    options
+  )
 }
 
 /**
@@ -277,31 +390,12 @@ export async function getJobStatus(
 export async function getCredits(
   options: VeritusApiOptions
 ): Promise<VeritusCredits> {
-  const start = Date.now()
-  const response = await fetch(`${VERITUS_BASE_URL}/v1/user/getCredits`, {
-    method: 'GET',
-    headers: {
-      'Authorization': `Bearer ${options.apiKey}`,
+  return veritusRequest<VeritusCredits>(
+    {
+      operation: 'getCredits',
+      url: `${VERITUS_BASE_URL}/v1/user/getCredits`,
+      method: 'GET',
     },
-  })
-
-  const json = await parseJsonSafe(response)
-
-  if (!response.ok) {
-    logVeritusApi('getCredits.error', {
-      status: response.status,
-      durationMs: Date.now() - start,
-      error: json,
-    })
-    throw new Error((json as any)?.error || `HTTP ${response.status}`)
-  }
-
-  logVeritusApi('getCredits.success', {
-    status: response.status,
-    durationMs: Date.now() - start,
-    dataPreview: json,
-  })
-
-  return json as VeritusCredits
+    options
+  )
 }
-
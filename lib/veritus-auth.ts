@@ -1,29 +1,31 @@
-import { getCurrentUser } from './auth'
 import connectDB from './db'
 import UserSettings from '@/models/UserSettings'
+import { readVeritusApiKey } from '@/lib/services/veritus-api-keys'
+import { isReplayMode } from '@/lib/config/mock-config'
 
 /**
- * Get Veritus API key for current user
- * Returns user's API key if set, otherwise falls back to environment variable
+ * Get Veritus API key for a user
+ * Returns user's API key if set (decrypted), otherwise falls back to environment variable
+ * Routes pass the user from getCurrentUser, so cookie and access token requests work alike;
+ * background work (job runner, cron) passes the job's user
  * When DEBUG=true, returns a dummy key to avoid errors (mock data will be used instead)
+ * When replaying a cassette the key is never sent, so a dummy one is returned too
  */
-export async function getVeritusApiKey(): Promise<string> {
-  // If DEBUG mode is enabled, return dummy key (mock data will be used)
+export async function getVeritusApiKeyForUser(userId: string): Promise<string> {
   if (process.env.DEBUG === 'true') {
     return 'debug-mode-dummy-key'
   }
-
-  const user = await getCurrentUser()
-  if (!user) {
-    throw new Error('Unauthorized')
+  if (isReplayMode()) {
+    return 'replay-mode-dummy-key'
   }
 
   await connectDB()
 
   // Try to get user's API key
-  const userSettings = await UserSettings.findOne({ userId: user.userId })
-  if (userSettings?.veritusApiKey) {
-    return userSettings.veritusApiKey
+  const userSettings = await UserSettings.findOne({ userId })
+  const userApiKey = userSettings ? readVeritusApiKey(userSettings) : null
+  if (userApiKey) {
+    return userApiKey
   }
 
   // Fallback to environment variable
@@ -34,4 +36,3 @@ export async function getVeritusApiKey(): Promise<string> {
 
   return envApiKey
 }
-
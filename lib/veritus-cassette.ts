@@ -0,0 +1,265 @@
+import fs from 'fs'
+import path from 'path'
+
+/**
+ * Record and replay of Veritus API traffic (VERITUS_MODE=record:<name> / replay:<name>)
+ *
+ * A cassette is a JSON file of request/response pairs captured by lib/veritus-api while talking to
+ * the real API. Replaying it serves the same responses without the network, so a session seen in
+ * production can be reproduced offline. Secrets are redacted before anything is written: the
+ * Authorization header is never stored, and any field or query parameter whose name looks like a
+ * key, token, secret or signature is replaced with "[REDACTED]".
+ *
+ * Requests are matched on method, URL and body. Identical requests (e.g. polling a job) are
+ * answered in the order they were recorded; once those run out the last response repeats.
+ */
+
+const CASSETTE_VERSION = 1
+const DEFAULT_CASSETTE_DIR = path.join(process.cwd(), 'lib', 'mock-data', 'cassettes')
+const REDACTED = '[REDACTED]'
+const SENSITIVE_KEY = /(api[-_]?key|authorization|token|secret|password|signature)/i
+// Differs for every job (it carries our job id) without changing what Veritus returns
+const IGNORED_BODY_FIELDS = ['callbackUrl']
+
+export interface CassetteRequest {
+  operation: string
+  method: 'GET' | 'POST'
+  url: string
+  body?: unknown
+}
+
+/**
+ * What Veritus answered, or the network failure in its place
+ */
+export interface CassetteResponse {
+  status: number
+  body: unknown
+  retryAfter?: string | null
+  /** Set when the request never got a response (timeout, DNS, connection reset) */
+  networkError?: string
+}
+
+export interface CassetteInteraction {
+  request: CassetteRequest
+  response: CassetteResponse
+  recordedAt: string
+}
+
+export interface Cassette {
+  version: number
+  name: string
+  createdAt: string
+  interactions: CassetteInteraction[]
+}
+
+/**
+ * A replayed request has no recording; thrown instead of falling back to the network
+ */
+export class VeritusCassetteMissError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'VeritusCassetteMissError'
+  }
+}
+
+interface ReplayState {
+  cassette: Cassette
+  byKey: Map<string, CassetteInteraction[]>
+  served: Map<string, number>
+}
+
+interface RecordState {
+  cassette: Cassette
+  /** Writes are chained so concurrent requests don't interleave partial files */
+  writes: Promise<void>
+}
+
+declare global {
+  var veritusCassettes: { replays: Map<string, ReplayState>; recordings: Map<string, RecordState> } | undefined
+}
+
+// Kept on global so a dev-server reload doesn't restart a recording or rewind a replay
+const state = global.veritusCassettes || { replays: new Map(), recordings: new Map() }
+
+if (!global.veritusCassettes) {
+  global.veritusCassettes = state
+}
+
+export function getCassettePath(name: string): string {
+  if (!/^[\w.-]+$/.test(name)) {
+    throw new Error(`Invalid cassette name "${name}"`)
+  }
+  return path.join(process.env.VERITUS_CASSETTE_DIR || DEFAULT_CASSETTE_DIR, `${name}.json`)
+}
+
+/**
+ * Copy of a JSON value with sensitive fields replaced, including query parameters of URLs in it
+ */
+export function redact(value: unknown): unknown {
+  if (typeof value === 'string' && /^https?:\/\//.test(value)) {
+    return redactUrl(value)
+  }
+  if (Array.isArray(value)) {
+    return value.map(redact)
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [key, SENSITIVE_KEY.test(key) ? REDACTED : redact(field)])
+    )
+  }
+  return value
+}
+
+function redactUrl(url: string): string {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return url
+  }
+  for (const key of Array.from(parsed.searchParams.keys())) {
+    if (SENSITIVE_KEY.test(key)) {
+      parsed.searchParams.set(key, REDACTED)
+    }
+  }
+  return parsed.toString()
+}
+
+function redactRequest(request: CassetteRequest): CassetteRequest {
+  return {
+    operation: request.operation,
+    method: request.method,
+    url: redactUrl(request.url),
+    ...(request.body !== undefined ? { body: redact(request.body) } : {}),
+  }
+}
+
+/**
+ * JSON with object keys sorted, so equal bodies give equal keys
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, field]) => field !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([key, field]) => `${JSON.stringify(key)}:${stableStringify(field)}`).join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+/**
+ * What a request is matched on: method, redacted URL and body without per-job fields
+ */
+function interactionKey(request: CassetteRequest): string {
+  const redacted = redactRequest(request)
+  let body = redacted.body
+  if (body && typeof body === 'object' && !Array.isArray(body)) {
+    body = Object.fromEntries(Object.entries(body).filter(([key]) => !IGNORED_BODY_FIELDS.includes(key)))
+  }
+  return `${redacted.method} ${redacted.url} ${body === undefined ? '' : stableStringify(body)}`
+}
+
+function readCassette(name: string): Cassette | null {
+  const file = getCassettePath(name)
+  if (!fs.existsSync(file)) {
+    return null
+  }
+
+  const cassette = JSON.parse(fs.readFileSync(file, 'utf8')) as Cassette
+  if (cassette.version !== CASSETTE_VERSION || !Array.isArray(cassette.interactions)) {
+    throw new Error(`Cassette ${file} is not a version ${CASSETTE_VERSION} Veritus cassette`)
+  }
+  return cassette
+}
+
+function loadReplay(name: string): ReplayState {
+  const existing = state.replays.get(name)
+  if (existing) {
+    return existing
+  }
+
+  const cassette = readCassette(name)
+  if (!cassette) {
+    throw new VeritusCassetteMissError(
+      `Veritus cassette "${name}" not found at ${getCassettePath(name)}. Record it first with VERITUS_MODE=record:${name}`
+    )
+  }
+
+  const byKey = new Map<string, CassetteInteraction[]>()
+  for (const interaction of cassette.interactions) {
+    const key = interactionKey(interaction.request)
+    byKey.set(key, [...(byKey.get(key) || []), interaction])
+  }
+
+  const replay = { cassette, byKey, served: new Map<string, number>() }
+  state.replays.set(name, replay)
+  return replay
+}
+
+/**
+ * The recorded response for a request
+ * @throws VeritusCassetteMissError if the cassette is missing or has no matching request
+ */
+export function replayInteraction(name: string, request: CassetteRequest): CassetteResponse {
+  const replay = loadReplay(name)
+  const key = interactionKey(request)
+  const recorded = replay.byKey.get(key)
+
+  if (!recorded) {
+    const sameOperation = replay.cassette.interactions
+      .filter((interaction) => interaction.request.operation === request.operation)
+      .map((interaction) => `  ${interactionKey(interaction.request)}`)
+    const known = Array.from(new Set(sameOperation)).slice(0, 5)
+    const message =
+      `No recorded Veritus response in cassette "${name}" for ${request.operation}:\n  ${key}\n` +
+      (known.length > 0 ? `Recorded ${request.operation} requests:\n${known.join('\n')}` : `The cassette has no ${request.operation} requests.`)
+    console.error(`[veritus-cassette] ${message}`)
+    throw new VeritusCassetteMissError(message)
+  }
+
+  const served = replay.served.get(key) || 0
+  replay.served.set(key, served + 1)
+  return recorded[Math.min(served, recorded.length - 1)].response
+}
+
+function writeCassette(file: string, cassette: Cassette): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true })
+  // Write then rename, so a crash never leaves half a cassette
+  const temp = `${file}.${process.pid}.tmp`
+  fs.writeFileSync(temp, JSON.stringify(cassette, null, 2) + '\n')
+  fs.renameSync(temp, file)
+}
+
+/**
+ * Append a request/response pair to a cassette, redacted
+ * The first recording into a cassette in this process replaces what the file held before, so
+ * re-recording a session doesn't mix old and new traffic
+ */
+export async function recordInteraction(
+  name: string,
+  request: CassetteRequest,
+  response: CassetteResponse
+): Promise<void> {
+  let recording = state.recordings.get(name)
+  if (!recording) {
+    recording = {
+      cassette: { version: CASSETTE_VERSION, name, createdAt: new Date().toISOString(), interactions: [] },
+      writes: Promise.resolve(),
+    }
+    state.recordings.set(name, recording)
+  }
+
+  recording.cassette.interactions.push({
+    request: redactRequest(request),
+    response: { ...response, body: redact(response.body) },
+    recordedAt: new Date().toISOString(),
+  })
+
+  const file = getCassettePath(name)
+  const cassette = recording.cassette
+  recording.writes = recording.writes.then(() => writeCassette(file, cassette))
+  await recording.writes
+}
@@ -0,0 +1,165 @@
+import { NextResponse } from 'next/server'
+
+/**
+ * Base class for errors returned by the Veritus API
+ * `status` is the HTTP status Veritus responded with (undefined for network failures and timeouts)
+ */
+export class VeritusApiError extends Error {
+  status?: number
+  details?: unknown
+  /** Whether the same request may succeed if tried again later */
+  retryable: boolean = false
+
+  constructor(message: string, status?: number, details?: unknown) {
+    super(message)
+    this.name = 'VeritusApiError'
+    this.status = status
+    this.details = details
+  }
+}
+
+/**
+ * The API key is missing, invalid or not allowed to make the request (401/403)
+ */
+export class VeritusAuthError extends VeritusApiError {
+  constructor(message: string, status?: number, details?: unknown) {
+    super(message, status, details)
+    this.name = 'VeritusAuthError'
+  }
+}
+
+/**
+ * The account has run out of credits (402)
+ */
+export class VeritusInsufficientCreditsError extends VeritusApiError {
+  constructor(message: string, status?: number, details?: unknown) {
+    super(message, status, details)
+    this.name = 'VeritusInsufficientCreditsError'
+  }
+}
+
+/**
+ * The request was rejected as invalid (400/422)
+ */
+export class VeritusValidationError extends VeritusApiError {
+  constructor(message: string, status?: number, details?: unknown) {
+    super(message, status, details)
+    this.name = 'VeritusValidationError'
+  }
+}
+
+/**
+ * The paper or job does not exist (404)
+ */
+export class VeritusNotFoundError extends VeritusApiError {
+  constructor(message: string, status?: number, details?: unknown) {
+    super(message, status, details)
+    this.name = 'VeritusNotFoundError'
+  }
+}
+
+/**
+ * Too many requests (429). `retryAfterMs` comes from the Retry-After header when present
+ */
+export class VeritusRateLimitError extends VeritusApiError {
+  retryAfterMs?: number
+  retryable = true
+
+  constructor(message: string, retryAfterMs?: number, details?: unknown) {
+    super(message, 429, details)
+    this.name = 'VeritusRateLimitError'
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+/**
+ * Veritus could not be reached, timed out or failed on its side (5xx)
+ */
+export class VeritusUnavailableError extends VeritusApiError {
+  retryAfterMs?: number
+  retryable = true
+
+  constructor(message: string, status?: number, retryAfterMs?: number, details?: unknown) {
+    super(message, status, details)
+    this.name = 'VeritusUnavailableError'
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+/**
+ * Build the typed error for a failed Veritus response
+ */
+export function createVeritusError(
+  status: number,
+  message: string,
+  retryAfterMs?: number,
+  details?: unknown
+): VeritusApiError {
+  if (status === 401 || status === 403) {
+    return new VeritusAuthError(message, status, details)
+  }
+  if (status === 402) {
+    return new VeritusInsufficientCreditsError(message, status, details)
+  }
+  if (status === 400 || status === 422) {
+    return new VeritusValidationError(message, status, details)
+  }
+  if (status === 404) {
+    return new VeritusNotFoundError(message, status, details)
+  }
+  if (status === 429) {
+    return new VeritusRateLimitError(message, retryAfterMs, details)
+  }
+  if (status >= 500) {
+    return new VeritusUnavailableError(message, status, retryAfterMs, details)
+  }
+  return new VeritusApiError(message, status, details)
+}
+
+/**
+ * HTTP status an API route should respond with for a Veritus error
+ * A rejected Veritus key is a 502, not a 401: clients treat 401 as their own session expiring
+ */
+export function getVeritusErrorStatus(error: VeritusApiError): number {
+  if (error instanceof VeritusAuthError) return 502
+  if (error instanceof VeritusInsufficientCreditsError) return 402
+  if (error instanceof VeritusValidationError) return 400
+  if (error instanceof VeritusNotFoundError) return 404
+  if (error instanceof VeritusRateLimitError) return 429
+  if (error instanceof VeritusUnavailableError) return 503
+  return 502
+}
+
+/**
+ * Machine-readable code sent with a Veritus error, so clients can tell its causes apart
+ */
+export function getVeritusErrorCode(error: VeritusApiError): string {
+  if (error instanceof VeritusAuthError) return 'VERITUS_AUTH'
+  if (error instanceof VeritusInsufficientCreditsError) return 'VERITUS_INSUFFICIENT_CREDITS'
+  if (error instanceof VeritusValidationError) return 'VERITUS_VALIDATION'
+  if (error instanceof VeritusNotFoundError) return 'VERITUS_NOT_FOUND'
+  if (error instanceof VeritusRateLimitError) return 'VERITUS_RATE_LIMIT'
+  if (error instanceof VeritusUnavailableError) return 'VERITUS_UNAVAILABLE'
+  return 'VERITUS_ERROR'
+}
+
+/**
+ * JSON error response for a Veritus error, or null if the error did not come from Veritus
+ * Rate limit and unavailable responses pass Retry-After through to the client
+ */
+export function veritusErrorResponse(error: unknown): NextResponse | null {
+  if (!(error instanceof VeritusApiError)) {
+    return null
+  }
+
+  const headers: Record<string, string> = {}
+  const retryAfterMs = (error as VeritusRateLimitError | VeritusUnavailableError).retryAfterMs
+  if (retryAfterMs !== undefined) {
+    headers['Retry-After'] = String(Math.ceil(retryAfterMs / 1000))
+  }
+
+  return NextResponse.json(
+    { error: error.message, code: getVeritusErrorCode(error) },
+    { status: getVeritusErrorStatus(error), headers }
+  )
+}
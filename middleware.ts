@@ -2,12 +2,24 @@ import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
 import { verifyTokenEdge } from './lib/auth-edge'
 
+/**
+ * Send a navigation with a missing or expired access token through /api/auth/refresh,
+ * which renews it from the refresh token cookie (checked against the session store) and comes back
+ */
+function redirectToRefresh(request: NextRequest) {
+  const refreshUrl = new URL('/api/auth/refresh', request.url)
+  refreshUrl.searchParams.set('next', request.nextUrl.pathname + request.nextUrl.search)
+  return NextResponse.redirect(refreshUrl)
+}
+
 export async function middleware(request: NextRequest) {
   const token = request.cookies.get('token')?.value
+  const hasRefreshToken = request.cookies.has('refresh_token')
   const { pathname } = request.nextUrl
 
   // Public routes that don't require authentication
-  const publicRoutes = ['/login', '/signup']
+  // (/email-preferences is authenticated by the signed token in its URL instead)
+  const publicRoutes = ['/login', '/signup', '/reset-password', '/email-preferences']
   const isPublicRoute = publicRoutes.some(route => pathname.startsWith(route))
 
   // If accessing public route, allow
@@ -26,6 +38,9 @@ export async function middleware(request: NextRequest) {
 
   // If no token and trying to access protected route, redirect to login
   if (!token) {
+    if (hasRefreshToken) {
+      return redirectToRefresh(request)
+    }
     console.log('Middleware: No token found, redirecting to login')
     const loginUrl = new URL('/login', request.url)
     return NextResponse.redirect(loginUrl)
@@ -34,6 +49,9 @@ export async function middleware(request: NextRequest) {
   // Verify token (using Edge-compatible verification)
   const payload = await verifyTokenEdge(token)
   if (!payload) {
+    if (hasRefreshToken) {
+      return redirectToRefresh(request)
+    }
     console.log('Middleware: Token verification failed')
     const loginUrl = new URL('/login', request.url)
     loginUrl.searchParams.set('error', 'invalid_token')
@@ -0,0 +1,67 @@
+import mongoose, { Schema, Model, Document } from 'mongoose'
+import { ACCESS_TOKEN_SCOPE_NAMES, AccessTokenScope } from '@/lib/config/access-token-scopes'
+
+/**
+ * A personal access token for scripts and CI, sent as `Authorization: Bearer <token>`
+ * Only a hash of the token is stored; it is shown to the user once, when created
+ */
+export interface IAccessToken extends Document {
+  userId: mongoose.Types.ObjectId
+  name: string
+  tokenHash: string
+  /** Start of the token, so users can tell their tokens apart */
+  tokenPrefix: string
+  scopes: AccessTokenScope[]
+  expiresAt?: Date | null
+  lastUsedAt?: Date | null
+  lastUsedIp?: string | null
+  createdAt: Date
+}
+
+const AccessTokenSchema = new Schema<IAccessToken>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true,
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  tokenPrefix: {
+    type: String,
+    required: true,
+  },
+  scopes: {
+    type: [{ type: String, enum: ACCESS_TOKEN_SCOPE_NAMES }],
+    required: true,
+  },
+  expiresAt: {
+    type: Date,
+    default: null,
+  },
+  lastUsedAt: {
+    type: Date,
+    default: null,
+  },
+  lastUsedIp: {
+    type: String,
+    default: null,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+})
+
+const AccessToken: Model<IAccessToken> =
+  mongoose.models.AccessToken || mongoose.model<IAccessToken>('AccessToken', AccessTokenSchema)
+
+export default AccessToken
@@ -0,0 +1,35 @@
+import mongoose, { Schema, Model, Document } from 'mongoose'
+
+/**
+ * When a bookmark was last searched for a user's digest, whether or not the search found papers
+ * to send - bookmark scheduling rotates on this, so a bookmark with nothing new still waits its turn
+ */
+export interface IBookmarkDigestUse extends Document {
+  userId: mongoose.Types.ObjectId
+  bookmarkPaperId: string
+  lastUsedAt: Date
+}
+
+const BookmarkDigestUseSchema = new Schema<IBookmarkDigestUse>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  bookmarkPaperId: {
+    type: String,
+    required: true,
+  },
+  lastUsedAt: {
+    type: Date,
+    required: true,
+  },
+})
+
+BookmarkDigestUseSchema.index({ userId: 1, bookmarkPaperId: 1 }, { unique: true })
+
+const BookmarkDigestUse: Model<IBookmarkDigestUse> =
+  mongoose.models.BookmarkDigestUse ||
+  mongoose.model<IBookmarkDigestUse>('BookmarkDigestUse', BookmarkDigestUseSchema)
+
+export default BookmarkDigestUse
@@ -29,6 +29,8 @@ export interface IChat extends Document {
   depth?: number
   isFavorite?: boolean
   chatMetadata?: ChatMetadata
+  /** Set once the papers embedded in this chat have been copied into the ChatPaper library */
+  papersMigratedAt?: Date
   createdAt: Date
   updatedAt: Date
 }
@@ -100,6 +102,9 @@ const ChatSchema = new Schema<IChat>({
       citationCounts: [],
     },
   },
+  papersMigratedAt: {
+    type: Date,
+  },
   createdAt: {
     type: Date,
     default: Date.now,
@@ -0,0 +1,107 @@
+import mongoose, { Schema, Model, Document } from 'mongoose'
+
+/**
+ * Why a paper entered a chat
+ * - root: the paper the chat was opened for
+ * - search / corpus / visualization / citation-network: returned by that paper API
+ * - similar: similar-paper search results
+ * - child: added under another paper in the citation tree (see parentCorpusId)
+ * - cache: paper details fetched while browsing the chat
+ * - import: imported from a bibliography file or DOI list
+ */
+export type ChatPaperSource =
+  | 'root'
+  | 'search'
+  | 'corpus'
+  | 'visualization'
+  | 'citation-network'
+  | 'similar'
+  | 'child'
+  | 'cache'
+  | 'import'
+
+export const CHAT_PAPER_SOURCES: ChatPaperSource[] = [
+  'root',
+  'search',
+  'corpus',
+  'visualization',
+  'citation-network',
+  'similar',
+  'child',
+  'cache',
+  'import',
+]
+
+/**
+ * Join between a chat and a paper in the shared Paper collection
+ * Records where (message, parent paper) and why (source) each paper entered the chat
+ */
+export interface IChatPaper extends Document {
+  chatId: mongoose.Types.ObjectId
+  userId: mongoose.Types.ObjectId
+  projectId?: mongoose.Types.ObjectId
+  corpusId: string
+  paper: mongoose.Types.ObjectId
+  source: ChatPaperSource
+  parentCorpusId?: string | null
+  messageId?: mongoose.Types.ObjectId
+  /** Position in the result list the paper came from */
+  rank?: number
+  addedAt: Date
+}
+
+const ChatPaperSchema = new Schema<IChatPaper>({
+  chatId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Chat',
+    required: true,
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  projectId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Project',
+    index: true,
+  },
+  corpusId: {
+    type: String,
+    required: true,
+  },
+  paper: {
+    type: Schema.Types.ObjectId,
+    ref: 'Paper',
+    required: true,
+  },
+  source: {
+    type: String,
+    enum: CHAT_PAPER_SOURCES,
+    required: true,
+  },
+  parentCorpusId: {
+    type: String,
+    default: null,
+  },
+  messageId: {
+    type: Schema.Types.ObjectId,
+  },
+  rank: {
+    type: Number,
+  },
+  addedAt: {
+    type: Date,
+    default: Date.now,
+  },
+})
+
+// A paper is recorded once per chat, source and parent
+ChatPaperSchema.index({ chatId: 1, corpusId: 1, source: 1, parentCorpusId: 1 }, { unique: true })
+ChatPaperSchema.index({ chatId: 1, source: 1, addedAt: 1 })
+ChatPaperSchema.index({ userId: 1, corpusId: 1 })
+
+const ChatPaper: Model<IChatPaper> =
+  mongoose.models.ChatPaper || mongoose.model<IChatPaper>('ChatPaper', ChatPaperSchema)
+
+export default ChatPaper
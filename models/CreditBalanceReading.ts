@@ -0,0 +1,44 @@
+import mongoose, { Schema, Model, Document } from 'mongoose'
+
+/**
+ * One read of an API key's Veritus balance. Written by lib/services/credit-ledger, at most every
+ * few minutes per key; the difference between two readings is compared with the ledger rows in
+ * between to measure what calls really cost.
+ */
+export interface ICreditBalanceReading extends Document {
+  /** Which API key was read (see apiKeyFingerprint) */
+  apiKeyFingerprint: string
+  /** Total (free + pro tier) balance */
+  balance: number
+  /** When the read was sent and when its answer came back; the balance is from somewhere in between */
+  requestedAt: Date
+  receivedAt: Date
+}
+
+const CreditBalanceReadingSchema = new Schema<ICreditBalanceReading>({
+  apiKeyFingerprint: {
+    type: String,
+    required: true,
+  },
+  balance: {
+    type: Number,
+    required: true,
+  },
+  requestedAt: {
+    type: Date,
+    required: true,
+  },
+  receivedAt: {
+    type: Date,
+    required: true,
+    index: { expireAfterSeconds: 30 * 24 * 60 * 60 }, // Auto-delete after 30 days
+  },
+})
+
+CreditBalanceReadingSchema.index({ apiKeyFingerprint: 1, requestedAt: -1 })
+
+const CreditBalanceReading: Model<ICreditBalanceReading> =
+  mongoose.models.CreditBalanceReading ||
+  mongoose.model<ICreditBalanceReading>('CreditBalanceReading', CreditBalanceReadingSchema)
+
+export default CreditBalanceReading
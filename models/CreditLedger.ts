@@ -0,0 +1,111 @@
+import mongoose, { Schema, Model, Document } from 'mongoose'
+import { CreditJobType, CreditOperation } from '@/lib/utils/credit-cost'
+
+/**
+ * One Veritus call that can spend credits (createJob, getPaper). Written by lib/services/credit-ledger.
+ * `estimatedCost` is what the call is charged at for usage and budgets. `cost` is measured from the
+ * periodic balance readings (see CreditBalanceReading) and only feeds later estimates; it is only
+ * set when the call was the one call on its API key between two readings.
+ */
+export interface ICreditLedger extends Document {
+  userId?: mongoose.Types.ObjectId | null
+  projectId?: mongoose.Types.ObjectId | null
+  chatId?: mongoose.Types.ObjectId | null
+  /** Which API key paid (see apiKeyFingerprint); measured costs are only compared within a key */
+  apiKeyFingerprint?: string | null
+  operation: CreditOperation
+  jobType?: CreditJobType | null
+  limit?: number | null
+  corpusId?: string | null
+  /** Our Job document, for createJob */
+  jobId?: mongoose.Types.ObjectId | null
+  /** Drop in balance between the readings around the call, never below 0 */
+  cost?: number | null
+  /** Expected cost when the call was made; the authoritative figure */
+  estimatedCost: number
+  /** 'reserved' while a budgeted search is being created (see reserveCreditUsage) */
+  status: 'reserved' | 'success' | 'error'
+  error?: string | null
+  /** When the call was made; createdAt is when it returned */
+  startedAt?: Date | null
+  createdAt: Date
+}
+
+const CreditLedgerSchema = new Schema<ICreditLedger>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    default: null,
+  },
+  projectId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Project',
+    default: null,
+  },
+  chatId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Chat',
+    default: null,
+  },
+  apiKeyFingerprint: {
+    type: String,
+    default: null,
+  },
+  operation: {
+    type: String,
+    enum: ['createJob', 'getPaper'],
+    required: true,
+  },
+  jobType: {
+    type: String,
+    enum: ['keywordSearch', 'querySearch', 'combinedSearch', null],
+    default: null,
+  },
+  limit: {
+    type: Number,
+    default: null,
+  },
+  corpusId: {
+    type: String,
+    default: null,
+  },
+  jobId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Job',
+    default: null,
+  },
+  cost: {
+    type: Number,
+    default: null,
+  },
+  estimatedCost: {
+    type: Number,
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: ['reserved', 'success', 'error'],
+    required: true,
+  },
+  error: {
+    type: String,
+    default: null,
+  },
+  startedAt: {
+    type: Date,
+    default: null,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+})
+
+CreditLedgerSchema.index({ userId: 1, createdAt: -1 })
+CreditLedgerSchema.index({ operation: 1, jobType: 1, limit: 1, apiKeyFingerprint: 1, createdAt: -1 })
+CreditLedgerSchema.index({ apiKeyFingerprint: 1, startedAt: 1 })
+
+const CreditLedger: Model<ICreditLedger> =
+  mongoose.models.CreditLedger || mongoose.model<ICreditLedger>('CreditLedger', CreditLedgerSchema)
+
+export default CreditLedger
@@ -0,0 +1,125 @@
+import mongoose, { Schema, Model, Document } from 'mongoose'
+
+export type EmailOutboxStatus = 'pending' | 'sending' | 'sent' | 'failed'
+
+/**
+ * One outgoing email and its delivery state
+ * Pending messages are retried with backoff by the email outbox worker; the rows double as the
+ * per-user delivery log
+ */
+export interface IEmailOutbox extends Document {
+  userId?: mongoose.Types.ObjectId
+  to: string
+  from: string
+  subject: string
+  /** Cleared once the message is sent or has permanently failed */
+  html?: string
+  text?: string
+  headers?: Record<string, string>
+  /** Name of the email template it was rendered from (see lib/email-templates) */
+  template: string
+  status: EmailOutboxStatus
+  attempts: number
+  maxAttempts: number
+  lastError?: string
+  nextAttemptAt: Date
+  /** When a worker claimed the message; used to recover messages stuck in 'sending' */
+  lockedAt?: Date
+  sentAt?: Date
+  messageId?: string
+  /** Set on messages carrying a one-time code: never delivered after this, and deleted by a TTL index */
+  expiresAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+const EmailOutboxSchema = new Schema<IEmailOutbox>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: false,
+  },
+  to: {
+    type: String,
+    required: true,
+  },
+  from: {
+    type: String,
+    required: true,
+  },
+  subject: {
+    type: String,
+    required: true,
+  },
+  html: {
+    type: String,
+  },
+  text: {
+    type: String,
+  },
+  headers: {
+    type: Schema.Types.Mixed,
+    required: false,
+  },
+  template: {
+    type: String,
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'sending', 'sent', 'failed'],
+    default: 'pending',
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+  },
+  maxAttempts: {
+    type: Number,
+    default: 8,
+  },
+  lastError: {
+    type: String,
+  },
+  nextAttemptAt: {
+    type: Date,
+    default: Date.now,
+  },
+  lockedAt: {
+    type: Date,
+  },
+  sentAt: {
+    type: Date,
+  },
+  messageId: {
+    type: String,
+  },
+  expiresAt: {
+    type: Date,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now,
+  },
+})
+
+// Worker lookup of messages that are due
+EmailOutboxSchema.index({ status: 1, nextAttemptAt: 1 })
+// Per-user delivery log
+EmailOutboxSchema.index({ userId: 1, createdAt: -1 })
+// Code emails are removed once the code has expired (rows without expiresAt are kept)
+EmailOutboxSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+
+EmailOutboxSchema.pre('save', function (next) {
+  this.updatedAt = new Date()
+  next()
+})
+
+const EmailOutbox: Model<IEmailOutbox> =
+  mongoose.models.EmailOutbox || mongoose.model<IEmailOutbox>('EmailOutbox', EmailOutboxSchema)
+
+export default EmailOutbox
@@ -0,0 +1,117 @@
+import mongoose, { Schema, Model, Document } from 'mongoose'
+
+export type JobType = 'keywordSearch' | 'querySearch' | 'combinedSearch'
+export type JobStatus = 'queued' | 'processing' | 'success' | 'error'
+
+export interface IJob extends Document {
+  userId: mongoose.Types.ObjectId
+  chatId?: mongoose.Types.ObjectId
+  jobType: JobType
+  params: Record<string, any>
+  body: Record<string, any>
+  /**
+   * Client-defined context used to resume post-processing after a reload
+   * (e.g. which tree node a similar-paper search was started from)
+   */
+  context?: Record<string, any>
+  veritusJobId?: string
+  status: JobStatus
+  results?: any[]
+  error?: string
+  attempts: number
+  lastPolledAt?: Date
+  /** Set when Veritus was given a callback URL; polling waits for the callback until it is overdue */
+  callbackRegisteredAt?: Date
+  callbackReceivedAt?: Date
+  completedAt?: Date
+  consumedAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+const JobSchema = new Schema<IJob>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true,
+  },
+  chatId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Chat',
+    required: false,
+  },
+  jobType: {
+    type: String,
+    enum: ['keywordSearch', 'querySearch', 'combinedSearch'],
+    required: true,
+  },
+  params: {
+    type: Schema.Types.Mixed,
+    default: {},
+  },
+  body: {
+    type: Schema.Types.Mixed,
+    default: {},
+  },
+  context: {
+    type: Schema.Types.Mixed,
+    required: false,
+  },
+  veritusJobId: {
+    type: String,
+    index: true,
+  },
+  status: {
+    type: String,
+    enum: ['queued', 'processing', 'success', 'error'],
+    default: 'queued',
+    index: true,
+  },
+  results: {
+    type: Schema.Types.Mixed,
+    required: false,
+  },
+  error: {
+    type: String,
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+  },
+  lastPolledAt: {
+    type: Date,
+  },
+  callbackRegisteredAt: {
+    type: Date,
+  },
+  callbackReceivedAt: {
+    type: Date,
+  },
+  completedAt: {
+    type: Date,
+  },
+  consumedAt: {
+    type: Date,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now,
+  },
+})
+
+// Lookup of a chat's jobs when the page reattaches after a reload
+JobSchema.index({ chatId: 1, userId: 1, createdAt: -1 })
+
+JobSchema.pre('save', function (next) {
+  this.updatedAt = new Date()
+  next()
+})
+
+const Job: Model<IJob> = mongoose.models.Job || mongoose.model<IJob>('Job', JobSchema)
+
+export default Job
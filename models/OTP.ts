@@ -1,10 +1,17 @@
 import mongoose, { Schema, Model, Document } from 'mongoose'
 
+export type OTPPurpose = 'signup' | 'password-reset'
+
 export interface IOTP extends Document {
   email: string
-  otp: string
+  /** HMAC of the code - the code itself is never stored (see lib/services/otp) */
+  codeHash: string
+  /** What the code may be used for - codes are only accepted for the purpose they were sent for */
+  purpose: OTPPurpose
   expiresAt: Date
   verified: boolean
+  /** Wrong guesses so far; the code stops working after OTP_MAX_ATTEMPTS */
+  attempts: number
   createdAt: Date
 }
 
@@ -16,10 +23,15 @@ const OTPSchema = new Schema<IOTP>({
     trim: true,
     index: true,
   },
-  otp: {
+  codeHash: {
     type: String,
     required: true,
   },
+  purpose: {
+    type: String,
+    enum: ['signup', 'password-reset'],
+    default: 'signup',
+  },
   expiresAt: {
     type: Date,
     required: true,
@@ -29,6 +41,10 @@ const OTPSchema = new Schema<IOTP>({
     type: Boolean,
     default: false,
   },
+  attempts: {
+    type: Number,
+    default: 0,
+  },
   createdAt: {
     type: Date,
     default: Date.now,
@@ -36,7 +52,7 @@ const OTPSchema = new Schema<IOTP>({
 })
 
 // Index for faster lookups
-OTPSchema.index({ email: 1, verified: 1 })
+OTPSchema.index({ email: 1, purpose: 1, verified: 1 })
 
 const OTP: Model<IOTP> = mongoose.models.OTP || mongoose.model<IOTP>('OTP', OTPSchema)
 
@@ -0,0 +1,41 @@
+import mongoose, { Schema, Model, Document } from 'mongoose'
+
+/**
+ * How many codes were requested for one email or IP in one fixed quota window (see reserveOTPSend
+ * in lib/services/otp), counted with atomic increments so concurrent requests can't overshoot
+ * Counted whether or not the email has an account, so quotas don't reveal which do
+ */
+export interface IOTPSendWindow extends Document {
+  /** What is limited and the window length, e.g. "email-hour:user@example.com" or "ip-hour:203.0.113.7" */
+  key: string
+  windowStart: Date
+  count: number
+  expiresAt: Date
+}
+
+const OTPSendWindowSchema = new Schema<IOTPSendWindow>({
+  key: {
+    type: String,
+    required: true,
+  },
+  windowStart: {
+    type: Date,
+    required: true,
+  },
+  count: {
+    type: Number,
+    default: 0,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+    index: { expireAfterSeconds: 0 }, // Auto-delete once the window is over
+  },
+})
+
+OTPSendWindowSchema.index({ key: 1, windowStart: 1 }, { unique: true })
+
+const OTPSendWindow: Model<IOTPSendWindow> =
+  mongoose.models.OTPSendWindow || mongoose.model<IOTPSendWindow>('OTPSendWindow', OTPSendWindowSchema)
+
+export default OTPSendWindow
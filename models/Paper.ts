@@ -0,0 +1,61 @@
+import mongoose, { Schema, Model, Document } from 'mongoose'
+import { VeritusPaper } from '@/types/veritus'
+
+/**
+ * Shared cache of Veritus papers, keyed by corpus ID (without the "corpus:" prefix) and DOI
+ * Not scoped to a user - paper metadata is the same for everyone
+ */
+export interface IPaper extends Document {
+  corpusId: string
+  doi?: string
+  title: string
+  data: VeritusPaper
+  fetchedAt: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+const PaperSchema = new Schema<IPaper>({
+  corpusId: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true,
+  },
+  doi: {
+    type: String,
+    lowercase: true,
+    trim: true,
+    index: true,
+    sparse: true,
+  },
+  title: {
+    type: String,
+    default: '',
+  },
+  data: {
+    type: Schema.Types.Mixed,
+    required: true,
+  },
+  fetchedAt: {
+    type: Date,
+    default: Date.now,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now,
+  },
+})
+
+PaperSchema.pre('save', function (next) {
+  this.updatedAt = new Date()
+  next()
+})
+
+const Paper: Model<IPaper> = mongoose.models.Paper || mongoose.model<IPaper>('Paper', PaperSchema)
+
+export default Paper
@@ -0,0 +1,75 @@
+import mongoose, { Schema, Model, Document } from 'mongoose'
+
+/**
+ * A paper sent to a user in a digest email, and why it was chosen
+ * Papers in this history are never recommended to the same user again
+ */
+export interface IPaperRecommendation extends Document {
+  userId: mongoose.Types.ObjectId
+  corpusId: string
+  title: string
+  /** The bookmark whose keywords found the paper */
+  bookmarkPaperId: string
+  bookmarkTitle: string
+  /** Keywords the search ran with */
+  keywords: string[]
+  /** Keywords that appear in the paper's title, abstract, TL;DR or fields of study */
+  matchedKeywords: string[]
+  /** Position in the search results */
+  rank: number
+  reason: string
+  recommendedAt: Date
+}
+
+const PaperRecommendationSchema = new Schema<IPaperRecommendation>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  corpusId: {
+    type: String,
+    required: true,
+  },
+  title: {
+    type: String,
+    default: '',
+  },
+  bookmarkPaperId: {
+    type: String,
+    required: true,
+  },
+  bookmarkTitle: {
+    type: String,
+    default: '',
+  },
+  keywords: {
+    type: [String],
+    default: [],
+  },
+  matchedKeywords: {
+    type: [String],
+    default: [],
+  },
+  rank: {
+    type: Number,
+    default: 0,
+  },
+  reason: {
+    type: String,
+    default: '',
+  },
+  recommendedAt: {
+    type: Date,
+    default: Date.now,
+  },
+})
+
+PaperRecommendationSchema.index({ userId: 1, corpusId: 1 }, { unique: true })
+PaperRecommendationSchema.index({ userId: 1, bookmarkPaperId: 1, recommendedAt: -1 })
+
+const PaperRecommendation: Model<IPaperRecommendation> =
+  mongoose.models.PaperRecommendation ||
+  mongoose.model<IPaperRecommendation>('PaperRecommendation', PaperRecommendationSchema)
+
+export default PaperRecommendation
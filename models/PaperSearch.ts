@@ -0,0 +1,38 @@
+import mongoose, { Schema, Model, Document } from 'mongoose'
+
+/**
+ * Cached title search: the corpus IDs Veritus returned for a normalized title, in order
+ * The papers themselves live in the Paper collection
+ */
+export interface IPaperSearch extends Document {
+  titleKey: string
+  corpusIds: string[]
+  fetchedAt: Date
+  expiresAt: Date
+}
+
+const PaperSearchSchema = new Schema<IPaperSearch>({
+  titleKey: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  corpusIds: {
+    type: [String],
+    default: [],
+  },
+  fetchedAt: {
+    type: Date,
+    default: Date.now,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+    index: { expireAfterSeconds: 0 }, // Auto-delete searches past their stale window
+  },
+})
+
+const PaperSearch: Model<IPaperSearch> =
+  mongoose.models.PaperSearch || mongoose.model<IPaperSearch>('PaperSearch', PaperSearchSchema)
+
+export default PaperSearch
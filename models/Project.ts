@@ -1,9 +1,13 @@
 import mongoose, { Schema, Model, Document } from 'mongoose'
+import { CreditBudget, CreditBudgetAlerts } from '@/lib/utils/credit-cost'
 
 export interface IProject extends Document {
   userId: mongoose.Types.ObjectId
   name: string
   description?: string
+  /** Credit limits for searches run in this project (see lib/services/credit-budgets) */
+  creditBudget?: CreditBudget
+  creditBudgetAlerts?: CreditBudgetAlerts
   createdAt: Date
 }
 
@@ -22,6 +26,14 @@ const ProjectSchema = new Schema<IProject>({
     type: String,
     trim: true,
   },
+  creditBudget: {
+    daily: { type: Number, min: 0, default: null },
+    monthly: { type: Number, min: 0, default: null },
+  },
+  creditBudgetAlerts: {
+    daily: { type: String, default: null },
+    monthly: { type: String, default: null },
+  },
   createdAt: {
     type: Date,
     default: Date.now,
@@ -0,0 +1,86 @@
+import mongoose, { Schema, Model, Document } from 'mongoose'
+
+/**
+ * One signed-in device
+ * The session ID is the `jti` of the short-lived access token, and the refresh token cookie
+ * (only its hash is stored) keeps the session alive - see lib/services/sessions
+ */
+export interface ISession extends Document {
+  sessionId: string
+  userId: mongoose.Types.ObjectId
+  userAgent?: string | null
+  ip?: string | null
+  refreshTokenHash: string
+  /** The refresh token replaced by the last rotation, accepted briefly for concurrent requests */
+  previousRefreshTokenHash?: string | null
+  rotatedAt?: Date | null
+  createdAt: Date
+  lastSeenAt: Date
+  /** Slides forward on every refresh; the document is deleted once it passes */
+  expiresAt: Date
+  revokedAt?: Date | null
+  revokedReason?: 'logout' | 'user' | 'logout-all' | 'password-reset' | 'refresh-reuse' | null
+}
+
+const SessionSchema = new Schema<ISession>({
+  sessionId: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true,
+  },
+  userAgent: {
+    type: String,
+    default: null,
+  },
+  ip: {
+    type: String,
+    default: null,
+  },
+  refreshTokenHash: {
+    type: String,
+    required: true,
+  },
+  previousRefreshTokenHash: {
+    type: String,
+    default: null,
+  },
+  rotatedAt: {
+    type: Date,
+    default: null,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+  lastSeenAt: {
+    type: Date,
+    default: Date.now,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+    index: { expireAfterSeconds: 0 }, // Auto-delete once expired
+  },
+  revokedAt: {
+    type: Date,
+    default: null,
+  },
+  revokedReason: {
+    type: String,
+    enum: ['logout', 'user', 'logout-all', 'password-reset', 'refresh-reuse', null],
+    default: null,
+  },
+})
+
+SessionSchema.index({ userId: 1, revokedAt: 1, lastSeenAt: -1 })
+
+const Session: Model<ISession> =
+  mongoose.models.Session || mongoose.model<ISession>('Session', SessionSchema)
+
+export default Session
@@ -1,5 +1,7 @@
 import mongoose, { Schema, Model, Document } from 'mongoose'
 import bcrypt from 'bcryptjs'
+import { DigestPreferences } from '@/types'
+import { CreditBudget, CreditBudgetAlerts } from '@/lib/utils/credit-cost'
 
 export interface Bookmark {
   paperId: string
@@ -23,8 +25,16 @@ export interface IUser extends Document {
   isAcademic: boolean
   bookmarks: Bookmark[]
   emailNotificationsEnabled: boolean
+  /** Digests are skipped until this date (set from the "pause for 30 days" email link) */
+  emailNotificationsPausedUntil?: Date | null
   emailNotificationHistory: EmailNotificationHistory[]
-  lastEmailSentDate?: Date // Track last daily email sent date
+  lastEmailSentDate?: Date // Track last digest email sent date
+  /** When the last digest run for this user started, whether or not it found papers to send */
+  lastDigestAttemptDate?: Date | null
+  digestPreferences?: Partial<DigestPreferences>
+  /** Credit limits for searches run by this user, across all their projects (set by admins) */
+  creditBudget?: CreditBudget
+  creditBudgetAlerts?: CreditBudgetAlerts
   createdAt: Date
   comparePassword(candidatePassword: string): Promise<boolean>
 }
@@ -74,6 +84,10 @@ const UserSchema = new Schema<IUser>({
     type: Boolean,
     default: true,
   },
+  emailNotificationsPausedUntil: {
+    type: Date,
+    default: null,
+  },
   emailNotificationHistory: {
     type: [
       {
@@ -87,6 +101,26 @@ const UserSchema = new Schema<IUser>({
     type: Date,
     default: null,
   },
+  lastDigestAttemptDate: {
+    type: Date,
+    default: null,
+  },
+  // Unset fields fall back to DEFAULT_DIGEST_PREFERENCES (see resolveDigestPreferences)
+  digestPreferences: {
+    frequency: { type: String, enum: ['daily', 'weekly', 'off'] },
+    timezone: { type: String, trim: true },
+    sendHour: { type: Number, min: 0, max: 23 },
+    sendDay: { type: Number, min: 0, max: 6 },
+    papersPerDigest: { type: Number, min: 1, max: 10 },
+  },
+  creditBudget: {
+    daily: { type: Number, min: 0, default: null },
+    monthly: { type: Number, min: 0, default: null },
+  },
+  creditBudgetAlerts: {
+    daily: { type: String, default: null },
+    monthly: { type: String, default: null },
+  },
   createdAt: {
     type: Date,
     default: Date.now,
@@ -1,8 +1,14 @@
 import mongoose, { Schema, Model, Document } from 'mongoose'
+import { EncryptedField } from '@/lib/utils/field-encryption'
 
 export interface IUserSettings extends Document {
   userId: mongoose.Types.ObjectId
+  /** Plain text key from before encryption; moved into veritusApiKeyEncrypted on rotation or next save */
   veritusApiKey?: string
+  /** Read and written through lib/services/veritus-api-keys, never directly */
+  veritusApiKeyEncrypted?: EncryptedField
+  /** Last 4 characters of the key, for display */
+  veritusApiKeyLast4?: string
   searchPreferences?: {
     defaultFieldsOfStudy?: string[]
     defaultLimit?: number
@@ -12,6 +18,17 @@ export interface IUserSettings extends Document {
   updatedAt: Date
 }
 
+const EncryptedFieldSchema = new Schema<EncryptedField>(
+  {
+    keyVersion: { type: Number, required: true },
+    wrappedKey: { type: String, required: true },
+    iv: { type: String, required: true },
+    tag: { type: String, required: true },
+    ciphertext: { type: String, required: true },
+  },
+  { _id: false }
+)
+
 const UserSettingsSchema = new Schema<IUserSettings>({
   userId: {
     type: Schema.Types.ObjectId,
@@ -23,6 +40,13 @@ const UserSettingsSchema = new Schema<IUserSettings>({
     type: String,
     trim: true,
   },
+  veritusApiKeyEncrypted: {
+    type: EncryptedFieldSchema,
+    default: undefined,
+  },
+  veritusApiKeyLast4: {
+    type: String,
+  },
   searchPreferences: {
     defaultFieldsOfStudy: [String],
     defaultLimit: {
@@ -44,6 +68,9 @@ const UserSettingsSchema = new Schema<IUserSettings>({
   },
 })
 
+// Rotation finds rows still on an old master key
+UserSettingsSchema.index({ 'veritusApiKeyEncrypted.keyVersion': 1 })
+
 UserSettingsSchema.pre('save', function (next) {
   this.updatedAt = new Date()
   next()
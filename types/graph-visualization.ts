@@ -2,6 +2,20 @@
 
 export type LayoutType = 'force' | 'hierarchical' | 'circular' | 'grid' | 'cluster'
 
+export type CentralityMetric =
+  | 'pageRank'
+  | 'betweenness'
+  | 'closeness'
+  | 'eigenvector'
+  | 'inDegree'
+  | 'outDegree'
+
+/**
+ * What node radius represents: 'default' follows node weight / sort criteria,
+ * anything else is a centrality metric from /api/citation-network/metrics
+ */
+export type NodeSizeMetric = 'default' | CentralityMetric
+
 export interface FilterState {
   minCitations?: number
   maxCitations?: number
@@ -15,7 +29,7 @@ export interface FilterState {
 
 export interface ClusterConfig {
   enabled: boolean
-  type: 'year' | 'citations' | 'type' | 'none'
+  type: 'year' | 'citations' | 'type' | 'community' | 'none'
   yearRange?: number // Group by this many years
   citationRanges?: Array<{ min: number; max: number; label: string }>
 }
@@ -31,3 +31,19 @@ export interface Chat {
   updatedAt: Date
 }
 
+
+export type DigestFrequency = 'daily' | 'weekly' | 'off'
+
+/**
+ * When and how much a user's paper digest email sends
+ */
+export interface DigestPreferences {
+  frequency: DigestFrequency
+  /** IANA time zone, e.g. "Europe/Berlin" */
+  timezone: string
+  /** Local hour (0-23) from which the digest is sent */
+  sendHour: number
+  /** Local day of week for weekly digests (0 = Sunday) */
+  sendDay: number
+  papersPerDigest: number
+}
@@ -62,6 +62,11 @@ export interface CitationNetworkEdge {
   source: string
   target: string
   type: 'cites' | 'cited_by'
+  /**
+   * 'unknown' when the papers are known to be linked but not which one cites the other
+   * (e.g. parent/child pairs from the citation tree). Absent means the direction is known.
+   */
+  direction?: 'known' | 'unknown'
 }
 
 export interface CitationNetwork {